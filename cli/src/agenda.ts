@@ -0,0 +1,136 @@
+import { formatDate, formatDateTime, parseDate, parseDateTime, resolveTimeZone, shiftDate } from './dates.js';
+import type { CommandResult } from './types.js';
+
+/**
+ * `calendar agenda|day|week`: fetch the events of one or more calendars for
+ * a run of days, group them by local day and attach the overlaps reported
+ * by events.conflicts. Rendering lives in output.ts ('calendar.agenda').
+ */
+
+export type CalendarCall = (action: string, params: Record<string, any>) => Promise<CommandResult>;
+
+export type AgendaView = 'agenda' | 'day' | 'week';
+
+export interface AgendaOptions {
+  view: AgendaView;
+  /** Day to show, or a day in the week to show (day and week views). */
+  date?: string;
+  /** Number of days from today (agenda view). */
+  days?: number;
+  calendarIds?: string[];
+  /** Merge every calendar from calendars.list. */
+  allCalendars?: boolean;
+  timeZone?: string;
+  now?: Date;
+}
+
+export interface AgendaCalendar {
+  id: string;
+  summary: string;
+  color: string | null;
+}
+
+export const DEFAULT_AGENDA_DAYS = 7;
+export const MAX_AGENDA_DAYS = 62;
+
+const EVENTS_PAGE_SIZE = 250;
+
+/** The first day and number of days a view covers. */
+export function agendaDays(options: AgendaOptions): string[] {
+  const dateOptions = { timeZone: options.timeZone, now: options.now };
+  let first = parseDate(options.date ?? 'today', dateOptions);
+  let count = 1;
+  if (options.view === 'week') {
+    // Weeks start on Monday.
+    const weekday = new Date(`${first}T00:00:00Z`).getUTCDay();
+    first = shiftDate(first, -((weekday + 6) % 7));
+    count = 7;
+  } else if (options.view === 'agenda') {
+    count = options.days ?? DEFAULT_AGENDA_DAYS;
+    if (!Number.isInteger(count) || count < 1 || count > MAX_AGENDA_DAYS) {
+      throw new Error(`--days must be a whole number from 1 to ${MAX_AGENDA_DAYS}`);
+    }
+  }
+  return Array.from({ length: count }, (_, i) => shiftDate(first, i));
+}
+
+/**
+ * Build the view. Calendars are looked up in calendars.list only when
+ * several are merged, for their names and colours.
+ */
+export async function buildAgenda(call: CalendarCall, options: AgendaOptions): Promise<CommandResult> {
+  const timeZone = resolveTimeZone(options.timeZone);
+  const days = agendaDays({ ...options, timeZone });
+  const timeMin = formatDateTime(parseDateTime(days[0], { timeZone }), timeZone);
+  const timeMax = formatDateTime(parseDateTime(days[days.length - 1], { timeZone, end: true }), timeZone);
+
+  const requested = options.calendarIds?.length ? options.calendarIds : ['primary'];
+  let calendars: AgendaCalendar[] = requested.map(id => ({ id, summary: id, color: null }));
+  if (options.allCalendars || requested.length > 1) {
+    const list = await call('calendars.list', {});
+    if (!list.ok) return list;
+    const known: any[] = list.data.calendars ?? [];
+    const describe = (c: any): AgendaCalendar => ({ id: c.id, summary: c.summary || c.id, color: c.backgroundColor || null });
+    calendars = options.allCalendars
+      ? known.map(describe)
+      : requested.map(id => {
+        const match = known.find(c => c.id === id || (id === 'primary' && c.primary));
+        return match ? { ...describe(match), id } : { id, summary: id, color: null };
+      });
+  }
+
+  const events: any[] = [];
+  for (const calendar of calendars) {
+    let pageToken: string | undefined;
+    do {
+      const page = await call('events.list', { calendarId: calendar.id, timeMin, timeMax, max: EVENTS_PAGE_SIZE, pageToken });
+      if (!page.ok) return page;
+      for (const event of page.data.events ?? []) {
+        if (event.status !== 'cancelled') events.push({ ...event, calendarId: calendar.id });
+      }
+      pageToken = page.data.nextPageToken || undefined;
+    } while (pageToken);
+  }
+
+  const conflicts = await call('events.conflicts', { calendarIds: calendars.map(c => c.id), start: timeMin, end: timeMax });
+  if (!conflicts.ok) return conflicts;
+  const overlaps: any[] = conflicts.data.overlaps ?? [];
+  const overlapsWith = new Map<string, string[]>();
+  for (const { eventIds: [a, b] } of overlaps) {
+    overlapsWith.set(a, [...(overlapsWith.get(a) ?? []), b]);
+    overlapsWith.set(b, [...(overlapsWith.get(b) ?? []), a]);
+  }
+
+  const byDay = days.map(date => ({ date, events: [] as any[] }));
+  for (const event of events) {
+    const [first, last] = eventDays(event, timeZone);
+    for (const day of byDay) {
+      if (day.date >= first && day.date <= last) day.events.push({ ...event, overlapsWith: overlapsWith.get(event.eventId) ?? [] });
+    }
+  }
+  for (const day of byDay) {
+    day.events.sort((a, b) => Number(b.allDay) - Number(a.allDay) || Date.parse(a.start) - Date.parse(b.start));
+  }
+
+  return {
+    ok: true,
+    data: {
+      view: options.view,
+      timeZone,
+      today: formatDate(options.now ?? new Date(), timeZone),
+      timeMin,
+      timeMax,
+      calendars,
+      days: byDay,
+      overlaps,
+    },
+  };
+}
+
+/** First and last local day an event covers (all-day ends are exclusive). */
+function eventDays(event: any, timeZone: string): [string, string] {
+  if (event.allDay) return [event.start, shiftDate(event.end ?? shiftDate(event.start, 1), -1)];
+  const start = new Date(event.start);
+  const end = new Date(Math.max(start.getTime(), Date.parse(event.end ?? event.start) - 1));
+  return [formatDate(start, timeZone), formatDate(end, timeZone)];
+}
@@ -1,4 +1,4 @@
-import type { CommandResult, GProxyConfig } from './types.js';
+import type { BatchItem, CommandResult, GProxyConfig } from './types.js';
 import { createToken } from './jwt.js';
 
 const DEFAULT_TIMEOUT = 330_000; // 5.5 minutes
@@ -7,6 +7,8 @@ const BASE_DELAY = 1000;
 const MAX_DELAY = 30_000;
 const JITTER_MAX = 500;
 
+export const MAX_BATCH_SIZE = 100; // must match MAX_BATCH_SIZE_ in proxy/Router.gs
+
 const NON_RETRYABLE_CODES = new Set([
   'AUTH_FAILED',
   'IP_BLOCKED',
@@ -14,12 +16,40 @@ const NON_RETRYABLE_CODES = new Set([
   'NOT_FOUND',
 ]);
 
+/**
+ * Actions that are safe to send twice: reads (matched by their last name
+ * segment, e.g. `events.list`) and label changes, which end the same
+ * however often they run.
+ */
+const REPEATABLE_ACTIONS = new Set([
+  'get', 'list', 'search', 'read', 'cat', 'raw', 'export', 'download', 'freebusy', 'health',
+  'members', 'messageSearch', 'conflicts', 'instances', 'info', 'status', 'changes', 'find',
+  'download.chunk', 'thread.modify',
+]);
+
+export function isRepeatableAction(action: string): boolean {
+  return REPEATABLE_ACTIONS.has(action) || REPEATABLE_ACTIONS.has(action.slice(action.lastIndexOf('.') + 1));
+}
+
 interface ExecuteOptions {
   timeout?: number;
   maxRetries?: number;
   verbose?: boolean;
 }
 
+/**
+ * Build the JSON body doPost() expects, with a fresh single-use JWT.
+ */
+export function buildRequestBody(
+  service: string,
+  action: string,
+  params: Record<string, any>,
+  secret: string
+): string {
+  const jwt = createToken(secret);
+  return JSON.stringify({ jwt, service, action, params });
+}
+
 export async function executeCommand(
   service: string,
   action: string,
@@ -44,8 +74,7 @@ export async function executeCommand(
       await new Promise(resolve => setTimeout(resolve, waitMs));
     }
 
-    const jwt = createToken(config.secret);
-    const body = JSON.stringify({ jwt, service, action, params });
+    const body = buildRequestBody(service, action, params, config.secret);
 
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), timeout);
@@ -123,3 +152,167 @@ export async function executeCommand(
     },
   };
 }
+
+export interface PaginateOptions {
+  /** Stop once this many items have been collected. */
+  limit?: number;
+  /** Called with each page's items; when set, items are not accumulated in the result. */
+  onPage?: (items: any[]) => void;
+}
+
+/**
+ * The array field holding the items of each listing, keyed by `service.action`.
+ * Paging merges this field and the record output modes read their rows from it;
+ * other arrays in a response (a label's children, an event's attendees, the
+ * label names next to gmail filters) are never taken for the listing.
+ */
+const LIST_KEYS: Record<string, string> = {
+  // Gmail
+  'gmail.search': 'threads',
+  'gmail.messageSearch': 'messages',
+  'gmail.get': 'messages',
+  'gmail.read': 'messages',
+  'gmail.triage': 'threads',
+  'gmail.local.search': 'messages',
+  'gmail.labels.list': 'labels',
+  'gmail.snooze.list': 'snoozed',
+  'gmail.drafts.list': 'drafts',
+  'gmail.attachments.download': 'attachments',
+  'gmail.settings.filters.list': 'filters',
+  'gmail.settings.forwarding': 'forwardingAddresses',
+  'gmail.settings.sendAs': 'sendAs',
+  'gmail.settings.delegates': 'delegates',
+  // Calendar
+  'calendar.events.list': 'events',
+  'calendar.events.instances': 'events',
+  'calendar.events.conflicts': 'conflicts',
+  'calendar.calendars.list': 'calendars',
+  'calendar.acl.list': 'rules',
+  'calendar.agenda': 'days',
+  'calendar.find-time': 'slots',
+  // Drive
+  'drive.list': 'files',
+  'drive.search': 'files',
+  'drive.drives.list': 'drives',
+  'drive.permissions.list': 'permissions',
+  'drive.comments.list': 'comments',
+  // Sheets and Slides
+  'sheets.get': 'sheets',
+  'slides.get': 'slides',
+  // Tasks
+  'tasks.tasklists.list': 'tasklists',
+  'tasks.list': 'tasks',
+  // Contacts and People
+  'contacts.list': 'contacts',
+  'contacts.search': 'contacts',
+  'contacts.other.list': 'contacts',
+  'contacts.other.search': 'contacts',
+  'people.search': 'people',
+  // Chat
+  'chat.spaces.list': 'spaces',
+  'chat.spaces.find': 'spaces',
+  'chat.messages.list': 'messages',
+  // Classroom
+  'classroom.courses.list': 'courses',
+  'classroom.coursework.list': 'coursework',
+  'classroom.announcements.list': 'announcements',
+  'classroom.submissions.list': 'submissions',
+  // Groups
+  'groups.list': 'groups',
+  'groups.members': 'members',
+  // Admin
+  'admin.ip.list': 'ips',
+};
+
+/**
+ * The list field of an action's response (e.g. `files`, `tasks`, `spaces`), or
+ * undefined when the action answers with a single record.
+ */
+export function listKey(service: string, action: string): string | undefined {
+  return LIST_KEYS[`${service}.${action}`];
+}
+
+/**
+ * Execute a paged list action, following `nextPageToken` until the listing is
+ * exhausted or `limit` items were collected. Each page goes through
+ * executeCommand, so retries apply per page. Returns the merged listing, or the
+ * first page error.
+ */
+export async function executePaginated(
+  service: string,
+  action: string,
+  params: Record<string, any>,
+  config: GProxyConfig,
+  options?: ExecuteOptions,
+  paginate?: PaginateOptions
+): Promise<CommandResult> {
+  const limit = paginate?.limit;
+  const collected: any[] = [];
+  let total = 0;
+  let pageToken: string | undefined = params.pageToken;
+  let lastData: Record<string, any> = {};
+  const key = listKey(service, action);
+  const seenTokens = new Set<string>();
+
+  for (;;) {
+    const pageParams: Record<string, any> = { ...params, pageToken };
+    if (limit !== undefined && typeof params.max === 'number') {
+      pageParams.max = Math.min(params.max, limit - total);
+    }
+
+    const result = await executeCommand(service, action, pageParams, config, options);
+    if (!result.ok) return result;
+
+    lastData = result.data ?? {};
+    let items: any[] = key ? lastData[key] ?? [] : [];
+    if (limit !== undefined && total + items.length > limit) {
+      items = items.slice(0, limit - total);
+    }
+    total += items.length;
+
+    if (paginate?.onPage) {
+      paginate.onPage(items);
+    } else {
+      collected.push(...items);
+    }
+
+    pageToken = lastData.nextPageToken || undefined;
+    if (!pageToken || seenTokens.has(pageToken)) {
+      pageToken = undefined;
+      break;
+    }
+    if (limit !== undefined && total >= limit) break;
+    seenTokens.add(pageToken);
+  }
+
+  const data: Record<string, any> = { ...lastData, count: total, nextPageToken: pageToken ?? null };
+  if (key) data[key] = collected;
+  return { ok: true, data };
+}
+
+/**
+ * Send up to MAX_BATCH_SIZE requests in one round trip. The JWT is verified
+ * once; `data.results` holds one CommandResult per item, in order. A failed
+ * round trip may have run some items, so it is only retried when every
+ * item is repeatable (see isRepeatableAction); a batch with sends or
+ * creates fails on the first error instead.
+ */
+export async function executeBatch(
+  items: BatchItem[],
+  config: GProxyConfig,
+  options?: ExecuteOptions
+): Promise<CommandResult> {
+  if (items.length === 0 || items.length > MAX_BATCH_SIZE) {
+    return {
+      ok: false,
+      error: {
+        code: 'INVALID_REQUEST',
+        message: `Batch must contain 1-${MAX_BATCH_SIZE} items (got ${items.length})`,
+        retryable: false,
+      },
+    };
+  }
+  const requests = items.map(({ service, action, params }) => ({ service, action, params: params ?? {} }));
+  const repeatable = items.every(item => isRepeatableAction(item.action));
+  return executeCommand('_batch', 'run', { requests }, config, repeatable ? options : { ...options, maxRetries: 0 });
+}
@@ -3,8 +3,10 @@ import { executeCommand } from '../client.js';
 import { loadConfig } from '../config.js';
 import { printResult, getExitCode } from '../output.js';
 import type { GlobalOptions, OutputMode } from '../types.js';
+import { getOutputOptions } from './helpers.js';
 
 function getOutputMode(opts: GlobalOptions): OutputMode {
+  if (opts.output) return opts.output;
   if (opts.json) return 'json';
   if (opts.plain) return 'plain';
   return 'human';
@@ -28,7 +30,7 @@ async function run(
     maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
     verbose: globalOpts.verbose,
   });
-  printResult(result, getOutputMode(globalOpts), 'admin', action);
+  printResult(result, getOutputMode(globalOpts), 'admin', action, getOutputOptions(globalOpts));
   process.exitCode = getExitCode(result);
 }
 
@@ -0,0 +1,104 @@
+import fs from 'node:fs';
+import { Command } from 'commander';
+import { executeBatch, MAX_BATCH_SIZE } from '../client.js';
+import { loadConfig } from '../config.js';
+import { formatError, getExitCode } from '../output.js';
+import type { BatchItem } from '../types.js';
+import { getGlobalOpts } from './helpers.js';
+
+interface BatchLine extends BatchItem {
+  id?: string | number;
+}
+
+function parseBatchFile(content: string): BatchLine[] {
+  const items: BatchLine[] = [];
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${i + 1}: invalid JSON`);
+    }
+    if (!parsed || typeof parsed.service !== 'string' || typeof parsed.action !== 'string') {
+      throw new Error(`Line ${i + 1}: expected {"service": ..., "action": ..., "params": {...}}`);
+    }
+    if (parsed.params !== undefined && (typeof parsed.params !== 'object' || Array.isArray(parsed.params))) {
+      throw new Error(`Line ${i + 1}: params must be an object`);
+    }
+    items.push(parsed);
+  }
+  return items;
+}
+
+export function registerBatchCommand(program: Command): void {
+  program
+    .command('batch <file>')
+    .description('Run NDJSON {service, action, params} lines in batched round trips ("-" reads stdin)')
+    .option('--chunk-size <n>', `Requests per round trip (max ${MAX_BATCH_SIZE})`, '50')
+    .action(async (file: string, opts: any, cmd: Command) => {
+      const chunkSize = Number(opts.chunkSize);
+      if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_BATCH_SIZE) {
+        process.stderr.write(`Error: --chunk-size must be between 1 and ${MAX_BATCH_SIZE}\n`);
+        process.exitCode = 1;
+        return;
+      }
+
+      let items: BatchLine[];
+      try {
+        const content = fs.readFileSync(file === '-' ? 0 : file, 'utf-8');
+        items = parseBatchFile(content);
+      } catch (err: any) {
+        process.stderr.write(`Error: ${err.message}\n`);
+        process.exitCode = 1;
+        return;
+      }
+      if (items.length === 0) {
+        process.stderr.write('Error: no requests found\n');
+        process.exitCode = 1;
+        return;
+      }
+
+      const globalOpts = getGlobalOpts(cmd);
+      const config = loadConfig(globalOpts);
+      let failed = 0;
+
+      for (let start = 0; start < items.length; start += chunkSize) {
+        const chunk = items.slice(start, start + chunkSize);
+        const result = await executeBatch(chunk, config, {
+          timeout: globalOpts.timeout ? Number(globalOpts.timeout) : undefined,
+          maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
+          verbose: globalOpts.verbose,
+        });
+
+        if (!result.ok) {
+          // Whole round trip rejected (auth, IP, network) — later chunks would fail the same way
+          process.stderr.write(formatError(result.error!) + '\n');
+          process.stderr.write(`Stopped after ${start} of ${items.length} requests\n`);
+          process.exitCode = getExitCode(result);
+          return;
+        }
+
+        const results: any[] = result.data?.results ?? [];
+        chunk.forEach((item, i) => {
+          const itemResult = results[i] ?? {
+            ok: false,
+            error: { code: 'SERVICE_ERROR', message: 'Missing result from proxy', retryable: true },
+          };
+          if (!itemResult.ok) failed++;
+          const line: Record<string, any> = { service: item.service, action: item.action, ...itemResult };
+          if (item.id !== undefined) line.id = item.id;
+          delete line.requestId;
+          process.stdout.write(JSON.stringify(line) + '\n');
+        });
+      }
+
+      if (failed > 0) {
+        process.stderr.write(`${failed} of ${items.length} requests failed\n`);
+        process.exitCode = 1;
+      }
+    });
+}
@@ -1,5 +1,126 @@
+import fs from 'node:fs';
+import { select } from '@inquirer/prompts';
 import { Command } from 'commander';
-import { run } from './helpers.js';
+import { buildAgenda, DEFAULT_AGENDA_DAYS } from '../agenda.js';
+import type { AgendaOptions, CalendarCall } from '../agenda.js';
+import { executeCommand } from '../client.js';
+import { loadConfig } from '../config.js';
+import { eventTimes, parseDuration, resolveTimeZone, timeWindow } from '../dates.js';
+import { DEFAULT_FIND_TIME_MAX, FIND_TIME_PREFERENCES, findTime, slotLabel } from '../findtime.js';
+import { fetchIcsEvents, importIcs, parseIcs, serializeIcs } from '../ics.js';
+import type { IcsEvent } from '../ics.js';
+import { printResult, getExitCode } from '../output.js';
+import { parseExdates, RECURRENCE_SCOPES, recurrenceLines } from '../recurrence.js';
+import type { CommandResult, GlobalOptions } from '../types.js';
+import { DEFAULT_WATCH_BEFORE, DEFAULT_WATCH_INTERVAL, runWatchHook, WATCH_STATE_FILE, watchCalendars } from '../watch.js';
+import type { WatchNotice } from '../watch.js';
+import {
+  choiceOption, getGlobalOpts, getOutputMode, getOutputOptions, reportOptionError, run, runPaged, withPagination,
+} from './helpers.js';
+
+const SEND_UPDATES = ['all', 'externalOnly', 'none'];
+const VISIBILITY = ['default', 'public', 'private', 'confidential'];
+const ACL_ROLES = ['freeBusyReader', 'reader', 'writer', 'owner'];
+const ACL_SCOPE_TYPES = ['user', 'group', 'domain', 'default'];
+const MAX_REMINDERS = 5;
+const MAX_REMINDER_MINUTES = 40_320;
+const SCOPE_HELP = 'For a recurring event: this occurrence, this and following, or the whole series';
+
+/**
+ * Options shared by the agenda, day and week views.
+ */
+function withViewOptions(command: Command): Command {
+  return command
+    .option('--calendar <ids>', 'Calendar IDs to merge (comma-separated)', 'primary')
+    .option('--all-calendars', 'Merge every calendar in your list, colour-coded')
+    .option('--timezone <tz>', 'Time zone for days and times (default: system zone)');
+}
+
+/**
+ * Options that make an event repeat, shared by create and update.
+ */
+function withRecurrenceOptions(command: Command): Command {
+  return command
+    .option('--repeat <rule>', 'Repeat, e.g. "weekly on mon,wed until 2026-12-31", "every 2 weeks", "monthly on the 15th 6 times" or none')
+    .option('--rrule <rule>', 'Repeat with a raw RRULE instead (e.g. FREQ=WEEKLY;BYDAY=MO,WE)')
+    .option('--exdate <dates>', 'Days to leave out of the series (comma-separated)');
+}
+
+/**
+ * Meet link, reminders, attachments and guest permissions, shared by
+ * create and update.
+ */
+function withEventExtras(command: Command): Command {
+  return command
+    .option('--meet', 'Add a Google Meet link')
+    .option('--no-meet', 'Remove the video conference')
+    .option('--reminder <list>', 'Reminders, e.g. popup:10m,email:1d (or default, or none)')
+    .option('--attach <fileIds>', 'Attach Drive files (comma-separated file IDs)')
+    .option('--guests-can-modify', 'Let guests change the event')
+    .option('--no-guests-can-modify', 'Only organizers can change the event')
+    .option('--guests-can-invite-others', 'Let guests invite others')
+    .option('--no-guests-can-invite-others', 'Only organizers can invite');
+}
+
+/** The proxy params for the options added by withEventExtras(). */
+function eventExtras(opts: any): Record<string, any> {
+  return {
+    meet: opts.meet,
+    ...(opts.reminder !== undefined ? parseReminders(opts.reminder) : {}),
+    attachments: opts.attach ? opts.attach.split(',').map((id: string) => id.trim()).filter(Boolean) : undefined,
+    guestsCanModify: opts.guestsCanModify,
+    guestsCanInviteOthers: opts.guestsCanInviteOthers,
+  };
+}
+
+/** --reminder popup:10m,email:1d → [{ method, minutes }]; "default" and "none" too. */
+function parseReminders(value: string): { reminders?: { method: string; minutes: number }[]; useDefaultReminders?: boolean } {
+  const text = value.trim().toLowerCase();
+  if (text === 'default') return { useDefaultReminders: true };
+  if (text === 'none') return { reminders: [] };
+  const reminders = text.split(',').map(part => {
+    const match = /^(popup|email):(.+)$/.exec(part.trim());
+    if (!match) throw new Error(`Invalid --reminder "${part.trim()}"; use e.g. popup:10m,email:1d, default or none`);
+    const minutes = match[2].trim() === '0' ? 0 : parseDuration(match[2]) / 60_000;
+    if (!Number.isInteger(minutes) || minutes < 0 || minutes > MAX_REMINDER_MINUTES) {
+      throw new Error(`Invalid --reminder "${part.trim()}"; give whole minutes up to 4 weeks before the start`);
+    }
+    return { method: match[1], minutes };
+  });
+  if (reminders.length > MAX_REMINDERS) throw new Error(`At most ${MAX_REMINDERS} reminders per event`);
+  return { reminders };
+}
+
+/**
+ * A calendar action caller for commands that make several requests.
+ */
+function calendarCall(globalOpts: GlobalOptions): CalendarCall {
+  const config = loadConfig(globalOpts);
+  const clientOptions = {
+    timeout: globalOpts.timeout ? Number(globalOpts.timeout) : undefined,
+    maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
+    verbose: globalOpts.verbose,
+  };
+  return (action, params) => executeCommand('calendar', action, params, config, clientOptions);
+}
+
+async function runView(cmd: Command, options: Omit<AgendaOptions, 'calendarIds' | 'allCalendars' | 'timeZone'>): Promise<void> {
+  const opts = cmd.opts();
+  const globalOpts = getGlobalOpts(cmd);
+  let result: CommandResult;
+  try {
+    result = await buildAgenda(calendarCall(globalOpts), {
+      ...options,
+      calendarIds: opts.calendar.split(',').map((id: string) => id.trim()).filter(Boolean),
+      allCalendars: opts.allCalendars,
+      timeZone: opts.timezone,
+    });
+  } catch (err) {
+    return reportOptionError(err);
+  }
+  printResult(result, getOutputMode(globalOpts), 'calendar', 'agenda', getOutputOptions(globalOpts));
+  process.exitCode = getExitCode(result);
+}
 
 export function registerCalendarCommands(program: Command): void {
   const cal = program
@@ -12,23 +133,30 @@ export function registerCalendarCommands(program: Command): void {
     .command('events')
     .description('Calendar event operations');
 
-  events
-    .command('list')
+  withPagination(events.command('list'))
     .description('List upcoming events')
     .option('--calendar <id>', 'Calendar ID', 'primary')
     .option('--max <n>', 'Maximum results', '25')
-    .option('--time-min <datetime>', 'Start time (ISO 8601)')
-    .option('--time-max <datetime>', 'End time (ISO 8601)')
+    .option('--time-min <when>', 'Start time (e.g. today, "monday 9am", or a range like today..friday)')
+    .option('--time-max <when>', 'End time (a date means the end of that day)')
+    .option('--timezone <tz>', 'Time zone for the times (default: system zone)')
     .option('--query <text>', 'Free-text search')
     .option('--order-by <field>', 'Order by (startTime or updated)', 'startTime')
+    .option('--page-token <token>', 'Pagination token')
     .action(async (opts: any, cmd: Command) => {
-      await run(cmd, 'calendar', 'events.list', {
+      let window: { timeMin?: string; timeMax?: string };
+      try {
+        window = timeWindow(opts.timeMin, opts.timeMax, { timeZone: opts.timezone });
+      } catch (err) {
+        return reportOptionError(err);
+      }
+      await runPaged(cmd, 'calendar', 'events.list', {
         calendarId: opts.calendar,
         max: Number(opts.max),
-        timeMin: opts.timeMin,
-        timeMax: opts.timeMax,
+        ...window,
         query: opts.query,
         orderBy: opts.orderBy,
+        pageToken: opts.pageToken,
       });
     });
 
@@ -43,68 +171,102 @@ export function registerCalendarCommands(program: Command): void {
       });
     });
 
-  events
-    .command('create')
+  withEventExtras(withRecurrenceOptions(events.command('create')))
     .description('Create an event')
     .requiredOption('--summary <text>', 'Event title')
-    .requiredOption('--start <datetime>', 'Start time (ISO 8601)')
-    .requiredOption('--end <datetime>', 'End time (ISO 8601)')
+    .requiredOption('--start <when>', 'Start time (e.g. "tomorrow 3pm", or "next monday 10:00-11:30" for both ends)')
+    .option('--end <when>', 'End time')
+    .option('--duration <d>', 'Length instead of --end (e.g. 45m, 1h30m, 2d)')
     .option('--calendar <id>', 'Calendar ID', 'primary')
     .option('--description <text>', 'Event description')
     .option('--location <text>', 'Event location')
     .option('--all-day', 'Create all-day event')
     .option('--attendees <emails>', 'Attendee emails (comma-separated)')
-    .option('--timezone <tz>', 'Time zone', 'UTC')
+    .option('--timezone <tz>', 'Time zone (default: system zone)')
     .option('--color <id>', 'Color ID')
-    .option('--visibility <v>', 'Visibility (default, public, private)')
-    .option('--send-updates <mode>', 'Send updates (all, externalOnly, none)')
+    .addOption(choiceOption('--visibility <v>', 'Visibility', VISIBILITY))
+    .addOption(choiceOption('--send-updates <mode>', 'Send updates to guests', SEND_UPDATES))
     .action(async (opts: any, cmd: Command) => {
+      let timeZone: string;
+      let times: { start?: string; end?: string };
+      let recurrence: string[] | undefined;
+      let exdates: string[] | undefined;
+      let extras: Record<string, any>;
+      try {
+        timeZone = resolveTimeZone(opts.timezone);
+        times = eventTimes({ ...opts, requireEnd: true }, { timeZone });
+        recurrence = recurrenceLines(opts, { timeZone, allDay: opts.allDay });
+        exdates = opts.exdate ? parseExdates(opts.exdate, { timeZone }) : undefined;
+        extras = eventExtras(opts);
+      } catch (err) {
+        return reportOptionError(err);
+      }
       await run(cmd, 'calendar', 'events.create', {
         calendarId: opts.calendar,
         summary: opts.summary,
-        start: opts.start,
-        end: opts.end,
+        start: times.start,
+        end: times.end,
         description: opts.description,
         location: opts.location,
         allDay: opts.allDay || false,
         attendees: opts.attendees ? opts.attendees.split(',') : undefined,
-        timeZone: opts.timezone,
+        timeZone,
+        recurrence,
+        exdates,
+        ...extras,
         colorId: opts.color,
         visibility: opts.visibility,
         sendUpdates: opts.sendUpdates,
       });
     });
 
-  events
-    .command('update <eventId>')
+  withEventExtras(withRecurrenceOptions(events.command('update <eventId>')))
     .description('Update an event')
     .option('--calendar <id>', 'Calendar ID', 'primary')
     .option('--summary <text>', 'Event title')
-    .option('--start <datetime>', 'Start time')
-    .option('--end <datetime>', 'End time')
+    .option('--start <when>', 'Start time, or a time range for both ends')
+    .option('--end <when>', 'End time')
+    .option('--duration <d>', 'Length from --start instead of --end (e.g. 45m)')
     .option('--description <text>', 'Description')
     .option('--location <text>', 'Location')
     .option('--all-day', 'All-day event')
     .option('--attendees <emails>', 'Attendees (comma-separated)')
-    .option('--timezone <tz>', 'Time zone')
+    .option('--timezone <tz>', 'Time zone (also used to read --start/--end; default: system zone)')
     .option('--color <id>', 'Color ID')
-    .option('--visibility <v>', 'Visibility')
-    .option('--send-updates <mode>', 'Send updates')
+    .addOption(choiceOption('--visibility <v>', 'Visibility', VISIBILITY))
+    .addOption(choiceOption('--send-updates <mode>', 'Send updates to guests', SEND_UPDATES))
+    .addOption(choiceOption('--scope <scope>', SCOPE_HELP, [...RECURRENCE_SCOPES]))
     .action(async (eventId: string, opts: any, cmd: Command) => {
+      let times: { start?: string; end?: string };
+      let recurrence: string[] | undefined;
+      let exdates: string[] | undefined;
+      let extras: Record<string, any>;
+      try {
+        times = eventTimes(opts, { timeZone: opts.timezone });
+        recurrence = recurrenceLines(opts, { timeZone: opts.timezone, allDay: opts.allDay });
+        exdates = opts.exdate ? parseExdates(opts.exdate, { timeZone: opts.timezone }) : undefined;
+        extras = eventExtras(opts);
+      } catch (err) {
+        return reportOptionError(err);
+      }
       await run(cmd, 'calendar', 'events.update', {
         eventId,
         calendarId: opts.calendar,
         summary: opts.summary,
-        start: opts.start,
-        end: opts.end,
+        start: times.start,
+        end: times.end,
         description: opts.description,
         location: opts.location,
         allDay: opts.allDay,
         attendees: opts.attendees ? opts.attendees.split(',') : undefined,
         timeZone: opts.timezone,
+        recurrence,
+        exdates,
+        ...extras,
         colorId: opts.color,
         visibility: opts.visibility,
         sendUpdates: opts.sendUpdates,
+        scope: opts.scope,
       });
     });
 
@@ -112,12 +274,14 @@ export function registerCalendarCommands(program: Command): void {
     .command('delete <eventId>')
     .description('Delete an event')
     .option('--calendar <id>', 'Calendar ID', 'primary')
-    .option('--send-updates <mode>', 'Send updates')
+    .addOption(choiceOption('--send-updates <mode>', 'Send updates to guests', SEND_UPDATES))
+    .addOption(choiceOption('--scope <scope>', SCOPE_HELP, [...RECURRENCE_SCOPES]))
     .action(async (eventId: string, opts: any, cmd: Command) => {
       await run(cmd, 'calendar', 'events.delete', {
         eventId,
         calendarId: opts.calendar,
         sendUpdates: opts.sendUpdates,
+        scope: opts.scope,
       });
     });
 
@@ -125,29 +289,63 @@ export function registerCalendarCommands(program: Command): void {
     .command('respond <eventId> <response>')
     .description('Respond to an event (accepted, declined, tentative)')
     .option('--calendar <id>', 'Calendar ID', 'primary')
-    .option('--send-updates <mode>', 'Send updates')
+    .addOption(choiceOption('--send-updates <mode>', 'Send updates to guests', SEND_UPDATES))
+    .addOption(choiceOption('--scope <scope>', SCOPE_HELP, [...RECURRENCE_SCOPES]))
     .action(async (eventId: string, response: string, opts: any, cmd: Command) => {
       await run(cmd, 'calendar', 'events.respond', {
         eventId,
         response,
         calendarId: opts.calendar,
         sendUpdates: opts.sendUpdates,
+        scope: opts.scope,
+      });
+    });
+
+  withPagination(events.command('instances <eventId>'))
+    .description('List the occurrences of a recurring event')
+    .option('--calendar <id>', 'Calendar ID', 'primary')
+    .option('--max <n>', 'Maximum results', '25')
+    .option('--time-min <when>', 'Start time (e.g. today, or a range like today..+30d)')
+    .option('--time-max <when>', 'End time (a date means the end of that day)')
+    .option('--timezone <tz>', 'Time zone for the times (default: system zone)')
+    .option('--page-token <token>', 'Pagination token')
+    .action(async (eventId: string, opts: any, cmd: Command) => {
+      let window: { timeMin?: string; timeMax?: string };
+      try {
+        window = timeWindow(opts.timeMin, opts.timeMax, { timeZone: opts.timezone });
+      } catch (err) {
+        return reportOptionError(err);
+      }
+      await runPaged(cmd, 'calendar', 'events.instances', {
+        eventId,
+        calendarId: opts.calendar,
+        max: Number(opts.max),
+        ...window,
+        pageToken: opts.pageToken,
       });
     });
 
   events
     .command('propose <eventId>')
     .description('Propose a new time for an event')
-    .requiredOption('--start <datetime>', 'Proposed start time')
-    .requiredOption('--end <datetime>', 'Proposed end time')
+    .requiredOption('--start <when>', 'Proposed start time, or a time range for both ends')
+    .option('--end <when>', 'Proposed end time')
+    .option('--duration <d>', 'Length instead of --end (e.g. 30m)')
+    .option('--timezone <tz>', 'Time zone for the times (default: system zone)')
     .option('--calendar <id>', 'Calendar ID', 'primary')
     .option('--comment <text>', 'Comment with proposal')
     .action(async (eventId: string, opts: any, cmd: Command) => {
+      let times: { start?: string; end?: string };
+      try {
+        times = eventTimes({ ...opts, requireEnd: true }, { timeZone: opts.timezone });
+      } catch (err) {
+        return reportOptionError(err);
+      }
       await run(cmd, 'calendar', 'events.propose', {
         eventId,
         calendarId: opts.calendar,
-        start: opts.start,
-        end: opts.end,
+        start: times.start,
+        end: times.end,
         comment: opts.comment,
       });
     });
@@ -155,37 +353,371 @@ export function registerCalendarCommands(program: Command): void {
   events
     .command('conflicts')
     .description('Check for conflicts in a time range')
-    .requiredOption('--start <datetime>', 'Start time')
-    .requiredOption('--end <datetime>', 'End time')
+    .requiredOption('--start <when>', 'Start time, or a range for both ends (e.g. "tomorrow 9am-5pm")')
+    .option('--end <when>', 'End time')
+    .option('--duration <d>', 'Length instead of --end (e.g. 2h)')
+    .option('--timezone <tz>', 'Time zone for the times (default: system zone)')
     .option('--calendar <id>', 'Calendar ID', 'primary')
     .action(async (opts: any, cmd: Command) => {
+      let times: { start?: string; end?: string };
+      try {
+        times = eventTimes({ ...opts, requireEnd: true }, { timeZone: opts.timezone });
+      } catch (err) {
+        return reportOptionError(err);
+      }
       await run(cmd, 'calendar', 'events.conflicts', {
         calendarId: opts.calendar,
-        start: opts.start,
-        end: opts.end,
+        start: times.start,
+        end: times.end,
+      });
+    });
+
+  // --- Views ---
+  withViewOptions(cal.command('agenda'))
+    .description('Upcoming events grouped by day')
+    .option('--days <n>', 'Number of days from today', String(DEFAULT_AGENDA_DAYS))
+    .action(async (opts: any, cmd: Command) => {
+      await runView(cmd, { view: 'agenda', days: Number(opts.days) });
+    });
+
+  withViewOptions(cal.command('day [date]'))
+    .description('One day of events (default: today; e.g. tomorrow, friday)')
+    .action(async (date: string | undefined, _opts: any, cmd: Command) => {
+      await runView(cmd, { view: 'day', date });
+    });
+
+  withViewOptions(cal.command('week [date]'))
+    .description('The Monday-to-Sunday week containing a date (default: this week)')
+    .action(async (date: string | undefined, _opts: any, cmd: Command) => {
+      await runView(cmd, { view: 'week', date });
+    });
+
+  // --- Scheduling ---
+  cal
+    .command('find-time')
+    .description('Find free slots shared by all attendees, and optionally book one')
+    .requiredOption('--attendees <emails>', 'Attendee emails (comma-separated)')
+    .option('--duration <d>', 'Meeting length', '30m')
+    .option('--within <range>', 'Where to look (e.g. "next week", today..friday, tomorrow)', 'today..+7d')
+    .option('--working-hours <hh:mm-hh:mm>', "Working hours in each attendee's own time zone", '09:00-17:00')
+    .option('--buffer <d>', 'Free time to keep around other meetings (e.g. 10m)')
+    .option('--step <d>', 'Spacing of candidate start times', '15m')
+    .option('--include-weekends', 'Also suggest Saturdays and Sundays')
+    .addOption(choiceOption('--prefer <order>', 'Rank by mid-day comfort or by time', [...FIND_TIME_PREFERENCES]).default('central'))
+    .option('--max <n>', 'Number of suggestions', String(DEFAULT_FIND_TIME_MAX))
+    .option('--timezone <tz>', 'Your time zone (default: system zone)')
+    .option('--book [rank]', 'Book a suggestion and invite the attendees (prompts when no rank is given)')
+    .option('--summary <text>', 'Title of the booked event', 'Meeting')
+    .option('--description <text>', 'Description of the booked event')
+    .option('--location <text>', 'Location of the booked event')
+    .option('--calendar <id>', 'Calendar to book in', 'primary')
+    .action(async (opts: any, cmd: Command) => {
+      const globalOpts = getGlobalOpts(cmd);
+      const mode = getOutputMode(globalOpts);
+      const call = calendarCall(globalOpts);
+      const attendees: string[] = opts.attendees.split(',').map((a: string) => a.trim()).filter(Boolean);
+      let result: CommandResult;
+      try {
+        result = await findTime(call, {
+          attendees,
+          duration: opts.duration,
+          within: opts.within,
+          workingHours: opts.workingHours,
+          buffer: opts.buffer,
+          step: opts.step,
+          includeWeekends: opts.includeWeekends,
+          prefer: opts.prefer,
+          max: Number(opts.max),
+          timeZone: opts.timezone,
+        });
+      } catch (err) {
+        return reportOptionError(err);
+      }
+      if (!opts.book || !result.ok) {
+        printResult(result, mode, 'calendar', 'find-time', getOutputOptions(globalOpts));
+        process.exitCode = getExitCode(result);
+        return;
+      }
+
+      const { slots, timeZone } = result.data;
+      if (slots.length === 0) return reportOptionError(`No free ${opts.duration} slot to book within "${opts.within}"`);
+      let rank = Number(opts.book);
+      if (opts.book === true) {
+        if (!process.stdin.isTTY || mode !== 'human') {
+          return reportOptionError('--book needs a rank (e.g. --book 1) when not run interactively');
+        }
+        rank = await select({
+          message: 'Book which slot?',
+          choices: slots.map((slot: any) => ({ name: `${slot.rank}. ${slotLabel(slot, timeZone)}`, value: slot.rank })),
+        });
+      }
+      const slot = slots.find((s: any) => s.rank === rank);
+      if (!slot) return reportOptionError(`No suggestion ranked ${opts.book}; pick 1 to ${slots.length}`);
+
+      const created = await call('events.create', {
+        calendarId: opts.calendar,
+        summary: opts.summary,
+        description: opts.description,
+        location: opts.location,
+        start: slot.start,
+        end: slot.end,
+        attendees,
+        timeZone,
+        sendUpdates: 'all',
+      });
+      printResult(created, mode, 'calendar', 'events.create', getOutputOptions(globalOpts));
+      process.exitCode = getExitCode(created);
+    });
+
+  // --- Reminders ---
+  cal
+    .command('watch')
+    .description('Keep running and announce events shortly before they start')
+    .option('--before <d>', 'How long before the start to announce an event', DEFAULT_WATCH_BEFORE)
+    .option('--interval <d>', 'Time between polls', DEFAULT_WATCH_INTERVAL)
+    .option('--calendar <ids>', 'Calendar IDs (comma-separated)', 'primary')
+    .option('--exec <cmd>', 'Run a shell command per notice instead of printing it (event JSON on stdin, notice type in $GPROXY_WATCH_TYPE)')
+    .option('--state <file>', 'Where notified events are remembered', WATCH_STATE_FILE)
+    .option('--once', 'Poll once and exit (e.g. from cron)')
+    .action(async (opts: any, cmd: Command) => {
+      const globalOpts = getGlobalOpts(cmd);
+      const mode = getOutputMode(globalOpts);
+      const calendarIds: string[] = opts.calendar.split(',').map((id: string) => id.trim()).filter(Boolean);
+      try {
+        parseDuration(opts.before);
+        parseDuration(opts.interval);
+      } catch (err) {
+        return reportOptionError(err);
+      }
+      if (!opts.once) {
+        process.stderr.write(`Watching ${calendarIds.join(', ')}: events are announced ${opts.before} before they start (Ctrl-C to stop)\n`);
+      }
+      const result = await watchCalendars(calendarCall(globalOpts), {
+        calendarIds,
+        before: opts.before,
+        interval: opts.interval,
+        stateFile: opts.state,
+        polls: opts.once ? 1 : undefined,
+        onNotice: async (notice: WatchNotice) => {
+          if (!opts.exec) {
+            printResult({ ok: true, data: notice }, mode, 'calendar', 'watch', getOutputOptions(globalOpts));
+            return;
+          }
+          const code = await runWatchHook(opts.exec, notice);
+          if (code !== 0) process.stderr.write(`Warning: --exec exited with ${code} for "${notice.event.summary ?? notice.event.eventId}"\n`);
+        },
+        onWarning: message => process.stderr.write(`Warning: ${message}\n`),
+      });
+      if (!result.ok) printResult(result, mode, 'calendar', 'watch', getOutputOptions(globalOpts));
+      process.exitCode = getExitCode(result);
+    });
+
+  // --- iCalendar ---
+  cal
+    .command('export')
+    .description('Export events as an iCalendar (.ics) file')
+    .option('--calendar <id>', 'Calendar ID', 'primary')
+    .option('--from <when>', 'Events ending after this (e.g. today, or a range like "next week")')
+    .option('--to <when>', 'Events starting before this (a date means the end of that day)')
+    .option('--timezone <tz>', 'Time zone for --from/--to (default: system zone)')
+    .option('--out <file>', 'Write to a file instead of stdout')
+    .action(async (opts: any, cmd: Command) => {
+      const globalOpts = getGlobalOpts(cmd);
+      let window: { timeMin?: string; timeMax?: string };
+      try {
+        window = timeWindow(opts.from, opts.to, { timeZone: opts.timezone });
+      } catch (err) {
+        return reportOptionError(err);
+      }
+      const result = await fetchIcsEvents(calendarCall(globalOpts), { calendarId: opts.calendar, ...window });
+      if (!result.ok) {
+        printResult(result, getOutputMode(globalOpts), 'calendar', 'events.list', getOutputOptions(globalOpts));
+        process.exitCode = getExitCode(result);
+        return;
+      }
+      const content = serializeIcs({ events: result.data.events });
+      if (opts.out) {
+        fs.writeFileSync(opts.out, content, 'utf-8');
+        process.stderr.write(`Exported ${result.data.events.length} event(s) to ${opts.out}\n`);
+      } else {
+        process.stdout.write(content);
+      }
+      process.exitCode = 0;
+    });
+
+  cal
+    .command('import <file>')
+    .description('Create or update the events of an iCalendar (.ics) file, matched by UID')
+    .option('--calendar <id>', 'Calendar ID', 'primary')
+    .option('--timezone <tz>', 'Time zone for times without one (default: system zone)')
+    .option('--dry-run', 'Show what would be created or updated without writing')
+    .action(async (file: string, opts: any, cmd: Command) => {
+      let events: IcsEvent[];
+      try {
+        events = parseIcs(fs.readFileSync(file, 'utf-8'), { timeZone: opts.timezone }).events;
+      } catch (err) {
+        return reportOptionError(err);
+      }
+      const globalOpts = getGlobalOpts(cmd);
+      const result = await importIcs({
+        events,
+        calendarId: opts.calendar,
+        dryRun: opts.dryRun,
+        call: calendarCall(globalOpts),
       });
+      printResult(result, getOutputMode(globalOpts), 'calendar', 'import', getOutputOptions(globalOpts));
+      process.exitCode = getExitCode(result);
     });
 
   // --- Free/Busy ---
   cal
     .command('freebusy')
     .description('Check free/busy status')
-    .requiredOption('--time-min <datetime>', 'Start time')
-    .requiredOption('--time-max <datetime>', 'End time')
+    .requiredOption('--time-min <when>', 'Start time, or a range for both ends (e.g. today..friday)')
+    .option('--time-max <when>', 'End time (a date means the end of that day)')
+    .option('--timezone <tz>', 'Time zone for the times (default: system zone)')
     .option('--calendars <ids>', 'Calendar IDs (comma-separated)', 'primary')
     .action(async (opts: any, cmd: Command) => {
+      let window: { timeMin?: string; timeMax?: string };
+      try {
+        window = timeWindow(opts.timeMin, opts.timeMax, { timeZone: opts.timezone });
+        if (!window.timeMax) throw new Error('Give --time-max or a range in --time-min (e.g. today..friday)');
+      } catch (err) {
+        return reportOptionError(err);
+      }
       await run(cmd, 'calendar', 'freebusy', {
-        timeMin: opts.timeMin,
-        timeMax: opts.timeMax,
+        timeMin: window.timeMin,
+        timeMax: window.timeMax,
         calendars: opts.calendars.split(','),
       });
     });
 
-  // --- Calendars list ---
+  // --- Calendars ---
   cal
     .command('list')
     .description('List all calendars')
     .action(async (_opts: any, cmd: Command) => {
       await run(cmd, 'calendar', 'calendars.list', {});
     });
+
+  const calendars = cal
+    .command('calendars')
+    .description('Create, change and subscribe to calendars');
+
+  calendars
+    .command('list')
+    .description('List the calendars in your list')
+    .action(async (_opts: any, cmd: Command) => {
+      await run(cmd, 'calendar', 'calendars.list', {});
+    });
+
+  calendars
+    .command('create <name>')
+    .description('Create a calendar')
+    .option('--description <text>', 'Description')
+    .option('--location <text>', 'Location')
+    .option('--timezone <tz>', 'Time zone of the calendar (default: system zone)')
+    .option('--color <color>', 'Colour in your list: a colour ID or #rrggbb')
+    .action(async (name: string, opts: any, cmd: Command) => {
+      let timeZone: string;
+      try {
+        timeZone = resolveTimeZone(opts.timezone);
+      } catch (err) {
+        return reportOptionError(err);
+      }
+      await run(cmd, 'calendar', 'calendars.create', {
+        summary: name,
+        description: opts.description,
+        location: opts.location,
+        timeZone,
+        color: opts.color,
+      });
+    });
+
+  calendars
+    .command('update <calendarId>')
+    .description('Rename or recolour a calendar, or change its details')
+    .option('--name <text>', 'New name')
+    .option('--description <text>', 'Description')
+    .option('--location <text>', 'Location')
+    .option('--timezone <tz>', 'Time zone of the calendar')
+    .option('--color <color>', 'Colour in your list: a colour ID or #rrggbb')
+    .option('--hide', 'Hide it from your calendar views')
+    .option('--show', 'Show it in your calendar views again')
+    .action(async (calendarId: string, opts: any, cmd: Command) => {
+      let timeZone: string | undefined;
+      try {
+        if (opts.hide && opts.show) throw new Error('Use either --hide or --show, not both');
+        timeZone = opts.timezone ? resolveTimeZone(opts.timezone) : undefined;
+      } catch (err) {
+        return reportOptionError(err);
+      }
+      await run(cmd, 'calendar', 'calendars.update', {
+        calendarId,
+        summary: opts.name,
+        description: opts.description,
+        location: opts.location,
+        timeZone,
+        color: opts.color,
+        hidden: opts.hide ? true : opts.show ? false : undefined,
+      });
+    });
+
+  calendars
+    .command('delete <calendarId>')
+    .description('Delete a calendar you own, with all its events')
+    .action(async (calendarId: string, _opts: any, cmd: Command) => {
+      await run(cmd, 'calendar', 'calendars.delete', { calendarId });
+    });
+
+  calendars
+    .command('subscribe <calendarId>')
+    .description("Add a shared or public calendar to your list (e.g. a teammate's email)")
+    .option('--color <color>', 'Colour in your list: a colour ID or #rrggbb')
+    .action(async (calendarId: string, opts: any, cmd: Command) => {
+      await run(cmd, 'calendar', 'calendars.subscribe', { calendarId, color: opts.color });
+    });
+
+  calendars
+    .command('unsubscribe <calendarId>')
+    .description('Remove a calendar from your list (it is not deleted)')
+    .action(async (calendarId: string, _opts: any, cmd: Command) => {
+      await run(cmd, 'calendar', 'calendars.unsubscribe', { calendarId });
+    });
+
+  // --- Sharing ---
+  const acl = cal
+    .command('acl')
+    .description('Share calendars (access control rules)');
+
+  acl
+    .command('list <calendarId>')
+    .description('List who a calendar is shared with')
+    .action(async (calendarId: string, _opts: any, cmd: Command) => {
+      await run(cmd, 'calendar', 'acl.list', { calendarId });
+    });
+
+  acl
+    .command('add <calendarId> <who>')
+    .description('Share a calendar with an email address, a domain, or "public"')
+    .addOption(choiceOption('--role <role>', 'Access to give', ACL_ROLES).makeOptionMandatory())
+    .addOption(choiceOption('--type <type>', 'Who <who> is (default: user for emails, domain otherwise, default for public)', ACL_SCOPE_TYPES))
+    .option('--no-notify', 'Do not email the person about the share')
+    .action(async (calendarId: string, who: string, opts: any, cmd: Command) => {
+      const scopeType = opts.type ?? (who === 'public' ? 'default' : who.includes('@') ? 'user' : 'domain');
+      await run(cmd, 'calendar', 'acl.add', {
+        calendarId,
+        role: opts.role,
+        scopeType,
+        scopeValue: scopeType === 'default' ? undefined : who,
+        sendNotifications: opts.notify,
+      });
+    });
+
+  acl
+    .command('remove <calendarId> <rule>')
+    .description('Stop sharing: a rule ID from acl list, or an email address')
+    .action(async (calendarId: string, rule: string, _opts: any, cmd: Command) => {
+      await run(cmd, 'calendar', 'acl.remove', { calendarId, ruleId: rule });
+    });
 }
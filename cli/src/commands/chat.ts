@@ -3,8 +3,10 @@ import { executeCommand } from '../client.js';
 import { loadConfig } from '../config.js';
 import { printResult, getExitCode } from '../output.js';
 import type { GlobalOptions, OutputMode } from '../types.js';
+import { choiceOption, getOutputOptions, runPaged, withPagination } from './helpers.js';
 
 function getOutputMode(opts: GlobalOptions): OutputMode {
+  if (opts.output) return opts.output;
   if (opts.json) return 'json';
   if (opts.plain) return 'plain';
   return 'human';
@@ -28,7 +30,7 @@ async function run(
     maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
     verbose: globalOpts.verbose,
   });
-  printResult(result, getOutputMode(globalOpts), 'chat', action);
+  printResult(result, getOutputMode(globalOpts), 'chat', action, getOutputOptions(globalOpts));
   process.exitCode = getExitCode(result);
 }
 
@@ -42,14 +44,13 @@ export function registerChatCommands(program: Command): void {
     .command('spaces')
     .description('Chat space operations');
 
-  spaces
-    .command('list')
+  withPagination(spaces.command('list'))
     .description('List Chat spaces')
     .option('--max <n>', 'Maximum results', '25')
     .option('--filter <query>', 'Filter spaces')
     .option('--page-token <token>', 'Pagination token')
     .action(async (opts: any, cmd: Command) => {
-      await run(cmd, 'spaces.list', {
+      await runPaged(cmd, 'chat', 'spaces.list', {
         max: Number(opts.max),
         filter: opts.filter,
         pageToken: opts.pageToken,
@@ -66,7 +67,7 @@ export function registerChatCommands(program: Command): void {
   spaces
     .command('create <displayName>')
     .description('Create a new space')
-    .option('--type <type>', 'Space type (SPACE, GROUP_CHAT)', 'SPACE')
+    .addOption(choiceOption('--type <type>', 'Space type', ['SPACE', 'GROUP_CHAT']).default('SPACE'))
     .action(async (displayName: string, opts: any, cmd: Command) => {
       await run(cmd, 'spaces.create', {
         displayName,
@@ -79,15 +80,14 @@ export function registerChatCommands(program: Command): void {
     .command('messages')
     .description('Chat message operations');
 
-  messages
-    .command('list <spaceName>')
+  withPagination(messages.command('list <spaceName>'))
     .description('List messages in a space')
     .option('--max <n>', 'Maximum results', '25')
     .option('--filter <query>', 'Filter messages')
     .option('--order-by <field>', 'Sort order')
     .option('--page-token <token>', 'Pagination token')
     .action(async (spaceName: string, opts: any, cmd: Command) => {
-      await run(cmd, 'messages.list', {
+      await runPaged(cmd, 'chat', 'messages.list', {
         spaceName,
         max: Number(opts.max),
         filter: opts.filter,
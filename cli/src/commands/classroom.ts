@@ -3,8 +3,10 @@ import { executeCommand } from '../client.js';
 import { loadConfig } from '../config.js';
 import { printResult, getExitCode } from '../output.js';
 import type { GlobalOptions, OutputMode } from '../types.js';
+import { choiceOption, getOutputOptions, runPaged, withPagination } from './helpers.js';
 
 function getOutputMode(opts: GlobalOptions): OutputMode {
+  if (opts.output) return opts.output;
   if (opts.json) return 'json';
   if (opts.plain) return 'plain';
   return 'human';
@@ -28,7 +30,7 @@ async function run(
     maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
     verbose: globalOpts.verbose,
   });
-  printResult(result, getOutputMode(globalOpts), 'classroom', action);
+  printResult(result, getOutputMode(globalOpts), 'classroom', action, getOutputOptions(globalOpts));
   process.exitCode = getExitCode(result);
 }
 
@@ -42,8 +44,7 @@ export function registerClassroomCommands(program: Command): void {
     .command('courses')
     .description('Course operations');
 
-  courses
-    .command('list')
+  withPagination(courses.command('list'))
     .description('List courses')
     .option('--student <id>', 'Filter by student ID')
     .option('--teacher <id>', 'Filter by teacher ID')
@@ -51,7 +52,7 @@ export function registerClassroomCommands(program: Command): void {
     .option('--max <n>', 'Maximum results', '25')
     .option('--page-token <token>', 'Pagination token')
     .action(async (opts: any, cmd: Command) => {
-      await run(cmd, 'courses.list', {
+      await runPaged(cmd, 'classroom', 'courses.list', {
         studentId: opts.student,
         teacherId: opts.teacher,
         courseStates: opts.states,
@@ -86,7 +87,7 @@ export function registerClassroomCommands(program: Command): void {
   classroom
     .command('roster <courseId>')
     .description('List students and teachers in a course')
-    .option('--role <role>', 'Filter by role (student, teacher, both)', 'both')
+    .addOption(choiceOption('--role <role>', 'Filter by role', ['student', 'teacher', 'both']).default('both'))
     .option('--max <n>', 'Maximum results', '50')
     .action(async (courseId: string, opts: any, cmd: Command) => {
       await run(cmd, 'roster.list', {
@@ -101,14 +102,13 @@ export function registerClassroomCommands(program: Command): void {
     .command('coursework')
     .description('Coursework operations');
 
-  coursework
-    .command('list <courseId>')
+  withPagination(coursework.command('list <courseId>'))
     .description('List coursework')
     .option('--states <states>', 'Filter by states (PUBLISHED, DRAFT)')
     .option('--max <n>', 'Maximum results', '25')
     .option('--page-token <token>', 'Pagination token')
     .action(async (courseId: string, opts: any, cmd: Command) => {
-      await run(cmd, 'coursework.list', {
+      await runPaged(cmd, 'classroom', 'coursework.list', {
         courseId,
         courseWorkStates: opts.states,
         max: Number(opts.max),
@@ -121,9 +121,9 @@ export function registerClassroomCommands(program: Command): void {
     .description('Create coursework')
     .requiredOption('--title <text>', 'Assignment title')
     .option('--description <text>', 'Assignment description')
-    .option('--type <type>', 'Work type (ASSIGNMENT, SHORT_ANSWER_QUESTION, MULTIPLE_CHOICE_QUESTION)', 'ASSIGNMENT')
+    .addOption(choiceOption('--type <type>', 'Work type', ['ASSIGNMENT', 'SHORT_ANSWER_QUESTION', 'MULTIPLE_CHOICE_QUESTION']).default('ASSIGNMENT'))
     .option('--max-points <n>', 'Maximum points')
-    .option('--state <state>', 'State (PUBLISHED, DRAFT)', 'PUBLISHED')
+    .addOption(choiceOption('--state <state>', 'State', ['PUBLISHED', 'DRAFT']).default('PUBLISHED'))
     .action(async (courseId: string, opts: any, cmd: Command) => {
       await run(cmd, 'coursework.create', {
         courseId,
@@ -140,14 +140,13 @@ export function registerClassroomCommands(program: Command): void {
     .command('announcements')
     .description('Announcement operations');
 
-  announcements
-    .command('list <courseId>')
+  withPagination(announcements.command('list <courseId>'))
     .description('List announcements')
     .option('--states <states>', 'Filter by states')
     .option('--max <n>', 'Maximum results', '25')
     .option('--page-token <token>', 'Pagination token')
     .action(async (courseId: string, opts: any, cmd: Command) => {
-      await run(cmd, 'announcements.list', {
+      await runPaged(cmd, 'classroom', 'announcements.list', {
         courseId,
         announcementStates: opts.states,
         max: Number(opts.max),
@@ -159,7 +158,7 @@ export function registerClassroomCommands(program: Command): void {
     .command('create <courseId>')
     .description('Create an announcement')
     .requiredOption('--text <text>', 'Announcement text')
-    .option('--state <state>', 'State (PUBLISHED, DRAFT)', 'PUBLISHED')
+    .addOption(choiceOption('--state <state>', 'State', ['PUBLISHED', 'DRAFT']).default('PUBLISHED'))
     .action(async (courseId: string, opts: any, cmd: Command) => {
       await run(cmd, 'announcements.create', {
         courseId,
@@ -169,14 +168,13 @@ export function registerClassroomCommands(program: Command): void {
     });
 
   // --- Submissions ---
-  classroom
-    .command('submissions <courseId> <courseWorkId>')
+  withPagination(classroom.command('submissions <courseId> <courseWorkId>'))
     .description('List student submissions')
     .option('--states <states>', 'Filter by states')
     .option('--max <n>', 'Maximum results', '50')
     .option('--page-token <token>', 'Pagination token')
     .action(async (courseId: string, courseWorkId: string, opts: any, cmd: Command) => {
-      await run(cmd, 'submissions.list', {
+      await runPaged(cmd, 'classroom', 'submissions.list', {
         courseId,
         courseWorkId,
         states: opts.states,
@@ -0,0 +1,46 @@
+import { Command } from 'commander';
+import { collectCommandSpecs, dynamicValues, DYNAMIC_FLAGS } from '../completion.js';
+import type { DynamicKind } from '../completion.js';
+import { generateCompletionScript } from '../completion-scripts.js';
+import type { CompletionShell } from '../completion-scripts.js';
+import { getGlobalOpts } from './helpers.js';
+
+const DYNAMIC_KINDS = [...new Set(Object.values(DYNAMIC_FLAGS))];
+
+function rootOf(cmd: Command): Command {
+  let root = cmd;
+  while (root.parent) root = root.parent;
+  return root;
+}
+
+export function registerCompletionCommands(program: Command): void {
+  const completion = program
+    .command('completion')
+    .description('Generate shell completion scripts');
+
+  const shells: [CompletionShell, string][] = [
+    ['bash', 'Bash completion script (source it or save to bash-completion/completions/gproxy)'],
+    ['zsh', 'Zsh completion script (save as _gproxy in a directory on $fpath)'],
+    ['fish', 'Fish completion script (save to ~/.config/fish/completions/gproxy.fish)'],
+  ];
+  for (const [shell, description] of shells) {
+    completion
+      .command(shell)
+      .description(description)
+      .option('--dynamic', 'Also complete label names, calendar IDs and task list IDs (cached for 5 minutes)')
+      .action((opts: any, cmd: Command) => {
+        const specs = collectCommandSpecs(rootOf(cmd));
+        process.stdout.write(generateCompletionScript(shell, specs, { dynamic: !!opts.dynamic }));
+      });
+  }
+
+  // Called by the generated scripts; prints one value per line and never fails
+  completion
+    .command('values <kind>', { hidden: true })
+    .description('Print cached dynamic completion values')
+    .action(async (kind: string, _opts: any, cmd: Command) => {
+      if (!DYNAMIC_KINDS.includes(kind as DynamicKind)) return;
+      const values = await dynamicValues(kind as DynamicKind, getGlobalOpts(cmd));
+      if (values.length > 0) process.stdout.write(values.join('\n') + '\n');
+    });
+}
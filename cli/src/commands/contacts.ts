@@ -3,8 +3,10 @@ import { executeCommand } from '../client.js';
 import { loadConfig } from '../config.js';
 import { printResult, getExitCode } from '../output.js';
 import type { GlobalOptions, OutputMode } from '../types.js';
+import { getOutputOptions, runPaged, withPagination } from './helpers.js';
 
 function getOutputMode(opts: GlobalOptions): OutputMode {
+  if (opts.output) return opts.output;
   if (opts.json) return 'json';
   if (opts.plain) return 'plain';
   return 'human';
@@ -28,7 +30,7 @@ async function run(
     maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
     verbose: globalOpts.verbose,
   });
-  printResult(result, getOutputMode(globalOpts), 'contacts', action);
+  printResult(result, getOutputMode(globalOpts), 'contacts', action, getOutputOptions(globalOpts));
   process.exitCode = getExitCode(result);
 }
 
@@ -38,14 +40,13 @@ export function registerContactsCommands(program: Command): void {
     .description('Google Contacts operations');
 
   // --- List ---
-  contacts
-    .command('list')
+  withPagination(contacts.command('list'))
     .description('List contacts')
     .option('--max <n>', 'Maximum results', '25')
     .option('--sort <order>', 'Sort order (LAST_MODIFIED_DESCENDING, FIRST_NAME_ASCENDING, LAST_NAME_ASCENDING)', 'LAST_MODIFIED_DESCENDING')
     .option('--page-token <token>', 'Pagination token')
     .action(async (opts: any, cmd: Command) => {
-      await run(cmd, 'list', {
+      await runPaged(cmd, 'contacts', 'list', {
         max: Number(opts.max),
         sortOrder: opts.sort,
         pageToken: opts.pageToken,
@@ -136,13 +137,12 @@ export function registerContactsCommands(program: Command): void {
     .command('other')
     .description('Other contacts (auto-saved from interactions)');
 
-  other
-    .command('list')
+  withPagination(other.command('list'))
     .description('List other contacts')
     .option('--max <n>', 'Maximum results', '25')
     .option('--page-token <token>', 'Pagination token')
     .action(async (opts: any, cmd: Command) => {
-      await run(cmd, 'other.list', {
+      await runPaged(cmd, 'contacts', 'other.list', {
         max: Number(opts.max),
         pageToken: opts.pageToken,
       });
@@ -0,0 +1,101 @@
+import { Command, InvalidArgumentError, Option } from 'commander';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import chalk from 'chalk';
+import { createMockProxy, FAULT_KINDS } from '../dev/mock-proxy.js';
+import type { FaultKind } from '../dev/mock-proxy.js';
+import { getGlobalOpts } from './helpers.js';
+
+function collectFault(value: string, previous: FaultKind[] = []): FaultKind[] {
+  if (!FAULT_KINDS.includes(value as FaultKind)) {
+    throw new InvalidArgumentError(`Expected one of: ${FAULT_KINDS.join(', ')}.`);
+  }
+  return [...previous, value as FaultKind];
+}
+
+function parseRate(value: string): number {
+  const rate = Number(value);
+  if (!(rate >= 0 && rate <= 1)) throw new InvalidArgumentError('Expected a number between 0 and 1.');
+  return rate;
+}
+
+function parseCount(value: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new InvalidArgumentError('Expected a non-negative integer.');
+  return n;
+}
+
+export function registerDevCommands(program: Command): void {
+  const dev = program
+    .command('dev')
+    .description('Local development tools');
+
+  dev
+    .command('mock-proxy')
+    .description('Run a local proxy that answers from fixture files (for offline development and tests)')
+    .option('--port <n>', 'Port to listen on', parseCount, 8787)
+    .option('--host <host>', 'Interface to bind', '127.0.0.1')
+    .option('--fixtures <dir>', 'Directory of <service>.json files overriding the bundled fixtures')
+    .addOption(new Option('--fault <kind>', `Inject a fault (${FAULT_KINDS.join(', ')}); repeatable`)
+      .argParser(collectFault))
+    .option('--fault-rate <p>', 'Probability that a request gets a fault', parseRate, 1)
+    .option('--fault-count <n>', 'Only fault the first n requests', parseCount)
+    .option('--latency <ms>', 'Delay every response', parseCount, 0)
+    .option('--tls-cert <file>', 'PEM certificate (serve HTTPS; needs --tls-key)')
+    .option('--tls-key <file>', 'PEM private key')
+    .action(async (opts: any, cmd: Command) => {
+      const globalOpts = getGlobalOpts(cmd);
+      if (!!opts.tlsCert !== !!opts.tlsKey) {
+        process.stderr.write(chalk.red('Error: --tls-cert and --tls-key must be given together\n'));
+        process.exitCode = 1;
+        return;
+      }
+
+      // Use --secret/GPROXY_SECRET so existing config keeps working; otherwise make one up
+      const secret = globalOpts.secret || process.env.GPROXY_SECRET || crypto.randomBytes(32).toString('hex');
+      const tls = !!opts.tlsCert;
+
+      let server;
+      try {
+        server = createMockProxy({
+          secret,
+          fixturesDir: opts.fixtures,
+          faults: opts.fault,
+          faultRate: opts.faultRate,
+          faultCount: opts.faultCount,
+          latency: opts.latency,
+          tlsCert: tls ? fs.readFileSync(opts.tlsCert, 'utf-8') : undefined,
+          tlsKey: tls ? fs.readFileSync(opts.tlsKey, 'utf-8') : undefined,
+          onRequest: entry => {
+            const label = entry.service ? `${entry.service}.${entry.action}` : '(health)';
+            const outcome = entry.outcome === 'OK' ? chalk.green(entry.outcome) : chalk.yellow(entry.outcome);
+            process.stderr.write(`${chalk.dim(new Date().toISOString())} ${label} ${outcome}\n`);
+          },
+        });
+      } catch (err: any) {
+        process.stderr.write(chalk.red(`Error: ${err.message}\n`));
+        process.exitCode = 1;
+        return;
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(opts.port, opts.host, () => resolve());
+      }).catch((err: Error) => {
+        process.stderr.write(chalk.red(`Error: ${err.message}\n`));
+        process.exitCode = 1;
+      });
+      if (process.exitCode) return;
+
+      const url = `${tls ? 'https' : 'http'}://${opts.host}:${opts.port}/exec`;
+      process.stderr.write(chalk.bold(`Mock proxy listening on ${url}\n`));
+      if (opts.fault?.length) {
+        process.stderr.write(chalk.yellow(`Injecting faults: ${opts.fault.join(', ')}\n`));
+      }
+      process.stderr.write(chalk.dim('Point the CLI at it from another shell:\n'));
+      process.stderr.write(`  export GPROXY_URL=${url}\n`);
+      process.stderr.write(`  export GPROXY_SECRET=${secret}\n`);
+      if (!tls) process.stderr.write('  export GPROXY_ALLOW_HTTP=1\n');
+      process.stderr.write(chalk.dim('Press Ctrl+C to stop.\n'));
+    });
+}
@@ -4,8 +4,10 @@ import { executeCommand } from '../client.js';
 import { loadConfig } from '../config.js';
 import { printResult, getExitCode } from '../output.js';
 import type { GlobalOptions, OutputMode } from '../types.js';
+import { choiceOption, getOutputOptions } from './helpers.js';
 
 function getOutputMode(opts: GlobalOptions): OutputMode {
+  if (opts.output) return opts.output;
   if (opts.json) return 'json';
   if (opts.plain) return 'plain';
   return 'human';
@@ -29,7 +31,7 @@ async function run(
     maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
     verbose: globalOpts.verbose,
   });
-  printResult(result, getOutputMode(globalOpts), 'docs', action);
+  printResult(result, getOutputMode(globalOpts), 'docs', action, getOutputOptions(globalOpts));
   process.exitCode = getExitCode(result);
 }
 
@@ -91,7 +93,7 @@ export function registerDocsCommands(program: Command): void {
   docs
     .command('export <documentId>')
     .description('Export document to format')
-    .option('--format <fmt>', 'Export format (pdf, docx, txt, html)', 'pdf')
+    .addOption(choiceOption('--format <fmt>', 'Export format', ['pdf', 'docx', 'txt', 'html']).default('pdf'))
     .option('--out <path>', 'Output file path')
     .action(async (documentId: string, opts: any, cmd: Command) => {
       const globalOpts = getGlobalOpts(cmd);
@@ -127,7 +129,7 @@ export function registerDocsCommands(program: Command): void {
         }
         process.exitCode = 0;
       } else {
-        printResult(result, getOutputMode(globalOpts), 'docs', 'export');
+        printResult(result, getOutputMode(globalOpts), 'docs', 'export', getOutputOptions(globalOpts));
         process.exitCode = getExitCode(result);
       }
     });
@@ -1,12 +1,18 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
+import ora from 'ora';
+import type { Ora } from 'ora';
 import { executeCommand } from '../client.js';
 import { loadConfig } from '../config.js';
 import { printResult, getExitCode } from '../output.js';
-import type { GlobalOptions, OutputMode } from '../types.js';
+import { DEFAULT_CHUNK_SIZE, MAX_CHUNK_SIZE, downloadChunked, uploadChunked } from '../transfer.js';
+import type { DriveCall } from '../transfer.js';
+import type { GlobalOptions, GProxyConfig, OutputMode } from '../types.js';
+import { choiceOption, getOutputOptions, runPaged, withPagination } from './helpers.js';
 
 function getOutputMode(opts: GlobalOptions): OutputMode {
+  if (opts.output) return opts.output;
   if (opts.json) return 'json';
   if (opts.plain) return 'plain';
   return 'human';
@@ -30,11 +36,43 @@ async function run(
     maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
     verbose: globalOpts.verbose,
   });
-  printResult(result, getOutputMode(globalOpts), 'drive', action);
+  printResult(result, getOutputMode(globalOpts), 'drive', action, getOutputOptions(globalOpts));
   process.exitCode = getExitCode(result);
 }
 
-const FIFTY_MB = 50 * 1024 * 1024;
+/**
+ * Commander argument parser for --chunk-size: whole MiB, so upload chunks stay
+ * multiples of Drive's 256 KiB granularity.
+ */
+function parseChunkSize(value: string): number {
+  const mb = Number(value);
+  if (!Number.isInteger(mb) || mb < 1 || mb * 1024 * 1024 > MAX_CHUNK_SIZE) {
+    throw new InvalidArgumentError(`Expected a whole number of MiB from 1 to ${MAX_CHUNK_SIZE / (1024 * 1024)}.`);
+  }
+  return mb * 1024 * 1024;
+}
+
+function driveCaller(globalOpts: GlobalOptions, config: GProxyConfig): DriveCall {
+  return (action, params) => executeCommand('drive', action, params, config, {
+    timeout: globalOpts.timeout ? Number(globalOpts.timeout) : undefined,
+    maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
+    verbose: globalOpts.verbose,
+  });
+}
+
+function formatMiB(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(1);
+}
+
+function progressText(label: string, done: number, total: number): string {
+  const percent = total > 0 ? Math.floor((done / total) * 100) : 100;
+  return `${label} ${formatMiB(done)}/${formatMiB(total)} MiB (${percent}%)`;
+}
+
+/** Progress on stderr; silent when stderr is not a terminal, so pipes stay clean. */
+function transferSpinner(text: string): Ora {
+  return ora({ text, stream: process.stderr, isSilent: !process.stderr.isTTY }).start();
+}
 
 export function registerDriveCommands(program: Command): void {
   const drive = program
@@ -42,8 +80,7 @@ export function registerDriveCommands(program: Command): void {
     .description('Google Drive operations');
 
   // --- List ---
-  drive
-    .command('list')
+  withPagination(drive.command('list'))
     .description('List files')
     .option('--query <q>', 'Drive search query')
     .option('--folder <id>', 'List files in folder')
@@ -52,7 +89,7 @@ export function registerDriveCommands(program: Command): void {
     .option('--order-by <field>', 'Sort order (e.g., modifiedDate desc)')
     .option('--page-token <token>', 'Pagination token')
     .action(async (opts: any, cmd: Command) => {
-      await run(cmd, 'list', {
+      await runPaged(cmd, 'drive', 'list', {
         query: opts.query,
         folderId: opts.folder,
         mimeType: opts.type,
@@ -63,14 +100,13 @@ export function registerDriveCommands(program: Command): void {
     });
 
   // --- Search ---
-  drive
-    .command('search <query>')
+  withPagination(drive.command('search <query>'))
     .description('Search files by query string')
     .option('--max <n>', 'Maximum results', '25')
     .option('--order-by <field>', 'Sort order')
     .option('--page-token <token>', 'Pagination token')
     .action(async (query: string, opts: any, cmd: Command) => {
-      await run(cmd, 'search', {
+      await runPaged(cmd, 'drive', 'search', {
         query,
         max: Number(opts.max),
         orderBy: opts.orderBy,
@@ -89,19 +125,47 @@ export function registerDriveCommands(program: Command): void {
   // --- Download ---
   drive
     .command('download <fileId>')
-    .description('Download file content')
+    .description('Download file content (large files in resumable chunks)')
     .option('--out <path>', 'Output file path (default: stdout)')
     .option('--export-type <mimeType>', 'Export MIME type for Google files')
+    .option('--chunk-size <mb>', 'Chunk size in MiB', parseChunkSize, DEFAULT_CHUNK_SIZE)
     .action(async (fileId: string, opts: any, cmd: Command) => {
       const globalOpts = getGlobalOpts(cmd);
-      const config = loadConfig(globalOpts);
-      const result = await executeCommand('drive', 'download', {
+      const call = driveCaller(globalOpts, loadConfig(globalOpts));
+
+      const info = await call('download.info', { fileId });
+      if (!info.ok) {
+        printResult(info, getOutputMode(globalOpts), 'drive', 'download', getOutputOptions(globalOpts));
+        process.exitCode = getExitCode(info);
+        return;
+      }
+
+      // Google Docs/Sheets/Slides are exported in one piece
+      if (!info.data.exportRequired) {
+        const spinner = transferSpinner(`Downloading ${info.data.name}`);
+        const result = await downloadChunked({
+          info: info.data,
+          out: opts.out,
+          stream: process.stdout,
+          chunkSize: opts.chunkSize,
+          call,
+          onProgress: (done, total) => { spinner.text = progressText(`Downloading ${info.data.name}`, done, total); },
+        });
+        if (result.ok) {
+          spinner.stop();
+          if (opts.out) process.stderr.write(`Downloaded to ${opts.out} (${result.data.size} bytes, MD5 verified)\n`);
+          process.exitCode = 0;
+        } else {
+          spinner.fail();
+          printResult(result, getOutputMode(globalOpts), 'drive', 'download', getOutputOptions(globalOpts));
+          process.exitCode = getExitCode(result);
+        }
+        return;
+      }
+
+      const result = await call('download', {
         fileId,
         exportMimeType: opts.exportType,
-      }, config, {
-        timeout: globalOpts.timeout ? Number(globalOpts.timeout) : undefined,
-        maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
-        verbose: globalOpts.verbose,
       });
 
       if (result.ok && result.data) {
@@ -126,7 +190,7 @@ export function registerDriveCommands(program: Command): void {
         }
         process.exitCode = 0;
       } else {
-        printResult(result, getOutputMode(globalOpts), 'drive', 'download');
+        printResult(result, getOutputMode(globalOpts), 'drive', 'download', getOutputOptions(globalOpts));
         process.exitCode = getExitCode(result);
       }
     });
@@ -134,12 +198,13 @@ export function registerDriveCommands(program: Command): void {
   // --- Upload ---
   drive
     .command('upload <filePath>')
-    .description('Upload a file to Drive')
+    .description('Upload a file to Drive (large files in resumable chunks)')
     .option('--name <name>', 'File name in Drive (default: local filename)')
     .option('--mime-type <type>', 'MIME type')
     .option('--folder <id>', 'Destination folder ID')
     .option('--description <text>', 'File description')
     .option('--convert', 'Convert to Google format')
+    .option('--chunk-size <mb>', 'Chunk size in MiB', parseChunkSize, DEFAULT_CHUNK_SIZE)
     .action(async (filePath: string, opts: any, cmd: Command) => {
       if (!fs.existsSync(filePath)) {
         process.stderr.write(`Error: File not found: ${filePath}\n`);
@@ -147,27 +212,36 @@ export function registerDriveCommands(program: Command): void {
         return;
       }
 
-      const stats = fs.statSync(filePath);
-      if (stats.size > FIFTY_MB) {
-        process.stderr.write(
-          `Warning: File is ${(stats.size / (1024 * 1024)).toFixed(1)} MB. ` +
-          `Large files may fail due to Apps Script limits.\n`
-        );
-      }
-
-      const content = fs.readFileSync(filePath);
-      const base64 = content.toString('base64');
       const name = opts.name || path.basename(filePath);
-
-      await run(cmd, 'upload', {
+      const metadata = {
         name,
-        content: base64,
-        encoding: 'base64',
         mimeType: opts.mimeType,
         folderId: opts.folder,
         description: opts.description,
         convert: opts.convert || false,
+      };
+
+      if (fs.statSync(filePath).size <= opts.chunkSize) {
+        const content = fs.readFileSync(filePath);
+        await run(cmd, 'upload', { ...metadata, content: content.toString('base64'), encoding: 'base64' });
+        return;
+      }
+
+      const globalOpts = getGlobalOpts(cmd);
+      const config = loadConfig(globalOpts);
+      const spinner = transferSpinner(`Uploading ${name}`);
+      const result = await uploadChunked({
+        filePath,
+        metadata,
+        chunkSize: opts.chunkSize,
+        call: driveCaller(globalOpts, config),
+        scope: config.proxy_url,
+        onProgress: (done, total) => { spinner.text = progressText(`Uploading ${name}`, done, total); },
       });
+      if (result.ok) spinner.stop();
+      else spinner.fail();
+      printResult(result, getOutputMode(globalOpts), 'drive', 'upload', getOutputOptions(globalOpts));
+      process.exitCode = getExitCode(result);
     });
 
   // --- Copy ---
@@ -196,7 +270,7 @@ export function registerDriveCommands(program: Command): void {
   drive
     .command('export <fileId>')
     .description('Export Google Doc/Sheet/Slide to format')
-    .requiredOption('--format <fmt>', 'Export format (pdf, docx, xlsx, pptx, csv, txt)')
+    .addOption(choiceOption('--format <fmt>', 'Export format', ['pdf', 'docx', 'xlsx', 'pptx', 'csv', 'txt', 'html', 'png', 'svg']).makeOptionMandatory())
     .option('--out <path>', 'Output file path')
     .action(async (fileId: string, opts: any, cmd: Command) => {
       const globalOpts = getGlobalOpts(cmd);
@@ -232,7 +306,7 @@ export function registerDriveCommands(program: Command): void {
         }
         process.exitCode = 0;
       } else {
-        printResult(result, getOutputMode(globalOpts), 'drive', 'export');
+        printResult(result, getOutputMode(globalOpts), 'drive', 'export', getOutputOptions(globalOpts));
         process.exitCode = getExitCode(result);
       }
     });
@@ -252,8 +326,8 @@ export function registerDriveCommands(program: Command): void {
   perms
     .command('create <fileId>')
     .description('Share a file')
-    .requiredOption('--role <role>', 'Permission role (reader, writer, commenter, owner)')
-    .requiredOption('--type <type>', 'Permission type (user, group, domain, anyone)')
+    .addOption(choiceOption('--role <role>', 'Permission role', ['reader', 'commenter', 'writer', 'owner']).makeOptionMandatory())
+    .addOption(choiceOption('--type <type>', 'Permission type', ['user', 'group', 'domain', 'anyone']).makeOptionMandatory())
     .option('--email <address>', 'Email address (for user/group type)')
     .option('--domain <domain>', 'Domain (for domain type)')
     .option('--no-notify', 'Do not send notification email')
@@ -285,13 +359,12 @@ export function registerDriveCommands(program: Command): void {
     });
 
   // --- Shared drives ---
-  drive
-    .command('drives')
+  withPagination(drive.command('drives'))
     .description('List shared drives')
     .option('--max <n>', 'Maximum results', '25')
     .option('--page-token <token>', 'Pagination token')
     .action(async (opts: any, cmd: Command) => {
-      await run(cmd, 'drives.list', {
+      await runPaged(cmd, 'drive', 'drives.list', {
         max: Number(opts.max),
         pageToken: opts.pageToken,
       });
@@ -1,10 +1,29 @@
+import fs from 'node:fs';
+import { confirm } from '@inquirer/prompts';
 import { Command } from 'commander';
-import { executeCommand } from '../client.js';
+import chalk from 'chalk';
+import ora from 'ora';
+import { executeBatch, executeCommand } from '../client.js';
+import { composeMail } from '../compose.js';
+import type { ComposedMail } from '../compose.js';
 import { loadConfig } from '../config.js';
+import { formatDateTime, parseDateTime } from '../dates.js';
+import {
+  FILTER_CATEGORIES, FILTER_FORMATS, fetchFilters, formatFromPath, importFilters, parseFilters, parseSize,
+  serializeFilters, toGmailFilter,
+} from '../filters.js';
+import type { FilterFormat, FilterRule } from '../filters.js';
+import { messageBodyText } from '../html-text.js';
+import { MAIL_STORE_FORMATS, parseFolderMap, searchLocal, syncMailbox } from '../mailstore.js';
 import { printResult, getExitCode } from '../output.js';
-import type { GlobalOptions, OutputMode } from '../types.js';
+import { quoteForward, quoteReply, textToHtml } from '../quote.js';
+import { CONFIRM_THRESHOLD, TRIAGE_ACTIONS, applyTriage, findThreads, parseUntil, triageQuery } from '../triage.js';
+import type { TriageAction } from '../triage.js';
+import type { CommandResult, GlobalOptions, GProxyConfig, OutputMode } from '../types.js';
+import { choiceOption, getOutputOptions } from './helpers.js';
 
 function getOutputMode(opts: GlobalOptions): OutputMode {
+  if (opts.output) return opts.output;
   if (opts.json) return 'json';
   if (opts.plain) return 'plain';
   return 'human';
@@ -23,13 +42,204 @@ async function run(
 ): Promise<void> {
   const globalOpts = getGlobalOpts(cmd);
   const config = loadConfig(globalOpts);
-  const result = await executeCommand('gmail', action, params, config, {
+  const result = await executeCommand('gmail', action, params, config, clientOptions(globalOpts));
+  printResult(result, getOutputMode(globalOpts), 'gmail', action, getOutputOptions(globalOpts));
+  process.exitCode = getExitCode(result);
+}
+
+function clientOptions(globalOpts: GlobalOptions) {
+  return {
     timeout: globalOpts.timeout ? Number(globalOpts.timeout) : undefined,
     maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
     verbose: globalOpts.verbose,
-  });
-  printResult(result, getOutputMode(globalOpts), 'gmail', action);
-  process.exitCode = getExitCode(result);
+  };
+}
+
+/**
+ * Fetch a thread and pick the message to answer: `messageId`, or the latest.
+ * Resolves with the thread subject and that message.
+ */
+async function getThreadMessage(
+  threadId: string,
+  messageId: string | undefined,
+  config: GProxyConfig,
+  globalOpts: GlobalOptions
+): Promise<CommandResult> {
+  const result = await executeCommand('gmail', 'get', { threadId }, config, clientOptions(globalOpts));
+  if (!result.ok) return result;
+  const messages: any[] = result.data.messages ?? [];
+  const message = messageId ? messages.find(m => m.messageId === messageId) : messages[messages.length - 1];
+  if (!message) {
+    return { ok: false, error: { code: 'NOT_FOUND', message: `Message ${messageId} is not in thread ${threadId}`, retryable: false } };
+  }
+  return { ok: true, data: { subject: result.data.subject as string, message } };
+}
+
+/** `--list-visibility` choices and the Gmail API values they stand for. */
+const LABEL_LIST_VISIBILITY: Record<string, string> = {
+  show: 'labelShow',
+  unread: 'labelShowIfUnread',
+  hide: 'labelHide',
+};
+
+/**
+ * Label colour and visibility params from `labels create|update` options,
+ * or null (after printing the error) when a colour is not #rrggbb.
+ */
+function labelStyleOrFail(opts: any): Record<string, string | undefined> | null {
+  for (const color of [opts.bgColor, opts.textColor]) {
+    if (color !== undefined && !/^#[0-9a-f]{6}$/i.test(color)) {
+      process.stderr.write(chalk.red(`Error: Invalid colour "${color}"; use #rrggbb\n`));
+      process.exitCode = 1;
+      return null;
+    }
+  }
+  if (opts.textColor && !opts.bgColor) {
+    process.stderr.write(chalk.red('Error: --text-color needs --bg-color\n'));
+    process.exitCode = 1;
+    return null;
+  }
+  return {
+    backgroundColor: opts.bgColor?.toLowerCase(),
+    textColor: (opts.textColor ?? (opts.bgColor ? contrastColor(opts.bgColor) : undefined))?.toLowerCase(),
+    labelListVisibility: opts.listVisibility ? LABEL_LIST_VISIBILITY[opts.listVisibility] : undefined,
+    messageListVisibility: opts.messageVisibility,
+  };
+}
+
+/** Black or white, whichever contrasts more with a #rrggbb background. */
+function contrastColor(background: string): string {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(background.slice(i, i + 2), 16));
+  return 0.299 * r + 0.587 * g + 0.114 * b > 150 ? '#000000' : '#ffffff';
+}
+
+const READ_FORMATS = ['text', 'html', 'raw'] as const;
+
+const TRIAGE_DESCRIPTIONS: Record<TriageAction, string> = {
+  archive: 'Archive threads',
+  trash: 'Move threads to the trash',
+  untrash: 'Restore threads from the trash (searches in:trash unless the query says otherwise)',
+  'mark-read': 'Mark threads as read',
+  'mark-unread': 'Mark threads as unread',
+  star: 'Star threads',
+  unstar: 'Remove stars from threads',
+};
+
+/**
+ * Action for the bulk triage commands: the given thread IDs, or up to
+ * --limit threads matching --query, each sent through thread.modify.
+ */
+function triageAction(action: TriageAction) {
+  return async (threadIds: string[], opts: any, cmd: Command) => {
+    const limit = Number(opts.limit);
+    const problem = !opts.query && threadIds.length === 0 ? 'Pass thread IDs or --query'
+      : opts.query && threadIds.length > 0 ? 'Pass either thread IDs or --query, not both'
+        : !Number.isInteger(limit) || limit < 1 ? '--limit must be a positive integer' : null;
+    if (problem) {
+      process.stderr.write(chalk.red(`Error: ${problem}\n`));
+      process.exitCode = 1;
+      return;
+    }
+
+    const globalOpts = getGlobalOpts(cmd);
+    const config = loadConfig(globalOpts);
+    const mode = getOutputMode(globalOpts);
+    let threads: any[] = threadIds.map(threadId => ({ threadId }));
+    let truncated = false;
+    if (opts.query) {
+      const found = await findThreads(
+        (name, params) => executeCommand('gmail', name, params, config, clientOptions(globalOpts)),
+        triageQuery(action, opts.query),
+        limit
+      );
+      if (!found.ok) {
+        printResult(found, mode, 'gmail', 'search', getOutputOptions(globalOpts));
+        process.exitCode = getExitCode(found);
+        return;
+      }
+      ({ threads, truncated } = found.data);
+    }
+
+    const summary = { action, query: opts.query, dryRun: opts.dryRun === true, matched: threads.length, truncated };
+    if (opts.dryRun || threads.length === 0) {
+      printResult({ ok: true, data: { ...summary, threads } }, mode, 'gmail', 'triage', getOutputOptions(globalOpts));
+      return;
+    }
+    if (threads.length > CONFIRM_THRESHOLD && !opts.yes) {
+      const question = `${action} ${threads.length} threads${truncated ? ' (more match beyond --limit)' : ''}?`;
+      if (!process.stdin.isTTY) {
+        process.stderr.write(chalk.red(`Error: ${threads.length} threads match; pass --yes to ${action} them\n`));
+        process.exitCode = 1;
+        return;
+      }
+      if (!(await confirm({ message: question.charAt(0).toUpperCase() + question.slice(1), default: false }))) {
+        process.stderr.write('Cancelled.\n');
+        return;
+      }
+    }
+
+    const spinner = ora({ text: `${action}: 0 of ${threads.length}`, stream: process.stderr, isSilent: !process.stderr.isTTY }).start();
+    const result = await applyTriage(
+      action,
+      threads.map(t => t.threadId),
+      requests => executeBatch(requests.map(r => ({ service: 'gmail', ...r })), config, clientOptions(globalOpts)),
+      done => { spinner.text = `${action}: ${done} of ${threads.length}`; }
+    );
+    spinner.stop();
+    const output = result.ok ? { ok: true, data: { ...summary, ...result.data } } : result;
+    printResult(output, mode, 'gmail', 'triage', getOutputOptions(globalOpts));
+    process.exitCode = getExitCode(result) || (result.data?.failed.length > 0 ? 1 : 0);
+  };
+}
+
+/** Action for `gmail reply` (all = false) and `gmail reply-all` (all = true). */
+function replyAction(all: boolean) {
+  return async (threadId: string, opts: any, cmd: Command) => {
+    const mail = composeOrFail(opts);
+    if (!mail) return;
+    const globalOpts = getGlobalOpts(cmd);
+    const config = loadConfig(globalOpts);
+    let result = await getThreadMessage(threadId, opts.message, config, globalOpts);
+    if (result.ok) {
+      const { message } = result.data;
+      result = await executeCommand('gmail', 'reply', {
+        threadId,
+        messageId: message.messageId,
+        all,
+        ...(opts.quote ? quoteReply(message, mail) : mail),
+        cc: opts.cc,
+        bcc: opts.bcc,
+      }, config, clientOptions(globalOpts));
+    }
+    printResult(result, getOutputMode(globalOpts), 'gmail', 'reply', getOutputOptions(globalOpts));
+    process.exitCode = getExitCode(result);
+  };
+}
+
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/** Body, Markdown, attachment and inline image flags shared by send and drafts. */
+function withComposeOptions(cmd: Command): Command {
+  return cmd
+    .option('--body-file <path>', 'Read the plain text body from a file (- for stdin)')
+    .option('--html-file <path>', 'Read the HTML body from a file (- for stdin)')
+    .option('--markdown', 'Body is Markdown; also send it rendered as HTML')
+    .option('--attach <path>', 'Attach a file (repeatable)', collect)
+    .option('--inline <cid=path>', 'Embed an image for <img src="cid:..."> in the HTML body (repeatable)', collect);
+}
+
+/** Compose the message params, or report the problem and return null. */
+function composeOrFail(opts: any): Omit<ComposedMail, 'size'> | null {
+  try {
+    const { size: _size, ...mail } = composeMail(opts);
+    return mail;
+  } catch (err: any) {
+    process.stderr.write(chalk.red(`Error: ${err.message}\n`));
+    process.exitCode = 1;
+    return null;
+  }
 }
 
 export function registerGmailCommands(program: Command): void {
@@ -74,14 +284,74 @@ export function registerGmailCommands(program: Command): void {
 
   gmail
     .command('read <threadId>')
-    .description('Read a thread (alias for get)')
-    .action(async (threadId: string, _opts: any, cmd: Command) => {
-      await run(cmd, 'read', { threadId });
+    .description('Read a thread: HTML bodies rendered as text (or --format html|raw)')
+    .addOption(choiceOption('--format <format>', 'Body format (default: text)', [...READ_FORMATS]))
+    .option('--message <messageId>', 'Only this message of the thread')
+    .option('--show-quoted', 'Keep quoted replies instead of collapsing them')
+    .action(async (threadId: string, opts: any, cmd: Command) => {
+      const globalOpts = getGlobalOpts(cmd);
+      const config = loadConfig(globalOpts);
+      const mode = getOutputMode(globalOpts);
+      const result = await executeCommand('gmail', 'read', { threadId }, config, clientOptions(globalOpts));
+      if (result.ok && opts.message) {
+        result.data.messages = (result.data.messages ?? []).filter((m: any) => m.messageId === opts.message);
+        if (result.data.messages.length === 0) {
+          result.ok = false;
+          result.error = { code: 'NOT_FOUND', message: `Message ${opts.message} is not in thread ${threadId}`, retryable: false };
+        }
+      }
+      if (!result.ok || mode === 'json' || (opts.format ?? 'text') === 'text') {
+        if (result.ok) {
+          for (const m of result.data.messages) m.text = messageBodyText(m, { collapseQuotes: !opts.showQuoted });
+        }
+        printResult(result, mode, 'gmail', 'read', getOutputOptions(globalOpts));
+        process.exitCode = getExitCode(result);
+        return;
+      }
+
+      for (const [i, m] of result.data.messages.entries()) {
+        if (i > 0) process.stdout.write('\n');
+        if (opts.format === 'html') {
+          process.stdout.write((m.bodyHtml || textToHtml(m.body ?? '')) + '\n');
+          continue;
+        }
+        const raw = await executeCommand('gmail', 'raw', { messageId: m.messageId }, config, clientOptions(globalOpts));
+        if (!raw.ok) {
+          printResult(raw, mode, 'gmail', 'raw', getOutputOptions(globalOpts));
+          process.exitCode = getExitCode(raw);
+          return;
+        }
+        process.stdout.write(Buffer.from(raw.data.content, 'base64'));
+      }
+      process.exitCode = 0;
     });
 
-  // --- Send ---
   gmail
-    .command('send <to>')
+    .command('export <messageId>')
+    .description('Save a message as an RFC 822 .eml file')
+    .option('--out <file>', 'Output file (default: <messageId>.eml, - for stdout)')
+    .action(async (messageId: string, opts: any, cmd: Command) => {
+      const globalOpts = getGlobalOpts(cmd);
+      const config = loadConfig(globalOpts);
+      const result = await executeCommand('gmail', 'raw', { messageId }, config, clientOptions(globalOpts));
+      if (!result.ok) {
+        printResult(result, getOutputMode(globalOpts), 'gmail', 'raw', getOutputOptions(globalOpts));
+        process.exitCode = getExitCode(result);
+        return;
+      }
+      const buffer = Buffer.from(result.data.content, 'base64');
+      const outPath = opts.out || `${messageId}.eml`;
+      if (outPath === '-') {
+        process.stdout.write(buffer);
+      } else {
+        fs.writeFileSync(outPath, buffer);
+        process.stderr.write(`Exported to ${outPath} (${buffer.length} bytes)\n`);
+      }
+      process.exitCode = 0;
+    });
+
+  // --- Send ---
+  withComposeOptions(gmail.command('send <to>'))
     .description('Send an email')
     .requiredOption('--subject <text>', 'Email subject')
     .option('--body <text>', 'Plain text body')
@@ -90,17 +360,61 @@ export function registerGmailCommands(program: Command): void {
     .option('--bcc <addresses>', 'BCC recipients (comma-separated)')
     .option('--reply-to <threadId>', 'Reply to thread')
     .action(async (to: string, opts: any, cmd: Command) => {
+      const mail = composeOrFail(opts);
+      if (!mail) return;
       await run(cmd, 'send', {
         to,
         subject: opts.subject,
-        body: opts.body,
-        bodyHtml: opts.html,
+        ...mail,
         cc: opts.cc,
         bcc: opts.bcc,
         replyToThreadId: opts.replyTo,
       });
     });
 
+  // --- Reply / Forward ---
+  for (const [name, all] of [['reply', false], ['reply-all', true]] as const) {
+    withComposeOptions(gmail.command(`${name} <threadId>`))
+      .description(all
+        ? 'Reply to the sender and all recipients, quoting the original'
+        : 'Reply to the sender, quoting the original')
+      .option('--message <messageId>', 'Message to answer (default: the latest in the thread)')
+      .option('--body <text>', 'Plain text body')
+      .option('--html <text>', 'HTML body')
+      .option('--cc <addresses>', 'Additional CC recipients (comma-separated)')
+      .option('--bcc <addresses>', 'BCC recipients (comma-separated)')
+      .option('--no-quote', 'Do not quote the original message')
+      .action(replyAction(all));
+  }
+
+  withComposeOptions(gmail.command('forward <threadId> <to>'))
+    .description('Forward a message with its attachments')
+    .option('--message <messageId>', 'Message to forward (default: the latest in the thread)')
+    .option('--body <text>', 'Plain text note above the forwarded message')
+    .option('--html <text>', 'HTML note above the forwarded message')
+    .option('--cc <addresses>', 'CC recipients (comma-separated)')
+    .option('--bcc <addresses>', 'BCC recipients (comma-separated)')
+    .action(async (threadId: string, to: string, opts: any, cmd: Command) => {
+      const mail = composeOrFail(opts);
+      if (!mail) return;
+      const globalOpts = getGlobalOpts(cmd);
+      const config = loadConfig(globalOpts);
+      let result = await getThreadMessage(threadId, opts.message, config, globalOpts);
+      if (result.ok) {
+        const { subject, message } = result.data;
+        result = await executeCommand('gmail', 'forward', {
+          threadId,
+          messageId: message.messageId,
+          to,
+          ...quoteForward(message, subject, mail),
+          cc: opts.cc,
+          bcc: opts.bcc,
+        }, config, clientOptions(globalOpts));
+      }
+      printResult(result, getOutputMode(globalOpts), 'gmail', 'forward', getOutputOptions(globalOpts));
+      process.exitCode = getExitCode(result);
+    });
+
   // --- Labels ---
   const labels = gmail
     .command('labels')
@@ -115,9 +429,59 @@ export function registerGmailCommands(program: Command): void {
 
   labels
     .command('create <name>')
-    .description('Create a label')
+    .description('Create a label; nested names like Projects/2026/Q4 create missing parents')
+    .option('--bg-color <hex>', 'Background colour (a Gmail palette colour, e.g. #16a766)')
+    .option('--text-color <hex>', 'Text colour (default: black or white, whichever reads better)')
+    .addOption(choiceOption('--list-visibility <mode>', 'Show in the label list', Object.keys(LABEL_LIST_VISIBILITY)))
+    .addOption(choiceOption('--message-visibility <mode>', 'Show on messages', ['show', 'hide']))
+    .action(async (name: string, opts: any, cmd: Command) => {
+      const style = labelStyleOrFail(opts);
+      if (!style) return;
+      await run(cmd, 'labels.create', { name, ...style });
+    });
+
+  labels
+    .command('show <name>')
+    .description('Show a label with its message and thread counts')
     .action(async (name: string, _opts: any, cmd: Command) => {
-      await run(cmd, 'labels.create', { name });
+      await run(cmd, 'labels.get', { name });
+    });
+
+  labels
+    .command('rename <name> <newName>')
+    .description('Rename or move a label, along with the labels nested under it')
+    .action(async (name: string, newName: string, _opts: any, cmd: Command) => {
+      await run(cmd, 'labels.update', { name, newName });
+    });
+
+  labels
+    .command('update <name>')
+    .description('Change the colour or visibility of a label')
+    .option('--bg-color <hex>', 'Background colour (a Gmail palette colour, e.g. #16a766)')
+    .option('--text-color <hex>', 'Text colour (default: black or white, whichever reads better)')
+    .addOption(choiceOption('--list-visibility <mode>', 'Show in the label list', Object.keys(LABEL_LIST_VISIBILITY)))
+    .addOption(choiceOption('--message-visibility <mode>', 'Show on messages', ['show', 'hide']))
+    .action(async (name: string, opts: any, cmd: Command) => {
+      const style = labelStyleOrFail(opts);
+      if (!style) return;
+      await run(cmd, 'labels.update', { name, ...style });
+    });
+
+  labels
+    .command('apply <name>')
+    .description('Add a label to (or remove it from) every thread matching a search')
+    .requiredOption('--query <q>', 'Gmail search query')
+    .option('--remove', 'Remove the label instead of adding it')
+    .option('--max <n>', 'Maximum threads (up to 500)', '100')
+    .option('--dry-run', 'Count the matching threads without changing them')
+    .action(async (name: string, opts: any, cmd: Command) => {
+      await run(cmd, 'labels.apply', {
+        name,
+        query: opts.query,
+        remove: opts.remove || false,
+        max: Number(opts.max),
+        dryRun: opts.dryRun || false,
+      });
     });
 
   labels
@@ -141,6 +505,48 @@ export function registerGmailCommands(program: Command): void {
       });
     });
 
+  // --- Bulk triage ---
+  for (const action of Object.keys(TRIAGE_ACTIONS) as TriageAction[]) {
+    gmail
+      .command(`${action} [threadIds...]`)
+      .description(TRIAGE_DESCRIPTIONS[action])
+      .option('--query <q>', 'Act on the threads matching this search')
+      .option('--limit <n>', 'Maximum threads to change', '500')
+      .option('--dry-run', 'List the matching threads without changing them')
+      .option('-y, --yes', `Skip the confirmation asked above ${CONFIRM_THRESHOLD} threads`)
+      .action(triageAction(action));
+  }
+
+  gmail
+    .command('snooze <threadId>')
+    .description('Archive a thread and bring it back to the inbox later')
+    .requiredOption('--until <when>', 'Date, date-time or duration (e.g. 2026-11-02, 2026-11-02T09:00, 3h, 2d)')
+    .action(async (threadId: string, opts: any, cmd: Command) => {
+      let until: Date;
+      try {
+        until = parseUntil(opts.until);
+      } catch (err: any) {
+        process.stderr.write(chalk.red(`Error: ${err.message}\n`));
+        process.exitCode = 1;
+        return;
+      }
+      await run(cmd, 'snooze', { threadId, until: until.toISOString() });
+    });
+
+  gmail
+    .command('snoozed')
+    .description('List snoozed threads and when they come back')
+    .action(async (_opts: any, cmd: Command) => {
+      await run(cmd, 'snooze.list', {});
+    });
+
+  gmail
+    .command('unsnooze <threadId>')
+    .description('Bring a snoozed thread back to the inbox now')
+    .action(async (threadId: string, _opts: any, cmd: Command) => {
+      await run(cmd, 'snooze.cancel', { threadId });
+    });
+
   // --- Drafts ---
   const drafts = gmail
     .command('drafts')
@@ -154,34 +560,44 @@ export function registerGmailCommands(program: Command): void {
       await run(cmd, 'drafts.list', { max: Number(opts.max) });
     });
 
-  drafts
-    .command('create')
+  withComposeOptions(drafts.command('create'))
     .description('Create a draft')
     .requiredOption('--to <address>', 'Recipient')
     .requiredOption('--subject <text>', 'Subject')
     .option('--body <text>', 'Plain text body')
     .option('--html <text>', 'HTML body')
+    .option('--cc <addresses>', 'CC recipients (comma-separated)')
+    .option('--bcc <addresses>', 'BCC recipients (comma-separated)')
     .action(async (opts: any, cmd: Command) => {
+      const mail = composeOrFail(opts);
+      if (!mail) return;
       await run(cmd, 'drafts.create', {
         to: opts.to,
         subject: opts.subject,
-        body: opts.body,
-        bodyHtml: opts.html,
+        ...mail,
+        cc: opts.cc,
+        bcc: opts.bcc,
       });
     });
 
-  drafts
-    .command('update <draftId>')
+  withComposeOptions(drafts.command('update <draftId>'))
     .description('Update a draft')
     .option('--to <address>', 'Recipient')
     .option('--subject <text>', 'Subject')
     .option('--body <text>', 'Plain text body')
+    .option('--html <text>', 'HTML body')
+    .option('--cc <addresses>', 'CC recipients (comma-separated)')
+    .option('--bcc <addresses>', 'BCC recipients (comma-separated)')
     .action(async (draftId: string, opts: any, cmd: Command) => {
+      const mail = composeOrFail(opts);
+      if (!mail) return;
       await run(cmd, 'drafts.update', {
         draftId,
         to: opts.to,
         subject: opts.subject,
-        body: opts.body,
+        ...mail,
+        cc: opts.cc,
+        bcc: opts.bcc,
       });
     });
 
@@ -200,6 +616,61 @@ export function registerGmailCommands(program: Command): void {
       await run(cmd, 'attachments.download', { messageId, attachmentId });
     });
 
+  // --- Offline mirror ---
+  gmail
+    .command('sync')
+    .description('Mirror threads into a local Maildir or mbox store, fetching only changes after the first run')
+    .requiredOption('--out <dir>', 'Store directory')
+    .addOption(choiceOption('--format <format>', 'Store format for a new store (default: maildir)', MAIL_STORE_FORMATS))
+    .option('--query <q>', 'Only mirror threads matching this Gmail query (later runs sync by date)')
+    .option('--folder <label=folder>', 'Store a label in another folder; empty skips it (repeatable)', collect)
+    .option('--full', 'Re-read every thread and drop what is gone')
+    .option('--page-size <n>', 'Threads per request', '20')
+    .action(async (opts: any, cmd: Command) => {
+      let folders: Record<string, string>;
+      try {
+        folders = parseFolderMap(opts.folder);
+      } catch (err: any) {
+        process.stderr.write(chalk.red(`Error: ${err.message}\n`));
+        process.exitCode = 1;
+        return;
+      }
+      const globalOpts = getGlobalOpts(cmd);
+      const config = loadConfig(globalOpts);
+      const spinner = ora({ text: 'Syncing', stream: process.stderr, isSilent: !process.stderr.isTTY }).start();
+      const result = await syncMailbox({
+        out: opts.out,
+        format: opts.format,
+        query: opts.query,
+        folders,
+        full: opts.full,
+        pageSize: Number(opts.pageSize),
+        call: (action, params) => executeCommand('gmail', action, params, config, clientOptions(globalOpts)),
+        onProgress: ({ pages, added, updated, deleted }) => {
+          spinner.text = `Syncing: page ${pages}, ${added} added, ${updated} updated, ${deleted} deleted`;
+        },
+      });
+      spinner.stop();
+      printResult(result, getOutputMode(globalOpts), 'gmail', 'sync', getOutputOptions(globalOpts));
+      process.exitCode = getExitCode(result);
+    });
+
+  const local = gmail
+    .command('local')
+    .description('Work with a mailbox mirrored by gmail sync, offline');
+
+  local
+    .command('search <query>')
+    .description('Search the mirror (from:, to:, subject:, label:, after:, before:, is:, words)')
+    .requiredOption('--dir <dir>', 'Store directory given to gmail sync --out')
+    .option('--max <n>', 'Maximum results', '50')
+    .action((query: string, opts: any, cmd: Command) => {
+      const globalOpts = getGlobalOpts(cmd);
+      const result = searchLocal(opts.dir, query, Number(opts.max));
+      printResult(result, getOutputMode(globalOpts), 'gmail', 'local.search', getOutputOptions(globalOpts));
+      process.exitCode = getExitCode(result);
+    });
+
   // --- Settings ---
   const settings = gmail
     .command('settings')
@@ -212,17 +683,28 @@ export function registerGmailCommands(program: Command): void {
     .option('--disable', 'Disable vacation responder')
     .option('--subject <text>', 'Vacation subject')
     .option('--message <text>', 'Vacation message')
-    .option('--start <date>', 'Start date (YYYY-MM-DD)')
-    .option('--end <date>', 'End date (YYYY-MM-DD)')
+    .option('--start <when>', 'Start (e.g. friday 5pm, 2026-07-01)')
+    .option('--end <when>', 'End (a date means the end of that day)')
+    .option('--timezone <tz>', 'Time zone for --start/--end (default: system zone)')
     .action(async (opts: any, cmd: Command) => {
-      if (opts.enable || opts.disable || opts.subject || opts.message) {
+      if (opts.enable || opts.disable || opts.subject || opts.message || opts.start || opts.end) {
+        let startTime: string | undefined;
+        let endTime: string | undefined;
+        try {
+          if (opts.start) startTime = formatDateTime(parseDateTime(opts.start, { timeZone: opts.timezone }), opts.timezone);
+          if (opts.end) endTime = formatDateTime(parseDateTime(opts.end, { timeZone: opts.timezone, end: true }), opts.timezone);
+        } catch (err: any) {
+          process.stderr.write(chalk.red(`Error: ${err.message}\n`));
+          process.exitCode = 1;
+          return;
+        }
         await run(cmd, 'settings.vacation', {
-          action: 'set',
+          set: true,
           enabled: opts.enable ? true : opts.disable ? false : undefined,
           subject: opts.subject,
-          message: opts.message,
-          startDate: opts.start,
-          endDate: opts.end,
+          body: opts.message,
+          startTime,
+          endTime,
         });
       } else {
         await run(cmd, 'settings.vacation', { action: 'get' });
@@ -243,19 +725,115 @@ export function registerGmailCommands(program: Command): void {
   filters
     .command('create')
     .description('Create a filter')
-    .requiredOption('--from <address>', 'From address criteria')
-    .option('--label <name>', 'Apply label')
+    .option('--from <address>', 'From address criteria')
+    .option('--to <address>', 'To address criteria')
+    .option('--subject <text>', 'Subject criteria')
+    .option('--query <q>', 'Has the words (Gmail search query)')
+    .option('--negated-query <q>', "Doesn't have the words")
+    .option('--has-attachment', 'Only messages with attachments')
+    .option('--exclude-chats', "Don't match chats")
+    .option('--larger <size>', 'Larger than a size (e.g. 5M, 500K)')
+    .option('--smaller <size>', 'Smaller than a size (e.g. 5M, 500K)')
+    .option('--label <name>', 'Apply label (created if missing)')
     .option('--archive', 'Archive matching messages')
     .option('--star', 'Star matching messages')
     .option('--mark-read', 'Mark matching messages as read')
+    .option('--trash', 'Delete matching messages')
+    .option('--never-spam', 'Never send matching messages to spam')
+    .option('--important', 'Always mark as important')
+    .option('--never-important', 'Never mark as important')
+    .addOption(choiceOption('--category <category>', 'Categorize matching messages', [...FILTER_CATEGORIES]))
+    .option('--forward <address>', 'Forward to a verified forwarding address')
     .action(async (opts: any, cmd: Command) => {
-      await run(cmd, 'settings.filters.create', {
-        from: opts.from,
-        label: opts.label,
-        archive: opts.archive || false,
-        star: opts.star || false,
-        markRead: opts.markRead || false,
+      let params: ReturnType<typeof toGmailFilter>;
+      try {
+        if (opts.larger && opts.smaller) throw new Error('Use either --larger or --smaller');
+        const size = opts.larger ?? opts.smaller;
+        params = toGmailFilter({
+          criteria: {
+            from: opts.from,
+            to: opts.to,
+            subject: opts.subject,
+            query: opts.query,
+            negatedQuery: opts.negatedQuery,
+            hasAttachment: opts.hasAttachment,
+            excludeChats: opts.excludeChats,
+            size: size ? parseSize(size) : undefined,
+            sizeComparison: opts.smaller ? 'smaller' : 'larger',
+          },
+          action: {
+            label: opts.label,
+            archive: opts.archive,
+            star: opts.star,
+            markRead: opts.markRead,
+            trash: opts.trash,
+            neverSpam: opts.neverSpam,
+            important: opts.important,
+            neverImportant: opts.neverImportant,
+            category: opts.category,
+            forward: opts.forward,
+          },
+        });
+      } catch (err: any) {
+        process.stderr.write(chalk.red(`Error: ${err.message}\n`));
+        process.exitCode = 1;
+        return;
+      }
+      await run(cmd, 'settings.filters.create', params);
+    });
+
+  filters
+    .command('export')
+    .description('Export filters as JSON, Gmail mailFilters.xml or Sieve')
+    .addOption(choiceOption('--format <format>', 'File format (default: from --out, else json)', FILTER_FORMATS))
+    .option('--out <file>', 'Write to a file instead of stdout')
+    .action(async (opts: any, cmd: Command) => {
+      const globalOpts = getGlobalOpts(cmd);
+      const config = loadConfig(globalOpts);
+      const warn = (message: string) => process.stderr.write(chalk.yellow(`Warning: ${message}\n`));
+      const result = await fetchFilters((action, params) =>
+        executeCommand('gmail', action, params, config, clientOptions(globalOpts)), warn);
+      if (!result.ok) {
+        printResult(result, getOutputMode(globalOpts), 'gmail', 'settings.filters.list', getOutputOptions(globalOpts));
+        process.exitCode = getExitCode(result);
+        return;
+      }
+      const format: FilterFormat = opts.format ?? (opts.out && formatFromPath(opts.out)) ?? 'json';
+      const content = serializeFilters(result.data.filters, format, warn);
+      if (opts.out) {
+        fs.writeFileSync(opts.out, content, 'utf-8');
+        process.stderr.write(`Exported ${result.data.filters.length} filter(s) to ${opts.out}\n`);
+      } else {
+        process.stdout.write(content);
+      }
+      process.exitCode = 0;
+    });
+
+  filters
+    .command('import <file>')
+    .description('Create the filters in a file that the account does not have yet')
+    .addOption(choiceOption('--format <format>', 'File format (default: from the extension)', FILTER_FORMATS))
+    .option('--dry-run', 'Show what would be created without creating it')
+    .action(async (file: string, opts: any, cmd: Command) => {
+      let rules: FilterRule[];
+      try {
+        const format = opts.format ?? formatFromPath(file);
+        if (!format) throw new Error(`Cannot tell the format of ${file}; pass --format json|xml|sieve`);
+        rules = parseFilters(fs.readFileSync(file, 'utf-8'), format);
+      } catch (err: any) {
+        process.stderr.write(chalk.red(`Error: ${err.message}\n`));
+        process.exitCode = 1;
+        return;
+      }
+      const globalOpts = getGlobalOpts(cmd);
+      const config = loadConfig(globalOpts);
+      const result = await importFilters({
+        rules,
+        dryRun: opts.dryRun,
+        call: (action, params) => executeCommand('gmail', action, params, config, clientOptions(globalOpts)),
       });
+      printResult(result, getOutputMode(globalOpts), 'gmail', 'settings.filters.import', getOutputOptions(globalOpts));
+      process.exitCode = getExitCode(result);
     });
 
   filters
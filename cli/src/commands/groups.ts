@@ -3,8 +3,10 @@ import { executeCommand } from '../client.js';
 import { loadConfig } from '../config.js';
 import { printResult, getExitCode } from '../output.js';
 import type { GlobalOptions, OutputMode } from '../types.js';
+import { getOutputOptions, runPaged, withPagination } from './helpers.js';
 
 function getOutputMode(opts: GlobalOptions): OutputMode {
+  if (opts.output) return opts.output;
   if (opts.json) return 'json';
   if (opts.plain) return 'plain';
   return 'human';
@@ -28,7 +30,7 @@ async function run(
     maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
     verbose: globalOpts.verbose,
   });
-  printResult(result, getOutputMode(globalOpts), 'groups', action);
+  printResult(result, getOutputMode(globalOpts), 'groups', action, getOutputOptions(globalOpts));
   process.exitCode = getExitCode(result);
 }
 
@@ -38,15 +40,14 @@ export function registerGroupsCommands(program: Command): void {
     .description('Google Groups operations (Workspace)');
 
   // --- List ---
-  groups
-    .command('list')
+  withPagination(groups.command('list'))
     .description('List groups the user belongs to')
     .option('--domain <domain>', 'Filter by domain')
     .option('--user <email>', 'List groups for specific user')
     .option('--max <n>', 'Maximum results', '25')
     .option('--page-token <token>', 'Pagination token')
     .action(async (opts: any, cmd: Command) => {
-      await run(cmd, 'list', {
+      await runPaged(cmd, 'groups', 'list', {
         domain: opts.domain,
         userKey: opts.user,
         max: Number(opts.max),
@@ -55,14 +56,13 @@ export function registerGroupsCommands(program: Command): void {
     });
 
   // --- Members ---
-  groups
-    .command('members <groupKey>')
+  withPagination(groups.command('members <groupKey>'))
     .description('List members of a group')
     .option('--roles <roles>', 'Filter by roles (OWNER, MANAGER, MEMBER)')
     .option('--max <n>', 'Maximum results', '50')
     .option('--page-token <token>', 'Pagination token')
     .action(async (groupKey: string, opts: any, cmd: Command) => {
-      await run(cmd, 'members', {
+      await runPaged(cmd, 'groups', 'members', {
         groupKey,
         roles: opts.roles,
         max: Number(opts.max),
@@ -1,15 +1,65 @@
-import { Command } from 'commander';
-import { executeCommand } from '../client.js';
+import { Command, InvalidArgumentError, Option } from 'commander';
+import { executeCommand, executePaginated } from '../client.js';
 import { loadConfig } from '../config.js';
 import { printResult, getExitCode } from '../output.js';
-import type { GlobalOptions, OutputMode } from '../types.js';
+import { parseSelectPath } from '../select.js';
+import type { GlobalOptions, OutputMode, OutputOptions } from '../types.js';
 
 export function getOutputMode(opts: GlobalOptions): OutputMode {
+  if (opts.output) return opts.output;
   if (opts.json) return 'json';
   if (opts.plain) return 'plain';
   return 'human';
 }
 
+export function getOutputOptions(opts: GlobalOptions): OutputOptions {
+  return { columns: opts.columns, header: opts.header, select: opts.select };
+}
+
+/**
+ * Commander argument parser for --columns: "id,name" → ['id', 'name'].
+ */
+export function parseColumnsOption(value: string): string[] {
+  const columns = value.split(',').map(c => c.trim()).filter(Boolean);
+  if (columns.length === 0) throw new InvalidArgumentError('Expected a comma-separated list of fields.');
+  return columns;
+}
+
+/**
+ * Commander argument parser for --select: rejects malformed paths up front.
+ */
+export function parseSelectOption(value: string): string {
+  try {
+    parseSelectPath(value);
+  } catch (err: any) {
+    throw new InvalidArgumentError(err.message);
+  }
+  return value;
+}
+
+/**
+ * An option limited to fixed values. The values are listed in --help and used
+ * by shell completion; input is matched case-insensitively.
+ */
+export function choiceOption(flags: string, description: string, choices: string[]): Option {
+  return new Option(flags, description)
+    .choices(choices)
+    .argParser((value: string) => {
+      const match = choices.find(choice => choice.toLowerCase() === value.toLowerCase());
+      if (!match) throw new InvalidArgumentError(`Allowed choices are ${choices.join(', ')}.`);
+      return match;
+    });
+}
+
+/**
+ * Print an option error (e.g. an unparseable date) and fail the command
+ * without calling the proxy.
+ */
+export function reportOptionError(err: unknown): void {
+  process.stderr.write(`Error: ${err instanceof Error ? err.message : String(err)}\n`);
+  process.exitCode = 1;
+}
+
 export function getGlobalOpts(cmd: Command): GlobalOptions {
   let root = cmd;
   while (root.parent) root = root.parent;
@@ -29,6 +79,57 @@ export async function run(
     maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
     verbose: globalOpts.verbose,
   });
-  printResult(result, getOutputMode(globalOpts), service, action);
+  printResult(result, getOutputMode(globalOpts), service, action, getOutputOptions(globalOpts));
+  process.exitCode = getExitCode(result);
+}
+
+/**
+ * Add --all, --limit and --ndjson to a command whose action returns nextPageToken.
+ */
+export function withPagination(command: Command): Command {
+  return command
+    .option('--all', 'Fetch every page (follows nextPageToken)')
+    .option('--limit <n>', 'Stop after n items across pages (implies --all)')
+    .option('--ndjson', 'Stream items as newline-delimited JSON while paging');
+}
+
+/**
+ * Like run(), but honours the pagination options added by withPagination().
+ */
+export async function runPaged(
+  cmd: Command,
+  service: string,
+  action: string,
+  params: Record<string, any>
+): Promise<void> {
+  const opts = cmd.opts();
+  if (!opts.all && opts.limit === undefined && !opts.ndjson) {
+    return run(cmd, service, action, params);
+  }
+
+  const limit = opts.limit !== undefined ? Number(opts.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    process.stderr.write('Error: --limit must be a positive integer\n');
+    process.exitCode = 1;
+    return;
+  }
+
+  const globalOpts = getGlobalOpts(cmd);
+  const config = loadConfig(globalOpts);
+  const onPage = opts.ndjson
+    ? (items: any[]) => {
+      for (const item of items) process.stdout.write(JSON.stringify(item) + '\n');
+    }
+    : undefined;
+
+  const result = await executePaginated(service, action, params, config, {
+    timeout: globalOpts.timeout ? Number(globalOpts.timeout) : undefined,
+    maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
+    verbose: globalOpts.verbose,
+  }, { limit, onPage });
+
+  if (!onPage || !result.ok) {
+    printResult(result, getOutputMode(globalOpts), service, action, getOutputOptions(globalOpts));
+  }
   process.exitCode = getExitCode(result);
 }
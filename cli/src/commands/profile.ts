@@ -0,0 +1,125 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  DEFAULT_PROFILE, addProfile, describeProfile, listProfiles, profileExists,
+  removeProfile, resolveProfile, saveConfig, setCurrentProfile, validateProfileName,
+} from '../config.js';
+import { getGlobalOpts, getOutputMode } from './helpers.js';
+
+function fail(message: string): void {
+  process.stderr.write(chalk.red(`Error: ${message}\n`));
+  process.exitCode = 1;
+}
+
+export function registerProfileCommands(program: Command): void {
+  const profile = program
+    .command('profile')
+    .description('Manage named proxy profiles (separate URL + secret per account)');
+
+  profile
+    .command('list')
+    .description('List configured profiles')
+    .action((_opts: any, cmd: Command) => {
+      const globalOpts = getGlobalOpts(cmd);
+      const infos = listProfiles(globalOpts).map(name => describeProfile(name, globalOpts));
+
+      if (getOutputMode(globalOpts) === 'json') {
+        process.stdout.write(JSON.stringify({ profiles: infos }, null, 2) + '\n');
+        return;
+      }
+
+      for (const info of infos) {
+        const marker = info.active ? chalk.green('*') : ' ';
+        const url = info.proxy_url ? chalk.dim(info.proxy_url) : chalk.yellow('(not configured)');
+        process.stdout.write(`${marker} ${chalk.bold(info.name)}  ${url}\n`);
+      }
+    });
+
+  profile
+    .command('add <name>')
+    .description('Add a profile (uses --proxy-url/--secret if given, otherwise run setup next)')
+    .action((name: string, _opts: any, cmd: Command) => {
+      const globalOpts = getGlobalOpts(cmd);
+      try {
+        validateProfileName(name);
+      } catch (err: any) {
+        fail(err.message);
+        return;
+      }
+      if (name !== DEFAULT_PROFILE && profileExists(name)) {
+        fail(`Profile "${name}" already exists`);
+        return;
+      }
+
+      if (globalOpts.proxyUrl && globalOpts.secret) {
+        if (!globalOpts.proxyUrl.startsWith('https://')) {
+          fail('URL must start with https://');
+          return;
+        }
+        const { store } = saveConfig({ proxy_url: globalOpts.proxyUrl, secret: globalOpts.secret }, name);
+        process.stderr.write(chalk.green(`Profile "${name}" saved (${store})\n`));
+        return;
+      }
+
+      addProfile(name);
+      process.stderr.write(chalk.green(`Profile "${name}" added.\n`));
+      process.stderr.write(chalk.dim(`Configure it with: gproxy --profile ${name} setup\n`));
+    });
+
+  profile
+    .command('use <name>')
+    .description('Set the profile used when --profile and GPROXY_PROFILE are not given')
+    .action((name: string) => {
+      if (!profileExists(name)) {
+        fail(`Unknown profile "${name}". Create it with: gproxy profile add ${name}`);
+        return;
+      }
+      setCurrentProfile(name);
+      process.stderr.write(chalk.green(`Now using profile "${name}"\n`));
+      if (process.env.GPROXY_PROFILE && process.env.GPROXY_PROFILE !== name) {
+        process.stderr.write(chalk.yellow(
+          `Note: GPROXY_PROFILE=${process.env.GPROXY_PROFILE} is set and takes priority\n`
+        ));
+      }
+    });
+
+  profile
+    .command('remove <name>')
+    .description('Remove a profile and delete its stored credentials')
+    .action((name: string) => {
+      if (name === DEFAULT_PROFILE) {
+        fail('The default profile cannot be removed');
+        return;
+      }
+      if (!profileExists(name)) {
+        fail(`Unknown profile "${name}"`);
+        return;
+      }
+      removeProfile(name);
+      process.stderr.write(chalk.green(`Profile "${name}" removed\n`));
+    });
+
+  profile
+    .command('show [name]')
+    .description('Show a profile (default: the active profile)')
+    .action((name: string | undefined, _opts: any, cmd: Command) => {
+      const globalOpts = getGlobalOpts(cmd);
+      let info;
+      try {
+        info = describeProfile(name || resolveProfile(globalOpts), globalOpts);
+      } catch (err: any) {
+        fail(err.message);
+        return;
+      }
+
+      if (getOutputMode(globalOpts) === 'json') {
+        process.stdout.write(JSON.stringify(info, null, 2) + '\n');
+        return;
+      }
+
+      process.stdout.write(`${chalk.bold('Profile:')}  ${info.name}${info.active ? chalk.green(' (active)') : ''}\n`);
+      process.stdout.write(`${chalk.bold('URL:')}      ${info.proxy_url || chalk.yellow('(not configured)')}\n`);
+      process.stdout.write(`${chalk.bold('Secret:')}   ${info.hasSecret ? 'set' : chalk.yellow('(not set)')}\n`);
+      process.stdout.write(`${chalk.bold('Store:')}    ${info.store || '-'}\n`);
+    });
+}
@@ -1,8 +1,9 @@
 import { Command } from 'commander';
 import crypto from 'node:crypto';
 import { createInterface } from 'node:readline';
-import { saveConfig } from '../config.js';
+import { DEFAULT_PROFILE, resolveProfile, saveConfig } from '../config.js';
 import { executeCommand } from '../client.js';
+import { getGlobalOpts } from './helpers.js';
 import chalk from 'chalk';
 
 async function prompt(question: string): Promise<string> {
@@ -19,9 +20,14 @@ export function registerSetupCommand(program: Command): void {
   program
     .command('setup')
     .description('Interactive setup wizard — configure CLI to connect to the proxy')
-    .action(async () => {
+    .action(async (_opts: any, cmd: Command) => {
+      const profile = resolveProfile(getGlobalOpts(cmd));
       process.stderr.write(chalk.bold('\nGProxy Setup\n'));
-      process.stderr.write(chalk.dim('Configure your CLI to connect to the Apps Script proxy.\n\n'));
+      process.stderr.write(chalk.dim('Configure your CLI to connect to the Apps Script proxy.\n'));
+      if (profile !== DEFAULT_PROFILE) {
+        process.stderr.write(chalk.dim(`Profile: ${profile}\n`));
+      }
+      process.stderr.write('\n');
 
       // Step 1: Generate a random secret
       const generatedSecret = crypto.randomBytes(32).toString('hex');
@@ -56,7 +62,7 @@ export function registerSetupCommand(program: Command): void {
       const secret = secretInput || generatedSecret;
 
       // Step 4: Save config
-      const { store } = saveConfig({ proxy_url, secret });
+      const { store } = saveConfig({ proxy_url, secret }, profile);
       if (store === 'keychain') {
         process.stderr.write(chalk.green('\nCredentials saved to OS keychain (service: gproxy)\n\n'));
       } else if (store === 'encrypted') {
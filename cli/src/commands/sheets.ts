@@ -4,8 +4,10 @@ import { executeCommand } from '../client.js';
 import { loadConfig } from '../config.js';
 import { printResult, getExitCode } from '../output.js';
 import type { GlobalOptions, OutputMode } from '../types.js';
+import { choiceOption, getOutputOptions } from './helpers.js';
 
 function getOutputMode(opts: GlobalOptions): OutputMode {
+  if (opts.output) return opts.output;
   if (opts.json) return 'json';
   if (opts.plain) return 'plain';
   return 'human';
@@ -29,7 +31,7 @@ async function run(
     maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
     verbose: globalOpts.verbose,
   });
-  printResult(result, getOutputMode(globalOpts), 'sheets', action);
+  printResult(result, getOutputMode(globalOpts), 'sheets', action, getOutputOptions(globalOpts));
   process.exitCode = getExitCode(result);
 }
 
@@ -55,7 +57,7 @@ export function registerSheetsCommands(program: Command): void {
   sheets
     .command('read <spreadsheetId> <range>')
     .description('Read a range of cells')
-    .option('--render <option>', 'Value render option (FORMATTED_VALUE, UNFORMATTED_VALUE, FORMULA)')
+    .addOption(choiceOption('--render <option>', 'Value render option', ['FORMATTED_VALUE', 'UNFORMATTED_VALUE', 'FORMULA']))
     .action(async (spreadsheetId: string, range: string, opts: any, cmd: Command) => {
       await run(cmd, 'read', {
         spreadsheetId,
@@ -148,7 +150,7 @@ export function registerSheetsCommands(program: Command): void {
   sheets
     .command('export <spreadsheetId>')
     .description('Export spreadsheet to format')
-    .option('--format <fmt>', 'Export format (pdf, xlsx, csv)', 'csv')
+    .addOption(choiceOption('--format <fmt>', 'Export format', ['pdf', 'xlsx', 'csv']).default('csv'))
     .option('--out <path>', 'Output file path')
     .action(async (spreadsheetId: string, opts: any, cmd: Command) => {
       const globalOpts = getGlobalOpts(cmd);
@@ -184,7 +186,7 @@ export function registerSheetsCommands(program: Command): void {
         }
         process.exitCode = 0;
       } else {
-        printResult(result, getOutputMode(globalOpts), 'sheets', 'export');
+        printResult(result, getOutputMode(globalOpts), 'sheets', 'export', getOutputOptions(globalOpts));
         process.exitCode = getExitCode(result);
       }
     });
@@ -0,0 +1,34 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { enableConfigCache, loadConfig, resolveProfile, DEFAULT_PROFILE } from '../config.js';
+import { cliGlobalArgs, startShell } from '../shell.js';
+import { getGlobalOpts } from './helpers.js';
+
+export function registerShellCommand(program: Command, createProgram: () => Command): void {
+  program
+    .command('shell')
+    .description('Interactive shell: config is loaded once, Tab completes, $_ holds the last result')
+    .action(async (_opts: any, cmd: Command) => {
+      const globalOpts = getGlobalOpts(cmd);
+
+      // Resolve credentials (and any keyring password prompt) before readline owns stdin
+      enableConfigCache();
+      let profile = DEFAULT_PROFILE;
+      try {
+        profile = resolveProfile(globalOpts);
+        loadConfig(globalOpts);
+      } catch (err: any) {
+        process.stderr.write(chalk.yellow(`Warning: ${err.message}\n`));
+      }
+
+      if (process.stdin.isTTY) {
+        process.stderr.write(chalk.dim('gproxy shell — Tab completes, $_ is the last result, Ctrl+D or "exit" to quit\n'));
+      }
+      const label = profile === DEFAULT_PROFILE ? 'gproxy' : `gproxy:${profile}`;
+      process.exitCode = await startShell({
+        createProgram,
+        baseArgs: cliGlobalArgs(program),
+        prompt: chalk.cyan(`${label}> `),
+      });
+    });
+}
@@ -4,8 +4,10 @@ import { executeCommand } from '../client.js';
 import { loadConfig } from '../config.js';
 import { printResult, getExitCode } from '../output.js';
 import type { GlobalOptions, OutputMode } from '../types.js';
+import { choiceOption, getOutputOptions } from './helpers.js';
 
 function getOutputMode(opts: GlobalOptions): OutputMode {
+  if (opts.output) return opts.output;
   if (opts.json) return 'json';
   if (opts.plain) return 'plain';
   return 'human';
@@ -29,7 +31,7 @@ async function run(
     maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
     verbose: globalOpts.verbose,
   });
-  printResult(result, getOutputMode(globalOpts), 'slides', action);
+  printResult(result, getOutputMode(globalOpts), 'slides', action, getOutputOptions(globalOpts));
   process.exitCode = getExitCode(result);
 }
 
@@ -77,7 +79,7 @@ export function registerSlidesCommands(program: Command): void {
   slides
     .command('export <presentationId>')
     .description('Export presentation to format')
-    .option('--format <fmt>', 'Export format (pdf, pptx)', 'pdf')
+    .addOption(choiceOption('--format <fmt>', 'Export format', ['pdf', 'pptx']).default('pdf'))
     .option('--out <path>', 'Output file path')
     .action(async (presentationId: string, opts: any, cmd: Command) => {
       const globalOpts = getGlobalOpts(cmd);
@@ -113,7 +115,7 @@ export function registerSlidesCommands(program: Command): void {
         }
         process.exitCode = 0;
       } else {
-        printResult(result, getOutputMode(globalOpts), 'slides', 'export');
+        printResult(result, getOutputMode(globalOpts), 'slides', 'export', getOutputOptions(globalOpts));
         process.exitCode = getExitCode(result);
       }
     });
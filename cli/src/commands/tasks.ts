@@ -3,8 +3,11 @@ import { executeCommand } from '../client.js';
 import { loadConfig } from '../config.js';
 import { printResult, getExitCode } from '../output.js';
 import type { GlobalOptions, OutputMode } from '../types.js';
+import { parseDate } from '../dates.js';
+import { getOutputOptions, reportOptionError, runPaged, withPagination } from './helpers.js';
 
 function getOutputMode(opts: GlobalOptions): OutputMode {
+  if (opts.output) return opts.output;
   if (opts.json) return 'json';
   if (opts.plain) return 'plain';
   return 'human';
@@ -16,6 +19,15 @@ function getGlobalOpts(cmd: Command): GlobalOptions {
   return root.opts() as GlobalOptions;
 }
 
+/**
+ * Tasks keep only the date of a due time, as midnight UTC; send the date the
+ * value names in the local (or --timezone) zone.
+ */
+function dueTime(value: string | undefined, timeZone: string | undefined, endOfDay = false): string | undefined {
+  if (!value) return undefined;
+  return `${parseDate(value, { timeZone })}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`;
+}
+
 async function run(
   cmd: Command,
   action: string,
@@ -28,7 +40,7 @@ async function run(
     maxRetries: globalOpts.retry ? Number(globalOpts.retry) : undefined,
     verbose: globalOpts.verbose,
   });
-  printResult(result, getOutputMode(globalOpts), 'tasks', action);
+  printResult(result, getOutputMode(globalOpts), 'tasks', action, getOutputOptions(globalOpts));
   process.exitCode = getExitCode(result);
 }
 
@@ -38,37 +50,44 @@ export function registerTasksCommands(program: Command): void {
     .description('Google Tasks operations');
 
   // --- Task lists ---
-  tasks
-    .command('lists')
+  withPagination(tasks.command('lists'))
     .description('List all task lists')
     .option('--max <n>', 'Maximum results', '25')
     .option('--page-token <token>', 'Pagination token')
     .action(async (opts: any, cmd: Command) => {
-      await run(cmd, 'tasklists.list', {
+      await runPaged(cmd, 'tasks', 'tasklists.list', {
         max: Number(opts.max),
         pageToken: opts.pageToken,
       });
     });
 
   // --- List tasks ---
-  tasks
-    .command('list')
+  withPagination(tasks.command('list'))
     .description('List tasks in a task list')
     .option('--tasklist <id>', 'Task list ID', '@default')
     .option('--max <n>', 'Maximum results', '50')
     .option('--show-completed', 'Include completed tasks')
     .option('--show-hidden', 'Include hidden tasks')
-    .option('--due-min <date>', 'Minimum due date (RFC 3339)')
-    .option('--due-max <date>', 'Maximum due date (RFC 3339)')
+    .option('--due-min <when>', 'Due on or after (e.g. today, monday, 2026-03-02)')
+    .option('--due-max <when>', 'Due on or before (e.g. friday, +7d)')
+    .option('--timezone <tz>', 'Time zone for the dates (default: system zone)')
     .option('--page-token <token>', 'Pagination token')
     .action(async (opts: any, cmd: Command) => {
-      await run(cmd, 'list', {
+      let dueMin: string | undefined;
+      let dueMax: string | undefined;
+      try {
+        dueMin = dueTime(opts.dueMin, opts.timezone);
+        dueMax = dueTime(opts.dueMax, opts.timezone, true);
+      } catch (err) {
+        return reportOptionError(err);
+      }
+      await runPaged(cmd, 'tasks', 'list', {
         tasklistId: opts.tasklist,
         max: Number(opts.max),
         showCompleted: opts.showCompleted || false,
         showHidden: opts.showHidden || false,
-        dueMin: opts.dueMin,
-        dueMax: opts.dueMax,
+        dueMin,
+        dueMax,
         pageToken: opts.pageToken,
       });
     });
@@ -91,14 +110,21 @@ export function registerTasksCommands(program: Command): void {
     .description('Create a new task')
     .option('--tasklist <id>', 'Task list ID', '@default')
     .option('--notes <text>', 'Task notes/description')
-    .option('--due <date>', 'Due date (RFC 3339)')
+    .option('--due <when>', 'Due date (e.g. tomorrow, friday, +3d, 2026-03-02)')
+    .option('--timezone <tz>', 'Time zone for --due (default: system zone)')
     .option('--parent <id>', 'Parent task ID (for subtasks)')
     .action(async (title: string, opts: any, cmd: Command) => {
+      let due: string | undefined;
+      try {
+        due = dueTime(opts.due, opts.timezone);
+      } catch (err) {
+        return reportOptionError(err);
+      }
       await run(cmd, 'create', {
         title,
         tasklistId: opts.tasklist,
         notes: opts.notes,
-        due: opts.due,
+        due,
         parent: opts.parent,
       });
     });
@@ -110,14 +136,21 @@ export function registerTasksCommands(program: Command): void {
     .option('--tasklist <id>', 'Task list ID', '@default')
     .option('--title <text>', 'New title')
     .option('--notes <text>', 'New notes')
-    .option('--due <date>', 'New due date')
+    .option('--due <when>', 'New due date (e.g. tomorrow, next monday)')
+    .option('--timezone <tz>', 'Time zone for --due (default: system zone)')
     .action(async (taskId: string, opts: any, cmd: Command) => {
+      let due: string | undefined;
+      try {
+        due = dueTime(opts.due, opts.timezone);
+      } catch (err) {
+        return reportOptionError(err);
+      }
       await run(cmd, 'update', {
         taskId,
         tasklistId: opts.tasklist,
         title: opts.title,
         notes: opts.notes,
-        due: opts.due,
+        due,
       });
     });
 
@@ -0,0 +1,318 @@
+import type { CommandSpec, FlagSpec } from './completion.js';
+
+/**
+ * Shell completion scripts generated from collectCommandSpecs(). The scripts
+ * are static lookup tables; only dynamic values (with `dynamic: true`) call
+ * back into `gproxy completion values <kind>`.
+ */
+
+export type CompletionShell = 'bash' | 'zsh' | 'fish';
+
+export interface CompletionScriptOptions {
+  /** Complete label names, calendar ids and task list ids via the proxy. */
+  dynamic?: boolean;
+}
+
+const VALUES_COMMAND = 'gproxy completion values';
+
+/** Single-quote for sh-like shells (bash, zsh and fish all accept '\'' splicing). */
+function sq(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/** fish has no '\'' splicing inside single quotes; it escapes with \' instead. */
+function fishQuote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function flagNames(flag: FlagSpec): string[] {
+  return flag.short ? [flag.long, flag.short] : [flag.long];
+}
+
+function pathKey(spec: CommandSpec): string {
+  return spec.path.join(' ');
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+interface ValueTables {
+  takesValue: string[];
+  choices: [string, string[]][];
+  dynamic: [string, string][];
+}
+
+/** "path flag" keys for options that take values, have choices or dynamic values. */
+function valueTables(specs: CommandSpec[], options: CompletionScriptOptions): ValueTables {
+  const tables: ValueTables = { takesValue: [], choices: [], dynamic: [] };
+  for (const spec of specs) {
+    for (const flag of spec.flags) {
+      if (!flag.takesValue) continue;
+      for (const name of flagNames(flag)) {
+        const key = `${pathKey(spec)} ${name}`;
+        tables.takesValue.push(key);
+        if (flag.choices) tables.choices.push([key, flag.choices]);
+        else if (options.dynamic && flag.dynamic) tables.dynamic.push([key, flag.dynamic]);
+      }
+    }
+  }
+  return tables;
+}
+
+export function generateBash(specs: CommandSpec[], options: CompletionScriptOptions = {}): string {
+  const tables = valueTables(specs, options);
+  const caseLines = (entries: [string, string[]][]) =>
+    entries.map(([key, values]) => `    ${sq(key)}) printf '%s\\n' ${values.map(sq).join(' ')} ;;`);
+
+  const lines = [
+    '# gproxy bash completion',
+    '# Install: gproxy completion bash > ~/.local/share/bash-completion/completions/gproxy',
+    '',
+    '_gproxy_subcommands() {',
+    '  case "$1" in',
+    ...caseLines(specs.filter(s => s.subcommands.length > 0).map(s => [pathKey(s), s.subcommands.map(c => c.name)])),
+    '  esac',
+    '}',
+    '',
+    '_gproxy_flags() {',
+    '  case "$1" in',
+    ...caseLines(specs.filter(s => s.flags.length > 0).map(s => [pathKey(s), s.flags.flatMap(flagNames)])),
+    '  esac',
+    '}',
+    '',
+    '_gproxy_takes_value_key() {',
+    ...(tables.takesValue.length > 0
+      ? ['  case "$1" in', `    ${tables.takesValue.map(sq).join(' | ')}) return 0 ;;`, '  esac']
+      : []),
+    '  return 1',
+    '}',
+    '',
+    '_gproxy_takes_value() {',
+    '  [[ "$2" != *=* ]] && { _gproxy_takes_value_key "$1 $2" || _gproxy_takes_value_key "gproxy $2"; }',
+    '}',
+    '',
+    '_gproxy_choices() {',
+    '  case "$1" in',
+    ...caseLines(tables.choices),
+    '  esac',
+    '}',
+    '',
+  ];
+
+  lines.push(
+    '_gproxy_values() {',
+    '  local values',
+    '  values="$(_gproxy_choices "$1 $2")"',
+    '  [ -n "$values" ] || values="$(_gproxy_choices "gproxy $2")"',
+  );
+  if (tables.dynamic.length > 0) {
+    lines.push(
+      '  if [ -z "$values" ]; then',
+      '    case "$1 $2" in',
+      ...tables.dynamic.map(([key, kind]) =>
+        `      ${sq(key)}) values="$(${VALUES_COMMAND} ${kind} </dev/null 2>/dev/null)" ;;`),
+      '    esac',
+      '  fi',
+    );
+  }
+  lines.push(
+    '  printf \'%s\\n\' "$values"',
+    '}',
+    '',
+    '_gproxy() {',
+    '  local IFS=$\'\\n\'',
+    '  local cur="${COMP_WORDS[COMP_CWORD]}" prev="${COMP_WORDS[COMP_CWORD-1]}"',
+    '  local cmdpath=gproxy word i skip=0',
+    '  for ((i = 1; i < COMP_CWORD; i++)); do',
+    '    word="${COMP_WORDS[i]}"',
+    '    if ((skip)); then skip=0; continue; fi',
+    '    if [[ "$word" == -* ]]; then',
+    '      _gproxy_takes_value "$cmdpath" "$word" && skip=1',
+    '      continue',
+    '    fi',
+    '    if [[ $\'\\n\'"$(_gproxy_subcommands "$cmdpath")"$\'\\n\' == *$\'\\n\'"$word"$\'\\n\'* ]]; then',
+    '      cmdpath="$cmdpath $word"',
+    '    fi',
+    '  done',
+    '',
+    '  # COMP_WORDBREAKS splits --flag=value into "--flag" "=" "value"',
+    '  if [[ "$prev" == "=" && $COMP_CWORD -ge 2 ]]; then',
+    '    COMPREPLY=($(compgen -W "$(_gproxy_values "$cmdpath" "${COMP_WORDS[COMP_CWORD-2]}")" -- "$cur"))',
+    '  elif ((skip)); then',
+    '    COMPREPLY=($(compgen -W "$(_gproxy_values "$cmdpath" "$prev")" -- "$cur"))',
+    '  elif [[ "$cur" == -* ]]; then',
+    '    COMPREPLY=($(compgen -W "$(_gproxy_flags "$cmdpath"; [ "$cmdpath" = gproxy ] || _gproxy_flags gproxy; echo --help)" -- "$cur"))',
+    '  else',
+    '    COMPREPLY=($(compgen -W "$(_gproxy_subcommands "$cmdpath")" -- "$cur"))',
+    '  fi',
+    '}',
+    '',
+    'complete -o default -F _gproxy gproxy',
+  );
+  return lines.join('\n') + '\n';
+}
+
+export function generateZsh(specs: CommandSpec[], options: CompletionScriptOptions = {}): string {
+  const tables = valueTables(specs, options);
+  const describe = (name: string, description: string) =>
+    `${name.replace(/:/g, '\\:')}:${oneLine(description)}`;
+  const assoc = (name: string, entries: [string, string][]) => [
+    `${name}=(`,
+    ...entries.map(([key, value]) => `  ${sq(key)} ${sq(value)}`),
+    ')',
+  ];
+
+  const lines = [
+    '#compdef gproxy',
+    '# gproxy zsh completion',
+    '# Install: gproxy completion zsh > "${fpath[1]}/_gproxy"',
+    '',
+    'typeset -gA _gproxy_subcommands _gproxy_flags _gproxy_takes_value _gproxy_choices _gproxy_dynamic',
+    ...assoc('_gproxy_subcommands', specs.filter(s => s.subcommands.length > 0).map(s =>
+      [pathKey(s), s.subcommands.map(c => describe(c.name, c.description)).join('\n')])),
+    ...assoc('_gproxy_flags', specs.filter(s => s.flags.length > 0).map(s =>
+      [pathKey(s), s.flags.flatMap(f => flagNames(f).map(name => describe(name, f.description))).join('\n')])),
+    ...assoc('_gproxy_takes_value', tables.takesValue.map(key => [key, '1'])),
+    ...assoc('_gproxy_choices', tables.choices.map(([key, values]) => [key, values.join('\n')])),
+    ...assoc('_gproxy_dynamic', tables.dynamic),
+    '',
+    '_gproxy_values() {',
+    '  local key="$1 $2" root="gproxy $2"',
+    '  local -a values',
+    '  if (( ${+_gproxy_choices[$key]} )); then',
+    '    values=(${(f)_gproxy_choices[$key]})',
+    '  elif (( ${+_gproxy_choices[$root]} )); then',
+    '    values=(${(f)_gproxy_choices[$root]})',
+    '  elif (( ${+_gproxy_dynamic[$key]} )); then',
+    `    values=(\${(f)"$(${VALUES_COMMAND} \${_gproxy_dynamic[$key]} </dev/null 2>/dev/null)"})`,
+    '  else',
+    '    _files',
+    '    return',
+    '  fi',
+    '  compadd -a values',
+    '}',
+    '',
+    '_gproxy() {',
+    '  local cmdpath=gproxy word key root flag i skip=0',
+    '  local -a candidates',
+    '  for (( i = 2; i < CURRENT; i++ )); do',
+    '    word=${words[i]}',
+    '    if (( skip )); then skip=0; continue; fi',
+    '    if [[ $word == -* ]]; then',
+    '      key="$cmdpath $word" root="gproxy $word"',
+    '      if [[ $word != *=* ]] && (( ${+_gproxy_takes_value[$key]} || ${+_gproxy_takes_value[$root]} )); then',
+    '        skip=1',
+    '      fi',
+    '      continue',
+    '    fi',
+    '    if (( ${${(f)_gproxy_subcommands[$cmdpath]}[(I)${word}:*]} )); then',
+    '      cmdpath="$cmdpath $word"',
+    '    fi',
+    '  done',
+    '',
+    '  if (( skip )); then',
+    '    _gproxy_values "$cmdpath" "${words[CURRENT-1]}"',
+    '  elif [[ $PREFIX == -*=* ]]; then',
+    '    flag=${PREFIX%%=*}',
+    "    compset -P '*='",
+    '    _gproxy_values "$cmdpath" "$flag"',
+    '  elif [[ $PREFIX == -* ]]; then',
+    '    candidates=(${(f)_gproxy_flags[$cmdpath]})',
+    '    [[ $cmdpath == gproxy ]] || candidates+=(${(f)_gproxy_flags[gproxy]})',
+    "    candidates+=('--help:Display help')",
+    '    _describe -t options option candidates',
+    '  else',
+    '    candidates=(${(f)_gproxy_subcommands[$cmdpath]})',
+    '    _describe -t commands command candidates',
+    '  fi',
+    '}',
+    '',
+    'if [ "$funcstack[1]" = "_gproxy" ]; then',
+    '  _gproxy "$@"',
+    'else',
+    '  compdef _gproxy gproxy',
+    'fi',
+  ];
+  return lines.join('\n') + '\n';
+}
+
+export function generateFish(specs: CommandSpec[], options: CompletionScriptOptions = {}): string {
+  const tables = valueTables(specs, options);
+  const dynamic = new Map(tables.dynamic);
+  const paths = specs.slice(1).map(pathKey);
+
+  const lines = [
+    '# gproxy fish completion',
+    '# Install: gproxy completion fish > ~/.config/fish/completions/gproxy.fish',
+    '',
+    `set -g __gproxy_paths ${paths.map(fishQuote).join(' ')}`,
+    `set -g __gproxy_value_flags ${tables.takesValue.map(fishQuote).join(' ')}`,
+    '',
+    'function __gproxy_path',
+    '    set -l cmdpath gproxy',
+    '    set -l skip 0',
+    '    for word in (commandline -opc)[2..-1]',
+    '        if test $skip -eq 1',
+    '            set skip 0',
+    '            continue',
+    '        end',
+    "        if string match -q -- '-*' $word",
+    "            if not string match -q -- '*=*' $word",
+    '                and begin; contains -- "$cmdpath $word" $__gproxy_value_flags; or contains -- "gproxy $word" $__gproxy_value_flags; end',
+    '                set skip 1',
+    '            end',
+    '            continue',
+    '        end',
+    '        if contains -- "$cmdpath $word" $__gproxy_paths',
+    '            set cmdpath "$cmdpath $word"',
+    '        end',
+    '    end',
+    '    echo $cmdpath',
+    'end',
+    '',
+    'function __gproxy_at',
+    '    test (__gproxy_path) = "$argv[1]"',
+    'end',
+    '',
+    'complete -c gproxy -f',
+  ];
+
+  for (const spec of specs) {
+    const isRoot = spec.path.length === 1;
+    const condition = `-n ${fishQuote(`__gproxy_at "${pathKey(spec)}"`)}`;
+
+    for (const sub of spec.subcommands) {
+      lines.push(`complete -c gproxy ${condition} -a ${fishQuote(sub.name)} -d ${fishQuote(oneLine(sub.description))}`);
+    }
+    for (const flag of spec.flags) {
+      const parts = ['complete -c gproxy'];
+      // Global options complete everywhere
+      if (!isRoot) parts.push(condition);
+      parts.push(`-l ${flag.long.replace(/^--/, '')}`);
+      if (flag.short) parts.push(`-s ${flag.short.replace(/^-/, '')}`);
+      if (flag.takesValue) {
+        parts.push('-r');
+        const kind = dynamic.get(`${pathKey(spec)} ${flag.long}`);
+        if (flag.choices) parts.push('-f', `-a ${fishQuote(flag.choices.join(' '))}`);
+        else if (kind) parts.push('-f', `-a ${fishQuote(`(${VALUES_COMMAND} ${kind} </dev/null 2>/dev/null)`)}`);
+        else parts.push('-F');
+      }
+      parts.push(`-d ${fishQuote(oneLine(flag.description))}`);
+      lines.push(parts.join(' '));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function generateCompletionScript(
+  shell: CompletionShell,
+  specs: CommandSpec[],
+  options: CompletionScriptOptions = {}
+): string {
+  switch (shell) {
+    case 'bash': return generateBash(specs, options);
+    case 'zsh': return generateZsh(specs, options);
+    case 'fish': return generateFish(specs, options);
+  }
+}
@@ -0,0 +1,215 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { Command, Option } from 'commander';
+import { executeCommand } from './client.js';
+import { loadConfig, resolveProfile } from './config.js';
+import type { GlobalOptions } from './types.js';
+
+/**
+ * Completion candidates derived from the registered commander tree, so new
+ * commands and flags complete without extra wiring.
+ */
+
+function visibleCommands(cmd: Command): Command[] {
+  return cmd.commands.filter(sub => !(sub as any)._hidden);
+}
+
+function findSubcommand(cmd: Command, word: string): Command | undefined {
+  return cmd.commands.find(sub => sub.name() === word || sub.aliases().includes(word));
+}
+
+function takesValue(option: Option): boolean {
+  return option.required || option.optional;
+}
+
+/** Options available at `cmd`: its own plus the root's global options. */
+function optionsInScope(cmd: Command, program: Command): Option[] {
+  const options = cmd === program ? [...cmd.options] : [...cmd.options, ...program.options];
+  return options.filter(option => !option.hidden && option.long);
+}
+
+function findOption(options: Option[], flag: string): Option | undefined {
+  return options.find(option => option.long === flag || option.short === flag);
+}
+
+/**
+ * Walk the words typed so far and return the command they select, plus the
+ * option still waiting for its value (if the last full word was one).
+ */
+export function resolveCommand(program: Command, words: string[]): { cmd: Command; pending?: Option } {
+  let cmd = program;
+  let pending: Option | undefined;
+
+  for (const word of words) {
+    if (pending) {
+      pending = undefined;
+      continue;
+    }
+    if (word.startsWith('-')) {
+      const [flag, inline] = word.split(/=(.*)/s);
+      const option = findOption(optionsInScope(cmd, program), flag);
+      if (option && takesValue(option) && inline === undefined) pending = option;
+      continue;
+    }
+    const sub = findSubcommand(cmd, word);
+    if (sub) cmd = sub;
+  }
+
+  return { cmd, pending };
+}
+
+/**
+ * Complete the last word of a partial command line (without the leading
+ * "gproxy"). The last entry of `words` is the word under the cursor and may be
+ * empty. Returns the sorted candidates that start with it.
+ */
+export function completeWords(program: Command, words: string[]): string[] {
+  const current = words.length > 0 ? words[words.length - 1] : '';
+  const { cmd, pending } = resolveCommand(program, words.slice(0, -1));
+  const options = optionsInScope(cmd, program);
+  let candidates: string[];
+
+  if (pending) {
+    candidates = pending.argChoices ?? [];
+  } else if (current.startsWith('-') && current.includes('=')) {
+    const flag = current.slice(0, current.indexOf('='));
+    const option = findOption(options, flag);
+    candidates = (option?.argChoices ?? []).map(choice => `${flag}=${choice}`);
+  } else if (current.startsWith('-')) {
+    candidates = [...options.map(option => option.long!), '--help'];
+  } else {
+    candidates = visibleCommands(cmd).map(sub => sub.name());
+  }
+
+  return [...new Set(candidates.filter(c => c.startsWith(current)))].sort();
+}
+
+/** Option values that come from the account rather than the command tree. */
+export type DynamicKind = 'labels' | 'calendars' | 'tasklists';
+
+export const DYNAMIC_FLAGS: Record<string, DynamicKind> = {
+  '--label': 'labels',
+  '--add-labels': 'labels',
+  '--remove-labels': 'labels',
+  '--calendar': 'calendars',
+  '--calendars': 'calendars',
+  '--tasklist': 'tasklists',
+};
+
+const DYNAMIC_SOURCES: Record<DynamicKind, { service: string; action: string; list: string; field: string }> = {
+  labels: { service: 'gmail', action: 'labels.list', list: 'labels', field: 'name' },
+  calendars: { service: 'calendar', action: 'calendars.list', list: 'calendars', field: 'id' },
+  tasklists: { service: 'tasks', action: 'tasklists.list', list: 'tasklists', field: 'tasklistId' },
+};
+
+export interface FlagSpec {
+  long: string;
+  short?: string;
+  description: string;
+  takesValue: boolean;
+  choices?: string[];
+  dynamic?: DynamicKind;
+}
+
+export interface CommandSpec {
+  /** Command names from the root, e.g. ['gproxy', 'drive', 'export']. */
+  path: string[];
+  description: string;
+  subcommands: { name: string; description: string }[];
+  flags: FlagSpec[];
+}
+
+/**
+ * Flatten the visible command tree for the shell script generators. The root
+ * spec's flags are the global options; other specs list only their own.
+ */
+export function collectCommandSpecs(program: Command): CommandSpec[] {
+  const specs: CommandSpec[] = [];
+  const visit = (cmd: Command, cmdPath: string[]) => {
+    specs.push({
+      path: cmdPath,
+      description: cmd.description(),
+      subcommands: visibleCommands(cmd).map(sub => ({ name: sub.name(), description: sub.description() })),
+      flags: cmd.options.filter(option => !option.hidden && option.long).map(option => ({
+        long: option.long!,
+        short: option.short,
+        description: option.description,
+        takesValue: takesValue(option),
+        choices: option.argChoices,
+        dynamic: takesValue(option) ? DYNAMIC_FLAGS[option.long!] : undefined,
+      })),
+    });
+    for (const sub of visibleCommands(cmd)) visit(sub, [...cmdPath, sub.name()]);
+  };
+  visit(program, [program.name()]);
+  return specs;
+}
+
+export const COMPLETION_CACHE_FILE = path.join(os.homedir(), '.gproxy', 'completion-cache.json');
+export const COMPLETION_CACHE_TTL_MS = 5 * 60 * 1000;
+const COMPLETION_FETCH_TIMEOUT_MS = 5000;
+
+type CompletionCache = Record<string, { fetchedAt: number; values: string[] }>;
+
+function readCompletionCache(file: string): CompletionCache {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+function writeCompletionCache(file: string, cache: CompletionCache): void {
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(cache), { mode: 0o600 });
+  } catch {
+    // A missing cache only makes the next completion slower
+  }
+}
+
+export interface DynamicValuesOptions {
+  cacheFile?: string;
+  now?: number;
+}
+
+/**
+ * Values for a dynamic option, served from a short-lived per-profile cache
+ * and refreshed from the proxy when stale. Completion must never fail loudly,
+ * so errors fall back to stale values or an empty list.
+ */
+export async function dynamicValues(
+  kind: DynamicKind,
+  globalOpts: GlobalOptions,
+  options: DynamicValuesOptions = {}
+): Promise<string[]> {
+  const cacheFile = options.cacheFile ?? COMPLETION_CACHE_FILE;
+  const now = options.now ?? Date.now();
+  let key: string;
+  try {
+    key = `${resolveProfile(globalOpts)}:${kind}`;
+  } catch {
+    return [];
+  }
+
+  const cache = readCompletionCache(cacheFile);
+  const cached = cache[key];
+  if (cached && now - cached.fetchedAt < COMPLETION_CACHE_TTL_MS) return cached.values;
+
+  try {
+    const source = DYNAMIC_SOURCES[kind];
+    const result = await executeCommand(source.service, source.action, {}, loadConfig(globalOpts), {
+      timeout: COMPLETION_FETCH_TIMEOUT_MS,
+      maxRetries: 0,
+    });
+    if (!result.ok) return cached?.values ?? [];
+    const items: any[] = result.data?.[source.list] ?? [];
+    const values = items.map(item => item?.[source.field]).filter((v): v is string => typeof v === 'string');
+    cache[key] = { fetchedAt: now, values };
+    writeCompletionCache(cacheFile, cache);
+    return values;
+  } catch {
+    return cached?.values ?? [];
+  }
+}
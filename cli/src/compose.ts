@@ -0,0 +1,171 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { markdownToHtml } from './markdown.js';
+
+/**
+ * Mail composition for `gmail send` and `gmail drafts create|update`: bodies
+ * from flags or files, Markdown rendering, attachments and cid: inline images,
+ * checked against Gmail's size limit before anything is read or sent.
+ */
+
+/** Gmail rejects messages above 25 MB, measured after base64 encoding. */
+export const GMAIL_MAX_MESSAGE_BYTES = 25 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.ics': 'text/calendar',
+  '.vcf': 'text/vcard',
+  '.xml': 'application/xml',
+  '.json': 'application/json',
+  '.js': 'text/javascript',
+  '.pdf': 'application/pdf',
+  '.rtf': 'application/rtf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tar': 'application/x-tar',
+  '.7z': 'application/x-7z-compressed',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.odt': 'application/vnd.oasis.opendocument.text',
+  '.ods': 'application/vnd.oasis.opendocument.spreadsheet',
+  '.odp': 'application/vnd.oasis.opendocument.presentation',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.bmp': 'image/bmp',
+  '.ico': 'image/x-icon',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.heic': 'image/heic',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.eml': 'message/rfc822',
+};
+
+export function detectMimeType(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+}
+
+export interface MailPart {
+  name: string;
+  mimeType: string;
+  /** base64 */
+  content: string;
+}
+
+export interface InlineImage extends MailPart {
+  cid: string;
+}
+
+export interface ComposeOptions {
+  body?: string;
+  bodyFile?: string;
+  html?: string;
+  htmlFile?: string;
+  /** Treat the plain body as Markdown and send it rendered as the HTML body. */
+  markdown?: boolean;
+  attach?: string[];
+  /** `cid=path` entries */
+  inline?: string[];
+}
+
+export interface ComposedMail {
+  body?: string;
+  bodyHtml?: string;
+  attachments?: MailPart[];
+  inlineImages?: InlineImage[];
+  /** Estimated encoded size in bytes. */
+  size: number;
+}
+
+function readText(file: string, flag: string): string {
+  if (file === '-') return fs.readFileSync(0, 'utf-8');
+  if (!fs.existsSync(file)) throw new Error(`${flag}: file not found: ${file}`);
+  return fs.readFileSync(file, 'utf-8');
+}
+
+function base64Length(bytes: number): number {
+  return Math.ceil(bytes / 3) * 4;
+}
+
+function formatMB(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(1);
+}
+
+export function parseInlineSpec(spec: string): { cid: string; file: string } {
+  const eq = spec.indexOf('=');
+  const cid = spec.slice(0, eq).trim();
+  const file = spec.slice(eq + 1).trim();
+  if (eq === -1 || !cid || !file) throw new Error(`--inline expects cid=path, got "${spec}"`);
+  return { cid, file };
+}
+
+/**
+ * Resolve the body, attachment and inline image flags into gmail send/draft
+ * params. Throws with a user-facing message on conflicting flags, missing
+ * files or a message over GMAIL_MAX_MESSAGE_BYTES.
+ */
+export function composeMail(options: ComposeOptions): ComposedMail {
+  if (options.body !== undefined && options.bodyFile) throw new Error('Use either --body or --body-file, not both');
+  if (options.html !== undefined && options.htmlFile) throw new Error('Use either --html or --html-file, not both');
+  if (options.markdown && (options.html !== undefined || options.htmlFile)) {
+    throw new Error('--markdown renders the body as HTML; drop --html/--html-file');
+  }
+
+  const inline = (options.inline ?? []).map(parseInlineSpec);
+  const attach = options.attach ?? [];
+  const files = [...attach, ...inline.map(i => i.file)];
+  for (const file of files) {
+    if (!fs.existsSync(file) || !fs.statSync(file).isFile()) throw new Error(`File not found: ${file}`);
+  }
+
+  const body = options.bodyFile ? readText(options.bodyFile, '--body-file') : options.body;
+  let bodyHtml = options.htmlFile ? readText(options.htmlFile, '--html-file') : options.html;
+  if (options.markdown) {
+    if (body === undefined) throw new Error('--markdown needs a body (--body or --body-file)');
+    bodyHtml = markdownToHtml(body);
+  }
+  if (inline.length > 0 && bodyHtml === undefined) {
+    throw new Error('--inline needs an HTML body (--html, --html-file or --markdown) that references cid:<name>');
+  }
+
+  // Check the size from file stats, before reading any attachment into memory
+  const size = Buffer.byteLength(body ?? '') + Buffer.byteLength(bodyHtml ?? '') +
+    files.reduce((total, file) => total + base64Length(fs.statSync(file).size), 0);
+  if (size > GMAIL_MAX_MESSAGE_BYTES) {
+    throw new Error(
+      `Message is ${formatMB(size)} MB once encoded; Gmail's limit is ${formatMB(GMAIL_MAX_MESSAGE_BYTES)} MB. ` +
+      'Upload large files with "gproxy drive upload" and send the link instead.'
+    );
+  }
+
+  const part = (file: string): MailPart => ({
+    name: path.basename(file),
+    mimeType: detectMimeType(file),
+    content: fs.readFileSync(file).toString('base64'),
+  });
+
+  const mail: ComposedMail = { size };
+  if (body !== undefined) mail.body = body;
+  if (bodyHtml !== undefined) mail.bodyHtml = bodyHtml;
+  if (attach.length > 0) mail.attachments = attach.map(part);
+  if (inline.length > 0) mail.inlineImages = inline.map(({ cid, file }) => ({ cid, ...part(file) }));
+  return mail;
+}
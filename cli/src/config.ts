@@ -1,36 +1,134 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
-import type { GProxyConfig, GlobalOptions } from './types.js';
+import type { ConfigFile, GProxyConfig, GlobalOptions, ProfileEntry } from './types.js';
 import {
-  keychainAvailable, keychainGet, keychainSet,
+  keychainAvailable, keychainGet, keychainSet, keychainDelete,
   KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT_SECRET, KEYCHAIN_ACCOUNT_URL,
 } from './keychain.js';
 import {
-  encryptedStoreExists, encryptedStoreGet, encryptedStoreSave,
+  encryptedStoreExists, encryptedStoreGet, encryptedStoreSave, encryptedStoreDelete,
 } from './encrypted-store.js';
 
 const CONFIG_DIR = path.join(os.homedir(), '.gproxy');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
 
-function loadConfigFile(): Partial<GProxyConfig> {
+export const DEFAULT_PROFILE = 'default';
+
+const PROFILE_NAME_RE = /^[A-Za-z0-9_-]{1,64}$/;
+
+function loadConfigFile(): ConfigFile {
   try {
     const content = fs.readFileSync(CONFIG_FILE, 'utf-8');
-    return JSON.parse(content) as Partial<GProxyConfig>;
+    return JSON.parse(content) as ConfigFile;
   } catch {
     return {};
   }
 }
 
-function writeConfigFile(data: Record<string, string>): void {
+function writeConfigFile(data: ConfigFile): void {
+  configCache?.clear();
   fs.mkdirSync(CONFIG_DIR, { recursive: true });
   fs.writeFileSync(CONFIG_FILE, JSON.stringify(data, null, 2) + '\n', {
     mode: 0o600,
   });
 }
 
+// ── Profile key naming ───────────────────────────────────────────
+// The default profile keeps the original (unsuffixed) keychain accounts and
+// encrypted-store keys so existing installs keep working without migration.
+
+function keychainAccount(account: string, profile: string): string {
+  return profile === DEFAULT_PROFILE ? account : `${account}:${profile}`;
+}
+
+function storeKey(key: string, profile: string): string {
+  return profile === DEFAULT_PROFILE ? key : `${profile}:${key}`;
+}
+
+function getFileEntry(file: ConfigFile, profile: string): ProfileEntry {
+  if (profile === DEFAULT_PROFILE) {
+    return { proxy_url: file.proxy_url, secret: file.secret };
+  }
+  return file.profiles?.[profile] ?? {};
+}
+
+function setFileEntry(file: ConfigFile, profile: string, entry: ProfileEntry): ConfigFile {
+  if (profile === DEFAULT_PROFILE) {
+    const { proxy_url: _url, secret: _sec, ...rest } = file;
+    return { ...rest, ...entry };
+  }
+  return { ...file, profiles: { ...file.profiles, [profile]: entry } };
+}
+
+export function validateProfileName(name: string): void {
+  if (!PROFILE_NAME_RE.test(name)) {
+    throw new Error(
+      `Invalid profile name "${name}". Use letters, digits, "-" or "_" (max 64 chars).`
+    );
+  }
+}
+
+/**
+ * Resolve the active profile: --profile flag > GPROXY_PROFILE env var >
+ * current profile in ~/.gproxy/config.json > "default".
+ */
+export function resolveProfile(options: GlobalOptions): string {
+  const profile =
+    options.profile ||
+    process.env.GPROXY_PROFILE ||
+    loadConfigFile().current_profile ||
+    DEFAULT_PROFILE;
+  validateProfileName(profile);
+  return profile;
+}
+
+function allowHttp(options: GlobalOptions): boolean {
+  return !!options.allowHttp || process.env.GPROXY_ALLOW_HTTP === '1';
+}
+
+/**
+ * Plain http:// is only ever accepted for a local mock proxy (gproxy dev mock-proxy).
+ */
+function isLoopbackHttp(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' &&
+      ['localhost', '127.0.0.1', '[::1]'].includes(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+// Resolved configs by profile and overrides; only kept once enableConfigCache() is called
+let configCache: Map<string, GProxyConfig> | null = null;
+
+/**
+ * Keep resolved configs for the rest of the process (gproxy shell), so the
+ * keychain lookup and keyring password prompt happen once per profile.
+ * Any config file write drops the cache.
+ */
+export function enableConfigCache(): void {
+  configCache ??= new Map();
+}
+
 export function loadConfig(options: GlobalOptions): GProxyConfig {
+  if (!configCache) return resolveConfig(options);
+  const key = JSON.stringify([resolveProfile(options), options.proxyUrl, options.secret, allowHttp(options)]);
+  let config = configCache.get(key);
+  if (!config) {
+    config = resolveConfig(options);
+    configCache.set(key, config);
+  }
+  return config;
+}
+
+function resolveConfig(options: GlobalOptions): GProxyConfig {
   const fileConfig = loadConfigFile();
+  const profile = resolveProfile(options);
+  const fileEntry = getFileEntry(fileConfig, profile);
+  const urlAccount = keychainAccount(KEYCHAIN_ACCOUNT_URL, profile);
+  const secretAccount = keychainAccount(KEYCHAIN_ACCOUNT_SECRET, profile);
 
   // URL priority: CLI flag > env var > keychain > encrypted store > config file
   let proxy_url =
@@ -40,9 +138,9 @@ export function loadConfig(options: GlobalOptions): GProxyConfig {
 
   if (!proxy_url) {
     proxy_url =
-      keychainGet(KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT_URL) ||
-      encryptedStoreGet('proxy_url') ||
-      fileConfig.proxy_url ||
+      keychainGet(KEYCHAIN_SERVICE, urlAccount) ||
+      encryptedStoreGet(storeKey('proxy_url', profile)) ||
+      fileEntry.proxy_url ||
       '';
   }
 
@@ -54,52 +152,55 @@ export function loadConfig(options: GlobalOptions): GProxyConfig {
 
   if (!secret) {
     secret =
-      keychainGet(KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT_SECRET) ||
-      encryptedStoreGet('secret') ||
-      fileConfig.secret ||
+      keychainGet(KEYCHAIN_SERVICE, secretAccount) ||
+      encryptedStoreGet(storeKey('secret', profile)) ||
+      fileEntry.secret ||
       '';
   }
 
   // Migrate: plaintext config file → best available secure store
-  if (fileConfig.proxy_url || fileConfig.secret) {
+  if (fileEntry.proxy_url || fileEntry.secret) {
     let migrated = false;
 
     if (keychainAvailable()) {
-      if (fileConfig.proxy_url && !keychainGet(KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT_URL)) {
-        if (keychainSet(fileConfig.proxy_url, KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT_URL)) migrated = true;
+      if (fileEntry.proxy_url && !keychainGet(KEYCHAIN_SERVICE, urlAccount)) {
+        if (keychainSet(fileEntry.proxy_url, KEYCHAIN_SERVICE, urlAccount)) migrated = true;
       }
-      if (fileConfig.secret && !keychainGet(KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT_SECRET)) {
-        if (keychainSet(fileConfig.secret, KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT_SECRET)) migrated = true;
+      if (fileEntry.secret && !keychainGet(KEYCHAIN_SERVICE, secretAccount)) {
+        if (keychainSet(fileEntry.secret, KEYCHAIN_SERVICE, secretAccount)) migrated = true;
       }
     } else if (!encryptedStoreExists()) {
       // No OS keychain — try encrypted file (will prompt for password or use env var)
       const entries: Record<string, string> = {};
-      if (fileConfig.proxy_url) entries.proxy_url = fileConfig.proxy_url;
-      if (fileConfig.secret) entries.secret = fileConfig.secret;
+      if (fileEntry.proxy_url) entries[storeKey('proxy_url', profile)] = fileEntry.proxy_url;
+      if (fileEntry.secret) entries[storeKey('secret', profile)] = fileEntry.secret;
       if (Object.keys(entries).length > 0) {
         migrated = encryptedStoreSave(entries);
       }
     }
 
     if (migrated) {
-      const { proxy_url: _url, secret: _sec, ...rest } = fileConfig;
-      writeConfigFile(rest as Record<string, string>);
+      writeConfigFile(setFileEntry(fileConfig, profile, {}));
     }
   }
 
+  const setupHint = profile === DEFAULT_PROFILE
+    ? 'gproxy setup'
+    : `gproxy --profile ${profile} setup`;
+
   if (!proxy_url) {
     throw new Error(
-      'No proxy URL configured. Set --proxy-url, GPROXY_URL env var, or run: gproxy setup'
+      `No proxy URL configured. Set --proxy-url, GPROXY_URL env var, or run: ${setupHint}`
     );
   }
 
   if (!secret) {
     throw new Error(
-      'No shared secret configured. Set --secret, GPROXY_SECRET env var, or run: gproxy setup'
+      `No shared secret configured. Set --secret, GPROXY_SECRET env var, or run: ${setupHint}`
     );
   }
 
-  if (!proxy_url.startsWith('https://')) {
+  if (!proxy_url.startsWith('https://') && !(allowHttp(options) && isLoopbackHttp(proxy_url))) {
     throw new Error(
       `Proxy URL must start with https:// (got: ${proxy_url})`
     );
@@ -110,30 +211,139 @@ export function loadConfig(options: GlobalOptions): GProxyConfig {
 
 export type SaveResult = { store: 'keychain' | 'encrypted' | 'file' };
 
-export function saveConfig(config: GProxyConfig): SaveResult {
+export function saveConfig(config: GProxyConfig, profile: string = DEFAULT_PROFILE): SaveResult {
+  validateProfileName(profile);
   fs.mkdirSync(CONFIG_DIR, { recursive: true });
+  const fileConfig = loadConfigFile();
 
   // 1. Try OS keychain
   if (keychainAvailable()) {
-    const urlOk = keychainSet(config.proxy_url, KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT_URL);
-    const secretOk = keychainSet(config.secret, KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT_SECRET);
+    const urlOk = keychainSet(config.proxy_url, KEYCHAIN_SERVICE, keychainAccount(KEYCHAIN_ACCOUNT_URL, profile));
+    const secretOk = keychainSet(config.secret, KEYCHAIN_SERVICE, keychainAccount(KEYCHAIN_ACCOUNT_SECRET, profile));
     if (urlOk && secretOk) {
-      writeConfigFile({});
+      writeConfigFile(setFileEntry(fileConfig, profile, {}));
       return { store: 'keychain' };
     }
   }
 
   // 2. Try encrypted file
   const saved = encryptedStoreSave({
-    proxy_url: config.proxy_url,
-    secret: config.secret,
+    [storeKey('proxy_url', profile)]: config.proxy_url,
+    [storeKey('secret', profile)]: config.secret,
   });
   if (saved) {
-    writeConfigFile({});
+    writeConfigFile(setFileEntry(fileConfig, profile, {}));
     return { store: 'encrypted' };
   }
 
   // 3. Plaintext fallback
-  writeConfigFile({ proxy_url: config.proxy_url, secret: config.secret });
+  writeConfigFile(setFileEntry(fileConfig, profile, {
+    proxy_url: config.proxy_url,
+    secret: config.secret,
+  }));
   return { store: 'file' };
 }
+
+// ── Profile management ───────────────────────────────────────────
+
+export interface ProfileInfo {
+  name: string;
+  active: boolean;
+  proxy_url: string | null;
+  hasSecret: boolean;
+  store: 'keychain' | 'encrypted' | 'file' | null;
+}
+
+export function listProfiles(options: GlobalOptions): string[] {
+  const names = new Set<string>([DEFAULT_PROFILE]);
+  for (const name of Object.keys(loadConfigFile().profiles ?? {})) {
+    names.add(name);
+  }
+  names.add(resolveProfile(options));
+  return [...names].sort();
+}
+
+export function profileExists(profile: string): boolean {
+  if (profile === DEFAULT_PROFILE) return true;
+  return Object.prototype.hasOwnProperty.call(loadConfigFile().profiles ?? {}, profile);
+}
+
+/**
+ * Register a profile name without storing any credentials yet.
+ */
+export function addProfile(profile: string): void {
+  validateProfileName(profile);
+  const fileConfig = loadConfigFile();
+  if (profile === DEFAULT_PROFILE || fileConfig.profiles?.[profile]) return;
+  writeConfigFile(setFileEntry(fileConfig, profile, {}));
+}
+
+export function setCurrentProfile(profile: string): void {
+  validateProfileName(profile);
+  const fileConfig = loadConfigFile();
+  if (profile === DEFAULT_PROFILE) {
+    const { current_profile: _cur, ...rest } = fileConfig;
+    writeConfigFile(rest);
+  } else {
+    writeConfigFile({ ...fileConfig, current_profile: profile });
+  }
+}
+
+/**
+ * Delete a profile's credentials from every store and unregister it.
+ */
+export function removeProfile(profile: string): void {
+  validateProfileName(profile);
+
+  if (keychainAvailable()) {
+    keychainDelete(KEYCHAIN_SERVICE, keychainAccount(KEYCHAIN_ACCOUNT_URL, profile));
+    keychainDelete(KEYCHAIN_SERVICE, keychainAccount(KEYCHAIN_ACCOUNT_SECRET, profile));
+  }
+  if (encryptedStoreExists()) {
+    encryptedStoreDelete([storeKey('proxy_url', profile), storeKey('secret', profile)]);
+  }
+
+  const fileConfig = setFileEntry(loadConfigFile(), profile, {});
+  if (profile !== DEFAULT_PROFILE && fileConfig.profiles) {
+    delete fileConfig.profiles[profile];
+  }
+  if (fileConfig.current_profile === profile) {
+    delete fileConfig.current_profile;
+  }
+  writeConfigFile(fileConfig);
+}
+
+/**
+ * Describe where a profile's credentials live, without throwing when unset.
+ */
+export function describeProfile(profile: string, options: GlobalOptions): ProfileInfo {
+  validateProfileName(profile);
+  const fileEntry = getFileEntry(loadConfigFile(), profile);
+
+  let store: ProfileInfo['store'] = null;
+  let proxy_url: string | null = null;
+  let hasSecret = false;
+
+  const kcUrl = keychainGet(KEYCHAIN_SERVICE, keychainAccount(KEYCHAIN_ACCOUNT_URL, profile));
+  if (kcUrl) {
+    store = 'keychain';
+    proxy_url = kcUrl;
+    hasSecret = !!keychainGet(KEYCHAIN_SERVICE, keychainAccount(KEYCHAIN_ACCOUNT_SECRET, profile));
+  } else if (encryptedStoreExists() && encryptedStoreGet(storeKey('proxy_url', profile))) {
+    store = 'encrypted';
+    proxy_url = encryptedStoreGet(storeKey('proxy_url', profile));
+    hasSecret = !!encryptedStoreGet(storeKey('secret', profile));
+  } else if (fileEntry.proxy_url) {
+    store = 'file';
+    proxy_url = fileEntry.proxy_url;
+    hasSecret = !!fileEntry.secret;
+  }
+
+  return {
+    name: profile,
+    active: resolveProfile(options) === profile,
+    proxy_url,
+    hasSecret,
+    store,
+  };
+}
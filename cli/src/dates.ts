@@ -0,0 +1,393 @@
+/**
+ * Date and time parsing for the calendar, tasks and vacation options.
+ * Values are read as wall-clock times in an IANA time zone (--timezone, else
+ * the system zone):
+ *
+ *   2026-03-02T15:00:00Z, 2026-03-02 15:00, 2026-03-02   absolute
+ *   now, today, tomorrow, yesterday, friday, next monday  days
+ *   3pm, 15:30, noon, "tomorrow 3pm", "next monday at 10:00"
+ *   +2h, -1d, +1h30m, "in 2 hours", "3 days ago"          relative to now
+ *
+ * A range joins two of these with `..` (today..friday), gives a day with a
+ * time span (next monday 10:00-11:30), or names a Monday-to-Sunday week
+ * (this week, next week, last week).
+ */
+
+export interface DateOptions {
+  /** IANA time zone; defaults to the system zone. */
+  timeZone?: string;
+  now?: Date;
+}
+
+export interface TimeRange {
+  start: Date;
+  /** Unset when the value was a single point. */
+  end?: Date;
+  /** True when no part of the value named a time of day. */
+  dateOnly: boolean;
+}
+
+interface Civil {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface Point {
+  date: Date;
+  civil: Civil;
+  hasTime: boolean;
+}
+
+const MINUTE = 60_000;
+const DAY = 86_400_000;
+const DURATION_UNITS: Record<string, number> = { w: 7 * DAY, d: DAY, h: 60 * MINUTE, m: MINUTE, s: 1000 };
+const DURATION_TOKEN = /(\d+(?:\.\d+)?)\s*(weeks?|w|days?|d|hours?|hrs?|h|minutes?|mins?|m|seconds?|secs?|s)(?![a-z])/y;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const TIME = String.raw`\d{1,2}(?::\d{2})?(?:am|pm)?|noon|midnight`;
+const TIME_SPAN = new RegExp(`^(?:(.*)\\s+)?(${TIME})\\s*-\\s*(${TIME})$`);
+const WEEK_OFFSETS: Record<string, number> = { this: 0, next: 7, last: -7 };
+const ISO_INSTANT = /^\d{4}-\d{2}-\d{2}t\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:z|[+-]\d{2}:?\d{2})$/;
+const EXAMPLES = '"tomorrow 3pm", "next monday 10:00", "+2h" or 2026-03-02T15:00';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** The given zone after checking that it exists, else the system zone. */
+export function resolveTimeZone(timeZone?: string): string {
+  if (!timeZone) return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  try {
+    zoneFormatter(timeZone);
+  } catch {
+    throw new Error(`Unknown time zone "${timeZone}"; use an IANA name such as Europe/Berlin`);
+  }
+  return timeZone;
+}
+
+/** Parse a duration such as 45m, 1h30m, 2 hours or 1.5d, in milliseconds. */
+export function parseDuration(value: string): number {
+  const text = value.trim().toLowerCase();
+  let ms = 0;
+  let pos = 0;
+  while (pos < text.length) {
+    DURATION_TOKEN.lastIndex = pos;
+    const match = DURATION_TOKEN.exec(text);
+    if (!match) break;
+    ms += Number(match[1]) * DURATION_UNITS[match[2][0]];
+    pos = DURATION_TOKEN.lastIndex;
+    while (text[pos] === ' ' || text[pos] === ',') pos++;
+  }
+  if (!text || pos < text.length || ms <= 0) {
+    throw new Error(`Invalid duration "${value}"; use e.g. 45m, 1h30m or 2d`);
+  }
+  return Math.round(ms);
+}
+
+/**
+ * Parse one point in time. A value without a time of day means the start of
+ * that day, or with `end` set the start of the following day.
+ */
+export function parseDateTime(value: string, options: DateOptions & { end?: boolean } = {}): Date {
+  const range = parseTimeRange(value, options);
+  if (range.end) throw new Error(`Expected a single date or time, not the range "${value}"`);
+  if (!options.end || !range.dateOnly) return range.start;
+  const timeZone = zoneOf(options);
+  return new Date(zonedInstant(addDays(civilOf(range.start, timeZone), 1), 0, 0, timeZone));
+}
+
+/** Parse a value to a calendar date (YYYY-MM-DD) in the zone; any time of day is dropped. */
+export function parseDate(value: string, options: DateOptions = {}): string {
+  return formatDate(parseDateTime(value, options), zoneOf(options));
+}
+
+/**
+ * Parse a point or a range. In `a..b` a date-only end covers that whole day;
+ * in a time span an end at or before the start rolls over to the next day.
+ */
+export function parseTimeRange(value: string, options: DateOptions = {}): TimeRange {
+  const timeZone = zoneOf(options);
+  const now = options.now ?? new Date();
+  const text = normalize(value);
+
+  const dots = text.indexOf('..');
+  if (dots >= 0) {
+    const start = parsePoint(text.slice(0, dots), value, timeZone, now);
+    const end = parsePoint(text.slice(dots + 2), value, timeZone, now);
+    const endDate = end.hasTime ? end.date : new Date(zonedInstant(addDays(end.civil, 1), 0, 0, timeZone));
+    if (endDate <= start.date) throw new Error(`The range "${value}" ends before it starts`);
+    return { start: start.date, end: endDate, dateOnly: !start.hasTime && !end.hasTime };
+  }
+
+  const week = /^(this|next|last) week$/.exec(text);
+  if (week) {
+    const today = civilOf(now, timeZone);
+    const weekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+    const monday = addDays(today, -((weekday + 6) % 7) + WEEK_OFFSETS[week[1]]);
+    const start = zonedInstant(monday, 0, 0, timeZone);
+    return { start: new Date(start), end: new Date(zonedInstant(addDays(monday, 7), 0, 0, timeZone)), dateOnly: true };
+  }
+
+  const span = TIME_SPAN.exec(text);
+  if (span) {
+    const day = parsePoint(span[1] ?? 'today', value, timeZone, now);
+    const endTime = parseTime(span[3]);
+    const inherited = /(am|pm)$/.test(span[2]) ? undefined : /(am|pm)$/.exec(span[3])?.[1];
+    const startTime = parseTime(span[2], inherited);
+    if (!endTime || !startTime) throw invalid(value);
+    let start = zonedInstant(day.civil, startTime[0], startTime[1], timeZone);
+    // "11-1pm": the inherited suffix made the start later than the end.
+    if (inherited === 'pm' && startTime[0] >= 12 && start >= zonedInstant(day.civil, endTime[0], endTime[1], timeZone)) {
+      start = zonedInstant(day.civil, startTime[0] - 12, startTime[1], timeZone);
+    }
+    let end = zonedInstant(day.civil, endTime[0], endTime[1], timeZone);
+    if (end <= start) end = zonedInstant(addDays(day.civil, 1), endTime[0], endTime[1], timeZone);
+    return { start: new Date(start), end: new Date(end), dateOnly: false };
+  }
+
+  const point = parsePoint(text, value, timeZone, now);
+  return { start: point.date, dateOnly: !point.hasTime };
+}
+
+/**
+ * Event start and end from --start (a point or a range), --end and
+ * --duration. Timed events come back as RFC 3339 in the zone; all-day events
+ * as dates with an exclusive end, one day after the start by default.
+ */
+export function eventTimes(
+  opts: { start?: string; end?: string; duration?: string; allDay?: boolean; requireEnd?: boolean },
+  options: DateOptions = {}
+): { start?: string; end?: string } {
+  const timeZone = zoneOf(options);
+  if (!opts.start) {
+    if (opts.duration) throw new Error('--duration needs --start');
+    return { end: opts.end ? formatEnd(parseDateTime(opts.end, { ...options, end: true }), opts.allDay, timeZone) : undefined };
+  }
+  const range = parseTimeRange(opts.start, options);
+  if (range.end && (opts.end || opts.duration)) throw new Error(`--start "${opts.start}" is already a range; drop --end and --duration`);
+  if (opts.end && opts.duration) throw new Error('Use either --end or --duration, not both');
+
+  let end = range.end;
+  if (opts.end) end = parseDateTime(opts.end, { ...options, end: true });
+  if (opts.allDay) {
+    const startDate = civilOf(range.start, timeZone);
+    const days = opts.duration ? Math.max(1, Math.round(parseDuration(opts.duration) / DAY)) : 1;
+    const endDate = end ? civilOf(end, timeZone) : addDays(startDate, days);
+    return { start: formatCivil(startDate), end: formatCivil(endDate) };
+  }
+  if (opts.duration) end = new Date(range.start.getTime() + parseDuration(opts.duration));
+  if (!end && opts.requireEnd) throw new Error('Give --end, --duration or a time range in --start (e.g. "tomorrow 10:00-11:00")');
+  if (end && end <= range.start) throw new Error('The end is not after the start');
+  return { start: formatDateTime(range.start, timeZone), end: end && formatDateTime(end, timeZone) };
+}
+
+/**
+ * timeMin and timeMax from --time-min and --time-max. A range in --time-min
+ * (today..friday) sets both; a date-only --time-max covers that whole day.
+ */
+export function timeWindow(min: string | undefined, max: string | undefined, options: DateOptions = {}): { timeMin?: string; timeMax?: string } {
+  const timeZone = zoneOf(options);
+  const range = min ? parseTimeRange(min, options) : undefined;
+  if (range?.end) {
+    if (max) throw new Error(`--time-min "${min}" is already a range; drop --time-max`);
+    return { timeMin: formatDateTime(range.start, timeZone), timeMax: formatDateTime(range.end, timeZone) };
+  }
+  return {
+    timeMin: range && formatDateTime(range.start, timeZone),
+    timeMax: max ? formatDateTime(parseDateTime(max, { ...options, end: true }), timeZone) : undefined,
+  };
+}
+
+/** RFC 3339 with the zone's offset at that instant, e.g. 2026-03-02T15:00:00+01:00. */
+export function formatDateTime(date: Date, timeZone?: string): string {
+  const zone = zoneOf({ timeZone });
+  const offset = zoneOffset(date.getTime(), zone);
+  const p = zoneParts(date.getTime(), zone);
+  const sign = offset < 0 ? '-' : '+';
+  const abs = Math.abs(offset);
+  const suffix = offset === 0 ? 'Z' : `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}${suffix}`;
+}
+
+/** The calendar date (YYYY-MM-DD) of an instant in the zone. */
+export function formatDate(date: Date, timeZone?: string): string {
+  return formatCivil(civilOf(date, zoneOf({ timeZone })));
+}
+
+/** Local date, weekday (0 = Sunday) and minutes past midnight of an instant in the zone. */
+export function localTime(date: Date, timeZone?: string): { date: string; weekday: number; minutes: number } {
+  const p = zoneParts(date.getTime(), zoneOf({ timeZone }));
+  return {
+    date: formatCivil(p),
+    weekday: new Date(Date.UTC(p.year, p.month - 1, p.day)).getUTCDay(),
+    minutes: p.hour * 60 + p.minute,
+  };
+}
+
+/** A wall-clock time on a YYYY-MM-DD day in the zone. */
+export function atTime(date: string, hour: number, minute: number, timeZone?: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(zonedInstant({ year, month, day }, hour, minute, zoneOf({ timeZone })));
+}
+
+/** A YYYY-MM-DD date moved by a number of days. */
+export function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return formatCivil(addDays({ year, month, day }, days));
+}
+
+function formatEnd(date: Date, allDay: boolean | undefined, timeZone: string): string {
+  return allDay ? formatDate(date, timeZone) : formatDateTime(date, timeZone);
+}
+
+function formatCivil(c: Civil): string {
+  return `${c.year}-${pad(c.month)}-${pad(c.day)}`;
+}
+
+function parsePoint(text: string, original: string, timeZone: string, now: Date): Point {
+  const value = text.trim();
+  if (ISO_INSTANT.test(value)) {
+    const date = new Date(value.toUpperCase());
+    if (isNaN(date.getTime())) throw invalid(original);
+    return { date, civil: civilOf(date, timeZone), hasTime: true };
+  }
+  if (value === 'now') return { date: now, civil: civilOf(now, timeZone), hasTime: true };
+
+  const relative = /^([+-])\s*(.+)$/.exec(value) ?? /^(in)\s+(.+)$/.exec(value) ?? /^()(.+?)\s+ago$/.exec(value);
+  if (relative) {
+    let ms: number;
+    try {
+      ms = parseDuration(relative[2]);
+    } catch {
+      throw invalid(original);
+    }
+    const date = new Date(now.getTime() + (relative[1] === '+' || relative[1] === 'in' ? ms : -ms));
+    return { date, civil: civilOf(date, timeZone), hasTime: true };
+  }
+
+  let time: [number, number] | undefined;
+  const dayWords: string[] = [];
+  for (const word of value.replace(/^(\d{4}-\d{2}-\d{2})t/, '$1 ').split(' ')) {
+    if (!word || word === 'at' || word === 'on') continue;
+    const parsed = /^\d+$/.test(word) ? undefined : parseTime(word);
+    if (parsed && !time) time = parsed;
+    else dayWords.push(word);
+  }
+  const civil = parseDay(dayWords.join(' ') || 'today', civilOf(now, timeZone));
+  if (!civil) throw invalid(original);
+  const [hour, minute] = time ?? [0, 0];
+  return { date: new Date(zonedInstant(civil, hour, minute, timeZone)), civil, hasTime: time !== undefined };
+}
+
+/** Hour and minute of 3pm, 3:30pm, 15:30, noon or midnight; `meridiem` applies when the value has none. */
+function parseTime(word: string, meridiem?: string): [number, number] | undefined {
+  if (word === 'noon') return [12, 0];
+  if (word === 'midnight') return [0, 0];
+  const match = /^(\d{1,2})(?::(\d{2}))?(?::\d{2})?(am|pm)?$/.exec(word);
+  if (!match) return undefined;
+  const suffix = match[3] ?? meridiem;
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  if (minute > 59) return undefined;
+  if (suffix) {
+    if (hour < 1 || hour > 12) return undefined;
+    hour = (hour % 12) + (suffix === 'pm' ? 12 : 0);
+  } else if (match[2] === undefined || hour > 23) {
+    return undefined;
+  }
+  return [hour, minute];
+}
+
+function parseDay(phrase: string, today: Civil): Civil | undefined {
+  if (phrase === 'today') return today;
+  if (phrase === 'tomorrow') return addDays(today, 1);
+  if (phrase === 'yesterday') return addDays(today, -1);
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(phrase);
+  if (iso) {
+    const civil = { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+    const check = new Date(Date.UTC(civil.year, civil.month - 1, civil.day));
+    return check.getUTCMonth() === civil.month - 1 && check.getUTCDate() === civil.day ? civil : undefined;
+  }
+  const weekday = /^(?:(next|this|last)\s+)?([a-z]+)$/.exec(phrase);
+  if (!weekday || weekday[2].length < 3) return undefined;
+  const target = WEEKDAYS.findIndex(name => name.startsWith(weekday[2]));
+  if (target < 0) return undefined;
+  const current = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+  if (weekday[1] === 'last') return addDays(today, -(((current - target + 6) % 7) + 1));
+  // A bare weekday may be today; "next" always means a later day.
+  const ahead = (target - current + 7) % 7;
+  return addDays(today, ahead === 0 && weekday[1] === 'next' ? 7 : ahead);
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ').replace(/(\d)\s+(am|pm)\b/g, '$1$2').replace(/\s*\.\.\s*/, '..');
+}
+
+function invalid(value: string): Error {
+  return new Error(`Cannot parse date "${value}"; try ${EXAMPLES}`);
+}
+
+function zoneOf(options: DateOptions): string {
+  return resolveTimeZone(options.timeZone);
+}
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function zoneParts(ms: number, timeZone: string): Civil & { hour: number; minute: number; second: number } {
+  const parts: Record<string, number> = {};
+  for (const part of zoneFormatter(timeZone).formatToParts(new Date(ms))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+/** Minutes the zone is ahead of UTC at an instant. */
+function zoneOffset(ms: number, timeZone: string): number {
+  const p = zoneParts(ms, timeZone);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((wall - Math.floor(ms / 1000) * 1000) / MINUTE);
+}
+
+/**
+ * The instant a wall-clock time happens in the zone. A time skipped by DST
+ * moves forward by the gap (02:30 becomes 03:30); a time that happens twice
+ * takes the first.
+ */
+function zonedInstant(civil: Civil, hour: number, minute: number, timeZone: string): number {
+  const wall = Date.UTC(civil.year, civil.month - 1, civil.day, hour, minute);
+  // The offsets either side of a transition near this day.
+  const before = zoneOffset(wall - DAY, timeZone);
+  const after = zoneOffset(wall + DAY, timeZone);
+  const matches = [before, after]
+    .filter(offset => zoneOffset(wall - offset * MINUTE, timeZone) === offset)
+    .map(offset => wall - offset * MINUTE);
+  return matches.length ? Math.min(...matches) : wall - before * MINUTE;
+}
+
+function civilOf(date: Date, timeZone: string): Civil {
+  const p = zoneParts(date.getTime(), timeZone);
+  return { year: p.year, month: p.month, day: p.day };
+}
+
+function addDays(civil: Civil, days: number): Civil {
+  const date = new Date(Date.UTC(civil.year, civil.month - 1, civil.day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
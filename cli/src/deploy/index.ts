@@ -11,10 +11,11 @@ import path from 'node:path';
 import { claspCreate, claspPush, claspDeploy, claspList, writeClaspJson } from './clasp-runner.js';
 import { saveDeployment, loadDeployments } from './deployment-store.js';
 import { runHealthCheck } from './health-check.js';
-import { saveConfig } from '../config.js';
+import { resolveProfile, saveConfig } from '../config.js';
 import { generateManifest, generateRouterGs, generateInitCodeGs } from './generators.js';
 import { getProxyFile } from './proxy-files.js';
 import { openUrl } from '../open-url.js';
+import { getGlobalOpts } from '../commands/helpers.js';
 
 async function postInitSecret(webAppUrl: string, secret: string): Promise<boolean> {
   try {
@@ -244,7 +245,7 @@ async function runDeploy(opts: DeployOptions): Promise<void> {
     process.stderr.write(chalk.dim(`  Deployment ID: ${deploymentId}\n`));
 
     // Save CLI config
-    const { store } = saveConfig({ proxy_url: webAppUrl, secret: config.jwtSecret });
+    const { store } = saveConfig({ proxy_url: webAppUrl, secret: config.jwtSecret }, opts.profile);
     if (store === 'keychain') {
       process.stderr.write(chalk.dim('  Credentials saved to OS keychain\n'));
     } else if (store === 'encrypted') {
@@ -332,7 +333,7 @@ async function runUpdate(
     );
 
     // Update CLI config and deployment store
-    saveConfig({ proxy_url: webAppUrl, secret: config.jwtSecret });
+    saveConfig({ proxy_url: webAppUrl, secret: config.jwtSecret }, opts.profile);
 
     const meta: DeploymentMetadata = {
       deployedAt: new Date().toISOString(),
@@ -418,7 +419,7 @@ export function registerDeployCommand(program: Command): void {
     .option('--jwt-secret <secret>', 'JWT shared secret (auto-generated if omitted)')
     .option('--timezone <tz>', 'Timezone (default: system timezone)')
     .option('--skip-health-check', 'Skip post-deployment health check')
-    .action(async (rawOpts: Record<string, unknown>) => {
+    .action(async (rawOpts: Record<string, unknown>, cmd: Command) => {
       const opts: DeployOptions = {
         nonInteractive: !!rawOpts.nonInteractive,
         dryRun: !!rawOpts.dryRun,
@@ -427,6 +428,7 @@ export function registerDeployCommand(program: Command): void {
         jwtSecret: rawOpts.jwtSecret as string | undefined,
         timezone: rawOpts.timezone as string | undefined,
         skipHealthCheck: !!rawOpts.skipHealthCheck,
+        profile: resolveProfile(getGlobalOpts(cmd)),
       };
       await runDeploy(opts);
     });
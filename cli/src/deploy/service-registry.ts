@@ -9,6 +9,8 @@ export const SERVICE_DEFINITIONS: ServiceDefinition[] = [
     oauthScopes: [
       'https://www.googleapis.com/auth/gmail.modify',
       'https://www.googleapis.com/auth/gmail.labels',
+      // gmail snooze schedules its wake-up with a time-driven trigger (ScriptApp)
+      'https://www.googleapis.com/auth/script.scriptapp',
     ],
     advancedService: { userSymbol: 'Gmail', serviceId: 'gmail', version: 'v1' },
     workspaceOnly: false,
@@ -21,6 +23,8 @@ export const SERVICE_DEFINITIONS: ServiceDefinition[] = [
     files: ['Calendar.gs'],
     oauthScopes: [
       'https://www.googleapis.com/auth/calendar',
+      // events.create/update --attach look up the Drive files they attach
+      'https://www.googleapis.com/auth/drive.readonly',
     ],
     advancedService: { userSymbol: 'Calendar', serviceId: 'calendar', version: 'v3' },
     workspaceOnly: false,
@@ -23,6 +23,7 @@ export interface DeployOptions {
   jwtSecret?: string;
   timezone?: string;
   skipHealthCheck?: boolean;
+  profile?: string;
 }
 
 export interface DeployConfig {
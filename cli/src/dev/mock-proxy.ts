@@ -0,0 +1,275 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import http from 'node:http';
+import https from 'node:https';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { MAX_BATCH_SIZE } from '../client.js';
+import type { BatchItem, ProxyResponse } from '../types.js';
+
+/** Fixture files bundled with the CLI: one <service>.json per proxy service. */
+export const DEFAULT_FIXTURES_DIR = fileURLToPath(new URL('../../fixtures/mock-proxy/', import.meta.url));
+
+const CLOCK_SKEW = 30; // seconds, as in proxy/Auth.gs
+const JTI_TTL_MS = 300_000; // CacheService entry lifetime in proxy/Auth.gs
+
+export type FaultKind = 'quota' | 'timeout' | '5xx' | 'service';
+
+export const FAULT_KINDS: FaultKind[] = ['quota', 'timeout', '5xx', 'service'];
+
+export interface MockProxyOptions {
+  secret: string;
+  /** Directory whose <service>.json files override the bundled fixtures. */
+  fixturesDir?: string;
+  /** Faults to inject, picked at random per request. */
+  faults?: FaultKind[];
+  /** Probability (0..1) that a request gets a fault. Default 1. */
+  faultRate?: number;
+  /** Only fault the first n requests, then behave normally. */
+  faultCount?: number;
+  /** Added delay per request in ms. */
+  latency?: number;
+  /** PEM certificate and key; serves HTTPS when both are given. */
+  tlsCert?: string;
+  tlsKey?: string;
+  /** Called once per handled request, for logging. */
+  onRequest?: (entry: MockRequestLog) => void;
+}
+
+export interface MockRequestLog {
+  service: string;
+  action: string;
+  status: number;
+  outcome: string;
+}
+
+/** A service fixture: action name → response data, or {"$error": {...}}. */
+export type Fixture = Record<string, any>;
+
+function errorResponse(code: string, message: string, retryable: boolean): ProxyResponse {
+  return { ok: false, error: { code, message, retryable } };
+}
+
+function base64urlDecode(input: string): string {
+  return Buffer.from(input.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf-8');
+}
+
+function safeJsonParse(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify an HS256 JWT the way proxy/Auth.gs verifyJwt() does, including the
+ * jti replay cache (`seen` maps jti → expiry time in ms).
+ */
+export function verifyToken(token: unknown, secret: string, seen: Map<string, number>): ProxyResponse {
+  if (!token || typeof token !== 'string') {
+    return errorResponse('AUTH_FAILED', 'Missing or invalid token', false);
+  }
+
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return errorResponse('AUTH_FAILED', 'Malformed token', false);
+  }
+  const [headerB64, payloadB64, signatureB64] = parts;
+
+  const header = safeJsonParse(base64urlDecode(headerB64));
+  if (!header) {
+    return errorResponse('AUTH_FAILED', 'Invalid token header', false);
+  }
+  if (header.alg !== 'HS256') {
+    return errorResponse('AUTH_FAILED', 'Unsupported algorithm: ' + header.alg, false);
+  }
+  if (header.typ && header.typ !== 'JWT') {
+    return errorResponse('AUTH_FAILED', 'Invalid token type', false);
+  }
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(`${headerB64}.${payloadB64}`)
+    .digest('base64url');
+  const a = Buffer.from(expected);
+  const b = Buffer.from(signatureB64);
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    return errorResponse('AUTH_FAILED', 'Invalid signature', false);
+  }
+
+  const payload = safeJsonParse(base64urlDecode(payloadB64));
+  if (!payload) {
+    return errorResponse('AUTH_FAILED', 'Invalid token payload', false);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.exp && payload.exp + CLOCK_SKEW < now) {
+    return errorResponse('AUTH_FAILED', 'Token expired', false);
+  }
+  if (payload.iat && payload.iat - CLOCK_SKEW > now) {
+    return errorResponse('AUTH_FAILED', 'Token issued in the future', false);
+  }
+
+  if (payload.jti) {
+    const nowMs = Date.now();
+    for (const [jti, expires] of seen) {
+      if (expires <= nowMs) seen.delete(jti);
+    }
+    if (seen.has(payload.jti)) {
+      return errorResponse('AUTH_FAILED', 'Token already used (replay detected)', false);
+    }
+    seen.set(payload.jti, nowMs + JTI_TTL_MS);
+  }
+
+  return { ok: true, data: { claims: payload } };
+}
+
+/**
+ * Load fixtures: the bundled set, overridden per service by files in `dir`.
+ */
+export function loadFixtures(dir?: string): Record<string, Fixture> {
+  const fixtures: Record<string, Fixture> = {};
+  for (const source of [DEFAULT_FIXTURES_DIR, dir]) {
+    if (!source) continue;
+    for (const file of fs.readdirSync(source).filter(f => f.endsWith('.json'))) {
+      const service = path.basename(file, '.json');
+      try {
+        fixtures[service] = JSON.parse(fs.readFileSync(path.join(source, file), 'utf-8'));
+      } catch (err: any) {
+        throw new Error(`Invalid fixture ${path.join(source, file)}: ${err.message}`);
+      }
+    }
+  }
+  return fixtures;
+}
+
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Answer one request from the fixtures, mirroring routeRequest() errors.
+ */
+export function routeFixture(
+  fixtures: Record<string, Fixture>,
+  service: string,
+  action: string
+): ProxyResponse {
+  if (!service) {
+    return errorResponse('INVALID_REQUEST', 'Missing service name', false);
+  }
+  if (!action) {
+    return errorResponse('INVALID_REQUEST', 'Missing action name', false);
+  }
+  const fixture = fixtures[service];
+  if (!fixture) {
+    return errorResponse('NOT_FOUND', 'Unknown service: ' + service, false);
+  }
+  if (!Object.prototype.hasOwnProperty.call(fixture, action)) {
+    return errorResponse('NOT_FOUND', `Unknown ${capitalize(service)} action: ${action}`, false);
+  }
+  const data = fixture[action];
+  if (data && typeof data === 'object' && data.$error) {
+    const { code = 'SERVICE_ERROR', message = 'Fixture error', retryable = false } = data.$error;
+    return errorResponse(code, message, retryable);
+  }
+  return { ok: true, data };
+}
+
+function routeBatch(fixtures: Record<string, Fixture>, requests: BatchItem[]): ProxyResponse {
+  if (!Array.isArray(requests) || requests.length === 0) {
+    return errorResponse('INVALID_REQUEST', 'Batch requires a non-empty requests array', false);
+  }
+  if (requests.length > MAX_BATCH_SIZE) {
+    return errorResponse('INVALID_REQUEST', `Batch too large: ${requests.length} items (max ${MAX_BATCH_SIZE})`, false);
+  }
+  const results = requests.map(item => {
+    if (item?.service === '_batch') {
+      return errorResponse('INVALID_REQUEST', 'Nested batches are not allowed', false);
+    }
+    return routeFixture(fixtures, item?.service, item?.action);
+  });
+  const failed = results.filter(r => !r.ok).length;
+  return { ok: true, data: { results, count: results.length, failed } };
+}
+
+/**
+ * Create (but do not start) a mock proxy server speaking the doPost contract.
+ */
+export function createMockProxy(options: MockProxyOptions): http.Server | https.Server {
+  const fixtures = loadFixtures(options.fixturesDir);
+  const seen = new Map<string, number>();
+  const faults = options.faults ?? [];
+  const faultRate = options.faultRate ?? 1;
+  let faultsLeft = options.faultCount ?? Infinity;
+
+  const handler = (req: http.IncomingMessage, res: http.ServerResponse): void => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', async () => {
+      const send = (status: number, body: ProxyResponse | string, service = '', action = '') => {
+        const text = typeof body === 'string' ? body : JSON.stringify(body);
+        res.writeHead(status, { 'Content-Type': typeof body === 'string' ? 'text/html' : 'application/json' });
+        res.end(text);
+        const outcome = typeof body === 'string' ? `HTTP ${status}` : body.ok ? 'OK' : body.error!.code;
+        options.onRequest?.({ service, action, status, outcome });
+      };
+
+      if (options.latency) {
+        await new Promise(resolve => setTimeout(resolve, options.latency));
+      }
+
+      // doGet(): health check
+      if (req.method === 'GET') {
+        send(200, { ok: true, data: { status: 'healthy', timestamp: new Date().toISOString(), version: 'mock', configured: true } });
+        return;
+      }
+
+      const requestId = crypto.randomUUID();
+      const body = safeJsonParse(Buffer.concat(chunks).toString('utf-8'));
+      if (!body) {
+        send(200, { ...errorResponse('INVALID_REQUEST', 'Invalid JSON in request body', false), requestId });
+        return;
+      }
+      const service: string = body.service || '';
+      const action: string = body.action || '';
+
+      const auth = verifyToken(body.jwt, options.secret, seen);
+      if (!auth.ok) {
+        send(200, { ...auth, requestId }, service, action);
+        return;
+      }
+
+      if (faults.length > 0 && faultsLeft > 0 && Math.random() < faultRate) {
+        faultsLeft--;
+        const fault = faults[Math.floor(Math.random() * faults.length)];
+        switch (fault) {
+          case 'quota':
+            send(200, { ...errorResponse('QUOTA_EXCEEDED', 'Service invoked too many times for one day (mock)', true), requestId }, service, action);
+            return;
+          case 'service':
+            send(200, { ...errorResponse('SERVICE_ERROR', 'Internal error (mock)', true), requestId }, service, action);
+            return;
+          case '5xx':
+            send(502, '<html><body>Bad Gateway (mock)</body></html>', service, action);
+            return;
+          case 'timeout':
+            // Never answer; the client's AbortController fires first
+            options.onRequest?.({ service, action, status: 0, outcome: 'TIMEOUT (no response)' });
+            return;
+        }
+      }
+
+      const result = service === '_batch'
+        ? routeBatch(fixtures, body.params?.requests)
+        : routeFixture(fixtures, service, action);
+      send(200, { ...result, requestId }, service, action);
+    });
+  };
+
+  if (options.tlsCert && options.tlsKey) {
+    return https.createServer({ cert: options.tlsCert, key: options.tlsKey }, handler);
+  }
+  return http.createServer(handler);
+}
@@ -215,3 +215,25 @@ export function encryptedStoreSave(entries: Record<string, string>): boolean {
   saveBlob(newBlob);
   return true;
 }
+
+/**
+ * Remove credentials from the encrypted store.
+ */
+export function encryptedStoreDelete(keys: string[]): boolean {
+  const blob = loadBlob();
+  if (!blob) return false;
+
+  const password = resolvePassword();
+  if (!password) return false;
+
+  const plaintext = decrypt(blob, password);
+  if (!plaintext) return false;
+
+  let data: CredentialData;
+  try { data = JSON.parse(plaintext); } catch { return false; }
+
+  for (const key of keys) delete data[key];
+  const newBlob = encrypt(JSON.stringify(data), password);
+  saveBlob(newBlob);
+  return true;
+}
@@ -0,0 +1,701 @@
+import path from 'node:path';
+import type { GmailCall } from './mailstore.js';
+import type { CommandResult } from './types.js';
+
+/**
+ * Gmail filters as portable rules for `gmail settings filters export|import`
+ * and `create`. Rules name labels instead of using label IDs, so a rule file
+ * applies to any account. Three file formats:
+ *
+ * - json: `{ "filters": [{ "criteria": {...}, "action": {...} }] }`
+ * - xml: Gmail's own mailFilters.xml, as used by Settings → Filters → Import
+ * - sieve: an RFC 5228 script. Criteria and actions Sieve has no words for
+ *   (Gmail search queries, categories, importance, ...) go in a `# gmail:`
+ *   comment above each rule, which other Sieve servers ignore.
+ */
+
+export type FilterFormat = 'json' | 'xml' | 'sieve';
+export const FILTER_FORMATS: FilterFormat[] = ['json', 'xml', 'sieve'];
+
+export const FILTER_CATEGORIES = ['personal', 'social', 'promotions', 'updates', 'forums'] as const;
+export type FilterCategory = typeof FILTER_CATEGORIES[number];
+
+export interface FilterCriteria {
+  from?: string;
+  to?: string;
+  subject?: string;
+  /** Gmail search query ("Has the words") */
+  query?: string;
+  /** "Doesn't have" */
+  negatedQuery?: string;
+  hasAttachment?: boolean;
+  excludeChats?: boolean;
+  /** Bytes */
+  size?: number;
+  sizeComparison?: 'larger' | 'smaller';
+}
+
+export interface FilterActions {
+  label?: string;
+  archive?: boolean;
+  markRead?: boolean;
+  star?: boolean;
+  trash?: boolean;
+  neverSpam?: boolean;
+  important?: boolean;
+  neverImportant?: boolean;
+  category?: FilterCategory;
+  forward?: string;
+}
+
+export interface FilterRule {
+  criteria: FilterCriteria;
+  action: FilterActions;
+}
+
+/** A filter as the Gmail API (and the settings.filters.* proxy actions) has it. */
+export interface GmailFilter {
+  id?: string;
+  criteria: Record<string, any>;
+  action: { addLabelIds?: string[]; removeLabelIds?: string[]; forward?: string };
+}
+
+const CRITERIA_KEYS: (keyof FilterCriteria)[] = [
+  'from', 'to', 'subject', 'query', 'negatedQuery', 'hasAttachment', 'excludeChats', 'size', 'sizeComparison',
+];
+const ACTION_KEYS: (keyof FilterActions)[] = [
+  'label', 'archive', 'markRead', 'star', 'trash', 'neverSpam', 'important', 'neverImportant', 'category', 'forward',
+];
+
+/** Boolean actions and the system label each one adds (+) or removes (-). */
+const LABEL_ACTIONS: [keyof FilterActions, '+' | '-', string][] = [
+  ['archive', '-', 'INBOX'],
+  ['markRead', '-', 'UNREAD'],
+  ['star', '+', 'STARRED'],
+  ['trash', '+', 'TRASH'],
+  ['neverSpam', '-', 'SPAM'],
+  ['important', '+', 'IMPORTANT'],
+  ['neverImportant', '-', 'IMPORTANT'],
+];
+
+const CATEGORY_LABELS: Record<FilterCategory, string> = {
+  personal: 'CATEGORY_PERSONAL',
+  social: 'CATEGORY_SOCIAL',
+  promotions: 'CATEGORY_PROMOTIONS',
+  updates: 'CATEGORY_UPDATES',
+  forums: 'CATEGORY_FORUMS',
+};
+
+/** Drop unset, false and empty values so equal rules compare equal. */
+export function normalizeRule(rule: FilterRule): FilterRule {
+  const pick = <T extends object>(source: T, keys: (keyof T)[]): T => {
+    const out = {} as T;
+    for (const key of keys) {
+      const value = source[key];
+      if (value !== undefined && value !== null && value !== false && value !== '') out[key] = value;
+    }
+    return out;
+  };
+  const criteria = pick(rule.criteria ?? {}, CRITERIA_KEYS);
+  if (criteria.size === undefined) delete criteria.sizeComparison;
+  else criteria.sizeComparison ??= 'larger';
+  return { criteria, action: pick(rule.action ?? {}, ACTION_KEYS) };
+}
+
+/** Identity of a rule for duplicate detection. */
+export function ruleKey(rule: FilterRule): string {
+  const { criteria, action } = normalizeRule(rule);
+  const lower = (value: unknown) => (typeof value === 'string' ? value.toLowerCase() : value);
+  const entries = (obj: object) => Object.entries(obj).map(([k, v]) => [k, lower(v)]).sort();
+  return JSON.stringify([entries(criteria), entries(action)]);
+}
+
+/**
+ * Check that a rule can be created: at least one criterion and one action,
+ * and a known category. Throws with a user-facing message.
+ */
+export function validateRule(rule: FilterRule): FilterRule {
+  const normalized = normalizeRule(rule);
+  if (Object.keys(normalized.criteria).length === 0) throw new Error('A filter needs at least one criterion');
+  if (Object.keys(normalized.action).length === 0) throw new Error('A filter needs at least one action');
+  const category = normalized.action.category;
+  if (category && !FILTER_CATEGORIES.includes(category)) {
+    throw new Error(`Unknown category "${category}"; use one of ${FILTER_CATEGORIES.join(', ')}`);
+  }
+  if (normalized.criteria.size !== undefined && !(normalized.criteria.size > 0)) throw new Error('Filter size must be a positive number of bytes');
+  return normalized;
+}
+
+// --- Gmail API mapping ---
+
+/**
+ * Convert an API filter, naming user labels through `labelNames` (ID → name).
+ * A rule holds one user label; when the filter adds more, the first is kept
+ * and `onWarning` hears about the rest.
+ */
+export function fromGmailFilter(
+  filter: GmailFilter,
+  labelNames: Record<string, string>,
+  onWarning?: (message: string) => void
+): FilterRule {
+  const c = filter.criteria ?? {};
+  const criteria: FilterCriteria = {
+    from: c.from,
+    to: c.to,
+    subject: c.subject,
+    query: c.query,
+    negatedQuery: c.negatedQuery,
+    hasAttachment: c.hasAttachment,
+    excludeChats: c.excludeChats,
+    size: c.size,
+    sizeComparison: c.sizeComparison,
+  };
+  const action: FilterActions = { forward: filter.action?.forward };
+  const added = new Set(filter.action?.addLabelIds ?? []);
+  const removed = new Set(filter.action?.removeLabelIds ?? []);
+  for (const [key, sign, labelId] of LABEL_ACTIONS) {
+    if ((sign === '+' ? added : removed).delete(labelId)) (action as any)[key] = true;
+  }
+  for (const [category, labelId] of Object.entries(CATEGORY_LABELS)) {
+    if (added.delete(labelId)) action.category = category as FilterCategory;
+  }
+  const [labelId, ...extra] = [...added].map(id => labelNames[id] ?? id);
+  if (labelId) action.label = labelId;
+  const rule = normalizeRule({ criteria, action });
+  if (extra.length > 0) {
+    onWarning?.(`Filter ${filter.id ?? describeRule(rule)} adds ${extra.length + 1} labels; ` +
+      `only ${JSON.stringify(labelId)} is kept, not ${extra.map(name => JSON.stringify(name)).join(', ')}`);
+  }
+  return rule;
+}
+
+/**
+ * Convert a rule to settings.filters.create params. The user label travels
+ * by name as `labelName`; the proxy looks it up (or creates it).
+ */
+export function toGmailFilter(rule: FilterRule): { criteria: Record<string, any>; action: GmailFilter['action']; labelName?: string } {
+  const { criteria, action } = validateRule(rule);
+  const addLabelIds: string[] = [];
+  const removeLabelIds: string[] = [];
+  for (const [key, sign, labelId] of LABEL_ACTIONS) {
+    if (action[key]) (sign === '+' ? addLabelIds : removeLabelIds).push(labelId);
+  }
+  if (action.category) addLabelIds.push(CATEGORY_LABELS[action.category]);
+
+  const gmailAction: GmailFilter['action'] = {};
+  if (addLabelIds.length > 0) gmailAction.addLabelIds = addLabelIds;
+  if (removeLabelIds.length > 0) gmailAction.removeLabelIds = removeLabelIds;
+  if (action.forward) gmailAction.forward = action.forward;
+  return { criteria: { ...criteria }, action: gmailAction, ...(action.label ? { labelName: action.label } : {}) };
+}
+
+/** One-line summary, e.g. `from:alice@example.com → label "Work", archive`. */
+export function describeRule(rule: FilterRule): string {
+  const { criteria, action } = normalizeRule(rule);
+  const quote = (value: string) => (/[\s"]/.test(value) ? JSON.stringify(value) : value);
+  const tests = Object.entries(criteria)
+    .filter(([key]) => key !== 'sizeComparison')
+    .map(([key, value]) => {
+      if (key === 'size') return `${criteria.sizeComparison}:${formatSize(value as number)}`;
+      return value === true ? key : `${key}:${quote(String(value))}`;
+    });
+  const actions = Object.entries(action).map(([key, value]) => (value === true ? key : `${key} ${JSON.stringify(value)}`));
+  return `${tests.join(' ')} → ${actions.join(', ')}`;
+}
+
+// --- Sizes ---
+
+const SIZE_UNITS: [string, number][] = [['M', 1024 * 1024], ['K', 1024]];
+
+function formatSize(bytes: number): string {
+  for (const [unit, factor] of SIZE_UNITS) {
+    if (bytes % factor === 0) return `${bytes / factor}${unit}`;
+  }
+  return String(bytes);
+}
+
+/** Parse "10M", "512K", "2048" or "1.5MB" into bytes. */
+export function parseSize(value: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([kmg]?)b?\s*$/i.exec(value);
+  if (!match) throw new Error(`Invalid size "${value}"; use bytes or a K/M/G suffix`);
+  const factor = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }[match[2].toLowerCase() as '' | 'k' | 'm' | 'g'];
+  return Math.round(Number(match[1]) * factor);
+}
+
+// --- Formats ---
+
+export function formatFromPath(file: string): FilterFormat | undefined {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === '.json') return 'json';
+  if (ext === '.xml') return 'xml';
+  if (ext === '.sieve' || ext === '.siv') return 'sieve';
+  return undefined;
+}
+
+/**
+ * Write rules in `format`. `onWarning` hears about rules the format cannot
+ * carry as they are (see toSieve).
+ */
+export function serializeFilters(rules: FilterRule[], format: FilterFormat, onWarning?: (message: string) => void): string {
+  const normalized = rules.map(normalizeRule);
+  if (format === 'xml') return toXml(normalized);
+  if (format === 'sieve') return toSieve(normalized, onWarning);
+  return JSON.stringify({ filters: normalized }, null, 2) + '\n';
+}
+
+export function parseFilters(text: string, format: FilterFormat): FilterRule[] {
+  if (format === 'xml') return fromXml(text);
+  if (format === 'sieve') return fromSieve(text);
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (err: any) {
+    throw new Error(`Invalid JSON: ${err.message}`);
+  }
+  const filters = Array.isArray(data) ? data : data?.filters;
+  if (!Array.isArray(filters)) throw new Error('Expected { "filters": [...] } or an array of filters');
+  return filters.map((f: any) => normalizeRule({ criteria: f.criteria ?? {}, action: f.action ?? {} }));
+}
+
+// --- mailFilters.xml ---
+
+/** XML property ↔ criteria/action keys; values are strings or booleans. */
+const XML_PROPERTIES: [string, 'criteria' | 'action', string][] = [
+  ['from', 'criteria', 'from'],
+  ['to', 'criteria', 'to'],
+  ['subject', 'criteria', 'subject'],
+  ['hasTheWord', 'criteria', 'query'],
+  ['doesNotHaveTheWord', 'criteria', 'negatedQuery'],
+  ['hasAttachment', 'criteria', 'hasAttachment'],
+  ['excludeChats', 'criteria', 'excludeChats'],
+  ['label', 'action', 'label'],
+  ['shouldArchive', 'action', 'archive'],
+  ['shouldMarkAsRead', 'action', 'markRead'],
+  ['shouldStar', 'action', 'star'],
+  ['shouldTrash', 'action', 'trash'],
+  ['shouldNeverSpam', 'action', 'neverSpam'],
+  ['shouldAlwaysMarkAsImportant', 'action', 'important'],
+  ['shouldNeverMarkAsImportant', 'action', 'neverImportant'],
+  ['forwardTo', 'action', 'forward'],
+];
+
+const XML_CATEGORIES: Record<FilterCategory, string> = {
+  personal: '^smartlabel_personal',
+  social: '^smartlabel_social',
+  promotions: '^smartlabel_promo',
+  updates: '^smartlabel_notification',
+  forums: '^smartlabel_group',
+};
+
+const XML_SIZE_UNITS: [string, number][] = [['s_smb', 1024 * 1024], ['s_skb', 1024], ['s_sb', 1]];
+
+function xmlEscape(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/'/g, '&apos;').replace(/"/g, '&quot;');
+}
+
+function xmlUnescape(value: string): string {
+  return value
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&apos;/g, "'").replace(/&quot;/g, '"')
+    .replace(/&#(\d+);/g, (_m, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function toXml(rules: FilterRule[]): string {
+  const entries = rules.map(rule => {
+    const props: [string, string][] = [];
+    for (const [name, group, key] of XML_PROPERTIES) {
+      const value = (rule[group] as any)[key];
+      if (value !== undefined) props.push([name, String(value)]);
+    }
+    if (rule.criteria.size !== undefined) {
+      const [unit, factor] = XML_SIZE_UNITS.find(([, f]) => rule.criteria.size! % f === 0)!;
+      props.push(['size', String(rule.criteria.size / factor)]);
+      props.push(['sizeOperator', rule.criteria.sizeComparison === 'smaller' ? 's_ss' : 's_sl']);
+      props.push(['sizeUnit', unit]);
+    }
+    if (rule.action.category) props.push(['smartLabelToApply', XML_CATEGORIES[rule.action.category]]);
+    return [
+      '\t<entry>',
+      "\t\t<category term='filter'></category>",
+      '\t\t<title>Mail Filter</title>',
+      '\t\t<content></content>',
+      ...props.map(([name, value]) => `\t\t<apps:property name='${name}' value='${xmlEscape(value)}'/>`),
+      '\t</entry>',
+    ].join('\n');
+  });
+  return [
+    "<?xml version='1.0' encoding='UTF-8'?>",
+    "<feed xmlns='http://www.w3.org/2005/Atom' xmlns:apps='http://schemas.google.com/apps/2006'>",
+    '\t<title>Mail Filters</title>',
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+function fromXml(text: string): FilterRule[] {
+  if (!/<feed[\s>]/.test(text)) throw new Error('Not a Gmail mailFilters.xml file (no <feed>)');
+  const rules: FilterRule[] = [];
+  for (const entry of text.match(/<entry[\s>][\s\S]*?<\/entry>/g) ?? []) {
+    const props: Record<string, string> = {};
+    for (const m of entry.matchAll(/<apps:property\s+name=(['"])(.*?)\1\s+value=(['"])(.*?)\3\s*\/>/g)) {
+      props[m[2]] = xmlUnescape(m[4]);
+    }
+    const rule: FilterRule = { criteria: {}, action: {} };
+    for (const [name, group, key] of XML_PROPERTIES) {
+      if (props[name] === undefined) continue;
+      const value = props[name];
+      (rule[group] as any)[key] = value === 'true' ? true : value === 'false' ? false : value;
+    }
+    if (props.size) {
+      const factor = XML_SIZE_UNITS.find(([unit]) => unit === props.sizeUnit)?.[1] ?? 1;
+      rule.criteria.size = Number(props.size) * factor;
+      rule.criteria.sizeComparison = props.sizeOperator === 's_ss' ? 'smaller' : 'larger';
+    }
+    if (props.smartLabelToApply) {
+      const category = Object.entries(XML_CATEGORIES).find(([, v]) => v === props.smartLabelToApply)?.[0];
+      if (!category) throw new Error(`Unknown smartLabelToApply "${props.smartLabelToApply}"`);
+      rule.action.category = category as FilterCategory;
+    }
+    rules.push(normalizeRule(rule));
+  }
+  return rules;
+}
+
+// --- Sieve ---
+
+/** Folder names Sieve uses for Gmail's archive and trash actions. */
+const SIEVE_ARCHIVE = 'Archive';
+const SIEVE_TRASH = 'Trash';
+const SIEVE_COMMENT = '# gmail: ';
+
+/** Parts of a rule that only the `# gmail:` comment can carry. */
+const GMAIL_ONLY: { criteria: (keyof FilterCriteria)[]; action: (keyof FilterActions)[] } = {
+  criteria: ['query', 'negatedQuery', 'hasAttachment', 'excludeChats'],
+  action: ['neverSpam', 'important', 'neverImportant', 'category'],
+};
+
+function sieveString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Sieve files a message into one folder, and the Archive and Trash folders
+ * stand for those actions, so two kinds of rule do not survive the trip:
+ * a label on a trashed message is dropped, and a label named Archive or
+ * Trash reads back as that action. Both are reported through `onWarning`.
+ */
+function toSieve(rules: FilterRule[], onWarning?: (message: string) => void): string {
+  const lines = ['require ["fileinto", "imap4flags", "copy"];', ''];
+  for (const rule of rules) {
+    const { criteria, action } = rule;
+    if (action.label && action.trash) {
+      onWarning?.(`Sieve cannot label trashed mail; label ${JSON.stringify(action.label)} is left out of: ${describeRule(rule)}`);
+    } else if (action.label === SIEVE_ARCHIVE || action.label === SIEVE_TRASH) {
+      onWarning?.(`Label ${JSON.stringify(action.label)} is also the Sieve ${action.label} folder and reads back as ` +
+        `${action.label === SIEVE_TRASH ? 'trash' : 'archive'}: ${describeRule(rule)}`);
+    }
+
+    const extra: Record<string, unknown> = {};
+    for (const key of GMAIL_ONLY.criteria) if (criteria[key] !== undefined) extra[key] = criteria[key];
+    for (const key of GMAIL_ONLY.action) if (action[key] !== undefined) extra[key] = action[key];
+    if (Object.keys(extra).length > 0) lines.push(SIEVE_COMMENT + JSON.stringify(extra));
+
+    const tests: string[] = [];
+    if (criteria.from) tests.push(`address :contains "from" ${sieveString(criteria.from)}`);
+    if (criteria.to) tests.push(`address :contains ["to", "cc"] ${sieveString(criteria.to)}`);
+    if (criteria.subject) tests.push(`header :contains "subject" ${sieveString(criteria.subject)}`);
+    if (criteria.size !== undefined) tests.push(`size :${criteria.sizeComparison === 'smaller' ? 'under' : 'over'} ${formatSize(criteria.size)}`);
+    const condition = tests.length === 0 ? 'true' : tests.length === 1 ? tests[0] : `allof (${tests.join(',\n          ')})`;
+
+    const body: string[] = [];
+    if (action.forward) body.push(`redirect :copy ${sieveString(action.forward)};`);
+    if (action.markRead) body.push('addflag "\\\\Seen";');
+    if (action.star) body.push('addflag "\\\\Flagged";');
+    if (action.trash) {
+      body.push(`fileinto ${sieveString(SIEVE_TRASH)};`);
+    } else {
+      // fileinto cancels the implicit keep (delivery to the inbox), which is what archiving means
+      if (action.label) body.push(`fileinto ${sieveString(action.label)};`);
+      else if (action.archive) body.push(`fileinto ${sieveString(SIEVE_ARCHIVE)};`);
+      if (action.label && !action.archive) body.push('keep;');
+    }
+    lines.push(`if ${condition} {`, ...body.map(line => `  ${line}`), '}', '');
+  }
+  return lines.join('\n');
+}
+
+type SieveToken = { type: 'word' | 'tag' | 'string' | 'number' | 'punct'; value: string; line: number };
+
+function tokenizeSieve(text: string): { tokens: SieveToken[]; comments: { line: number; text: string }[] } {
+  const tokens: SieveToken[] = [];
+  const comments: { line: number; text: string }[] = [];
+  let i = 0;
+  let line = 1;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '\n') { line++; i++; continue; }
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === '#') {
+      const end = text.indexOf('\n', i);
+      comments.push({ line, text: text.slice(i, end === -1 ? undefined : end) });
+      i = end === -1 ? text.length : end;
+      continue;
+    }
+    if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      if (end === -1) throw new Error(`Sieve line ${line}: unterminated comment`);
+      line += text.slice(i, end).split('\n').length - 1;
+      i = end + 2;
+      continue;
+    }
+    if (ch === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) i++;
+        if (text[i] === '\n') line++;
+        value += text[i++];
+      }
+      if (i >= text.length) throw new Error(`Sieve line ${line}: unterminated string`);
+      i++;
+      tokens.push({ type: 'string', value, line });
+      continue;
+    }
+    const word = /^(:?[A-Za-z_][\w.-]*|\d+[KMGkmg]?)/.exec(text.slice(i));
+    if (word) {
+      const value = word[1];
+      tokens.push({ type: value.startsWith(':') ? 'tag' : /^\d/.test(value) ? 'number' : 'word', value, line });
+      i += value.length;
+      continue;
+    }
+    if ('()[]{},;'.includes(ch)) {
+      tokens.push({ type: 'punct', value: ch, line });
+      i++;
+      continue;
+    }
+    throw new Error(`Sieve line ${line}: unexpected "${ch}"`);
+  }
+  return { tokens, comments };
+}
+
+/**
+ * Parse the Sieve subset this module writes: `if` blocks whose test is
+ * `true`, one test or `allof (...)` of address/header/size tests, with
+ * fileinto, keep, addflag, redirect and discard actions.
+ */
+function fromSieve(text: string): FilterRule[] {
+  const { tokens, comments } = tokenizeSieve(text);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const fail = (message: string): never => {
+    throw new Error(`Sieve line ${peek()?.line ?? 'end'}: ${message}`);
+  };
+  const next = () => tokens[pos++] ?? fail('unexpected end of script');
+  const expect = (value: string) => {
+    const token = next();
+    if (token.value !== value) fail(`expected "${value}", found "${token.value}"`);
+  };
+  const strings = (): string[] => {
+    if (peek()?.value === '[') {
+      next();
+      const list: string[] = [];
+      while (peek()?.value !== ']') {
+        const token = next();
+        if (token.type !== 'string') fail('expected a string');
+        list.push(token.value);
+        if (peek()?.value === ',') next();
+      }
+      next();
+      return list;
+    }
+    const token = next();
+    if (token.type !== 'string') fail('expected a string');
+    return [token.value];
+  };
+
+  const test = (criteria: FilterCriteria): void => {
+    const name = next().value.toLowerCase();
+    if (name === 'true') return;
+    if (name === 'size') {
+      const tag = next().value.toLowerCase();
+      if (tag !== ':over' && tag !== ':under') fail('size needs :over or :under');
+      criteria.size = parseSize(next().value);
+      criteria.sizeComparison = tag === ':under' ? 'smaller' : 'larger';
+      return;
+    }
+    if (name !== 'address' && name !== 'header') fail(`unsupported test "${name}"`);
+    while (peek()?.type === 'tag') {
+      const tag = next().value.toLowerCase();
+      if (tag !== ':contains' && tag !== ':is' && tag !== ':all') fail(`unsupported match "${tag}"`);
+    }
+    const fields = strings().map(f => f.toLowerCase());
+    const [value] = strings();
+    if (fields.includes('from')) criteria.from = value;
+    else if (fields.includes('to')) criteria.to = value;
+    else if (fields.includes('subject')) criteria.subject = value;
+    else fail(`unsupported header ${fields.join(', ')}`);
+  };
+
+  const rules: FilterRule[] = [];
+  while (pos < tokens.length) {
+    const start = next();
+    if (start.value === 'require') {
+      strings();
+      expect(';');
+      continue;
+    }
+    if (start.value !== 'if') fail(`unsupported command "${start.value}"`);
+
+    const comment = comments.filter(c => c.line === start.line - 1 && c.text.startsWith(SIEVE_COMMENT)).pop();
+    let extra: FilterRule = { criteria: {}, action: {} };
+    if (comment) {
+      try {
+        const data = JSON.parse(comment.text.slice(SIEVE_COMMENT.length));
+        extra = {
+          criteria: Object.fromEntries(GMAIL_ONLY.criteria.filter(k => k in data).map(k => [k, data[k]])),
+          action: Object.fromEntries(GMAIL_ONLY.action.filter(k => k in data).map(k => [k, data[k]])),
+        };
+      } catch {
+        fail(`invalid ${SIEVE_COMMENT.trim()} comment`);
+      }
+    }
+
+    const criteria: FilterCriteria = { ...extra.criteria };
+    if (peek()?.value.toLowerCase() === 'allof') {
+      next();
+      expect('(');
+      for (;;) {
+        test(criteria);
+        if (peek()?.value !== ',') break;
+        next();
+      }
+      expect(')');
+    } else {
+      test(criteria);
+    }
+
+    const action: FilterActions = { ...extra.action };
+    let keep = false;
+    let folder: string | undefined;
+    expect('{');
+    while (peek()?.value !== '}') {
+      const command = next().value.toLowerCase();
+      if (command === 'keep') keep = true;
+      else if (command === 'discard') action.trash = true;
+      else if (command === 'fileinto') folder = strings()[0];
+      else if (command === 'addflag') {
+        for (const flag of strings()) {
+          if (flag.toLowerCase() === '\\seen') action.markRead = true;
+          else if (flag.toLowerCase() === '\\flagged') action.star = true;
+          else fail(`unsupported flag "${flag}"`);
+        }
+      } else if (command === 'redirect') {
+        while (peek()?.type === 'tag') next();
+        action.forward = strings()[0];
+      } else fail(`unsupported action "${command}"`);
+      expect(';');
+    }
+    next();
+
+    if (folder === SIEVE_TRASH) action.trash = true;
+    else if (folder === SIEVE_ARCHIVE) action.archive = true;
+    else if (folder) {
+      action.label = folder;
+      if (!keep) action.archive = true;
+    }
+    rules.push(normalizeRule({ criteria, action }));
+  }
+  return rules;
+}
+
+// --- Import planning ---
+
+export interface FilterDiff {
+  /** Rules in the file but not in the account. */
+  add: FilterRule[];
+  /** Rules in both (skipped). */
+  same: FilterRule[];
+  /** Rules only in the account (left alone). */
+  accountOnly: FilterRule[];
+}
+
+export function diffFilters(wanted: FilterRule[], existing: FilterRule[]): FilterDiff {
+  const existingKeys = new Set(existing.map(ruleKey));
+  const wantedKeys = new Set<string>();
+  const diff: FilterDiff = { add: [], same: [], accountOnly: [] };
+  for (const rule of wanted) {
+    const key = ruleKey(rule);
+    if (wantedKeys.has(key)) continue;
+    wantedKeys.add(key);
+    (existingKeys.has(key) ? diff.same : diff.add).push(normalizeRule(rule));
+  }
+  diff.accountOnly = existing.filter(rule => !wantedKeys.has(ruleKey(rule))).map(normalizeRule);
+  return diff;
+}
+
+// --- Account ---
+
+/**
+ * Read the account's filters as rules (settings.filters.list). `onWarning`
+ * hears about filters a rule cannot hold in full (see fromGmailFilter).
+ */
+export async function fetchFilters(call: GmailCall, onWarning?: (message: string) => void): Promise<CommandResult> {
+  const result = await call('settings.filters.list', {});
+  if (!result.ok) return result;
+  const labelNames: Record<string, string> = {};
+  for (const label of result.data.labels ?? []) labelNames[label.id] = label.name;
+  const filters: GmailFilter[] = result.data.filters ?? [];
+  return {
+    ok: true,
+    data: { filters: filters.map(f => ({ id: f.id, ...fromGmailFilter(f, labelNames, onWarning) })) },
+  };
+}
+
+export interface ImportOptions {
+  rules: FilterRule[];
+  call: GmailCall;
+  /** Report the plan without creating anything. */
+  dryRun?: boolean;
+}
+
+/**
+ * Create the rules the account does not have yet. Rules that match an
+ * existing filter are skipped, and filters only in the account are listed
+ * but left alone. Stops at the first failed create.
+ */
+export async function importFilters(options: ImportOptions): Promise<CommandResult> {
+  const { call } = options;
+  let rules: FilterRule[];
+  try {
+    rules = options.rules.map(validateRule);
+  } catch (err: any) {
+    return { ok: false, error: { code: 'INVALID_REQUEST', message: err.message, retryable: false } };
+  }
+  const existing = await fetchFilters(call);
+  if (!existing.ok) return existing;
+
+  const diff = diffFilters(rules, existing.data.filters.map(({ id: _id, ...rule }: any) => rule));
+  const added: { id?: string; description: string }[] = [];
+  for (const rule of diff.add) {
+    if (!options.dryRun) {
+      const result = await call('settings.filters.create', toGmailFilter(rule));
+      if (!result.ok) {
+        const done = added.length > 0 ? ` (${added.length} filter(s) created before this)` : '';
+        return { ...result, error: { ...result.error!, message: `${result.error!.message}${done}` } };
+      }
+      added.push({ id: result.data?.id, description: describeRule(rule) });
+    } else {
+      added.push({ description: describeRule(rule) });
+    }
+  }
+  return {
+    ok: true,
+    data: {
+      dryRun: options.dryRun === true,
+      added,
+      skipped: diff.same.map(describeRule),
+      accountOnly: diff.accountOnly.map(describeRule),
+    },
+  };
+}
@@ -0,0 +1,198 @@
+import type { CalendarCall } from './agenda.js';
+import { formatDateTime, localTime, parseDuration, parseTimeRange, resolveTimeZone } from './dates.js';
+import type { CommandResult } from './types.js';
+
+/**
+ * `calendar find-time`: ask freebusy about the organizer and every attendee,
+ * walk the window in fixed steps and keep the slots that are free for all
+ * of them (with a buffer around busy blocks) and inside everyone's working
+ * hours in their own time zone. Booking the chosen slot is left to the
+ * command, through events.create.
+ */
+
+export const FIND_TIME_PREFERENCES = ['central', 'soonest'] as const;
+
+export type FindTimePreference = typeof FIND_TIME_PREFERENCES[number];
+
+export interface FindTimeOptions {
+  attendees: string[];
+  /** Meeting length, e.g. 30m. */
+  duration: string;
+  /** Where to look: a range ("next week", today..friday) or a single day. */
+  within: string;
+  /** HH:MM-HH:MM, applied in each attendee's zone. */
+  workingHours: string;
+  /** Free time kept before and after busy blocks, e.g. 10m. */
+  buffer?: string;
+  /** Spacing of candidate start times; defaults to 15m. */
+  step?: string;
+  includeWeekends?: boolean;
+  prefer?: FindTimePreference;
+  max?: number;
+  timeZone?: string;
+  now?: Date;
+}
+
+export interface SlotCalendar {
+  id: string;
+  timeZone: string;
+  busy: { start: number; end: number }[];
+}
+
+export interface SlotSearch {
+  start: number;
+  end: number;
+  duration: number;
+  buffer: number;
+  step: number;
+  /** Working hours in minutes past local midnight. */
+  workingHours: [number, number];
+  includeWeekends: boolean;
+  prefer: FindTimePreference;
+  max: number;
+}
+
+export interface Slot {
+  start: number;
+  end: number;
+  /** 1 when the slot sits in the middle of everyone's working day, 0 at an edge. */
+  score: number;
+}
+
+export const DEFAULT_FIND_TIME_MAX = 5;
+
+const DEFAULT_STEP = '15m';
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Parse --working-hours such as 09:00-17:00 or 8-16:30 into minutes past midnight. */
+export function parseWorkingHours(value: string): [number, number] {
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*-\s*(\d{1,2})(?::(\d{2}))?$/.exec(value.trim());
+  const start = match ? Number(match[1]) * 60 + Number(match[2] ?? 0) : NaN;
+  const end = match ? Number(match[3]) * 60 + Number(match[4] ?? 0) : NaN;
+  if (!(start >= 0 && end <= 24 * 60 && start < end)) {
+    throw new Error(`Invalid --working-hours "${value}"; use e.g. 09:00-17:00`);
+  }
+  return [start, end];
+}
+
+/**
+ * Free slots for every calendar, best first and without overlapping each
+ * other. "central" ranks by how close the slot is to the middle of the least
+ * comfortable attendee's working day, "soonest" by start time.
+ */
+export function rankSlots(calendars: SlotCalendar[], search: SlotSearch): Slot[] {
+  const [dayStart, dayEnd] = search.workingHours;
+  const minutes = search.duration / 60_000;
+  const candidates: Slot[] = [];
+  const first = Math.ceil(search.start / search.step) * search.step;
+  for (let start = first; start + search.duration <= search.end; start += search.step) {
+    const end = start + search.duration;
+    let score = 1;
+    for (const calendar of calendars) {
+      const local = localTime(new Date(start), calendar.timeZone);
+      const sameDay = localTime(new Date(end - 1), calendar.timeZone).date === local.date;
+      const weekend = local.weekday === 0 || local.weekday === 6;
+      if (!sameDay || (weekend && !search.includeWeekends) || local.minutes < dayStart || local.minutes + minutes > dayEnd) {
+        score = -1;
+        break;
+      }
+      if (calendar.busy.some(b => b.start - search.buffer < end && b.end + search.buffer > start)) {
+        score = -1;
+        break;
+      }
+      const middle = (dayStart + dayEnd) / 2;
+      score = Math.min(score, 1 - Math.abs(local.minutes + minutes / 2 - middle) / ((dayEnd - dayStart) / 2));
+    }
+    if (score >= 0) candidates.push({ start, end, score: Math.round(score * 100) / 100 });
+  }
+
+  if (search.prefer === 'central') candidates.sort((a, b) => b.score - a.score || a.start - b.start);
+  const picked: Slot[] = [];
+  for (const slot of candidates) {
+    if (picked.length >= search.max) break;
+    if (!picked.some(p => p.start < slot.end && p.end > slot.start)) picked.push(slot);
+  }
+  return picked;
+}
+
+/**
+ * Look up busy times and time zones through freebusy and rank the free
+ * slots. Option errors throw; proxy errors come back as the result.
+ */
+export async function findTime(call: CalendarCall, options: FindTimeOptions): Promise<CommandResult> {
+  const timeZone = resolveTimeZone(options.timeZone);
+  const now = options.now ?? new Date();
+  const duration = parseDuration(options.duration);
+  const buffer = options.buffer ? parseDuration(options.buffer) : 0;
+  const step = parseDuration(options.step ?? DEFAULT_STEP);
+  const workingHours = parseWorkingHours(options.workingHours);
+  const max = options.max ?? DEFAULT_FIND_TIME_MAX;
+  if (!Number.isInteger(max) || max < 1) throw new Error('--max must be a positive integer');
+  if (options.attendees.length === 0) throw new Error('Give at least one attendee');
+
+  const window = parseTimeRange(options.within, { timeZone, now });
+  if (!window.end && !window.dateOnly) throw new Error(`--within "${options.within}" needs a range or a day, e.g. "next week"`);
+  const windowEnd = window.end ?? new Date(window.start.getTime() + 86_400_000);
+  const start = Math.max(window.start.getTime(), now.getTime());
+  if (start + duration > windowEnd.getTime()) throw new Error(`--within "${options.within}" has no time left to search`);
+
+  const ids = ['primary', ...options.attendees.filter(id => id !== 'primary')];
+  const freebusy = await call('freebusy', {
+    timeMin: new Date(start).toISOString(),
+    timeMax: windowEnd.toISOString(),
+    calendars: ids,
+    timeZones: true,
+  });
+  if (!freebusy.ok) return freebusy;
+
+  const attendees = ids.map(id => {
+    const info = freebusy.data.calendars?.[id] ?? {};
+    const zone = id === 'primary' ? timeZone : info.timeZone;
+    return {
+      id,
+      timeZone: zone || timeZone,
+      zoneKnown: Boolean(zone),
+      busy: (info.busy ?? []).map((b: any) => ({ start: Date.parse(b.start), end: Date.parse(b.end) })),
+      error: info.errors?.length ? info.errors.map((e: any) => e.reason).join(', ') : undefined,
+    };
+  });
+
+  const slots = rankSlots(attendees, {
+    start,
+    end: windowEnd.getTime(),
+    duration,
+    buffer,
+    step,
+    workingHours,
+    includeWeekends: options.includeWeekends ?? false,
+    prefer: options.prefer ?? 'central',
+    max,
+  });
+
+  return {
+    ok: true,
+    data: {
+      timeZone,
+      duration: duration / 60_000,
+      workingHours: options.workingHours,
+      timeMin: formatDateTime(new Date(start), timeZone),
+      timeMax: formatDateTime(windowEnd, timeZone),
+      attendees: attendees.map(({ busy, ...a }) => ({ ...a, busyBlocks: busy.length })),
+      slots: slots.map((slot, i) => ({
+        rank: i + 1,
+        start: formatDateTime(new Date(slot.start), timeZone),
+        end: formatDateTime(new Date(slot.end), timeZone),
+        score: slot.score,
+        local: Object.fromEntries(attendees.map(a => [a.id, formatDateTime(new Date(slot.start), a.timeZone)])),
+      })),
+    },
+  };
+}
+
+/** A slot as "Mon 2026-03-09 10:00–10:30" in the zone. */
+export function slotLabel(slot: { start: string; end: string }, timeZone: string): string {
+  const start = localTime(new Date(slot.start), timeZone);
+  const end = localTime(new Date(slot.end), timeZone);
+  const clock = (m: number) => `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+  return `${WEEKDAYS[start.weekday]} ${start.date} ${clock(start.minutes)}–${clock(end.minutes)}`;
+}
@@ -0,0 +1,360 @@
+/**
+ * HTML → terminal text for mail bodies (`gmail read`, `gmail get`). Links
+ * become numbered footnotes, lists get bullets or numbers, data tables are
+ * laid out in columns (layout tables are flattened), and quoted replies can
+ * be collapsed to a one-line marker. Scripts, styles and hidden elements
+ * (preheaders) are dropped.
+ */
+
+export interface HtmlTextOptions {
+  /** Replace quoted replies with a "[quoted text hidden]" line. */
+  collapseQuotes?: boolean;
+}
+
+type HtmlNode =
+  | { type: 'text'; text: string }
+  | { type: 'element'; tag: string; attrs: Record<string, string>; children: HtmlNode[] };
+type HtmlElement = Extract<HtmlNode, { type: 'element' }>;
+
+interface Block {
+  text: string;
+  /** Separated from neighbours by a blank line (paragraphs, lists, tables) rather than a line break. */
+  margin: boolean;
+}
+
+interface RenderContext {
+  options: HtmlTextOptions;
+  links: string[];
+  listDepth: number;
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'title', 'textarea']);
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'title', 'template', 'svg', 'object', 'iframe']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'center', 'dd', 'details', 'div', 'dl', 'dt', 'figcaption', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul', 'body', 'html',
+]);
+/** Opening one of these closes an open element of the same group first. */
+const AUTO_CLOSE: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  option: ['option'],
+};
+/** Auto-closing stops at these, so a nested list does not close its parent's item. */
+const SCOPE_TAGS = new Set(['ul', 'ol', 'dl', 'table', 'tbody', 'thead', 'tfoot', 'blockquote', 'div']);
+const RULE = '─'.repeat(40);
+/** Line break inside inline text; survives whitespace collapsing. */
+const BREAK = '\u0000';
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', hellip: '…', mdash: '—', ndash: '–',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»', bull: '•', middot: '·', copy: '©',
+  reg: '®', trade: '™', euro: '€', pound: '£', yen: '¥', cent: '¢', deg: '°', times: '×', shy: '', zwnj: '', zwj: '',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (match, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[name.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of source.matchAll(/([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attrs[m[1].toLowerCase()] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? '');
+  }
+  return attrs;
+}
+
+/** A forgiving HTML parser: unknown end tags are ignored and unclosed elements end with their parent. */
+export function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { type: 'element', tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const tagRe = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  const addText = (text: string) => {
+    if (text) current().children.push({ type: 'text', text: decodeEntities(text) });
+  };
+
+  while ((match = tagRe.exec(html))) {
+    addText(html.slice(last, match.index));
+    last = tagRe.lastIndex;
+    if (!match[2]) continue; // comment, doctype, processing instruction
+    const tag = match[2].toLowerCase();
+
+    if (match[1]) {
+      const index = stack.map(e => e.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const closes = AUTO_CLOSE[tag] ?? (BLOCK_TAGS.has(tag) ? ['p'] : []);
+    let close = 0;
+    for (let i = stack.length - 1; i > 0 && !SCOPE_TAGS.has(stack[i].tag); i--) {
+      if (closes.includes(stack[i].tag)) close = i;
+    }
+    if (close > 0) stack.length = close;
+
+    const element: HtmlElement = { type: 'element', tag, attrs: parseAttributes(match[3]), children: [] };
+    current().children.push(element);
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const end = html.toLowerCase().indexOf(`</${tag}`, last);
+      const stop = end === -1 ? html.length : end;
+      element.children.push({ type: 'text', text: decodeEntities(html.slice(last, stop)) });
+      const close = html.indexOf('>', stop);
+      last = tagRe.lastIndex = close === -1 ? html.length : close + 1;
+    } else if (!VOID_TAGS.has(tag) && !/\/\s*$/.test(match[3])) {
+      stack.push(element);
+    }
+  }
+  addText(html.slice(last));
+  return root.children;
+}
+
+function isHidden(node: HtmlElement): boolean {
+  return /display\s*:\s*none/i.test(node.attrs.style ?? '') || 'hidden' in node.attrs;
+}
+
+function isQuote(node: HtmlElement): boolean {
+  return node.tag === 'blockquote' || (node.tag === 'div' && /\byahoo_quoted\b/.test(node.attrs.class ?? ''));
+}
+
+function textContent(nodes: HtmlNode[]): string {
+  return nodes.map(n => (n.type === 'text' ? n.text : textContent(n.children))).join('');
+}
+
+/** Collapse HTML whitespace; BREAK marks hard line breaks. Non-breaking spaces are kept. */
+function finishInline(text: string): string {
+  return text
+    .replace(/[ \t\r\n\f]+/g, ' ')
+    .split(BREAK)
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/^\n+|\n+$/g, '');
+}
+
+function joinBlocks(blocks: Block[]): string {
+  let out = '';
+  blocks.forEach((block, i) => {
+    if (i > 0) out += block.margin || blocks[i - 1].margin ? '\n\n' : '\n';
+    out += block.text;
+  });
+  return out;
+}
+
+function indent(text: string, first: string, rest: string): string {
+  return text.split('\n').map((line, i) => (line ? (i === 0 ? first : rest) + line : line.trimEnd())).join('\n');
+}
+
+function renderInline(node: HtmlNode, ctx: RenderContext): string {
+  if (node.type === 'text') return node.text;
+  if (SKIPPED_TAGS.has(node.tag) || isHidden(node)) return '';
+  if (node.tag === 'br') return BREAK;
+  if (node.tag === 'img') {
+    const alt = (node.attrs.alt ?? '').trim();
+    return alt ? `[${alt}]` : '';
+  }
+  const inner = node.children.map(child => renderInline(child, ctx)).join('');
+  if (node.tag === 'a') {
+    const href = (node.attrs.href ?? '').trim();
+    const label = inner.replace(/[ \t\r\n\f]+/g, ' ').trim();
+    if (!href || href.startsWith('#') || /^javascript:/i.test(href)) return inner;
+    const target = href.replace(/^mailto:/i, '');
+    if (!label || label === target || label === href) return target;
+    let index = ctx.links.indexOf(href);
+    if (index === -1) index = ctx.links.push(href) - 1;
+    return `${inner} [${index + 1}]`;
+  }
+  if (node.tag === 'code' || node.tag === 'kbd') return `\`${inner}\``;
+  return inner;
+}
+
+function renderNodes(nodes: HtmlNode[], ctx: RenderContext): Block[] {
+  const blocks: Block[] = [];
+  let inline = '';
+  const flush = () => {
+    const text = finishInline(inline);
+    if (text) blocks.push({ text, margin: false });
+    inline = '';
+  };
+  for (const node of nodes) {
+    if (node.type === 'element' && (SKIPPED_TAGS.has(node.tag) || isHidden(node))) continue;
+    if (node.type === 'element' && BLOCK_TAGS.has(node.tag)) {
+      flush();
+      blocks.push(...renderBlock(node, ctx));
+    } else {
+      inline += renderInline(node, ctx);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+function renderBlock(node: HtmlElement, ctx: RenderContext): Block[] {
+  const inner = () => joinBlocks(renderNodes(node.children, ctx));
+  const block = (text: string): Block[] => (text ? [{ text, margin: true }] : []);
+
+  if (isQuote(node)) {
+    const text = inner();
+    if (!text) return [];
+    if (ctx.options.collapseQuotes) {
+      const lines = text.split('\n').length;
+      return block(`[quoted text hidden: ${lines} line${lines === 1 ? '' : 's'}]`);
+    }
+    return block(text.split('\n').map(line => (line === '' || line.startsWith('>') ? `>${line}` : `> ${line}`)).join('\n'));
+  }
+
+  switch (node.tag) {
+    case 'p':
+      return block(inner());
+    case 'h1':
+    case 'h2': {
+      const text = inner().replace(/\n/g, ' ');
+      return block(text && `${text}\n${(node.tag === 'h1' ? '=' : '-').repeat(Math.min(text.length, 60))}`);
+    }
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return block(inner().toUpperCase());
+    case 'hr':
+      return block(RULE);
+    case 'pre':
+      return block(textContent(node.children).replace(/^\n/, '').replace(/\s+$/, ''));
+    case 'ul':
+    case 'ol':
+      return renderList(node, ctx);
+    case 'table':
+      return renderTable(node, ctx);
+    case 'dd': {
+      const text = inner();
+      return text ? [{ text: indent(text, '    ', '    '), margin: false }] : [];
+    }
+    case 'li': {
+      // A list item outside a list
+      const text = inner();
+      return text ? [{ text: indent(text, '• ', '  '), margin: false }] : [];
+    }
+    default: {
+      const blocks = renderNodes(node.children, ctx);
+      // Gmail writes an empty line as <div><br></div>
+      const blankLine = blocks.length === 0 && node.children.some(c => c.type === 'element' && c.tag === 'br');
+      return blankLine ? [{ text: '', margin: false }] : blocks;
+    }
+  }
+}
+
+function renderList(node: HtmlElement, ctx: RenderContext): Block[] {
+  const ordered = node.tag === 'ol';
+  let number = ordered ? Number(node.attrs.start) || 1 : 0;
+  const bullet = ['•', '◦', '▪'][ctx.listDepth % 3];
+  const nested: RenderContext = { ...ctx, listDepth: ctx.listDepth + 1 };
+  const items: string[] = [];
+  for (const child of node.children) {
+    if (child.type === 'text') {
+      if (child.text.trim()) items.push(indent(finishInline(child.text), `${bullet} `, '  '));
+      continue;
+    }
+    if (child.tag !== 'li') {
+      const text = joinBlocks(renderBlock(child, nested));
+      if (text) items.push(text);
+      continue;
+    }
+    const marker = ordered ? `${number++}. ` : `${bullet} `;
+    const text = joinBlocks(renderNodes(child.children, nested).map(b => ({ ...b, margin: false })));
+    if (text) items.push(indent(text, marker, ' '.repeat(marker.length)));
+  }
+  const text = items.join('\n');
+  return text ? [{ text, margin: ctx.listDepth === 0 }] : [];
+}
+
+function tableRows(node: HtmlElement): HtmlElement[] {
+  const rows: HtmlElement[] = [];
+  for (const child of node.children) {
+    if (child.type !== 'element') continue;
+    if (child.tag === 'tr') rows.push(child);
+    else if (child.tag === 'thead' || child.tag === 'tbody' || child.tag === 'tfoot') rows.push(...tableRows(child));
+  }
+  return rows;
+}
+
+function hasTable(nodes: HtmlNode[]): boolean {
+  return nodes.some(n => n.type === 'element' && (n.tag === 'table' || hasTable(n.children)));
+}
+
+/**
+ * Lay out a data table in padded columns with a rule under a header row.
+ * Tables with one column or nested tables are page layout and are
+ * rendered as the blocks they contain.
+ */
+function renderTable(node: HtmlElement, ctx: RenderContext): Block[] {
+  const rows = tableRows(node).map(row => row.children.filter((c): c is HtmlElement =>
+    c.type === 'element' && (c.tag === 'td' || c.tag === 'th') && !isHidden(c)));
+  const columns = Math.max(0, ...rows.map(cells => cells.length));
+  if (columns <= 1 || rows.some(cells => cells.some(cell => hasTable(cell.children)))) {
+    return rows.flatMap(cells => cells.flatMap(cell => renderNodes(cell.children, ctx)));
+  }
+
+  const grid = rows
+    .map(cells => cells.map(cell => joinBlocks(renderNodes(cell.children, ctx)).replace(/\s*\n\s*/g, ' ')))
+    .filter(cells => cells.some(Boolean));
+  if (grid.length === 0) return [];
+  const widths = Array.from({ length: columns }, (_, i) => Math.max(...grid.map(cells => (cells[i] ?? '').length)));
+  const line = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+  const lines = grid.map(line);
+  const header = rows[0].length > 0 && rows[0].every(cell => cell.tag === 'th');
+  if (header) lines.splice(1, 0, widths.map(w => '─'.repeat(w)).join('  '));
+  return [{ text: lines.join('\n'), margin: true }];
+}
+
+/** Render an HTML mail body as plain text, with link footnotes at the end. */
+export function htmlToText(html: string, options: HtmlTextOptions = {}): string {
+  const ctx: RenderContext = { options, links: [], listDepth: 0 };
+  let text = joinBlocks(renderNodes(parseHtml(html), ctx))
+    .replace(/\u00a0/g, ' ')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  if (ctx.links.length > 0) {
+    text += '\n\n' + ctx.links.map((href, i) => `[${i + 1}] ${href}`).join('\n');
+  }
+  return text;
+}
+
+/**
+ * Hide the quoted original at the end of a plain-text reply: the trailing
+ * run of "> " lines and the "On ..., X wrote:" line above it.
+ */
+export function collapseQuotedText(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\s+$/, '').split('\n');
+  let start = lines.length;
+  while (start > 0 && (lines[start - 1].startsWith('>') || (lines[start - 1] === '' && start < lines.length))) start--;
+  while (start < lines.length && lines[start] === '') start++;
+  const quoted = lines.length - start;
+  if (quoted === 0) return text;
+  let end = start;
+  if (end > 0 && /wrote:\s*$/.test(lines[end - 1])) end--;
+  const kept = lines.slice(0, end).join('\n').replace(/\s+$/, '');
+  const marker = `[quoted text hidden: ${quoted} line${quoted === 1 ? '' : 's'}]`;
+  return kept ? `${kept}\n\n${marker}` : marker;
+}
+
+/** The readable text of a `gmail get` message: rendered HTML, else the plain body. */
+export function messageBodyText(message: { body?: string; bodyHtml?: string }, options: HtmlTextOptions = {}): string {
+  if (message.bodyHtml && /<[a-z!][^>]*>/i.test(message.bodyHtml)) return htmlToText(message.bodyHtml, options);
+  const body = message.body ?? '';
+  return options.collapseQuotes ? collapseQuotedText(body) : body;
+}
@@ -0,0 +1,546 @@
+import type { CalendarCall } from './agenda.js';
+import { formatDateTime, parseDateTime, resolveTimeZone, shiftDate } from './dates.js';
+import type { CommandResult } from './types.js';
+
+/**
+ * iCalendar (RFC 5545) interchange for `calendar export` and `calendar
+ * import`. Events keep their UID: exports write Google's iCalUID, and
+ * imports look events up by UID so that importing a file twice updates
+ * instead of duplicating. Writes go through events.create/events.update.
+ */
+
+export interface IcsAttendee {
+  email: string;
+  name?: string;
+  /** accepted, declined, tentative or needsAction. */
+  responseStatus?: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  /** RFC 3339 instant, or YYYY-MM-DD for all-day events. */
+  start: string;
+  /** Exclusive end, same form as start. */
+  end: string;
+  allDay: boolean;
+  /** IANA zone the times are written in; UTC when absent. */
+  timeZone?: string;
+  /** RRULE, EXDATE and RDATE lines. */
+  recurrence: string[];
+  attendees: IcsAttendee[];
+  organizer?: string;
+  /** confirmed, tentative or cancelled. */
+  status?: string;
+  transparency?: 'opaque' | 'transparent';
+  /** Set on a changed occurrence of a series: the occurrence's original start. */
+  recurrenceId?: string;
+  created?: string;
+  updated?: string;
+}
+
+export interface IcsDocument {
+  name?: string;
+  events: IcsEvent[];
+}
+
+const PRODID = '-//gproxy//Calendar export//EN';
+const EVENTS_PAGE_SIZE = 250;
+const DAY_MS = 86_400_000;
+
+const PARTSTAT: Record<string, string> = {
+  accepted: 'ACCEPTED',
+  declined: 'DECLINED',
+  tentative: 'TENTATIVE',
+  needsAction: 'NEEDS-ACTION',
+};
+
+// --- Parsing ---
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  name: string;
+  properties: Property[];
+  components: Component[];
+}
+
+/**
+ * Parse an iCalendar file. Times with a TZID are read in that zone (an
+ * IANA name, or the X-LIC-LOCATION of its VTIMEZONE); floating times in
+ * timeZone.
+ */
+export function parseIcs(text: string, options: { timeZone?: string } = {}): IcsDocument {
+  const timeZone = resolveTimeZone(options.timeZone);
+  const root = parseComponents(text);
+  const calendar = root.components.find(c => c.name === 'VCALENDAR');
+  if (!calendar) throw new Error('Not an iCalendar file: no BEGIN:VCALENDAR');
+
+  const zones: Record<string, string> = {};
+  for (const vtimezone of calendar.components.filter(c => c.name === 'VTIMEZONE')) {
+    const id = prop(vtimezone, 'TZID')?.value;
+    const location = prop(vtimezone, 'X-LIC-LOCATION')?.value;
+    if (id && location) zones[id] = location;
+  }
+
+  const events = calendar.components
+    .filter(c => c.name === 'VEVENT')
+    .map((vevent, i) => toEvent(vevent, i, zones, timeZone));
+  return { name: prop(calendar, 'X-WR-CALNAME')?.value, events };
+}
+
+function toEvent(vevent: Component, index: number, zones: Record<string, string>, timeZone: string): IcsEvent {
+  const label = prop(vevent, 'UID')?.value || prop(vevent, 'SUMMARY')?.value || `VEVENT #${index + 1}`;
+  const dtstart = prop(vevent, 'DTSTART');
+  if (!dtstart) throw new Error(`${label}: VEVENT has no DTSTART`);
+  const allDay = dtstart.params.VALUE === 'DATE' || /^\d{8}$/.test(dtstart.value);
+  const zone = (p: Property) => {
+    const tzid = p.params.TZID;
+    if (!tzid) return undefined;
+    const name = zones[tzid] ?? tzid.replace(/^\//, '');
+    try {
+      return resolveTimeZone(name);
+    } catch {
+      throw new Error(`${label}: unknown time zone "${tzid}"`);
+    }
+  };
+
+  const startZone = zone(dtstart);
+  const start = readTime(dtstart.value, allDay, startZone ?? timeZone, label);
+  const dtend = prop(vevent, 'DTEND');
+  const duration = prop(vevent, 'DURATION');
+  let end: string;
+  if (dtend) {
+    end = readTime(dtend.value, allDay, zone(dtend) ?? startZone ?? timeZone, label);
+  } else if (duration) {
+    const ms = parseIcsDuration(duration.value, label);
+    end = allDay ? shiftDate(start, Math.max(1, Math.round(ms / DAY_MS))) : formatDateTime(new Date(Date.parse(start) + ms), startZone ?? timeZone);
+  } else {
+    end = allDay ? shiftDate(start, 1) : start;
+  }
+
+  const recurrenceId = prop(vevent, 'RECURRENCE-ID');
+  const status = prop(vevent, 'STATUS')?.value.toLowerCase();
+  const transp = prop(vevent, 'TRANSP')?.value.toUpperCase();
+  return {
+    uid: prop(vevent, 'UID')?.value ?? '',
+    summary: prop(vevent, 'SUMMARY')?.value ?? '',
+    description: prop(vevent, 'DESCRIPTION')?.value,
+    location: prop(vevent, 'LOCATION')?.value,
+    start,
+    end,
+    allDay,
+    timeZone: startZone ?? (/Z$/i.test(dtstart.value) || allDay ? undefined : timeZone),
+    recurrence: vevent.properties.filter(p => ['RRULE', 'EXDATE', 'RDATE'].includes(p.name)).map(writeProperty),
+    attendees: vevent.properties.filter(p => p.name === 'ATTENDEE').map(p => ({
+      email: p.value.replace(/^mailto:/i, ''),
+      name: p.params.CN,
+      responseStatus: Object.keys(PARTSTAT).find(k => PARTSTAT[k] === p.params.PARTSTAT?.toUpperCase()),
+    })),
+    organizer: prop(vevent, 'ORGANIZER')?.value.replace(/^mailto:/i, ''),
+    status: status === 'confirmed' || status === 'tentative' || status === 'cancelled' ? status : undefined,
+    transparency: transp === 'TRANSPARENT' ? 'transparent' : transp === 'OPAQUE' ? 'opaque' : undefined,
+    recurrenceId: recurrenceId
+      ? readTime(recurrenceId.value, /^\d{8}$/.test(recurrenceId.value), zone(recurrenceId) ?? startZone ?? timeZone, label)
+      : undefined,
+  };
+}
+
+/** DATE (YYYYMMDD) or DATE-TIME (YYYYMMDDTHHMMSS[Z]) as YYYY-MM-DD or RFC 3339. */
+function readTime(value: string, allDay: boolean, timeZone: string, label: string): string {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i.exec(value.trim());
+  if (!match) throw new Error(`${label}: invalid date "${value}"`);
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (allDay || hour === undefined) return date;
+  if (utc) return `${date}T${hour}:${minute}:${second}Z`;
+  const instant = parseDateTime(`${date}T${hour}:${minute}`, { timeZone }).getTime() + Number(second) * 1000;
+  return formatDateTime(new Date(instant), timeZone);
+}
+
+/** RFC 5545 DURATION, e.g. PT1H30M or P1D, in milliseconds. */
+function parseIcsDuration(value: string, label: string): number {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match || value.trim() === 'P' || value.trim().endsWith('T')) throw new Error(`${label}: invalid DURATION "${value}"`);
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 24 * 3600 + Number(hours ?? 0) * 3600
+    + Number(minutes ?? 0) * 60 + Number(seconds ?? 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function parseComponents(text: string): Component {
+  const root: Component = { name: '', properties: [], components: [] };
+  const stack = [root];
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseProperty(line);
+    const current = stack[stack.length - 1];
+    if (property.name === 'BEGIN') {
+      const component: Component = { name: property.value.toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length === 1 || current.name !== property.value.toUpperCase()) {
+        throw new Error(`Malformed iCalendar file: unexpected END:${property.value}`);
+      }
+      stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+  if (stack.length > 1) throw new Error(`Malformed iCalendar file: ${stack[stack.length - 1].name} is not closed`);
+  return root;
+}
+
+/** NAME;PARAM=value;PARAM="quoted:value":VALUE, with text escapes undone. */
+function parseProperty(line: string): Property {
+  let quoted = false;
+  let colon = -1;
+  const cuts: number[] = [];
+  for (let i = 0; i < line.length && colon === -1; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (!quoted && line[i] === ';') cuts.push(i);
+    else if (!quoted && line[i] === ':') colon = i;
+  }
+  if (colon === -1) throw new Error(`Malformed iCalendar line: ${line.slice(0, 60)}`);
+  const head = [0, ...cuts].map((start, i) => line.slice(start === 0 ? 0 : start + 1, cuts[i] ?? colon));
+  const params: Record<string, string> = {};
+  for (const param of head.slice(1)) {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"(.*)"$/, '$1');
+  }
+  const name = head[0].toUpperCase();
+  const raw = line.slice(colon + 1);
+  const text = ['SUMMARY', 'DESCRIPTION', 'LOCATION', 'X-WR-CALNAME'].includes(name);
+  return { name, params, value: text ? unescapeText(raw) : raw };
+}
+
+/** A property as a content line again, e.g. EXDATE;TZID=Europe/Berlin:20260311T100000. */
+function writeProperty(property: Property): string {
+  const params = Object.entries(property.params).map(([key, value]) => `;${key}=${quoteParam(value)}`).join('');
+  return `${property.name}${params}:${property.value}`;
+}
+
+function prop(component: Component, name: string): Property | undefined {
+  return component.properties.find(p => p.name === name);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+// --- Writing ---
+
+/**
+ * Write a VCALENDAR with one VEVENT per event and a VTIMEZONE for every
+ * zone the events use, covering the offset changes around their dates.
+ */
+export function serializeIcs(document: IcsDocument, options: { now?: Date } = {}): string {
+  const now = options.now ?? new Date();
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  if (document.name) lines.push(`X-WR-CALNAME:${escapeText(document.name)}`);
+
+  const zones = new Map<string, [number, number]>();
+  for (const event of document.events) {
+    if (!event.timeZone || event.allDay || event.timeZone === 'UTC') continue;
+    const first = Date.parse(event.recurrenceId ?? event.start);
+    const last = event.recurrence.some(l => /^RRULE:/i.test(l)) ? first + 2 * 365 * DAY_MS : Date.parse(event.end);
+    const [from, to] = zones.get(event.timeZone) ?? [first, last];
+    zones.set(event.timeZone, [Math.min(from, first), Math.max(to, last)]);
+  }
+  for (const [zone, [from, to]] of zones) lines.push(...vtimezone(zone, from, to));
+
+  for (const event of document.events) {
+    const time = (name: string, value: string) => writeTime(name, value, event.allDay, event.timeZone);
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${utcStamp(now.getTime())}`);
+    if (event.recurrenceId) lines.push(time('RECURRENCE-ID', event.recurrenceId));
+    lines.push(time('DTSTART', event.start), time('DTEND', event.end));
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    lines.push(...event.recurrence);
+    if (event.organizer) lines.push(`ORGANIZER:mailto:${event.organizer}`);
+    for (const attendee of event.attendees) {
+      const params = [attendee.name ? `CN=${quoteParam(attendee.name)}` : '', `PARTSTAT=${PARTSTAT[attendee.responseStatus ?? ''] ?? 'NEEDS-ACTION'}`];
+      lines.push(`ATTENDEE;${params.filter(Boolean).join(';')}:mailto:${attendee.email}`);
+    }
+    if (event.status) lines.push(`STATUS:${event.status.toUpperCase()}`);
+    if (event.transparency) lines.push(`TRANSP:${event.transparency.toUpperCase()}`);
+    if (event.created) lines.push(`CREATED:${utcStamp(Date.parse(event.created))}`);
+    if (event.updated) lines.push(`LAST-MODIFIED:${utcStamp(Date.parse(event.updated))}`);
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function writeTime(name: string, value: string, allDay: boolean, timeZone?: string): string {
+  if (allDay) return `${name};VALUE=DATE:${value.slice(0, 10).replace(/-/g, '')}`;
+  const instant = Date.parse(value);
+  if (!timeZone || timeZone === 'UTC') return `${name}:${utcStamp(instant)}`;
+  return `${name};TZID=${timeZone}:${localStamp(instant, timeZone)}`;
+}
+
+/**
+ * A VTIMEZONE listing the zone's offset changes from a year before from
+ * until to, found by scanning day by day and narrowing to the minute.
+ */
+function vtimezone(zone: string, from: number, to: number): string[] {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${zone}`, `X-LIC-LOCATION:${zone}`];
+  const start = from - 365 * DAY_MS;
+  const observances: { at: number; before: number; after: number }[] = [];
+  let previous = offsetMinutes(start, zone);
+  for (let t = start + DAY_MS; t <= to + DAY_MS; t += DAY_MS) {
+    const offset = offsetMinutes(t, zone);
+    if (offset === previous) continue;
+    let low = t - DAY_MS;
+    let high = t;
+    while (high - low > 60_000) {
+      const mid = Math.floor((low + high) / 2 / 60_000) * 60_000;
+      if (offsetMinutes(mid, zone) === previous) low = mid;
+      else high = mid;
+    }
+    observances.push({ at: high, before: previous, after: offset });
+    previous = offset;
+  }
+  if (observances.length === 0) observances.push({ at: Date.UTC(1970, 0, 1), before: previous, after: previous });
+
+  const standard = Math.min(...observances.map(o => o.after));
+  for (const { at, before, after } of observances) {
+    const kind = after > standard ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${localStamp(at, zone, before)}`,
+      `TZOFFSETFROM:${offsetText(before)}`,
+      `TZOFFSETTO:${offsetText(after)}`,
+      `END:${kind}`,
+    );
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/** Minutes east of UTC for the zone at an instant. */
+function offsetMinutes(ms: number, zone: string): number {
+  const match = /([+-])(\d{2}):(\d{2})$/.exec(formatDateTime(new Date(ms), zone));
+  return match ? (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3])) : 0;
+}
+
+function offsetText(minutes: number): string {
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
+
+/** Wall-clock YYYYMMDDTHHMMSS in the zone, or at a fixed offset when given. */
+function localStamp(ms: number, zone: string, offset?: number): string {
+  const wall = offset === undefined ? formatDateTime(new Date(ms), zone).slice(0, 19) : new Date(ms + offset * 60_000).toISOString().slice(0, 19);
+  return wall.replace(/[-:]/g, '');
+}
+
+function utcStamp(ms: number): string {
+  return new Date(ms).toISOString().replace(/\.\d{3}/, '').replace(/[-:]/g, '');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function quoteParam(value: string): string {
+  const clean = value.replace(/"/g, "'");
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+/** Lines longer than 75 octets continue on the next line after a space. */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf-8');
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let chunk = '';
+  let size = 0;
+  for (const char of line) {
+    const length = Buffer.byteLength(char, 'utf-8');
+    if (size + length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(chunk);
+      chunk = '';
+      size = 0;
+    }
+    chunk += char;
+    size += length;
+  }
+  parts.push(chunk);
+  return parts.join('\r\n ');
+}
+
+// --- Calendar ---
+
+/** An event from events.list as an IcsEvent. */
+export function fromCalendarEvent(event: any): IcsEvent {
+  return {
+    uid: event.iCalUID || `${event.eventId}@google.com`,
+    summary: event.summary ?? '',
+    description: event.description || undefined,
+    location: event.location || undefined,
+    start: event.start,
+    end: event.end,
+    allDay: Boolean(event.allDay),
+    timeZone: event.timeZone || undefined,
+    recurrence: event.recurrence ?? [],
+    attendees: (event.attendees ?? []).map((a: any) => ({ email: a.email, name: a.displayName || undefined, responseStatus: a.responseStatus })),
+    organizer: event.organizer || undefined,
+    status: event.status || undefined,
+    transparency: event.transparency || undefined,
+    recurrenceId: event.recurringEventId ? event.originalStartTime ?? undefined : undefined,
+    created: event.created || undefined,
+    updated: event.updated || undefined,
+  };
+}
+
+/**
+ * Read a calendar's events for export: each series once with its rules,
+ * changed occurrences as their own VEVENTs, and cancelled occurrences as
+ * EXDATEs of their series.
+ */
+export async function fetchIcsEvents(
+  call: CalendarCall,
+  options: { calendarId: string; timeMin?: string; timeMax?: string },
+): Promise<CommandResult> {
+  const items: any[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await call('events.list', {
+      calendarId: options.calendarId,
+      timeMin: options.timeMin,
+      timeMax: options.timeMax,
+      singleEvents: false,
+      max: EVENTS_PAGE_SIZE,
+      pageToken,
+    });
+    if (!page.ok) return page;
+    items.push(...(page.data.events ?? []));
+    pageToken = page.data.nextPageToken || undefined;
+  } while (pageToken);
+
+  const events = items.filter(e => e.status !== 'cancelled').map(fromCalendarEvent);
+  for (const cancelled of items.filter(e => e.status === 'cancelled' && e.recurringEventId && e.originalStartTime)) {
+    const series = events.find(e => e.uid === (cancelled.iCalUID || `${cancelled.recurringEventId}@google.com`) && !e.recurrenceId);
+    if (series) series.recurrence = [...series.recurrence, exdateLine(cancelled.originalStartTime, series)];
+  }
+  return { ok: true, data: { events } };
+}
+
+function exdateLine(originalStart: string, series: IcsEvent): string {
+  return writeTime('EXDATE', originalStart, series.allDay, series.timeZone);
+}
+
+export interface IcsImportOptions {
+  events: IcsEvent[];
+  calendarId: string;
+  call: CalendarCall;
+  /** Report the plan without writing anything. */
+  dryRun?: boolean;
+}
+
+interface ImportEntry {
+  uid: string;
+  summary: string;
+  start: string;
+  eventId?: string;
+  changes?: string[];
+  reason?: string;
+}
+
+/**
+ * Create the events whose UID the calendar does not have and update the
+ * ones that differ. Changed single occurrences and cancelled events are
+ * skipped. Stops at the first failed write.
+ */
+export async function importIcs(options: IcsImportOptions): Promise<CommandResult> {
+  const { call, calendarId } = options;
+  const created: ImportEntry[] = [];
+  const updated: ImportEntry[] = [];
+  const unchanged: ImportEntry[] = [];
+  const skipped: ImportEntry[] = [];
+  const fail = (result: CommandResult): CommandResult => {
+    const done = created.length + updated.length;
+    const note = done > 0 ? ` (${done} event(s) written before this)` : '';
+    return { ...result, error: { ...result.error!, message: `${result.error!.message}${note}` } };
+  };
+
+  for (const event of options.events) {
+    const entry: ImportEntry = { uid: event.uid, summary: event.summary, start: event.start };
+    if (!event.uid) {
+      skipped.push({ ...entry, reason: 'no UID' });
+      continue;
+    }
+    if (event.recurrenceId) {
+      skipped.push({ ...entry, reason: 'changed occurrence of a series' });
+      continue;
+    }
+    if (event.status === 'cancelled') {
+      skipped.push({ ...entry, reason: 'cancelled' });
+      continue;
+    }
+
+    const found = await call('events.list', { calendarId, iCalUID: event.uid, singleEvents: false, max: 1 });
+    if (!found.ok) return fail(found);
+    const existing = (found.data.events ?? []).find((e: any) => e.status !== 'cancelled' && !e.recurringEventId);
+    const params = {
+      calendarId,
+      summary: event.summary || '(No title)',
+      description: event.description ?? '',
+      location: event.location ?? '',
+      start: event.start,
+      end: event.end,
+      allDay: event.allDay,
+      timeZone: event.timeZone,
+      attendees: event.attendees.map(a => a.email),
+      recurrence: event.recurrence,
+    };
+
+    if (!existing) {
+      if (!options.dryRun) {
+        const result = await call('events.create', { ...params, iCalUID: event.uid });
+        if (!result.ok) return fail(result);
+        entry.eventId = result.data?.eventId;
+      }
+      created.push(entry);
+      continue;
+    }
+
+    entry.eventId = existing.eventId;
+    const changes = eventChanges(existing, event);
+    if (changes.length === 0) {
+      unchanged.push(entry);
+      continue;
+    }
+    if (!options.dryRun) {
+      const result = await call('events.update', { ...params, eventId: existing.eventId, scope: 'all' });
+      if (!result.ok) return fail(result);
+    }
+    updated.push({ ...entry, changes });
+  }
+
+  return { ok: true, data: { dryRun: options.dryRun === true, calendarId, created, updated, unchanged, skipped } };
+}
+
+/** Names of the fields where the calendar's event differs from the file. */
+function eventChanges(existing: any, event: IcsEvent): string[] {
+  const sameTime = (a: string | undefined, b: string) => (event.allDay ? a === b : Date.parse(a ?? '') === Date.parse(b));
+  const sorted = (values: string[]) => [...values].map(v => v.toLowerCase()).sort().join('\n');
+  const changes: string[] = [];
+  if ((existing.summary ?? '') !== (event.summary || '(No title)')) changes.push('summary');
+  if ((existing.description ?? '') !== (event.description ?? '')) changes.push('description');
+  if ((existing.location ?? '') !== (event.location ?? '')) changes.push('location');
+  if (Boolean(existing.allDay) !== event.allDay || !sameTime(existing.start, event.start)) changes.push('start');
+  if (Boolean(existing.allDay) !== event.allDay || !sameTime(existing.end, event.end)) changes.push('end');
+  if (sorted((existing.attendees ?? []).map((a: any) => a.email)) !== sorted(event.attendees.map(a => a.email))) changes.push('attendees');
+  if (sorted(existing.recurrence ?? []) !== sorted(event.recurrence)) changes.push('recurrence');
+  return changes;
+}
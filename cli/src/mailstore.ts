@@ -0,0 +1,567 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { CommandResult } from './types.js';
+
+/**
+ * Local Gmail mirror for `gmail sync` and `gmail local search`. Threads come
+ * from the gmail sync.changes proxy action and land in a Maildir tree or in
+ * one mbox file per folder, one folder per label. SYNC_STATE_FILE in the
+ * store holds the checkpoint (history ID and sync date) and an index of every
+ * message, so later runs only apply changes and searches run offline.
+ */
+
+export type MailStoreFormat = 'maildir' | 'mbox';
+export const MAIL_STORE_FORMATS: MailStoreFormat[] = ['maildir', 'mbox'];
+
+export const SYNC_STATE_FILE = '.gproxy-sync.json';
+/** Folder for messages without a folder label (archived mail). */
+export const ARCHIVE_FOLDER = 'Archive';
+
+const SYSTEM_FOLDERS: Record<string, string> = {
+  INBOX: 'INBOX',
+  SENT: 'Sent',
+  DRAFT: 'Drafts',
+};
+
+/** Date-based runs re-read this much before the last sync, to allow for clock skew. */
+const DATE_OVERLAP_MS = 24 * 60 * 60 * 1000;
+
+/** Runs one gmail action through the proxy. */
+export type GmailCall = (action: string, params: Record<string, any>) => Promise<CommandResult>;
+
+export interface SyncMessage {
+  messageId: string;
+  date: string;
+  from: string;
+  to: string;
+  subject: string;
+  labels: string[];
+  isUnread: boolean;
+  isStarred: boolean;
+  /** RFC 822 source */
+  raw: string;
+}
+
+export interface SyncThread {
+  threadId: string;
+  messages: SyncMessage[];
+}
+
+export interface IndexedMessage extends Omit<SyncMessage, 'raw'> {
+  threadId: string;
+  /** Paths relative to the store: Maildir files, or the mbox files holding the message. */
+  files: string[];
+}
+
+export interface SyncState {
+  version: 1;
+  format: MailStoreFormat;
+  /** Gmail query the mirror is limited to; scoped mirrors sync by date. */
+  query?: string;
+  /** Label → folder overrides; an empty folder skips the label. */
+  folders: Record<string, string>;
+  historyId?: string;
+  syncedAt?: string;
+  /** Where an interrupted run carries on. */
+  resume?: {
+    mode: SyncMode;
+    pageToken: string;
+    startedAt: string;
+    historyId?: string;
+    /** Messages seen so far by a full run, to drop the rest at the end. */
+    seen?: string[];
+  };
+  messages: Record<string, IndexedMessage>;
+}
+
+export type SyncMode = 'full' | 'history' | 'date';
+
+export interface SyncSummary {
+  out: string;
+  format: MailStoreFormat;
+  mode: SyncMode;
+  added: number;
+  updated: number;
+  deleted: number;
+  total: number;
+  historyId: string | null;
+}
+
+export function readSyncState(dir: string): SyncState | null {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(dir, SYNC_STATE_FILE), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function writeSyncState(dir: string, state: SyncState): void {
+  const file = path.join(dir, SYNC_STATE_FILE);
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(state) + '\n', { mode: 0o600 });
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+function failure(code: string, message: string): CommandResult {
+  return { ok: false, error: { code, message, retryable: false } };
+}
+
+// --- Folders ---
+
+function safeSegment(segment: string): string {
+  const clean = segment.replace(/[\\:*?"<>|\u0000-\u001f]/g, '_').trim();
+  return clean === '' || clean === '.' || clean === '..' ? '_' : clean;
+}
+
+/**
+ * Folders (relative, `/`-separated) a message with these labels belongs in.
+ * Nested labels ("Clients/Acme") become nested folders.
+ */
+export function labelFolders(labels: string[], overrides: Record<string, string> = {}): string[] {
+  const folders = new Set<string>();
+  for (const label of labels) {
+    const folder = overrides[label] ?? SYSTEM_FOLDERS[label] ?? label;
+    if (folder) folders.add(folder.split('/').filter(Boolean).map(safeSegment).join('/'));
+  }
+  if (folders.size === 0 && !labels.some(label => overrides[label] === '')) folders.add(ARCHIVE_FOLDER);
+  return [...folders];
+}
+
+/** Parse repeated `--folder label=folder` options. */
+export function parseFolderMap(specs: string[] = []): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const spec of specs) {
+    const eq = spec.indexOf('=');
+    if (eq <= 0) throw new Error(`--folder expects label=folder, got "${spec}"`);
+    map[spec.slice(0, eq).trim()] = spec.slice(eq + 1).trim();
+  }
+  return map;
+}
+
+// --- Writers ---
+
+/** Headers in front of the stored source, as Gmail's own mbox exports have. */
+function gmailHeaders(message: SyncMessage, threadId: string): string {
+  return `X-GM-THRID: ${threadId}\nX-GM-MSGID: ${message.messageId}\nX-Gmail-Labels: ${message.labels.join(',')}\n`;
+}
+
+function normalizeNewlines(raw: string): string {
+  return raw.replace(/\r\n?/g, '\n');
+}
+
+function maildirFlags(message: SyncMessage): string {
+  return (message.labels.includes('DRAFT') ? 'D' : '') + (message.isStarred ? 'F' : '') + (message.isUnread ? '' : 'S');
+}
+
+function mboxFromLine(message: SyncMessage): string {
+  const from = /<([^>\s]+)>/.exec(message.from)?.[1] ?? /[^\s<>"]+@[^\s<>"]+/.exec(message.from)?.[0] ?? 'MAILER-DAEMON';
+  const d = new Date(message.date);
+  const asctime = d.toUTCString().replace(/^(\w+), (\d+) (\w+) (\d+) ([\d:]+) GMT$/, (_m, day, date, month, year, time) =>
+    `${day} ${month} ${String(Number(date)).padStart(2, ' ')} ${time} ${year}`);
+  return `From ${from} ${asctime}`;
+}
+
+/** mboxrd: "From " lines in the message get one more ">". */
+function mboxEntry(message: SyncMessage, threadId: string): string {
+  const status = `Status: ${message.isUnread ? 'O' : 'RO'}\n` + (message.isStarred ? 'X-Status: F\n' : '');
+  const body = normalizeNewlines(message.raw).replace(/\n+$/, '').replace(/^(>*From )/gm, '>$1');
+  return `${mboxFromLine(message)}\n${gmailHeaders(message, threadId)}${status}${body}\n\n`;
+}
+
+/** Split an mbox into entries keyed by their X-GM-MSGID header. */
+function readMbox(file: string): { id: string; text: string }[] {
+  if (!fs.existsSync(file)) return [];
+  const content = fs.readFileSync(file, 'utf-8');
+  const starts = [...content.matchAll(/^From /gm)].map(m => m.index!);
+  return starts.map((start, i) => {
+    const text = content.slice(start, starts[i + 1] ?? content.length);
+    return { id: /^X-GM-MSGID: (.+)$/m.exec(text)?.[1] ?? '', text };
+  });
+}
+
+interface StoreWriter {
+  write(message: SyncMessage, threadId: string, folders: string[]): string[];
+  remove(entry: IndexedMessage): void;
+  /** Finish the queued work (mbox rewrites and appends). */
+  flush(): void;
+}
+
+function maildirWriter(dir: string): StoreWriter {
+  return {
+    write(message, threadId, folders) {
+      const name = `${Math.floor(new Date(message.date).getTime() / 1000)}.${message.messageId}.gproxy:2,${maildirFlags(message)}`;
+      const content = gmailHeaders(message, threadId) + normalizeNewlines(message.raw);
+      return folders.map(folder => {
+        for (const sub of ['cur', 'new', 'tmp']) fs.mkdirSync(path.join(dir, folder, sub), { recursive: true });
+        const tmp = path.join(dir, folder, 'tmp', name);
+        fs.writeFileSync(tmp, content);
+        fs.renameSync(tmp, path.join(dir, folder, 'cur', name));
+        return `${folder}/cur/${name}`;
+      });
+    },
+    remove(entry) {
+      for (const file of entry.files) fs.rmSync(path.join(dir, file), { force: true });
+    },
+    flush() {},
+  };
+}
+
+function mboxWriter(dir: string): StoreWriter {
+  const removals = new Map<string, Set<string>>();
+  const appends = new Map<string, string[]>();
+  return {
+    write(message, threadId, folders) {
+      const entry = mboxEntry(message, threadId);
+      return folders.map(folder => {
+        const file = `${folder}.mbox`;
+        appends.set(file, [...(appends.get(file) ?? []), entry]);
+        return file;
+      });
+    },
+    remove(entry) {
+      for (const file of entry.files) {
+        removals.set(file, (removals.get(file) ?? new Set()).add(entry.messageId));
+      }
+    },
+    flush() {
+      for (const [file, ids] of removals) {
+        const full = path.join(dir, file);
+        const kept = readMbox(full).filter(entry => !ids.has(entry.id));
+        if (kept.length > 0) fs.writeFileSync(full, kept.map(entry => entry.text).join(''));
+        else fs.rmSync(full, { force: true });
+      }
+      for (const [file, entries] of appends) {
+        fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+        fs.appendFileSync(path.join(dir, file), entries.join(''));
+      }
+      removals.clear();
+      appends.clear();
+    },
+  };
+}
+
+// --- Sync ---
+
+interface Counts {
+  added: number;
+  updated: number;
+  deleted: number;
+}
+
+/** The folder of a stored file: `<folder>/cur/<name>` or `<folder>.mbox`. */
+function fileFolder(file: string): string {
+  return file.endsWith('.mbox') ? file.slice(0, -'.mbox'.length) : path.posix.dirname(path.posix.dirname(file));
+}
+
+function sameStorage(entry: IndexedMessage, message: SyncMessage, folders: string[]): boolean {
+  return entry.isUnread === message.isUnread &&
+    entry.isStarred === message.isStarred &&
+    entry.labels.join('\n') === message.labels.join('\n') &&
+    entry.files.map(fileFolder).join('\n') === folders.join('\n');
+}
+
+function removeThread(state: SyncState, writer: StoreWriter, threadId: string, keep: Set<string>, counts: Counts): void {
+  for (const entry of Object.values(state.messages)) {
+    if (entry.threadId === threadId && !keep.has(entry.messageId)) {
+      writer.remove(entry);
+      delete state.messages[entry.messageId];
+      counts.deleted++;
+    }
+  }
+}
+
+/** Bring the store in line with a page of thread snapshots and deletions. */
+function applyPage(state: SyncState, writer: StoreWriter, threads: SyncThread[], deletedThreads: string[], counts: Counts): void {
+  for (const threadId of deletedThreads) removeThread(state, writer, threadId, new Set(), counts);
+
+  for (const thread of threads) {
+    removeThread(state, writer, thread.threadId, new Set(thread.messages.map(m => m.messageId)), counts);
+    for (const message of thread.messages) {
+      const existing = state.messages[message.messageId];
+      const folders = labelFolders(message.labels, state.folders);
+      if (existing && sameStorage(existing, message, folders)) continue;
+      if (existing) writer.remove(existing);
+      const { raw: _raw, ...meta } = message;
+      const files = writer.write(message, thread.threadId, folders);
+      state.messages[message.messageId] = { ...meta, threadId: thread.threadId, files };
+      if (existing) counts.updated++;
+      else counts.added++;
+    }
+  }
+  writer.flush();
+}
+
+export interface SyncOptions {
+  out: string;
+  /** Defaults to the store's format, or maildir for a new store. */
+  format?: MailStoreFormat;
+  /** Gmail query to mirror; only settable on a new store or with `full`. */
+  query?: string;
+  folders?: Record<string, string>;
+  /** Re-read everything and drop what is no longer there. */
+  full?: boolean;
+  pageSize?: number;
+  call: GmailCall;
+  onProgress?: (counts: Counts & { pages: number }) => void;
+  now?: () => Date;
+}
+
+/**
+ * Sync the mirror in `out`. The first run (or `full`) reads every matching
+ * thread; later runs read the History API changes since the stored history
+ * ID, or, for a mirror scoped by a query, threads newer than the last sync.
+ * The state is saved after every page, so an interrupted run resumes.
+ */
+export async function syncMailbox(options: SyncOptions): Promise<CommandResult> {
+  const { out, call } = options;
+  const existing = readSyncState(out);
+  if (existing && options.format && existing.format !== options.format) {
+    return failure('INVALID_REQUEST', `${out} holds a ${existing.format} store; use another --out for ${options.format}`);
+  }
+  if (existing && options.query !== undefined && (existing.query ?? '') !== options.query && !options.full) {
+    return failure('INVALID_REQUEST', `${out} mirrors "${existing.query ?? ''}"; add --full to switch to "${options.query}"`);
+  }
+  if (!existing && fs.existsSync(out) && fs.readdirSync(out).length > 0) {
+    return failure('INVALID_REQUEST', `${out} is not empty and holds no ${SYNC_STATE_FILE}; pick a new directory`);
+  }
+
+  fs.mkdirSync(out, { recursive: true });
+  const state: SyncState = existing ?? {
+    version: 1,
+    format: options.format ?? 'maildir',
+    folders: {},
+    messages: {},
+  };
+  if (options.query !== undefined) state.query = options.query || undefined;
+  if (options.folders && Object.keys(options.folders).length > 0) state.folders = { ...state.folders, ...options.folders };
+
+  let mode: SyncMode = options.full || !state.syncedAt ? 'full' : state.query ? 'date' : 'history';
+  const resume = state.resume?.mode === mode && !options.full ? state.resume : undefined;
+  let pageToken: string | undefined = resume?.pageToken;
+  let historyId = resume?.historyId;
+  const startedAt = resume?.startedAt ?? (options.now?.() ?? new Date()).toISOString();
+  const seen = new Set(resume?.seen ?? []);
+
+  const writer = state.format === 'mbox' ? mboxWriter(out) : maildirWriter(out);
+  const counts: Counts = { added: 0, updated: 0, deleted: 0 };
+  let pages = 0;
+
+  for (;;) {
+    const params: Record<string, any> = { max: options.pageSize ?? 20, pageToken };
+    if (mode === 'history') {
+      params.historyId = state.historyId;
+    } else {
+      params.query = state.query ?? '';
+      if (mode === 'date') {
+        const after = Math.floor((new Date(state.syncedAt!).getTime() - DATE_OVERLAP_MS) / 1000);
+        params.query = `${params.query} after:${after}`.trim();
+      }
+    }
+
+    const page = await call('sync.changes', params);
+    if (!page.ok) {
+      if (page.error?.code === 'HISTORY_EXPIRED' && mode === 'history') {
+        // Too old to replay: read everything again
+        mode = 'full';
+        pageToken = undefined;
+        historyId = undefined;
+        continue;
+      }
+      return page;
+    }
+
+    const { threads = [], deletedThreads = [], nextPageToken } = page.data as {
+      threads?: SyncThread[];
+      deletedThreads?: string[];
+      nextPageToken?: string | null;
+    };
+    // Full and date runs take the checkpoint from their first page, history runs from their last
+    if (mode === 'history' || historyId === undefined) historyId = page.data.historyId ?? historyId;
+    applyPage(state, writer, threads, deletedThreads, counts);
+    if (mode === 'full') for (const thread of threads) for (const m of thread.messages) seen.add(m.messageId);
+    pages++;
+    options.onProgress?.({ ...counts, pages });
+
+    if (!nextPageToken) break;
+    pageToken = nextPageToken;
+    state.resume = { mode, pageToken, startedAt, historyId, seen: mode === 'full' ? [...seen] : undefined };
+    writeSyncState(out, state);
+  }
+
+  if (mode === 'full') {
+    for (const entry of Object.values(state.messages)) {
+      if (!seen.has(entry.messageId)) {
+        writer.remove(entry);
+        delete state.messages[entry.messageId];
+        counts.deleted++;
+      }
+    }
+    writer.flush();
+  }
+
+  if (historyId) state.historyId = historyId;
+  state.syncedAt = startedAt;
+  delete state.resume;
+  writeSyncState(out, state);
+
+  const summary: SyncSummary = {
+    out,
+    format: state.format,
+    mode,
+    ...counts,
+    total: Object.keys(state.messages).length,
+    historyId: state.historyId ?? null,
+  };
+  return { ok: true, data: summary };
+}
+
+// --- Offline search ---
+
+function splitMessage(raw: string): { headers: Record<string, string>; body: string } {
+  const text = normalizeNewlines(raw);
+  const end = text.indexOf('\n\n');
+  const head = end === -1 ? text : text.slice(0, end);
+  const headers: Record<string, string> = {};
+  for (const line of head.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const key = line.slice(0, colon).trim().toLowerCase();
+    headers[key] ??= line.slice(colon + 1).trim();
+  }
+  return { headers, body: end === -1 ? '' : text.slice(end + 2) };
+}
+
+function decodeBytes(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return bytes.toString('utf-8');
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const bytes: number[] = [];
+  const soft = text.replace(/=\n/g, '');
+  for (let i = 0; i < soft.length; i++) {
+    const hex = soft[i] === '=' ? /^[0-9A-Fa-f]{2}/.exec(soft.slice(i + 1, i + 3)) : null;
+    if (hex) {
+      bytes.push(parseInt(hex[0], 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(soft[i], 'utf-8'));
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function htmlText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/** The decoded text of a message's text/plain and text/html parts, for searching. */
+export function messageText(raw: string): string {
+  const { headers, body } = splitMessage(raw);
+  const type = headers['content-type'] ?? 'text/plain';
+
+  if (/^multipart\//i.test(type)) {
+    const boundary = /boundary="?([^";]+)"?/i.exec(type)?.[1];
+    if (!boundary) return '';
+    const parts = body.split(`--${boundary}`).slice(1);
+    const texts: string[] = [];
+    for (const part of parts) {
+      if (part.startsWith('--')) break;
+      texts.push(messageText(part.replace(/^[ \t]*\n/, '')));
+    }
+    return texts.filter(Boolean).join('\n');
+  }
+  if (/^message\/rfc822/i.test(type)) return messageText(body);
+  if (!/^text\//i.test(type)) return '';
+
+  const encoding = (headers['content-transfer-encoding'] ?? '').toLowerCase();
+  const charset = /charset="?([^";]+)"?/i.exec(type)?.[1] ?? 'utf-8';
+  let text = body;
+  if (encoding === 'base64') text = decodeBytes(Buffer.from(body, 'base64'), charset);
+  else if (encoding === 'quoted-printable') text = decodeBytes(decodeQuotedPrintable(body), charset);
+  return /^text\/html/i.test(type) ? htmlText(text) : text;
+}
+
+function tokenize(query: string): string[] {
+  return query.match(/(?:[^\s"]+:)?"[^"]*"|\S+/g) ?? [];
+}
+
+function parseDay(value: string): number {
+  const time = new Date(value.replace(/\//g, '-')).getTime();
+  if (Number.isNaN(time)) throw new Error(`Invalid date in query: ${value}`);
+  return time;
+}
+
+/**
+ * Search the mirror offline. Understands from:, to:, subject:, label:/in:,
+ * after:/before: (YYYY/MM/DD), is:unread|read|starred and bare words or
+ * "quoted phrases", which are matched against the headers and decoded body.
+ */
+export function searchLocal(dir: string, query: string, max = 50): CommandResult {
+  const state = readSyncState(dir);
+  if (!state) return failure('NOT_FOUND', `No synced mailbox in ${dir}; run "gproxy gmail sync --out ${dir}" first`);
+
+  const filters: ((m: IndexedMessage) => boolean)[] = [];
+  const words: string[] = [];
+  try {
+    for (const token of tokenize(query)) {
+      const colon = token.indexOf(':');
+      const key = colon > 0 && !token.startsWith('"') ? token.slice(0, colon).toLowerCase() : '';
+      const value = (key ? token.slice(colon + 1) : token).replace(/^"|"$/g, '').toLowerCase();
+      switch (key) {
+        case 'from': filters.push(m => m.from.toLowerCase().includes(value)); break;
+        case 'to': filters.push(m => m.to.toLowerCase().includes(value)); break;
+        case 'subject': filters.push(m => m.subject.toLowerCase().includes(value)); break;
+        case 'label':
+        case 'in': filters.push(m => m.labels.some(l => l.toLowerCase() === value)); break;
+        case 'after': { const t = parseDay(value); filters.push(m => new Date(m.date).getTime() >= t); break; }
+        case 'before': { const t = parseDay(value); filters.push(m => new Date(m.date).getTime() < t); break; }
+        case 'is':
+          if (value === 'unread') filters.push(m => m.isUnread);
+          else if (value === 'read') filters.push(m => !m.isUnread);
+          else if (value === 'starred') filters.push(m => m.isStarred);
+          break;
+        default: words.push(value);
+      }
+    }
+  } catch (err: any) {
+    return failure('INVALID_REQUEST', err.message);
+  }
+
+  const mboxCache = new Map<string, Map<string, string>>();
+  const sourceOf = (entry: IndexedMessage): string => {
+    const file = entry.files[0];
+    if (!file) return '';
+    if (state.format === 'maildir') {
+      const full = path.join(dir, file);
+      return fs.existsSync(full) ? fs.readFileSync(full, 'utf-8') : '';
+    }
+    if (!mboxCache.has(file)) {
+      mboxCache.set(file, new Map(readMbox(path.join(dir, file)).map(e => [e.id, e.text.replace(/^>(>*From )/gm, '$1')])));
+    }
+    return mboxCache.get(file)!.get(entry.messageId) ?? '';
+  };
+
+  const matches = Object.values(state.messages)
+    .filter(m => filters.every(f => f(m)))
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .filter(m => {
+      if (words.length === 0) return true;
+      const haystack = `${m.subject}\n${m.from}\n${m.to}\n${messageText(sourceOf(m))}`.toLowerCase();
+      return words.every(word => haystack.includes(word));
+    })
+    .slice(0, max)
+    .map(({ files, ...m }) => ({ ...m, path: files[0] ? path.join(dir, files[0]) : null }));
+
+  return { ok: true, data: { messages: matches, count: matches.length } };
+}
@@ -0,0 +1,163 @@
+/**
+ * Markdown → HTML for mail bodies (`gmail send --markdown`). Covers the
+ * common subset: headings, paragraphs, emphasis, strikethrough, code spans and
+ * fenced blocks, links, images (including `cid:` inline images), block
+ * quotes, nested lists and horizontal rules. Raw HTML is escaped.
+ */
+
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const HEADING_RE = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_RE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_RE = /^ {0,3}> ?/;
+const LIST_ITEM_RE = /^( *)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function startsBlock(line: string): boolean {
+  return FENCE_RE.test(line) || HEADING_RE.test(line) || RULE_RE.test(line) || QUOTE_RE.test(line) || LIST_ITEM_RE.test(line);
+}
+
+function renderEmphasis(text: string): string {
+  return text
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '<strong>$2</strong>')
+    .replace(/(?<![\w*])\*(?=\S)(.+?)(?<=\S)\*(?![\w*])/g, '<em>$1</em>')
+    .replace(/(?<!\w)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '<em>$1</em>')
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, '<del>$1</del>');
+}
+
+/** Render inline markup. Code spans and link targets are kept away from emphasis. */
+export function renderInline(text: string): string {
+  const held: string[] = [];
+  const hold = (html: string) => `\u0000${held.push(html) - 1}\u0000`;
+
+  let out = text.replace(/(`+)(.+?)\1/g, (_m, _ticks, code: string) => hold(`<code>${escapeHtml(code.trim())}</code>`));
+  out = escapeHtml(out);
+  out = out.replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;(.*?)&quot;)?\)/g, (_m, alt: string, src: string, title?: string) =>
+    hold(`<img src="${src}" alt="${alt}"${title ? ` title="${title}"` : ''}>`));
+  out = out.replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;(.*?)&quot;)?\)/g, (_m, label: string, href: string, title?: string) =>
+    hold(`<a href="${href}"${title ? ` title="${title}"` : ''}>${renderEmphasis(label)}</a>`));
+  out = out.replace(/&lt;((?:https?|mailto):[^\s&]+)&gt;/g, (_m, url: string) => hold(`<a href="${url}">${url}</a>`));
+  out = renderEmphasis(out);
+  // Hard breaks: two trailing spaces or a backslash before the newline
+  out = out.replace(/(?: {2,}|\\)\n/g, '<br>\n');
+
+  return out.replace(/\u0000(\d+)\u0000/g, (_m, i: string) => held[Number(i)]);
+}
+
+function renderList(lines: string[], start: number): [string, number] {
+  const first = LIST_ITEM_RE.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let loose = false;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = LIST_ITEM_RE.exec(line);
+    if (item && item[1].length === indent && /\d/.test(item[2]) === ordered) {
+      items.push([item[3]]);
+    } else if (!line.trim()) {
+      // A blank line continues the list only if more of it follows
+      const next = lines[i + 1];
+      const nextItem = next === undefined ? null : LIST_ITEM_RE.exec(next);
+      const sameList = !!nextItem && nextItem[1].length === indent && /\d/.test(nextItem[2]) === ordered;
+      if (next === undefined || (indentOf(next) <= indent && !sameList)) break;
+      if (sameList) loose = true;
+      items[items.length - 1].push('');
+    } else if (indentOf(line) > indent) {
+      items[items.length - 1].push(line.slice(Math.min(indentOf(line), indent + first[2].length + 1)));
+    } else if (!startsBlock(line) && items[items.length - 1].at(-1) !== '') {
+      items[items.length - 1].push(line.trim());
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+  const open = startNumber !== 1 ? `<${tag} start="${startNumber}">` : `<${tag}>`;
+  const body = items.map(content => {
+    const tight = !loose && !content.includes('');
+    return `<li>${renderBlocks(content, tight)}</li>`;
+  });
+  return [[open, ...body, `</${tag}>`].join('\n'), i];
+}
+
+function renderBlocks(lines: string[], tight = false): string {
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_RE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) code.push(lines[i++]);
+      i++;
+      const lang = fence[2] ? ` class="language-${fence[2]}"` : '';
+      html.push(`<pre><code${lang}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE_RE.test(line)) {
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && (QUOTE_RE.test(lines[i]) || !startsBlock(lines[i]))) {
+        quoted.push(lines[i++].replace(QUOTE_RE, ''));
+      }
+      html.push(`<blockquote>\n${renderBlocks(quoted)}\n</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM_RE.test(line)) {
+      const [list, next] = renderList(lines, i);
+      html.push(list);
+      i = next;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !(paragraph.length > 0 && startsBlock(lines[i]))) {
+      paragraph.push(lines[i++].trimStart());
+    }
+    const text = renderInline(paragraph.join('\n').replace(/\s+$/, ''));
+    html.push(tight ? text : `<p>${text}</p>`);
+  }
+
+  return html.join('\n');
+}
+
+export function markdownToHtml(markdown: string): string {
+  return renderBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
+}
@@ -1,142 +1,673 @@
 import chalk from 'chalk';
-import type { CommandResult, OutputMode } from './types.js';
+import { listKey } from './client.js';
+import { formatDate } from './dates.js';
+import { describeRule, fromGmailFilter } from './filters.js';
+import { slotLabel } from './findtime.js';
+import { describeRecurrence } from './recurrence.js';
+import { messageBodyText } from './html-text.js';
+import { selectPath } from './select.js';
+import type { CommandResult, OutputMode, OutputOptions } from './types.js';
+
+export const OUTPUT_MODES: OutputMode[] = ['human', 'plain', 'json', 'table', 'csv', 'tsv', 'ndjson', 'yaml'];
 
 export function formatOutput(
   result: CommandResult,
   mode: OutputMode,
   service: string,
-  action: string
+  action: string,
+  options: OutputOptions = {}
 ): string {
   if (!result.ok) {
     return ''; // errors handled separately via formatError
   }
 
-  if (mode === 'json') {
-    return JSON.stringify(result.data ?? result, null, 2);
+  let data = result.data;
+  if (options.select && data !== undefined) {
+    data = selectPath(data, options.select);
+  }
+
+  if (mode === 'json' && !options.columns) {
+    return JSON.stringify(data ?? result, null, 2);
   }
 
-  const data = result.data;
-  if (!data) return '';
+  if (data === undefined || data === null) return '';
+  const key = options.select ? undefined : listKey(service, action);
+
+  switch (mode) {
+    case 'json':
+      return JSON.stringify(projectRows(toRows(data, key), options.columns!), null, 2);
+    case 'table':
+    case 'csv':
+    case 'tsv':
+    case 'ndjson':
+      return formatRecords(toRows(data, key), mode, options);
+    case 'yaml':
+      return toYaml(options.columns ? projectRows(toRows(data, key), options.columns) : data);
+  }
 
-  const formatted = formatHuman(data, service, action);
+  let formatted: string;
+  if (options.columns) {
+    formatted = formatRecords(toRows(data, key), 'table', options);
+  } else if (options.select) {
+    formatted = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+  } else {
+    formatted = formatHuman(data, service, action);
+  }
   if (mode === 'plain') {
     return stripAnsi(formatted);
   }
   return formatted;
 }
 
-function formatHuman(data: any, service: string, action: string): string {
-  switch (service) {
-    case 'gmail':
-      return formatGmail(data, action);
-    case 'calendar':
-      return formatCalendar(data, action);
-    case 'drive':
-      return formatDrive(data, action);
-    case 'docs':
-    case 'sheets':
-    case 'slides':
-      return formatDocsFamily(data, service, action);
-    case 'contacts':
-    case 'people':
-      return formatContacts(data, action);
-    case 'tasks':
-      return formatTasks(data, action);
-    default:
-      return JSON.stringify(data, null, 2);
+// ── Record output (table, csv, tsv, ndjson, yaml) ────────────────
+
+/**
+ * The rows of a response: an array as-is, the list field of a listing
+ * (`files`, `threads`, ...), or the object itself as a single row. `key` is
+ * the action's list field, unset once --select has reshaped the data.
+ */
+function toRows(data: any, key: string | undefined): any[] {
+  if (Array.isArray(data)) return data;
+  if (data && typeof data === 'object') {
+    return key && Array.isArray(data[key]) ? data[key] : [data];
   }
+  return [data];
 }
 
-function formatGmail(data: any, action: string): string {
-  if (action === 'list' && Array.isArray(data.threads)) {
-    return formatGmailThreads(data.threads);
+function columnsOf(rows: any[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    if (row && typeof row === 'object' && !Array.isArray(row)) {
+      Object.keys(row).forEach(key => columns.add(key));
+    } else {
+      columns.add('value');
+    }
   }
-  if (action === 'read' && data.messages) {
-    return formatGmailMessages(data.messages);
+  return [...columns];
+}
+
+/**
+ * Read a column from a row. Dotted names reach into nested objects, and `id`
+ * falls back to the row's own identifier field (fileId, threadId, ...).
+ */
+function cellValue(row: any, column: string): any {
+  if (row === null || typeof row !== 'object') return column === 'value' ? row : undefined;
+  if (column in row) return row[column];
+  if (column.includes('.')) {
+    return column.split('.').reduce((v, key) => (v && typeof v === 'object' ? v[key] : undefined), row);
   }
-  if (action === 'send') {
-    return chalk.green('Message sent successfully.');
+  if (column === 'id') {
+    const idKey = Object.keys(row).find(key => /Id$/.test(key));
+    return idKey ? row[idKey] : undefined;
   }
-  return JSON.stringify(data, null, 2);
+  return undefined;
 }
 
-function formatGmailThreads(threads: any[]): string {
-  if (threads.length === 0) return chalk.dim('No threads found.');
-  const lines: string[] = [];
-  for (const t of threads) {
-    const from = chalk.bold(t.from || 'Unknown');
-    const subject = t.subject || '(no subject)';
-    const date = chalk.dim(t.date || '');
-    const snippet = chalk.dim(t.snippet || '');
-    lines.push(`${from}  ${subject}`);
-    lines.push(`  ${date}  ${snippet}`);
-    lines.push('');
-  }
-  return lines.join('\n');
+function projectRows(rows: any[], columns: string[]): Record<string, any>[] {
+  return rows.map(row => {
+    const projected: Record<string, any> = {};
+    for (const column of columns) projected[column] = cellValue(row, column) ?? null;
+    return projected;
+  });
 }
 
-function formatGmailMessages(messages: any[]): string {
-  const lines: string[] = [];
-  for (const m of messages) {
-    lines.push(chalk.bold(`From: ${m.from || 'Unknown'}`));
-    lines.push(`To: ${m.to || ''}`);
-    lines.push(`Date: ${m.date || ''}`);
-    lines.push(`Subject: ${chalk.underline(m.subject || '(no subject)')}`);
-    lines.push('');
-    lines.push(m.body || '');
-    lines.push(chalk.dim('─'.repeat(60)));
+function cellText(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value) && value.every(v => v === null || typeof v !== 'object')) {
+    return value.join(';');
   }
-  return lines.join('\n');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function csvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
 }
 
-function formatCalendar(data: any, action: string): string {
-  if (action === 'list' && Array.isArray(data.events)) {
-    return formatCalendarEvents(data.events);
+function formatRecords(rows: any[], mode: 'table' | 'csv' | 'tsv' | 'ndjson', options: OutputOptions): string {
+  const columns = options.columns ?? columnsOf(rows);
+
+  if (mode === 'ndjson') {
+    const records = options.columns ? projectRows(rows, columns) : rows;
+    return records.map(record => JSON.stringify(record)).join('\n');
   }
-  if (action === 'create') {
-    return chalk.green(`Event created: ${data.summary || data.id || ''}`);
+
+  const cells = rows.map(row => columns.map(column => cellText(cellValue(row, column))));
+  const header = options.header !== false;
+
+  if (mode === 'csv') {
+    const lines = cells.map(row => row.map(csvField).join(','));
+    if (header) lines.unshift(columns.map(csvField).join(','));
+    return lines.join('\n');
   }
-  return JSON.stringify(data, null, 2);
-}
 
-function formatCalendarEvents(events: any[]): string {
-  if (events.length === 0) return chalk.dim('No events found.');
-  const lines: string[] = [];
-  for (const e of events) {
-    const summary = chalk.bold(e.summary || '(untitled)');
-    const when = chalk.cyan(e.start || e.when || '');
-    const location = e.location ? chalk.dim(` @ ${e.location}`) : '';
-    lines.push(`${summary}  ${when}${location}`);
+  if (mode === 'tsv') {
+    const clean = (text: string) => text.replace(/[\t\r\n]+/g, ' ');
+    const lines = cells.map(row => row.map(clean).join('\t'));
+    if (header) lines.unshift(columns.map(clean).join('\t'));
+    return lines.join('\n');
   }
-  return lines.join('\n');
+
+  const table = header ? [columns.map(c => c.toUpperCase()), ...cells] : cells;
+  const widths = columns.map((_, i) => Math.max(0, ...table.map(row => row[i].length)));
+  return table
+    .map(row => row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join('  ').trimEnd())
+    .join('\n');
+}
+
+function yamlScalar(value: any): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  const text = String(value);
+  const plain = /^[\w./@+-][\w ./@:+-]*$/.test(text) &&
+    !/^(true|false|null|yes|no|on|off|~|-?\d[\d.eE+-]*)$/i.test(text) &&
+    !text.endsWith(' ') && !text.includes(': ');
+  return plain ? text : JSON.stringify(text);
 }
 
-function formatDrive(data: any, action: string): string {
-  if (action === 'list' && Array.isArray(data.files)) {
-    return formatDriveFiles(data.files);
+function toYaml(value: any, indent = ''): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return value.map(item => {
+      if (item !== null && typeof item === 'object' && Object.keys(item).length > 0) {
+        const nested = toYaml(item, indent + '  ');
+        return `${indent}- ${nested.slice(indent.length + 2)}`;
+      }
+      return `${indent}- ${toYaml(item, indent + '  ')}`;
+    }).join('\n');
   }
-  if (action === 'upload') {
-    return chalk.green(`Uploaded: ${data.name || data.id || ''}`);
+  if (value !== null && typeof value === 'object') {
+    const keys = Object.keys(value);
+    if (keys.length === 0) return '{}';
+    return keys.map(key => {
+      const item = value[key];
+      const label = `${indent}${yamlScalar(key)}:`;
+      if (item !== null && typeof item === 'object' && Object.keys(item).length > 0) {
+        return `${label}\n${toYaml(item, Array.isArray(item) ? indent : indent + '  ')}`;
+      }
+      return `${label} ${toYaml(item, indent + '  ')}`;
+    }).join('\n');
   }
-  if (action === 'download') {
-    return chalk.green(`Downloaded: ${data.name || ''}`);
+  return yamlScalar(value);
+}
+
+type Formatter = (data: any) => string;
+
+/**
+ * Human-readable formatters keyed by the `service.action` names the commands
+ * send. Actions without an entry fall back to pretty-printed JSON; the output
+ * tests fail when a command uses an action that is missing here.
+ */
+const FORMATTERS: Record<string, Formatter> = {
+  // Gmail
+  'gmail.search': data => formatGmailThreads(data.threads ?? []),
+  'gmail.messageSearch': data => formatGmailMessageList(data.messages ?? []),
+  'gmail.get': data => formatGmailThread(data),
+  'gmail.read': data => formatGmailThread(data),
+  'gmail.raw': data => `${data.subject || '(no subject)'} (${formatSize(Number(data.size) || 0)}, base64 in --json)`,
+  'gmail.send': data => data.threadId
+    ? chalk.green(`Reply sent (thread ${data.threadId}).`)
+    : chalk.green('Message sent successfully.'),
+  'gmail.reply': data => chalk.green(`Reply sent to ${[data.to, data.cc].filter(Boolean).join(', ')} (thread ${data.threadId}).`),
+  'gmail.forward': data => chalk.green(
+    `Forwarded to ${data.to}` + (data.attachmentCount ? ` with ${data.attachmentCount} attachment(s).` : '.')
+  ),
+  'gmail.sync': data => chalk.green(
+    `Synced ${data.out} (${data.format}, ${data.mode}): ${data.added} added, ${data.updated} updated, ` +
+    `${data.deleted} deleted, ${data.total} messages stored.`
+  ),
+  'gmail.local.search': data => formatGmailMessageList(data.messages ?? []),
+  'gmail.labels.list': data => formatTable(
+    ['LABEL', 'UNREAD'],
+    [...(data.labels ?? [])]
+      .sort((a: any, b: any) => a.name.localeCompare(b.name))
+      .map((l: any) => {
+        const parts = l.name.split('/');
+        return ['  '.repeat(parts.length - 1) + chalk.bold(parts[parts.length - 1]), String(l.unreadCount ?? 0)];
+      }),
+    'No labels found.'
+  ),
+  'gmail.labels.create': data => [
+    chalk.green(`Label created: ${data.name}`),
+    ...(data.createdParents ?? []).map((p: string) => chalk.dim(`Parent created: ${p}`)),
+  ].join('\n'),
+  'gmail.labels.delete': data => chalk.green(`Label deleted: ${data.deleted}`),
+  'gmail.labels.get': data => formatFields([
+    ['Label', chalk.bold(data.name)],
+    ['ID', chalk.dim(data.id)],
+    ['Colour', data.color ? `${data.color.backgroundColor} on ${data.color.textColor}` : ''],
+    ['Label list', data.labelListVisibility],
+    ['Messages', data.messageListVisibility],
+    ['Threads', `${data.threadsTotal} (${data.threadsUnread} unread)`],
+    ['Messages total', `${data.messagesTotal} (${data.messagesUnread} unread)`],
+    ['Nested', (data.children ?? []).join(', ')],
+  ]),
+  'gmail.labels.update': data => (data.renamed?.length
+    ? data.renamed.map((r: any) => chalk.green(`Renamed: ${r.from} → ${r.to}`)).join('\n')
+    : chalk.green(`Label updated: ${data.name}`)),
+  'gmail.labels.apply': data => {
+    const verb = data.dryRun ? 'Would update' : data.action === 'removed' ? 'Removed from' : 'Added to';
+    const lines = [chalk.green(`${verb} ${data.modified} thread(s): ${data.name} (${data.matched} matched "${data.query}")`)];
+    if (data.skipped) lines.push(chalk.yellow(`Skipped ${data.skipped} restricted thread(s).`));
+    if (data.hasMore) lines.push(chalk.dim('More threads may match; run again or raise --max.'));
+    return lines.join('\n');
+  },
+  'gmail.thread.modify': data => chalk.green(`Thread updated: ${data.threadId}`),
+  'gmail.triage': data => {
+    const done = TRIAGE_PAST_TENSE[data.action] ?? data.action;
+    const lines: string[] = [];
+    if (data.dryRun) {
+      lines.push(formatGmailThreads(data.threads ?? []));
+      lines.push(chalk.yellow(`Dry run: ${data.matched} thread(s) would be ${done}.`));
+    } else if (data.matched === 0) {
+      lines.push(chalk.dim('No matching threads.'));
+    } else {
+      lines.push(chalk.green(`${data.modified.length} thread(s) ${done}.`));
+      if (data.skipped?.length) lines.push(chalk.yellow(`Skipped ${data.skipped.length} restricted thread(s).`));
+      for (const f of data.failed ?? []) lines.push(chalk.red(`Failed ${f.threadId}: ${f.error}`));
+    }
+    if (data.truncated) lines.push(chalk.dim('More threads match; raise --limit or run again.'));
+    return lines.join('\n');
+  },
+  'gmail.snooze': data => chalk.green(`Snoozed ${data.threadId} until ${shortDate(data.until)}`),
+  'gmail.snooze.list': data => formatTable(
+    ['THREAD ID', 'UNTIL'],
+    (data.snoozed ?? []).map((s: any) => [chalk.dim(s.threadId), shortDate(s.until)]),
+    'No snoozed threads.'
+  ),
+  'gmail.snooze.cancel': data => chalk.green(`Back in the inbox: ${data.threadId}`),
+  'gmail.drafts.list': data => formatTable(
+    ['DRAFT ID', 'TO', 'SUBJECT', 'DATE'],
+    (data.drafts ?? []).map((d: any) => [
+      chalk.dim(d.draftId), truncate(d.to, 30), chalk.bold(truncate(d.subject || '(no subject)', 50)),
+      shortDate(d.date),
+    ]),
+    'No drafts found.'
+  ),
+  'gmail.drafts.create': data => chalk.green(`Draft created: ${data.draftId}`),
+  'gmail.drafts.update': data => chalk.green(`Draft updated: ${data.draftId}`),
+  'gmail.drafts.send': data => chalk.green(`Draft sent (message ${data.messageId}).`),
+  'gmail.attachments.download': data => formatAttachments(data.attachments ?? [data]),
+  'gmail.settings.vacation': data => formatFields([
+    ['Auto-reply', data.enableAutoReply ? chalk.green('on') : chalk.dim('off')],
+    ['Subject', data.responseSubject],
+    ['Message', data.responseBodyPlainText],
+    ['Start', data.startTime ? shortDate(new Date(Number(data.startTime)).toISOString()) : ''],
+    ['End', data.endTime ? shortDate(new Date(Number(data.endTime)).toISOString()) : ''],
+    ['Contacts only', data.restrictToContacts ? 'yes' : ''],
+    ['Domain only', data.restrictToDomain ? 'yes' : ''],
+  ]),
+  'gmail.settings.filters.list': data => {
+    const labelNames = Object.fromEntries((data.labels ?? []).map((l: any) => [l.id, l.name]));
+    return formatTable(
+      ['FILTER ID', 'FILTER'],
+      (data.filters ?? []).map((f: any) => [chalk.dim(f.id), describeRule(fromGmailFilter(f, labelNames))]),
+      'No filters found.'
+    );
+  },
+  'gmail.settings.filters.create': data => chalk.green(`Filter created: ${data.id}`),
+  'gmail.settings.filters.delete': data => chalk.green(`Filter deleted: ${data.deleted}`),
+  'gmail.settings.filters.import': data => [
+    ...(data.added ?? []).map((f: any) => chalk.green(`${data.dryRun ? 'Would create' : 'Created'}: ${f.description}`)),
+    ...(data.skipped ?? []).map((d: string) => chalk.dim(`Skipped (exists): ${d}`)),
+    ...(data.accountOnly ?? []).map((d: string) => chalk.yellow(`Only in account: ${d}`)),
+    `${data.added?.length ?? 0} ${data.dryRun ? 'to create' : 'created'}, ${data.skipped?.length ?? 0} skipped, ` +
+      `${data.accountOnly?.length ?? 0} only in account.`,
+  ].join('\n'),
+  'gmail.settings.forwarding': data => data.forwardingAddresses
+    ? formatTable(
+      ['FORWARDING ADDRESS', 'STATUS'],
+      data.forwardingAddresses.map((f: any) => [chalk.bold(f.forwardingEmail), f.verificationStatus || '']),
+      'No forwarding addresses.'
+    )
+    : chalk.green(`Forwarding address added: ${data.forwardingEmail} (${data.verificationStatus || 'pending'})`),
+  'gmail.settings.sendAs': data => formatTable(
+    ['ADDRESS', 'NAME', 'DEFAULT', 'STATUS'],
+    (data.sendAs ?? []).map((a: any) => [
+      chalk.bold(a.sendAsEmail), a.displayName || '', a.isDefault ? '*' : '', a.verificationStatus || '',
+    ]),
+    'No send-as addresses.'
+  ),
+  'gmail.settings.delegates': data => {
+    if (data.removed) return chalk.green(`Delegate removed: ${data.removed}`);
+    if (data.delegateEmail) return chalk.green(`Delegate added: ${data.delegateEmail}`);
+    return formatTable(
+      ['DELEGATE', 'STATUS'],
+      (data.delegates ?? []).map((d: any) => [chalk.bold(d.delegateEmail), d.verificationStatus || '']),
+      'No delegates.'
+    );
+  },
+
+  // Calendar
+  'calendar.events.list': data => formatCalendarEvents(data.events ?? [], 'No events found.'),
+  'calendar.events.get': data => formatCalendarEvent(data),
+  'calendar.events.create': data => withJoinLink(data, chalk.green(`Event created: ${data.summary || ''} (${data.eventId})`)),
+  'calendar.events.update': data => withJoinLink(data, chalk.green(data.splitFrom
+    ? `Series split: ${data.summary || ''} (${data.eventId}) continues ${data.splitFrom} from ${shortDate(data.start)}`
+    : `Event updated: ${data.summary || ''} (${data.eventId})`)),
+  'calendar.events.delete': data => chalk.green(`Event deleted: ${data.deleted}${scopeNote(data.scope)}`),
+  'calendar.events.respond': data => chalk.green(`Responded "${data.response}" to event ${data.eventId}${scopeNote(data.scope, data.updated, data.until)}`),
+  'calendar.events.propose': data => chalk.green(`Responded "${data.response}" to event ${data.eventId}`),
+  'calendar.events.conflicts': data => formatCalendarEvents(data.conflicts ?? [], 'No conflicts.'),
+  'calendar.events.instances': data => formatCalendarEvents(data.events ?? [], 'No occurrences found.'),
+  'calendar.freebusy': data => formatFreebusy(data.calendars ?? {}),
+  'calendar.agenda': data => formatAgenda(data),
+  'calendar.find-time': data => formatFindTime(data),
+  'calendar.import': data => formatIcsImport(data),
+  'calendar.watch': data => formatWatchNotice(data),
+  'calendar.calendars.list': data => formatTable(
+    ['CALENDAR ID', 'NAME', 'ACCESS', 'TIME ZONE'],
+    (data.calendars ?? []).map((c: any) => [
+      chalk.dim(c.id), chalk.bold(c.summary || '') + (c.primary ? chalk.green(' (primary)') : ''),
+      c.accessRole || '', c.timeZone || '',
+    ]),
+    'No calendars found.'
+  ),
+  'calendar.calendars.create': data => chalk.green(`Calendar created: ${data.summary || ''} (${data.id})`),
+  'calendar.calendars.update': data => chalk.green(`Calendar updated: ${data.summary || ''} (${data.id})`),
+  'calendar.calendars.delete': data => chalk.green(`Calendar deleted: ${data.deleted}`),
+  'calendar.calendars.subscribe': data => chalk.green(`Subscribed: ${data.summary || ''} (${data.id})`),
+  'calendar.calendars.unsubscribe': data => chalk.green(`Unsubscribed: ${data.unsubscribed}`),
+  'calendar.acl.list': data => formatTable(
+    ['RULE ID', 'ROLE', 'WHO'],
+    (data.rules ?? []).map((r: any) => [
+      chalk.dim(r.ruleId), chalk.bold(r.role), r.scopeType === 'default' ? 'everyone (public)' : `${r.scopeValue} (${r.scopeType})`,
+    ]),
+    'Not shared with anyone.'
+  ),
+  'calendar.acl.add': data => chalk.green(`Shared: ${data.role} for ${data.scopeType === 'default' ? 'everyone' : data.scopeValue} (${data.ruleId})`),
+  'calendar.acl.remove': data => chalk.green(`Sharing removed: ${data.removed}`),
+
+  // Drive
+  'drive.list': data => formatDriveFiles(data.files ?? []),
+  'drive.search': data => formatDriveFiles(data.files ?? []),
+  'drive.drives.list': data => formatTable(
+    ['DRIVE ID', 'NAME'],
+    (data.drives ?? []).map((d: any) => [chalk.dim(d.driveId), chalk.bold(d.name)]),
+    'No shared drives found.'
+  ),
+  'drive.get': data => formatDriveFile(data),
+  'drive.upload': data => chalk.green(`Uploaded: ${data.name || ''} (${data.fileId})`),
+  'drive.download': data => chalk.green(`Downloaded: ${data.name || ''}`),
+  'drive.export': data => chalk.green(`Exported as ${data.mimeType}`),
+  'drive.copy': data => chalk.green(`Copied: ${data.name || ''} (${data.fileId})`),
+  'drive.mkdir': data => chalk.green(`Folder created: ${data.name || ''} (${data.fileId})`),
+  'drive.delete': data => chalk.green(`Moved to trash: ${data.deleted}`),
+  'drive.permissions.list': data => formatTable(
+    ['PERMISSION ID', 'ROLE', 'TYPE', 'WHO'],
+    (data.permissions ?? []).map((p: any) => [
+      chalk.dim(p.permissionId), chalk.bold(p.role), p.type, p.emailAddress || p.domain || p.name || '',
+    ]),
+    'No permissions found.'
+  ),
+  'drive.permissions.create': data => chalk.green(`Permission added: ${data.role} for ${data.type} (${data.permissionId})`),
+  'drive.permissions.delete': data => chalk.green(`Permission removed: ${data.deleted}`),
+  'drive.comments.list': data => formatTable(
+    ['AUTHOR', 'DATE', 'STATUS', 'COMMENT'],
+    (data.comments ?? []).map((c: any) => [
+      chalk.bold(c.author || ''), shortDate(c.createdDate), c.resolved ? chalk.green('resolved') : 'open',
+      truncate(c.content, 60),
+    ]),
+    'No comments found.'
+  ),
+
+  // Docs
+  'docs.get': data => formatFields([
+    ['Title', chalk.bold(data.title || '')],
+    ['Document ID', data.documentId],
+    ['Revision', data.revisionId],
+    ['Elements', data.body?.contentLength],
+  ]),
+  'docs.cat': data => data.content + (data.truncated ? '\n' + chalk.yellow('[truncated]') : ''),
+  'docs.create': data => formatCreated('Document created', data.title, data.documentId, data.url),
+  'docs.copy': data => formatCreated('Document copied', data.name, data.documentId, data.url),
+  'docs.export': data => chalk.green(`Exported as ${data.mimeType}`),
+
+  // Sheets
+  'sheets.get': data => [
+    formatFields([
+      ['Title', chalk.bold(data.title || '')],
+      ['Spreadsheet ID', data.spreadsheetId],
+      ['Locale', data.locale],
+      ['Time zone', data.timeZone],
+      ['URL', data.url],
+    ]),
+    '',
+    formatTable(
+      ['SHEET', 'SHEET ID', 'ROWS', 'COLUMNS'],
+      (data.sheets ?? []).map((s: any) => [
+        chalk.bold(s.title), chalk.dim(String(s.sheetId)), String(s.rowCount), String(s.columnCount),
+      ]),
+      'No sheets.'
+    ),
+  ].join('\n'),
+  'sheets.read': data => formatValueGrid(data.values ?? [], data.range),
+  'sheets.write': data => formatSheetUpdate(data),
+  'sheets.update': data => formatSheetUpdate(data),
+  'sheets.append': data => formatSheetUpdate(data),
+  'sheets.clear': data => chalk.green(`Cleared: ${data.cleared}`),
+  'sheets.create': data => formatCreated('Spreadsheet created', data.title, data.spreadsheetId, data.url),
+  'sheets.copy': data => formatCreated('Spreadsheet copied', data.name, data.spreadsheetId, data.url),
+  'sheets.format': data => chalk.green(`Formatting applied (${(data.replies ?? []).length} request(s))`),
+  'sheets.export': data => chalk.green(`Exported as ${data.mimeType}`),
+
+  // Slides
+  'slides.get': data => [
+    formatFields([
+      ['Title', chalk.bold(data.title || '')],
+      ['Presentation ID', data.presentationId],
+      ['Locale', data.locale],
+      ['Slides', data.slideCount],
+    ]),
+    '',
+    formatTable(
+      ['#', 'OBJECT ID', 'ELEMENTS'],
+      (data.slides ?? []).map((s: any) => [String(s.index + 1), chalk.dim(s.objectId), String(s.pageElements)]),
+      'No slides.'
+    ),
+  ].join('\n'),
+  'slides.create': data => formatCreated('Presentation created', data.title, data.presentationId),
+  'slides.copy': data => formatCreated('Presentation copied', data.name, data.presentationId, data.url),
+  'slides.export': data => chalk.green(`Exported as ${data.mimeType}`),
+
+  // Contacts & People
+  'contacts.list': data => formatContacts(data.contacts ?? []),
+  'contacts.search': data => formatContacts(data.contacts ?? []),
+  'contacts.other.list': data => formatContacts(data.contacts ?? []),
+  'contacts.other.search': data => formatContacts(data.contacts ?? []),
+  'contacts.get': data => formatPerson(data),
+  'contacts.create': data => chalk.green(`Contact created: ${data.displayName || ''} (${data.resourceName})`),
+  'contacts.update': data => chalk.green(`Contact updated: ${data.displayName || ''} (${data.resourceName})`),
+  'contacts.delete': data => chalk.green(`Contact deleted: ${data.deleted}`),
+  'people.get': data => formatPerson(data),
+  'people.search': data => formatContacts(data.people ?? []),
+
+  // Tasks
+  'tasks.list': data => formatTasks(data.tasks ?? []),
+  'tasks.tasklists.list': data => formatTable(
+    ['TASKLIST ID', 'TITLE', 'UPDATED'],
+    (data.tasklists ?? []).map((t: any) => [chalk.dim(t.tasklistId), chalk.bold(t.title), shortDate(t.updated)]),
+    'No task lists found.'
+  ),
+  'tasks.get': data => formatFields([
+    ['Title', chalk.bold(data.title || '(untitled)')],
+    ['Task ID', data.taskId],
+    ['Status', data.status === 'completed' ? chalk.green('completed') : data.status],
+    ['Due', data.due ? shortDate(data.due) : ''],
+    ['Completed', data.completed ? shortDate(data.completed) : ''],
+    ['Notes', data.notes],
+  ]),
+  'tasks.create': data => chalk.green(`Task created: ${data.title} (${data.taskId})`),
+  'tasks.update': data => chalk.green(`Task updated: ${data.title} (${data.taskId})`),
+  'tasks.done': data => chalk.green(`Task completed: ${data.title}`),
+  'tasks.undo': data => chalk.green(`Task reopened: ${data.title}`),
+  'tasks.delete': data => chalk.green(`Task deleted: ${data.deleted}`),
+  'tasks.clear': data => chalk.green(`Cleared completed tasks from ${data.cleared}`),
+
+  // Groups
+  'groups.list': data => formatTable(
+    ['GROUP', 'NAME', 'MEMBERS', 'DESCRIPTION'],
+    (data.groups ?? []).map((g: any) => [
+      chalk.bold(g.email), g.name || '', String(g.directMembersCount ?? ''), truncate(g.description, 40),
+    ]),
+    'No groups found.'
+  ),
+  'groups.members': data => formatTable(
+    ['MEMBER', 'ROLE', 'TYPE', 'STATUS'],
+    (data.members ?? []).map((m: any) => [
+      chalk.bold(m.email || ''), m.role === 'MEMBER' ? m.role : chalk.cyan(m.role), m.type || '', m.status || '',
+    ]),
+    'No members found.'
+  ),
+
+  // Chat
+  'chat.spaces.list': data => formatChatSpaces(data.spaces ?? []),
+  'chat.spaces.find': data => formatChatSpaces(data.spaces ?? []),
+  'chat.spaces.create': data => chalk.green(`Space created: ${data.displayName || ''} (${data.name})`),
+  'chat.messages.list': data => formatTable(
+    ['TIME', 'SENDER', 'MESSAGE'],
+    (data.messages ?? []).map((m: any) => [
+      chalk.cyan(shortDate(m.createTime)), chalk.bold(m.sender || ''), truncate(m.text, 80),
+    ]),
+    'No messages found.'
+  ),
+  'chat.messages.send': data => chalk.green(`Message sent: ${data.name}`),
+  'chat.messages.dm': data => chalk.green(`Message sent to ${data.spaceName}`),
+
+  // Classroom
+  'classroom.courses.list': data => formatTable(
+    ['COURSE ID', 'NAME', 'SECTION', 'STATE'],
+    (data.courses ?? []).map((c: any) => [chalk.dim(c.courseId), chalk.bold(c.name), c.section || '', c.courseState || '']),
+    'No courses found.'
+  ),
+  'classroom.courses.get': data => formatCourse(data),
+  'classroom.courses.create': data => chalk.green(`Course created: ${data.name} (${data.courseId})`),
+  'classroom.roster.list': data => formatRoster(data),
+  'classroom.coursework.list': data => formatTable(
+    ['COURSEWORK ID', 'TITLE', 'TYPE', 'DUE', 'POINTS'],
+    (data.coursework ?? []).map((w: any) => [
+      chalk.dim(w.courseWorkId), chalk.bold(w.title), w.workType || '', formatDueDate(w.dueDate, w.dueTime),
+      w.maxPoints ? String(w.maxPoints) : '',
+    ]),
+    'No coursework found.'
+  ),
+  'classroom.coursework.create': data => chalk.green(`Coursework created: ${data.title} (${data.courseWorkId})`),
+  'classroom.announcements.list': data => formatTable(
+    ['ANNOUNCEMENT ID', 'CREATED', 'STATE', 'TEXT'],
+    (data.announcements ?? []).map((a: any) => [
+      chalk.dim(a.id), shortDate(a.creationTime), a.state || '', truncate(a.text, 60),
+    ]),
+    'No announcements found.'
+  ),
+  'classroom.announcements.create': data => chalk.green(`Announcement posted (${data.id})`),
+  'classroom.submissions.list': data => formatTable(
+    ['SUBMISSION ID', 'USER ID', 'STATE', 'GRADE', 'LATE'],
+    (data.submissions ?? []).map((s: any) => [
+      chalk.dim(s.id), s.userId, s.state || '',
+      s.assignedGrade != null ? String(s.assignedGrade) : s.draftGrade != null ? chalk.dim(`${s.draftGrade} (draft)`) : '',
+      s.late ? chalk.yellow('late') : '',
+    ]),
+    'No submissions found.'
+  ),
+
+  // Admin
+  'admin.health': data => formatFields([
+    ['Status', data.status === 'healthy' ? chalk.green(data.status) : chalk.yellow(data.status)],
+    ['Version', data.version],
+    ['Configured', data.configured ? 'yes' : chalk.yellow('no')],
+    ['Services', (data.services ?? []).join(', ')],
+    ['Timestamp', data.timestamp],
+  ]),
+  'admin.config.get': data => formatTable(
+    ['KEY', 'VALUE'],
+    Object.keys(data.config ?? {}).sort().map(key => [chalk.bold(key), String(data.config[key] ?? '')]),
+    'No configuration set.'
+  ),
+  'admin.config.set': data => chalk.green(`Set ${data.key}`),
+  'admin.log.status': data => data.configured
+    ? formatFields([
+      ['Logging', data.logEnabled ? chalk.green('enabled') : chalk.dim('disabled')],
+      ['Sheet ID', data.sheetId],
+      ['Rows', data.maxRows ? `${data.rows} / ${data.maxRows}` : data.rows],
+      ['Last entry', data.lastEntry],
+    ])
+    : chalk.dim('No log sheet configured (LOG_SHEET_ID is not set).'),
+  'admin.log.clear': () => chalk.green('Logs cleared.'),
+  'admin.ip.list': data => formatIpList(data.ips ?? []),
+  'admin.ip.add': data => chalk.green(`Added ${data.added}`) + '\n' + formatIpList(data.ips ?? []),
+  'admin.ip.remove': data => chalk.green(`Removed ${data.removed}`) + '\n' + formatIpList(data.ips ?? []),
+};
+
+/**
+ * Whether `service.action` has a human formatter (otherwise output is JSON).
+ */
+export function hasFormatter(service: string, action: string): boolean {
+  return Object.prototype.hasOwnProperty.call(FORMATTERS, `${service}.${action}`);
+}
+
+function formatHuman(data: any, service: string, action: string): string {
+  if (!hasFormatter(service, action)) {
+    return JSON.stringify(data, null, 2);
   }
-  return JSON.stringify(data, null, 2);
+  return FORMATTERS[`${service}.${action}`](data);
 }
 
-function formatDriveFiles(files: any[]): string {
-  if (files.length === 0) return chalk.dim('No files found.');
-  const lines: string[] = [];
-  for (const f of files) {
-    const name = chalk.bold(f.name || '(unnamed)');
-    const type = chalk.dim(f.mimeType || f.type || '');
-    const modified = chalk.dim(f.modifiedTime || f.modified || '');
-    const size = f.size ? chalk.dim(formatSize(Number(f.size))) : '';
-    lines.push(`${name}  ${type}  ${modified}  ${size}`);
+// ── Shared layout helpers ────────────────────────────────────────
+
+function formatTable(headers: string[], rows: string[][], empty: string): string {
+  if (rows.length === 0) return chalk.dim(empty);
+
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map(row => visibleLength(row[i] ?? '')))
+  );
+  const renderRow = (cells: string[]): string =>
+    cells
+      .map((cell, i) => (i === cells.length - 1 ? cell : cell + ' '.repeat(widths[i] - visibleLength(cell))))
+      .join('  ');
+
+  const lines = [chalk.dim(renderRow(headers))];
+  for (const row of rows) {
+    lines.push(renderRow(headers.map((_, i) => row[i] ?? '')));
   }
   return lines.join('\n');
 }
 
+function visibleLength(text: string): number {
+  return stripAnsi(text).length;
+}
+
+function formatFields(fields: Array<[string, unknown]>): string {
+  const present = fields.filter(([, value]) => value !== undefined && value !== null && value !== '');
+  if (present.length === 0) return '';
+  const width = Math.max(...present.map(([label]) => label.length)) + 1;
+  return present
+    .map(([label, value]) => `${chalk.bold((label + ':').padEnd(width))} ${value}`)
+    .join('\n');
+}
+
+function formatCreated(message: string, name: string | undefined, id: string, url?: string): string {
+  const lines = [chalk.green(`${message}: ${name || ''} (${id})`)];
+  if (url) lines.push(chalk.dim(url));
+  return lines.join('\n');
+}
+
+function truncate(text: string | undefined | null, max: number): string {
+  const flat = (text ?? '').replace(/\s+/g, ' ').trim();
+  return flat.length > max ? flat.slice(0, max - 1) + '…' : flat;
+}
+
+/**
+ * Render an ISO timestamp as local `YYYY-MM-DD HH:MM`; dates pass through.
+ */
+function shortDate(value: string | undefined | null): string {
+  if (!value) return '';
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const d = new Date(value);
+  if (isNaN(d.getTime())) return value;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
 function formatSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -144,59 +675,463 @@ function formatSize(bytes: number): string {
   return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
 }
 
-function formatDocsFamily(data: any, service: string, action: string): string {
-  if (action === 'list' && Array.isArray(data.files)) {
-    return formatDriveFiles(data.files);
-  }
-  if (action === 'create') {
-    return chalk.green(`Created ${service} document: ${data.title || data.id || ''}`);
+// ── Gmail ────────────────────────────────────────────────────────
+
+const TRIAGE_PAST_TENSE: Record<string, string> = {
+  archive: 'archived',
+  trash: 'moved to the trash',
+  untrash: 'restored from the trash',
+  'mark-read': 'marked read',
+  'mark-unread': 'marked unread',
+  star: 'starred',
+  unstar: 'unstarred',
+};
+
+function formatGmailThreads(threads: any[]): string {
+  return formatTable(
+    ['', 'THREAD ID', 'FROM', 'SUBJECT', 'DATE', 'MSGS'],
+    threads.map(t => {
+      const subject = truncate(t.subject || '(no subject)', 60);
+      return [
+        (t.isUnread ? chalk.blue('●') : ' ') + (t.isStarred ? chalk.yellow('★') : ' '),
+        chalk.dim(t.threadId || ''),
+        truncate(t.from || 'Unknown', 30),
+        t.isUnread ? chalk.bold(subject) : subject,
+        chalk.cyan(shortDate(t.date)),
+        t.messageCount > 1 ? String(t.messageCount) : '',
+      ];
+    }),
+    'No threads found.'
+  );
+}
+
+function formatGmailMessageList(messages: any[]): string {
+  return formatTable(
+    ['', 'MESSAGE ID', 'FROM', 'SUBJECT', 'DATE'],
+    messages.map(m => {
+      const subject = truncate(m.subject || '(no subject)', 60);
+      return [
+        (m.isUnread ? chalk.blue('●') : ' ') + (m.isStarred ? chalk.yellow('★') : ' '),
+        chalk.dim(m.messageId || ''),
+        truncate(m.from || 'Unknown', 30),
+        m.isUnread ? chalk.bold(subject) : subject,
+        chalk.cyan(shortDate(m.date)),
+      ];
+    }),
+    'No messages found.'
+  );
+}
+
+function formatGmailThread(thread: any): string {
+  const lines: string[] = [];
+  lines.push(chalk.bold.underline(thread.subject || '(no subject)'));
+  if (thread.labels?.length) lines.push(chalk.dim(`Labels: ${thread.labels.join(', ')}`));
+  lines.push('');
+  for (const m of thread.messages ?? []) {
+    lines.push(chalk.bold(`From: ${m.from || 'Unknown'}`));
+    lines.push(`To: ${m.to || ''}`);
+    if (m.cc) lines.push(`Cc: ${m.cc}`);
+    lines.push(`Date: ${m.date || ''}`);
+    if (m.subject) lines.push(`Subject: ${m.subject}`);
+    for (const a of m.attachments ?? []) {
+      lines.push(chalk.dim(`Attachment: ${a.name} (${a.contentType}, ${formatSize(Number(a.size) || 0)})`));
+    }
+    lines.push('');
+    lines.push(m.text ?? messageBodyText(m));
+    lines.push(chalk.dim('─'.repeat(60)));
   }
-  if (action === 'get' && data.content) {
-    return data.content;
+  return lines.join('\n');
+}
+
+function formatAttachments(attachments: any[]): string {
+  return formatTable(
+    ['#', 'NAME', 'TYPE', 'SIZE'],
+    attachments.map((a, i) => [
+      String(a.index ?? i), chalk.bold(a.name || ''), a.contentType || '', formatSize(Number(a.size) || 0),
+    ]),
+    'No attachments found.'
+  ) + '\n' + chalk.dim('Content is base64-encoded; use --json to retrieve it.');
+}
+
+// ── Calendar ─────────────────────────────────────────────────────
+
+function formatCalendarEvents(events: any[], empty: string): string {
+  return formatTable(
+    ['START', 'END', 'SUMMARY', 'LOCATION', 'EVENT ID'],
+    events.map(e => [
+      chalk.cyan(shortDate(e.start || e.when)),
+      shortDate(e.end),
+      chalk.bold(truncate(e.summary || '(untitled)', 50)),
+      truncate(e.location, 30),
+      chalk.dim(e.eventId || ''),
+    ]),
+    empty
+  );
+}
+
+function formatCalendarEvent(event: any): string {
+  const attendees = (event.attendees ?? [])
+    .map((a: any) => `${a.displayName || a.email} (${a.responseStatus})`)
+    .join(', ');
+  const reminders = event.reminders?.useDefault
+    ? 'default'
+    : (event.reminders?.overrides ?? []).map((r: any) => `${r.method} ${formatMinutes(r.minutes)} before`).join(', ') || 'none';
+  const guestsCan = [event.guestsCanModify && 'modify', event.guestsCanInviteOthers && 'invite others'].filter(Boolean).join(', ');
+  return formatFields([
+    ['Summary', chalk.bold(event.summary || '(untitled)')],
+    ['When', event.allDay
+      ? `${event.start} (all day)`
+      : `${shortDate(event.start)} → ${shortDate(event.end)}`],
+    ['Join', event.conferenceUrl || event.hangoutLink ? chalk.cyan.bold(event.conferenceUrl || event.hangoutLink) : ''],
+    ['Repeats', event.recurrence?.length ? describeRecurrence(event.recurrence) : ''],
+    ['Occurrence of', event.recurringEventId],
+    ['Location', event.location],
+    ['Status', event.status],
+    ['Organizer', event.organizer],
+    ['Attendees', attendees],
+    ['Guests can', event.attendees?.length ? guestsCan || 'only view' : ''],
+    ['Reminders', event.reminders ? reminders : ''],
+    ['Attachments', (event.attachments ?? []).map((a: any) => a.title || a.fileId).join(', ')],
+    ['Link', event.htmlLink],
+    ['Event ID', event.eventId],
+    ['Description', event.description],
+  ]);
+}
+
+function formatIcsImport(data: any): string {
+  const label = (e: any) => `${e.summary || '(untitled)'} ${chalk.dim(`(${shortDate(e.start)}, ${e.uid})`)}`;
+  return [
+    ...(data.created ?? []).map((e: any) => chalk.green(`${data.dryRun ? 'Would create' : 'Created'}: `) + label(e)),
+    ...(data.updated ?? []).map((e: any) =>
+      chalk.yellow(`${data.dryRun ? 'Would update' : 'Updated'}: `) + `${label(e)} — ${e.changes.join(', ')}`),
+    ...(data.skipped ?? []).map((e: any) => chalk.dim(`Skipped (${e.reason}): ${e.summary || e.uid || '(untitled)'}`)),
+    `${data.created?.length ?? 0} ${data.dryRun ? 'to create' : 'created'}, ${data.updated?.length ?? 0} ` +
+      `${data.dryRun ? 'to update' : 'updated'}, ${data.unchanged?.length ?? 0} unchanged, ${data.skipped?.length ?? 0} skipped.`,
+  ].join('\n');
+}
+
+function formatWatchNotice(notice: any): string {
+  const event = notice.event ?? {};
+  const summary = chalk.bold(event.summary || '(untitled)');
+  if (notice.type === 'cancelled') return chalk.red('Cancelled: ') + `${summary} ${chalk.dim(`(was ${shortDate(notice.previousStart)})`)}`;
+  if (notice.type === 'rescheduled') {
+    return chalk.yellow('Rescheduled: ') + `${summary} ${shortDate(notice.previousStart)} → ${shortDate(event.start)}`;
   }
-  return JSON.stringify(data, null, 2);
+  const when = notice.minutesToStart > 0 ? `in ${formatMinutes(notice.minutesToStart)}` : 'now';
+  const details = [shortDate(event.start), event.location].filter(Boolean).join(', ');
+  return withJoinLink(event, chalk.cyan.bold(`Starting ${when}: `) + `${summary} ${chalk.dim(`(${details})`)}`);
 }
 
-function formatContacts(data: any, action: string): string {
-  if (action === 'list' && Array.isArray(data.contacts)) {
-    const lines: string[] = [];
-    for (const c of data.contacts) {
-      const name = chalk.bold(c.name || '(unnamed)');
-      const email = c.email ? chalk.cyan(c.email) : '';
-      const phone = c.phone ? chalk.dim(c.phone) : '';
-      lines.push(`${name}  ${email}  ${phone}`);
+/** A created or updated event's message, with its video call link underneath. */
+function withJoinLink(event: any, message: string): string {
+  const url = event.conferenceUrl || event.hangoutLink;
+  return url ? `${message}\n${chalk.cyan.bold(`Join: ${url}`)}` : message;
+}
+
+/** 1440 → 1d, 90 → 1h30m. */
+function formatMinutes(minutes: number): string {
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const rest = minutes % 60;
+  return [days && `${days}d`, hours && `${hours}h`, rest && `${rest}m`].filter(Boolean).join('') || '0m';
+}
+
+/** Notes a change that also reached the later occurrences of a series. */
+function scopeNote(scope: string | undefined, count?: number, until?: string): string {
+  if (scope !== 'following') return '';
+  const through = until ? ` through ${shortDate(until)}` : '';
+  return count === undefined ? ' and following occurrences' : ` and following occurrences${through} (${count})`;
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const RSVP_MARKS: Record<string, string> = {
+  accepted: chalk.green('✓'),
+  tentative: chalk.yellow('?'),
+  declined: chalk.dim('✗'),
+  needsAction: chalk.magenta('!'),
+};
+
+/**
+ * Events grouped under day headings, times in the view's zone. Merged
+ * calendars get a coloured dot each; RSVP marks: ✓ accepted, ? maybe,
+ * ✗ declined, ! not answered.
+ */
+function formatAgenda(data: any): string {
+  const calendars: any[] = data.calendars ?? [];
+  const merged = calendars.length > 1;
+  const dot = (calendarId: string) => {
+    const color = calendars.find(c => c.id === calendarId)?.color;
+    return color ? chalk.hex(color)('●') : '●';
+  };
+  const time = new Intl.DateTimeFormat('en-GB', { timeZone: data.timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+  const summaries = new Map<string, string>();
+  for (const day of data.days ?? []) for (const e of day.events) summaries.set(e.eventId, e.summary || '(untitled)');
+
+  const lines: string[] = [];
+  if (merged) lines.push(calendars.map(c => `${dot(c.id)} ${c.summary}`).join('  '), '');
+  for (const day of data.days ?? []) {
+    if (data.view === 'agenda' && day.events.length === 0) continue;
+    const date = new Date(`${day.date}T00:00:00Z`);
+    const title = `${WEEKDAY_NAMES[date.getUTCDay()]} ${date.getUTCDate()} ${MONTH_NAMES[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+    lines.push(chalk.bold(title) + (day.date === data.today ? chalk.cyan(' (today)') : ''));
+    if (day.events.length === 0) lines.push(chalk.dim('  No events'));
+    for (const e of day.events) {
+      let when = 'all day';
+      if (!e.allDay) {
+        // Events running over midnight show … on the side in another day.
+        const start = new Date(e.start);
+        const end = new Date(e.end);
+        const from = formatDate(start, data.timeZone) === day.date ? time.format(start) : '…';
+        const to = formatDate(new Date(end.getTime() - 1), data.timeZone) === day.date ? time.format(end) : '…';
+        when = `${from}–${to}`;
+      }
+      const summary = e.responseStatus === 'declined'
+        ? chalk.dim.strikethrough(e.summary || '(untitled)')
+        : chalk.bold(e.summary || '(untitled)');
+      const parts = [
+        `  ${chalk.cyan(when.padEnd(11))}`,
+        RSVP_MARKS[e.responseStatus] ?? ' ',
+        ...(merged ? [dot(e.calendarId)] : []),
+        summary + (e.location ? chalk.dim(` · ${e.location}`) : ''),
+      ];
+      if (e.overlapsWith?.length) {
+        parts.push(chalk.red(`⚠ overlaps ${e.overlapsWith.map((id: string) => summaries.get(id) ?? id).join(', ')}`));
+      }
+      lines.push(parts.join(' '));
     }
-    return lines.length > 0 ? lines.join('\n') : chalk.dim('No contacts found.');
   }
-  return JSON.stringify(data, null, 2);
+  if (data.view === 'agenda' && (data.days ?? []).every((day: any) => day.events.length === 0)) {
+    lines.push(chalk.dim(`No events in the next ${(data.days ?? []).length} days.`));
+  }
+  return lines.join('\n');
 }
 
-function formatTasks(data: any, action: string): string {
-  if (action === 'list' && Array.isArray(data.tasks)) {
-    const lines: string[] = [];
-    for (const t of data.tasks) {
-      const status = t.completed ? chalk.green('✓') : chalk.dim('○');
-      const title = t.title || '(untitled)';
-      const due = t.due ? chalk.dim(` due ${t.due}`) : '';
-      lines.push(`${status} ${title}${due}`);
+/**
+ * Ranked free slots in the organizer's zone, with each attendee's local
+ * start time where their zone differs.
+ */
+function formatFindTime(data: any): string {
+  const attendees: any[] = data.attendees ?? [];
+  const table = formatTable(
+    ['RANK', 'WHEN', 'SCORE', 'LOCAL TIMES'],
+    (data.slots ?? []).map((slot: any) => [
+      String(slot.rank),
+      chalk.cyan(slotLabel(slot, data.timeZone)),
+      `${Math.round(slot.score * 100)}%`,
+      attendees
+        .filter(a => a.timeZone !== data.timeZone)
+        .map(a => `${a.id} ${String(slot.local?.[a.id] ?? '').slice(11, 16)}`)
+        .join(', '),
+    ]),
+    `No free ${data.duration}-minute slot within working hours.`
+  );
+  const notes = attendees.flatMap(a => [
+    ...(a.error ? [chalk.yellow(`${a.id}: ${a.error}; treated as free`)] : []),
+    ...(!a.zoneKnown && a.id !== 'primary' ? [chalk.dim(`${a.id}: time zone not shared; used ${data.timeZone}`)] : []),
+  ]);
+  const heading = chalk.dim(`${data.duration} min, ${data.workingHours} working hours, times in ${data.timeZone}`);
+  return [heading, table, ...notes].join('\n');
+}
+
+function formatFreebusy(calendars: Record<string, any>): string {
+  const rows: string[][] = [];
+  for (const [id, cal] of Object.entries(calendars)) {
+    if (cal.errors?.length) {
+      rows.push([chalk.bold(id), chalk.red(cal.errors.map((e: any) => e.reason).join(', ')), '']);
+      continue;
     }
-    return lines.length > 0 ? lines.join('\n') : chalk.dim('No tasks found.');
+    if (!cal.busy?.length) {
+      rows.push([chalk.bold(id), chalk.green('free'), '']);
+      continue;
+    }
+    for (const slot of cal.busy) {
+      rows.push([chalk.bold(id), chalk.cyan(shortDate(slot.start)), chalk.cyan(shortDate(slot.end))]);
+    }
+  }
+  return formatTable(['CALENDAR', 'BUSY FROM', 'BUSY UNTIL'], rows, 'No calendars queried.');
+}
+
+// ── Drive ────────────────────────────────────────────────────────
+
+function formatDriveFiles(files: any[]): string {
+  return formatTable(
+    ['NAME', 'TYPE', 'MODIFIED', 'SIZE', 'FILE ID'],
+    files.map(f => [
+      chalk.bold(truncate(f.name || '(unnamed)', 50)),
+      chalk.dim(f.mimeType || f.type || ''),
+      shortDate(f.modifiedDate || f.modifiedTime || f.modified),
+      f.size ? formatSize(Number(f.size)) : '',
+      chalk.dim(f.fileId || f.id || ''),
+    ]),
+    'No files found.'
+  );
+}
+
+function formatDriveFile(file: any): string {
+  return formatFields([
+    ['Name', chalk.bold(file.name || '(unnamed)')],
+    ['File ID', file.fileId],
+    ['Type', file.mimeType],
+    ['Size', file.size ? formatSize(Number(file.size)) : ''],
+    ['Owners', (file.owners ?? []).join(', ')],
+    ['Created', shortDate(file.createdDate)],
+    ['Modified', shortDate(file.modifiedDate)],
+    ['Shared', file.shared ? 'yes' : ''],
+    ['Link', file.webViewLink],
+  ]);
+}
+
+// ── Sheets ───────────────────────────────────────────────────────
+
+function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
   }
-  return JSON.stringify(data, null, 2);
+  return letters;
+}
+
+/**
+ * Zero-based column and one-based row of the top-left cell of an A1 range.
+ */
+function rangeOrigin(range: string | undefined): { col: number; row: number } {
+  const cells = range?.includes('!') ? range.slice(range.lastIndexOf('!') + 1) : range ?? '';
+  const match = /^\$?([A-Za-z]{1,3})\$?(\d+)?(?::|$)/.exec(cells);
+  if (!match) return { col: 0, row: 1 };
+  let col = 0;
+  for (const ch of match[1].toUpperCase()) col = col * 26 + (ch.charCodeAt(0) - 64);
+  return { col: col - 1, row: match[2] ? Number(match[2]) : 1 };
+}
+
+function formatValueGrid(values: any[][], range?: string): string {
+  if (values.length === 0) return chalk.dim('No values found.');
+  const origin = rangeOrigin(range);
+  const width = Math.max(...values.map(row => row.length));
+  const headers = [''];
+  for (let i = 0; i < width; i++) headers.push(columnLetter(origin.col + i));
+  const rows = values.map((row, r) => [
+    chalk.dim(String(origin.row + r)),
+    ...Array.from({ length: width }, (_, c) => (row[c] === undefined || row[c] === null ? '' : String(row[c]))),
+  ]);
+  const lines = [formatTable(headers, rows, '')];
+  if (range) lines.unshift(chalk.dim(range));
+  return lines.join('\n');
+}
+
+function formatSheetUpdate(data: any): string {
+  const cells = data.updatedCells !== undefined ? ` (${data.updatedCells} cells)` : '';
+  return chalk.green(`Updated: ${data.updatedRange || ''}${cells}`);
+}
+
+// ── Contacts, Tasks, Chat, Classroom, Admin ──────────────────────
+
+function formatContacts(contacts: any[]): string {
+  return formatTable(
+    ['NAME', 'EMAIL', 'PHONE', 'ORGANIZATION'],
+    contacts.map(c => [
+      chalk.bold(c.displayName || c.name || '(unnamed)'),
+      chalk.cyan(c.emails?.[0]?.value ?? c.email ?? ''),
+      c.phones?.[0]?.value ?? c.phone ?? '',
+      c.organizations?.[0]?.name ?? '',
+    ]),
+    'No contacts found.'
+  );
+}
+
+function formatPerson(person: any): string {
+  const list = (items: any[] | undefined) =>
+    (items ?? []).map(i => (i.type ? `${i.value} (${i.type})` : i.value)).join(', ');
+  return formatFields([
+    ['Name', chalk.bold(person.displayName || '(unnamed)')],
+    ['Emails', list(person.emails)],
+    ['Phones', list(person.phones)],
+    ['Organizations', (person.organizations ?? [])
+      .map((o: any) => (o.title ? `${o.title}, ${o.name}` : o.name)).join('; ')],
+    ['Resource', person.resourceName],
+  ]);
+}
+
+function formatTasks(tasks: any[]): string {
+  if (tasks.length === 0) return chalk.dim('No tasks found.');
+  const lines: string[] = [];
+  for (const t of tasks) {
+    const done = t.status === 'completed' || t.completed === true;
+    const status = done ? chalk.green('✓') : chalk.dim('○');
+    const title = t.title || '(untitled)';
+    const due = t.due ? chalk.dim(` due ${shortDate(t.due)}`) : '';
+    const indent = t.parent ? '  ' : '';
+    lines.push(`${indent}${status} ${title}${due}`);
+  }
+  return lines.join('\n');
+}
+
+function formatChatSpaces(spaces: any[]): string {
+  return formatTable(
+    ['SPACE', 'NAME', 'TYPE'],
+    spaces.map(s => [chalk.dim(s.name), chalk.bold(s.displayName || '(direct message)'), s.type || '']),
+    'No spaces found.'
+  );
+}
+
+function formatCourse(course: any): string {
+  return formatFields([
+    ['Name', chalk.bold(course.name || '')],
+    ['Course ID', course.courseId],
+    ['Section', course.section],
+    ['Room', course.room],
+    ['State', course.courseState],
+    ['Enrollment code', course.enrollmentCode],
+    ['Link', course.alternateLink],
+  ]);
+}
+
+function formatRoster(roster: any): string {
+  const rows = [
+    ...(roster.teachers ?? []).map((p: any) => [chalk.cyan('teacher'), p]),
+    ...(roster.students ?? []).map((p: any) => ['student', p]),
+  ].map(([role, p]) => [role, chalk.bold(p.fullName || ''), p.emailAddress || '', chalk.dim(p.userId)]);
+  return formatTable(['ROLE', 'NAME', 'EMAIL', 'USER ID'], rows, 'Nobody enrolled.');
+}
+
+function formatDueDate(date: any, time: any): string {
+  if (!date) return '';
+  const pad = (n: number | undefined) => String(n ?? 0).padStart(2, '0');
+  const day = `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+  return time ? `${day} ${pad(time.hours)}:${pad(time.minutes)} UTC` : day;
+}
+
+function formatIpList(ips: string[]): string {
+  if (ips.length === 0) return chalk.dim('IP allowlist is empty (all IPs allowed).');
+  return ips.join('\n');
 }
 
 export function formatError(error: { code: string; message: string }): string {
   return chalk.red(`Error [${error.code}]: ${error.message}`);
 }
 
+type ResultListener = (result: CommandResult, service: string, action: string) => void;
+
+let resultListener: ResultListener | null = null;
+
+/**
+ * Observe every result passed to printResult() (gproxy shell keeps the last one as $_).
+ */
+export function setResultListener(listener: ResultListener | null): void {
+  resultListener = listener;
+}
+
 export function printResult(
   result: CommandResult,
   mode: OutputMode,
   service: string,
-  action: string
+  action: string,
+  options: OutputOptions = {}
 ): void {
+  resultListener?.(result, service, action);
   if (result.ok) {
-    const output = formatOutput(result, mode, service, action);
+    const output = formatOutput(result, mode, service, action, options);
     if (output) {
       process.stdout.write(output + '\n');
     }
@@ -0,0 +1,73 @@
+import { Command, Option } from 'commander';
+import { registerGmailCommands } from './commands/gmail.js';
+import { registerCalendarCommands } from './commands/calendar.js';
+import { registerDriveCommands } from './commands/drive.js';
+import { registerDocsCommands } from './commands/docs.js';
+import { registerSheetsCommands } from './commands/sheets.js';
+import { registerSlidesCommands } from './commands/slides.js';
+import { registerContactsCommands } from './commands/contacts.js';
+import { registerTasksCommands } from './commands/tasks.js';
+import { registerPeopleCommands } from './commands/people.js';
+import { registerGroupsCommands } from './commands/groups.js';
+import { registerChatCommands } from './commands/chat.js';
+import { registerClassroomCommands } from './commands/classroom.js';
+import { registerAdminCommands } from './commands/admin.js';
+import { registerSetupCommand } from './commands/setup.js';
+import { registerProfileCommands } from './commands/profile.js';
+import { registerBatchCommand } from './commands/batch.js';
+import { registerDevCommands } from './commands/dev.js';
+import { registerShellCommand } from './commands/shell.js';
+import { registerCompletionCommands } from './commands/completion.js';
+import { registerDeployCommand } from './deploy/index.js';
+import { parseColumnsOption, parseSelectOption } from './commands/helpers.js';
+import { OUTPUT_MODES } from './output.js';
+
+/**
+ * Build the gproxy command tree. gproxy shell builds a fresh tree per line,
+ * because commander keeps parsed option values on the command objects.
+ */
+export function createProgram(): Command {
+  const program = new Command();
+
+  program
+    .name('gproxy')
+    .description('Google Workspace CLI via Apps Script Proxy')
+    .version('1.0.0')
+    .option('--json', 'Output as JSON')
+    .option('--plain', 'Output as plain text (no colors)')
+    .addOption(new Option('--output <format>', 'Output format (overrides --json/--plain)').choices(OUTPUT_MODES))
+    .option('--columns <fields>', 'Comma-separated fields to show (e.g. id,name,modifiedDate)', parseColumnsOption)
+    .option('--no-header', 'Omit the header row in table, csv and tsv output')
+    .option('--select <path>', 'JSONPath-style projection of the response (e.g. $.files[*].name); --query stays the search filter', parseSelectOption)
+    .option('--proxy-url <url>', 'Apps Script web app URL')
+    .option('--secret <key>', 'JWT shared secret')
+    .option('--profile <name>', 'Configuration profile (default: GPROXY_PROFILE or current profile)')
+    .option('--allow-http', 'Allow http:// proxy URLs on localhost (for gproxy dev mock-proxy)')
+    .option('--verbose', 'Show request/response details')
+    .option('--timeout <ms>', 'Request timeout in ms', '330000')
+    .option('--retry <n>', 'Max retries', '3');
+
+  // Register all service commands
+  registerGmailCommands(program);
+  registerCalendarCommands(program);
+  registerDriveCommands(program);
+  registerDocsCommands(program);
+  registerSheetsCommands(program);
+  registerSlidesCommands(program);
+  registerContactsCommands(program);
+  registerTasksCommands(program);
+  registerPeopleCommands(program);
+  registerGroupsCommands(program);
+  registerChatCommands(program);
+  registerClassroomCommands(program);
+  registerAdminCommands(program);
+  registerSetupCommand(program);
+  registerProfileCommands(program);
+  registerBatchCommand(program);
+  registerDevCommands(program);
+  registerShellCommand(program, createProgram);
+  registerCompletionCommands(program);
+  registerDeployCommand(program);
+
+  return program;
+}
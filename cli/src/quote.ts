@@ -0,0 +1,103 @@
+import { escapeHtml } from './markdown.js';
+
+/**
+ * Quoting for `gmail reply`, `reply-all` and `forward`: the new text goes on
+ * top and the original follows, as `> ` lines in the plain body and as a
+ * Gmail-style quote block in the HTML body, so either view reads naturally.
+ */
+
+/** The fields of a `gmail get` message that quoting uses. */
+export interface OriginalMessage {
+  from: string;
+  to: string;
+  cc?: string;
+  date: string;
+  body: string;
+  bodyHtml?: string;
+}
+
+export interface MailBody {
+  body?: string;
+  bodyHtml?: string;
+}
+
+export interface QuoteOptions {
+  /** Time zone for the attribution date (defaults to the local one). */
+  timeZone?: string;
+}
+
+const QUOTE_STYLE = 'margin:0px 0px 0px 0.8ex;border-left:1px solid rgb(204,204,204);padding-left:1ex';
+const FORWARD_MARKER = '---------- Forwarded message ---------';
+
+/** e.g. "Mon, Mar 2, 2026 at 9:15 AM" */
+export function formatQuoteDate(date: string, options: QuoteOptions = {}): string {
+  const d = new Date(date);
+  const day = d.toLocaleDateString('en-US', {
+    weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: options.timeZone,
+  });
+  const time = d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: options.timeZone });
+  return `${day} at ${time}`;
+}
+
+export function textToHtml(text: string): string {
+  return escapeHtml(text).replace(/\r?\n/g, '<br>\n');
+}
+
+/** Prefix each line with "> ", or just ">" for lines that are already quoted or empty. */
+export function quoteText(text: string): string {
+  return text.replace(/\r\n?/g, '\n').replace(/\n+$/, '').split('\n')
+    .map(line => (line === '' || line.startsWith('>') ? `>${line}` : `> ${line}`))
+    .join('\n');
+}
+
+function newText(mail: MailBody): string {
+  return mail.body ? `${mail.body.replace(/\n+$/, '')}\n\n` : '';
+}
+
+function newHtml(mail: MailBody): string {
+  if (mail.bodyHtml !== undefined) return `${mail.bodyHtml}<br>`;
+  return mail.body ? `<div dir="ltr">${textToHtml(mail.body)}</div><br>` : '';
+}
+
+function originalHtml(original: OriginalMessage): string {
+  return original.bodyHtml || `<div dir="ltr">${textToHtml(original.body)}</div>`;
+}
+
+/** Put the reply on top of the original, quoted in both bodies. */
+export function quoteReply<T extends MailBody>(original: OriginalMessage, mail: T, options: QuoteOptions = {}): T {
+  const attribution = `On ${formatQuoteDate(original.date, options)}, ${original.from} wrote:`;
+  return {
+    ...mail,
+    body: `${newText(mail)}${attribution}\n${quoteText(original.body)}\n`,
+    bodyHtml: `${newHtml(mail)}<div class="gmail_quote">` +
+      `<div dir="ltr" class="gmail_attr">${escapeHtml(attribution)}<br></div>` +
+      `<blockquote class="gmail_quote" style="${QUOTE_STYLE}">${originalHtml(original)}</blockquote></div>`,
+  };
+}
+
+/** Put the note on top of a "Forwarded message" header and the original body. */
+export function quoteForward<T extends MailBody>(
+  original: OriginalMessage,
+  subject: string,
+  mail: T,
+  options: QuoteOptions = {}
+): T {
+  const fields: [string, string][] = [
+    ['From', original.from],
+    ['Date', formatQuoteDate(original.date, options)],
+    ['Subject', subject],
+    ['To', original.to],
+  ];
+  if (original.cc) fields.push(['Cc', original.cc]);
+
+  const header = fields.map(([name, value]) => `${name}: ${value}`).join('\n');
+  const htmlHeader = fields
+    .map(([name, value]) => `${name}: ${name === 'From' ? `<strong>${escapeHtml(value)}</strong>` : escapeHtml(value)}<br>`)
+    .join('');
+  return {
+    ...mail,
+    body: `${newText(mail)}${FORWARD_MARKER}\n${header}\n\n${original.body.replace(/\n+$/, '')}\n`,
+    bodyHtml: `${newHtml(mail)}<div class="gmail_quote">` +
+      `<div dir="ltr" class="gmail_attr">${FORWARD_MARKER}<br>${htmlHeader}</div><br>${originalHtml(original)}</div>`,
+  };
+}
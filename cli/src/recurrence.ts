@@ -0,0 +1,187 @@
+import { formatDate, parseDate, parseDateTime, resolveTimeZone } from './dates.js';
+import type { DateOptions } from './dates.js';
+
+/**
+ * Recurring events: turn `--repeat` ("weekly on mon,wed until 2026-12-31")
+ * or a raw `--rrule` into the RRULE lines the Calendar API stores, and
+ * describe those lines again for `events get`.
+ */
+
+export const RECURRENCE_SCOPES = ['this', 'following', 'all'] as const;
+
+export interface RepeatOptions extends DateOptions {
+  /** All-day series take a date-only UNTIL. */
+  allDay?: boolean;
+}
+
+const FREQUENCIES: Record<string, string> = {
+  daily: 'DAILY', day: 'DAILY',
+  weekly: 'WEEKLY', week: 'WEEKLY',
+  monthly: 'MONTHLY', month: 'MONTHLY',
+  yearly: 'YEARLY', annually: 'YEARLY', year: 'YEARLY',
+};
+const UNITS: Record<string, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+const WEEKDAYS: [string, string][] = [
+  ['SU', 'Sun'], ['MO', 'Mon'], ['TU', 'Tue'], ['WE', 'Wed'], ['TH', 'Thu'], ['FR', 'Fri'], ['SA', 'Sat'],
+];
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const ORDINALS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, last: -1 };
+const ORDINAL_NAMES: Record<string, string> = { '1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '-1': 'last' };
+
+const REPEAT_EXAMPLES = '"weekly on mon,wed until 2026-12-31", "every 2 weeks", "monthly on the first monday 6 times"';
+
+/**
+ * Parse the friendly repeat syntax into RRULE lines. "none" gives an empty
+ * list, which stops an event repeating.
+ */
+export function parseRepeat(value: string, options: RepeatOptions = {}): string[] {
+  let text = value.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (text === 'none' || text === 'never') return [];
+  const fail = (): never => {
+    throw new Error(`Cannot parse --repeat "${value}"; try e.g. ${REPEAT_EXAMPLES}, or use --rrule`);
+  };
+  const parts: string[] = [];
+
+  let count: number | undefined;
+  const times = /\s(?:for\s)?(\d+)\stimes$/.exec(text);
+  if (times) {
+    count = Number(times[1]);
+    text = text.slice(0, times.index);
+  }
+  let until: string | undefined;
+  const untilMatch = /\suntil\s(.+)$/.exec(text);
+  if (untilMatch) {
+    until = untilMatch[1];
+    text = text.slice(0, untilMatch.index);
+  }
+
+  let freq: string | undefined;
+  let days: string | undefined;
+  let rest = '';
+  let match: RegExpExecArray | null;
+  if ((match = /^(daily|weekly|monthly|yearly|annually)(?:\s(.*))?$/.exec(text))) {
+    freq = FREQUENCIES[match[1]];
+    rest = match[2] ?? '';
+  } else if ((match = /^(?:every\s)?weekdays?$/.exec(text))) {
+    freq = 'WEEKLY';
+    days = 'MO,TU,WE,TH,FR';
+  } else if ((match = /^every\s(?:(\d+)\s)?(day|week|month|year)s?(?:\s(.*))?$/.exec(text))) {
+    freq = FREQUENCIES[match[2]];
+    const interval = Number(match[1] ?? 1);
+    if (interval < 1) fail();
+    if (interval > 1) parts.push(`INTERVAL=${interval}`);
+    rest = match[3] ?? '';
+  } else if ((match = /^every\s(.+)$/.exec(text))) {
+    freq = 'WEEKLY';
+    days = weekdayList(match[1]) ?? fail();
+  } else {
+    fail();
+  }
+
+  if (rest) {
+    const on = /^on\s(?:the\s)?(.+)$/.exec(rest) ?? fail();
+    const what = on[1];
+    let nth: RegExpExecArray | null;
+    if (freq === 'MONTHLY' && what === 'last day') {
+      parts.push('BYMONTHDAY=-1');
+    } else if (freq === 'MONTHLY' && (nth = /^(\d{1,2})(?:st|nd|rd|th)?$/.exec(what))) {
+      const day = Number(nth[1]);
+      if (day < 1 || day > 31) fail();
+      parts.push(`BYMONTHDAY=${day}`);
+    } else if (freq === 'MONTHLY' && (nth = /^(first|second|third|fourth|last)\s(\w+)$/.exec(what))) {
+      const day = weekdayList(nth[2]) ?? fail();
+      parts.push(`BYDAY=${ORDINALS[nth[1]]}${day}`);
+    } else if (freq === 'WEEKLY' || freq === 'DAILY') {
+      days = weekdayList(what) ?? fail();
+    } else {
+      fail();
+    }
+  }
+  if (days) parts.push(`BYDAY=${days}`);
+
+  if (count !== undefined && until !== undefined) throw new Error('Use either "until" or "N times" in --repeat, not both');
+  if (count !== undefined) {
+    if (count < 1) fail();
+    parts.push(`COUNT=${count}`);
+  }
+  if (until !== undefined) parts.push(`UNTIL=${untilStamp(until, options)}`);
+  return [`RRULE:${['FREQ=' + freq, ...parts].join(';')}`];
+}
+
+/** A raw RRULE, with or without the "RRULE:" prefix. */
+export function parseRrule(value: string): string[] {
+  const rule = value.trim().replace(/^RRULE:/i, '').toUpperCase();
+  if (!/^([A-Z]+=[^;=]+;)*[A-Z]+=[^;=]+$/.test(rule) || !/(^|;)FREQ=(SECONDLY|MINUTELY|HOURLY|DAILY|WEEKLY|MONTHLY|YEARLY)(;|$)/.test(rule)) {
+    throw new Error(`Invalid --rrule "${value}"; expected e.g. FREQ=WEEKLY;BYDAY=MO,WE`);
+  }
+  return [`RRULE:${rule}`];
+}
+
+/**
+ * The recurrence lines for --repeat or --rrule, or undefined when neither
+ * is given.
+ */
+export function recurrenceLines(opts: { repeat?: string; rrule?: string }, options: RepeatOptions = {}): string[] | undefined {
+  if (opts.repeat !== undefined && opts.rrule !== undefined) throw new Error('Use either --repeat or --rrule, not both');
+  if (opts.repeat !== undefined) return parseRepeat(opts.repeat, options);
+  if (opts.rrule !== undefined) return parseRrule(opts.rrule);
+  return undefined;
+}
+
+/** --exdate: comma-separated days to skip, as YYYY-MM-DD. */
+export function parseExdates(value: string, options: DateOptions = {}): string[] {
+  return value.split(',').map(d => d.trim()).filter(Boolean).map(d => parseDate(d, options));
+}
+
+/**
+ * Recurrence lines as text, e.g. "every 2 weeks on Mon, Wed until
+ * 2026-12-31, except 2026-03-11". UNTIL times are shown as days in the zone.
+ */
+export function describeRecurrence(lines: string[], timeZone?: string): string {
+  const rule = lines.find(l => /^RRULE:/i.test(l));
+  const exdates = lines
+    .filter(l => /^EXDATE/i.test(l))
+    .flatMap(l => l.slice(l.indexOf(':') + 1).split(','))
+    .map(d => `${d.slice(0, 4)}-${d.slice(4, 6)}-${d.slice(6, 8)}`);
+  if (!rule) return lines.join('; ');
+
+  const fields = Object.fromEntries(rule.slice(6).split(';').map(p => p.split('=') as [string, string]));
+  const unit = UNITS[fields.FREQ] ?? fields.FREQ?.toLowerCase();
+  const interval = Number(fields.INTERVAL ?? 1);
+  let text = interval > 1 ? `every ${interval} ${unit}s` : ({ day: 'daily', week: 'weekly', month: 'monthly', year: 'yearly' } as Record<string, string>)[unit] ?? `every ${unit}`;
+
+  if (fields.BYDAY) {
+    const days = fields.BYDAY.split(',').map((d: string) => {
+      const parsed = /^([+-]?\d+)?([A-Z]{2})$/.exec(d);
+      const name = WEEKDAYS.find(([code]) => code === parsed?.[2])?.[1] ?? d;
+      return parsed?.[1] ? `the ${ORDINAL_NAMES[String(Number(parsed[1]))] ?? parsed[1]} ${name}` : name;
+    });
+    text = fields.BYDAY === 'MO,TU,WE,TH,FR' && interval === 1 ? 'every weekday' : `${text} on ${days.join(', ')}`;
+  }
+  if (fields.BYMONTHDAY) text += fields.BYMONTHDAY === '-1' ? ' on the last day' : ` on day ${fields.BYMONTHDAY}`;
+  if (fields.COUNT) text += `, ${fields.COUNT} times`;
+  if (fields.UNTIL) {
+    const u = fields.UNTIL;
+    const day = `${u.slice(0, 4)}-${u.slice(4, 6)}-${u.slice(6, 8)}`;
+    text += ` until ${u.length > 8 ? formatDate(new Date(`${day}T${u.slice(9, 11)}:${u.slice(11, 13)}:${u.slice(13, 15)}Z`), resolveTimeZone(timeZone)) : day}`;
+  }
+  if (exdates.length) text += `, except ${exdates.join(', ')}`;
+  return text;
+}
+
+/** "mon,wed", "monday and friday" → MO,WE / MO,FR. */
+function weekdayList(text: string): string | undefined {
+  const names = text.split(/\s*(?:,|\band\b)\s*/).filter(Boolean);
+  const codes = names.map(name => {
+    const index = DAY_NAMES.findIndex(day => name.length >= 2 && day.startsWith(name));
+    return index === -1 ? undefined : WEEKDAYS[index][0];
+  });
+  return codes.length && codes.every(Boolean) ? codes.join(',') : undefined;
+}
+
+/** The last second of the until day, as an iCalendar UTC stamp (or the bare day for all-day series). */
+function untilStamp(value: string, options: RepeatOptions): string {
+  if (options.allDay) return parseDate(value, options).replace(/-/g, '');
+  const end = parseDateTime(value, { ...options, end: true });
+  return new Date(end.getTime() - 1000).toISOString().replace(/\.\d{3}/, '').replace(/[-:]/g, '');
+}
@@ -0,0 +1,123 @@
+/**
+ * JSONPath-style projection for --select.
+ *
+ * Supported syntax (a practical subset of JSONPath):
+ *   $                 the response data (optional prefix)
+ *   .name ['name']    object field
+ *   [0] [-1]          array index (negative counts from the end)
+ *   [*] .*            every array element / object value
+ *   [id,name]         pick several fields into a new object
+ *
+ * e.g. `$.files[*][fileId,name]` or `events[0].summary`.
+ *
+ * The flag is --select, not --query: Commander matches root options anywhere
+ * on the command line, so a global --query would take the search filter away
+ * from `gmail search`, `drive list`, `calendar events list` and friends.
+ */
+
+export type SelectStep =
+  | { type: 'field'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'pick'; names: string[] };
+
+const NAME_RE = /^[A-Za-z_$][\w$-]*/;
+
+function unquote(token: string): string {
+  const t = token.trim();
+  if ((t.startsWith("'") && t.endsWith("'")) || (t.startsWith('"') && t.endsWith('"'))) {
+    return t.slice(1, -1);
+  }
+  return t;
+}
+
+/**
+ * Parse a --select path. Throws on syntax errors.
+ */
+export function parseSelectPath(path: string): SelectStep[] {
+  const steps: SelectStep[] = [];
+  let rest = path.trim();
+  if (rest.startsWith('$')) rest = rest.slice(1);
+  if (!rest) return steps;
+
+  // A leading bare name is shorthand for `$.name`
+  if (!rest.startsWith('.') && !rest.startsWith('[')) rest = '.' + rest;
+
+  while (rest) {
+    if (rest.startsWith('.*')) {
+      steps.push({ type: 'wildcard' });
+      rest = rest.slice(2);
+      continue;
+    }
+
+    if (rest.startsWith('.')) {
+      const match = NAME_RE.exec(rest.slice(1));
+      if (!match) throw new Error(`Invalid --select path "${path}": expected a field name after "."`);
+      steps.push({ type: 'field', name: match[0] });
+      rest = rest.slice(1 + match[0].length);
+      continue;
+    }
+
+    if (rest.startsWith('[')) {
+      const end = rest.indexOf(']');
+      if (end === -1) throw new Error(`Invalid --select path "${path}": missing "]"`);
+      const inner = rest.slice(1, end).trim();
+      rest = rest.slice(end + 1);
+
+      if (inner === '*') {
+        steps.push({ type: 'wildcard' });
+      } else if (/^-?\d+$/.test(inner)) {
+        steps.push({ type: 'index', index: Number(inner) });
+      } else {
+        const names = inner.split(',').map(unquote).filter(Boolean);
+        if (names.length === 0) throw new Error(`Invalid --select path "${path}": empty brackets`);
+        steps.push(names.length === 1 ? { type: 'field', name: names[0] } : { type: 'pick', names });
+      }
+      continue;
+    }
+
+    throw new Error(`Invalid --select path "${path}" near "${rest}"`);
+  }
+
+  return steps;
+}
+
+/**
+ * Apply a --select path to response data. Paths containing a wildcard return
+ * an array of matches; other paths return the single match (or null).
+ */
+export function selectPath(data: any, path: string): any {
+  const steps = parseSelectPath(path);
+  let values: any[] = [data];
+
+  for (const step of steps) {
+    const next: any[] = [];
+    for (const value of values) {
+      if (value === null || typeof value !== 'object') continue;
+      switch (step.type) {
+        case 'field':
+          if (!Array.isArray(value) && step.name in value) next.push(value[step.name]);
+          break;
+        case 'index':
+          if (Array.isArray(value)) {
+            const i = step.index < 0 ? value.length + step.index : step.index;
+            if (i >= 0 && i < value.length) next.push(value[i]);
+          }
+          break;
+        case 'wildcard':
+          next.push(...(Array.isArray(value) ? value : Object.values(value)));
+          break;
+        case 'pick': {
+          const picked: Record<string, any> = {};
+          for (const name of step.names) picked[name] = value[name] ?? null;
+          next.push(picked);
+          break;
+        }
+      }
+    }
+    values = next;
+  }
+
+  if (steps.some(step => step.type === 'wildcard')) return values;
+  return values.length > 0 ? values[0] : null;
+}
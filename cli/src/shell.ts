@@ -0,0 +1,288 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import readline from 'node:readline';
+import { PassThrough } from 'node:stream';
+import type tty from 'node:tty';
+import chalk from 'chalk';
+import { Command, CommanderError } from 'commander';
+import { completeWords } from './completion.js';
+import { setResultListener } from './output.js';
+import { selectPath } from './select.js';
+
+export const HISTORY_FILE = path.join(os.homedir(), '.gproxy', 'history');
+const HISTORY_SIZE = 1000;
+
+const LAST_RESULT_RE = /^\$_((?:\.[A-Za-z_$][\w$-]*|\.\*|\[[^\]]*\])*)/;
+
+/**
+ * Split a shell line into arguments. Supports 'single' and "double" quotes
+ * and backslash escapes. Outside single quotes, `$_` references are replaced
+ * through `expand` (e.g. `$_.files[0].fileId`). Throws on an open quote.
+ */
+export function splitCommandLine(line: string, expand?: (ref: string) => string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let inArg = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+
+    if (quote === "'") {
+      if (ch === "'") quote = null;
+      else current += ch;
+      continue;
+    }
+
+    if (ch === '\\' && i + 1 < line.length && (quote === null || '"\\$'.includes(line[i + 1]))) {
+      current += line[++i];
+      inArg = true;
+      continue;
+    }
+
+    if (ch === '$' && expand) {
+      const match = LAST_RESULT_RE.exec(line.slice(i));
+      if (match) {
+        current += expand(match[0]);
+        inArg = true;
+        i += match[0].length - 1;
+        continue;
+      }
+    }
+
+    if (quote === '"') {
+      if (ch === '"') quote = null;
+      else current += ch;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+      inArg = true;
+    } else if (/\s/.test(ch)) {
+      if (inArg) args.push(current);
+      current = '';
+      inArg = false;
+    } else {
+      current += ch;
+      inArg = true;
+    }
+  }
+
+  if (quote) throw new Error(`Unterminated ${quote} quote`);
+  if (inArg) args.push(current);
+  return args;
+}
+
+/**
+ * Resolve a `$_...` reference against the last result and render it as a
+ * single argument: strings as-is, lists of scalars comma-joined, anything
+ * else as JSON.
+ */
+export function resolveLastResult(last: unknown, ref: string): string {
+  if (last === undefined) {
+    throw new Error('$_ is empty: no command has returned a result yet');
+  }
+  const value = selectPath(last, '$' + ref.slice(2));
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) {
+    throw new Error(`${ref} matched nothing in the last result`);
+  }
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.every(v => v === null || typeof v !== 'object')) return value.join(',');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * The global flags given on the command line that started the shell, so each
+ * line runs with them (e.g. `gproxy --profile work shell`).
+ */
+export function cliGlobalArgs(program: Command): string[] {
+  const args: string[] = [];
+  for (const option of program.options) {
+    const key = option.attributeName();
+    if (!option.long || program.getOptionValueSource(key) !== 'cli') continue;
+    const value = program.getOptionValue(key);
+    if (option.negate) {
+      if (value === false) args.push(option.long);
+    } else if (value === true) {
+      args.push(option.long);
+    } else {
+      args.push(option.long, Array.isArray(value) ? value.join(',') : String(value));
+    }
+  }
+  return args;
+}
+
+function loadHistory(file: string): string[] {
+  try {
+    return fs.readFileSync(file, 'utf-8').split('\n').filter(Boolean).slice(-HISTORY_SIZE).reverse();
+  } catch {
+    return [];
+  }
+}
+
+function saveHistory(file: string, history: string[]): void {
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, [...history].reverse().join('\n') + '\n', { mode: 0o600 });
+  } catch {
+    // History is a convenience; never fail a command over it
+  }
+}
+
+function exitOverrideAll(cmd: Command): void {
+  cmd.exitOverride();
+  cmd.commands.forEach(exitOverrideAll);
+}
+
+export interface ShellOptions {
+  createProgram: () => Command;
+  /** Global flags prepended to every line. */
+  baseArgs: string[];
+  prompt: string;
+  historyFile?: string;
+  input?: NodeJS.ReadableStream & { isTTY?: boolean };
+  output?: NodeJS.WritableStream;
+}
+
+/**
+ * Read commands until EOF or `exit`, running each through a fresh commander
+ * tree. Resolves with the exit code of the last command.
+ */
+export async function startShell(options: ShellOptions): Promise<number> {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const historyFile = options.historyFile ?? HISTORY_FILE;
+  const terminal = !!input.isTTY;
+  const completionTree = options.createProgram();
+
+  let last: unknown;
+  let lastExitCode = 0;
+  setResultListener(result => {
+    if (result.ok) last = result.data;
+  });
+
+  // readline reads a copy of the input that is only fed between commands, so
+  // a command that prompts (gmail triage confirmations, find-time --book,
+  // setup) has the terminal to itself and its answers never reach the shell
+  const setRawMode = (input as Partial<tty.ReadStream>).setRawMode;
+  const lines: PassThrough & { setRawMode?: (mode: boolean) => void } = new PassThrough();
+  if (setRawMode) lines.setRawMode = mode => { setRawMode.call(input, mode); };
+  const forward = (chunk: Buffer | string) => { lines.write(chunk); };
+  const endLines = () => { lines.end(); };
+  const attach = () => {
+    if ((input as Partial<NodeJS.ReadStream>).readableEnded) return endLines();
+    input.on('data', forward);
+    input.on('end', endLines);
+    input.resume();
+  };
+  const detach = () => {
+    input.removeListener('data', forward);
+    input.removeListener('end', endLines);
+    input.pause();
+  };
+  attach();
+
+  const rl = readline.createInterface({
+    input: lines,
+    output,
+    terminal,
+    prompt: options.prompt,
+    history: terminal ? loadHistory(historyFile) : [],
+    historySize: HISTORY_SIZE,
+    removeHistoryDuplicates: true,
+    completer: (line: string): [string[], string] => {
+      const words = line.trimStart().split(/\s+/);
+      if (words[0] === 'gproxy') words.shift();
+      const current = words[words.length - 1] ?? '';
+      return [completeWords(completionTree, words.length > 0 ? words : ['']), current];
+    },
+  });
+
+  if (terminal) {
+    rl.on('history', (history: string[]) => saveHistory(historyFile, history));
+  }
+  rl.on('SIGINT', () => {
+    if (rl.line) {
+      rl.write('', { ctrl: true, name: 'u' });
+    } else {
+      output.write(chalk.dim('\n(To exit, press Ctrl+D or type exit)\n'));
+    }
+    rl.prompt();
+  });
+
+  if (terminal) rl.prompt();
+  try {
+    for await (const line of rl) {
+      const trimmed = line.trim();
+      if (trimmed === 'exit' || trimmed === 'quit') break;
+
+      if (trimmed === '$_') {
+        output.write(last === undefined ? chalk.dim('(no result yet)\n') : JSON.stringify(last, null, 2) + '\n');
+      } else if (LAST_RESULT_RE.exec(trimmed)?.[0] === trimmed) {
+        lastExitCode = printReference(last, trimmed, output);
+      } else if (trimmed) {
+        rl.pause();
+        detach();
+        try {
+          lastExitCode = await runLine(options, trimmed, last);
+        } finally {
+          // a prompt leaves the terminal in cooked mode when it closes
+          if (terminal) setRawMode?.call(input, true);
+          attach();
+          rl.resume();
+        }
+      }
+      if (terminal) rl.prompt();
+    }
+  } finally {
+    rl.close();
+    detach();
+    setResultListener(null);
+  }
+  return lastExitCode;
+}
+
+function printReference(last: unknown, ref: string, output: NodeJS.WritableStream): number {
+  try {
+    output.write(resolveLastResult(last, ref) + '\n');
+    return 0;
+  } catch (err: any) {
+    process.stderr.write(chalk.red(`Error: ${err.message}\n`));
+    return 1;
+  }
+}
+
+async function runLine(options: ShellOptions, line: string, last: unknown): Promise<number> {
+  let args: string[];
+  try {
+    args = splitCommandLine(line, ref => resolveLastResult(last, ref));
+  } catch (err: any) {
+    process.stderr.write(chalk.red(`Error: ${err.message}\n`));
+    return 1;
+  }
+  if (args[0] === 'gproxy') args.shift();
+  if (args[0] === 'shell') {
+    process.stderr.write(chalk.yellow('Already in gproxy shell\n'));
+    return 1;
+  }
+
+  const program = options.createProgram();
+  exitOverrideAll(program);
+  process.exitCode = undefined;
+  try {
+    await program.parseAsync([...options.baseArgs, ...args], { from: 'user' });
+  } catch (err: any) {
+    if (err instanceof CommanderError) {
+      // commander already printed the message or the help text
+      return err.exitCode;
+    }
+    process.stderr.write(chalk.red(`Error: ${err.message}\n`));
+    return 1;
+  }
+  const code = Number(process.exitCode ?? 0);
+  process.exitCode = undefined;
+  return code;
+}
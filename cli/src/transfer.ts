@@ -0,0 +1,244 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { CommandResult } from './types.js';
+
+/**
+ * Chunked Drive transfers over the drive upload.* / download.* proxy actions.
+ * Each chunk is its own request (so each gets the client's retries), uploads
+ * resume from the session saved in UPLOAD_STATE_FILE, and downloads resume
+ * from `<out>.part`. Both end with an MD5 check against Drive's checksum.
+ */
+
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+export const MAX_CHUNK_SIZE = 32 * 1024 * 1024; // must match MAX_TRANSFER_CHUNK_BYTES_ in proxy/services/Drive.gs
+const CHUNK_ATTEMPTS = 3;
+
+export const UPLOAD_STATE_FILE = path.join(os.homedir(), '.gproxy', 'uploads.json');
+
+/** Runs one drive action through the proxy. */
+export type DriveCall = (action: string, params: Record<string, any>) => Promise<CommandResult>;
+export type ProgressListener = (done: number, total: number) => void;
+
+export async function md5File(filePath: string): Promise<string> {
+  const hash = crypto.createHash('md5');
+  for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk as Buffer);
+  return hash.digest('hex');
+}
+
+function readChunk(fd: number, offset: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const read = fs.readSync(fd, buffer, 0, length, offset);
+  return buffer.subarray(0, read);
+}
+
+function failure(code: string, message: string, retryable = false): CommandResult {
+  return { ok: false, error: { code, message, retryable } };
+}
+
+function withResumeHint(result: CommandResult): CommandResult {
+  if (!result.error) return result;
+  return { ...result, error: { ...result.error, message: `${result.error.message} (run the same command again to resume)` } };
+}
+
+/** Retry a chunk request while the proxy says the error is retryable. */
+async function callChunk(call: DriveCall, action: string, params: Record<string, any>): Promise<CommandResult> {
+  let result = await call(action, params);
+  for (let attempt = 1; !result.ok && result.error?.retryable && attempt < CHUNK_ATTEMPTS; attempt++) {
+    result = await call(action, params);
+  }
+  return result;
+}
+
+// --- Upload ---
+
+interface UploadSession {
+  uploadId: string;
+  startedAt: string;
+}
+
+function readSessions(file: string): Record<string, UploadSession> {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+function writeSessions(file: string, sessions: Record<string, UploadSession>): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(sessions, null, 2) + '\n', { mode: 0o600 });
+}
+
+export interface UploadMetadata {
+  name: string;
+  mimeType?: string;
+  folderId?: string;
+  description?: string;
+  convert?: boolean;
+}
+
+export interface ChunkedUploadOptions {
+  filePath: string;
+  metadata: UploadMetadata;
+  chunkSize: number;
+  call: DriveCall;
+  onProgress?: ProgressListener;
+  /** Separates sessions of different proxies (e.g. the proxy URL). */
+  scope?: string;
+  stateFile?: string;
+}
+
+/**
+ * Upload a file in chunks. A session left by an interrupted run for the same
+ * file (same path, size, mtime and metadata) is resumed where Drive left off.
+ * Resolves with the created file, as `drive upload` would.
+ */
+export async function uploadChunked(options: ChunkedUploadOptions): Promise<CommandResult> {
+  const { filePath, metadata, chunkSize, call, onProgress } = options;
+  const stateFile = options.stateFile ?? UPLOAD_STATE_FILE;
+  const stats = fs.statSync(filePath);
+  const size = stats.size;
+  const key = crypto.createHash('sha256')
+    .update(JSON.stringify([options.scope ?? '', path.resolve(filePath), size, stats.mtimeMs, metadata]))
+    .digest('hex');
+
+  const forget = () => {
+    const sessions = readSessions(stateFile);
+    delete sessions[key];
+    writeSessions(stateFile, sessions);
+  };
+
+  let uploadId: string | undefined;
+  let offset = 0;
+  let result: CommandResult | undefined;
+
+  const saved = readSessions(stateFile)[key];
+  if (saved) {
+    const status = await call('upload.status', { uploadId: saved.uploadId });
+    // An expired session just means starting over
+    if (status.ok) {
+      uploadId = saved.uploadId;
+      offset = status.data.received;
+      if (status.data.complete) result = status;
+    }
+  }
+  if (!uploadId) {
+    const started = await call('upload.start', { ...metadata, size });
+    if (!started.ok) return started;
+    uploadId = started.data.uploadId as string;
+    const sessions = readSessions(stateFile);
+    sessions[key] = { uploadId, startedAt: new Date().toISOString() };
+    writeSessions(stateFile, sessions);
+  }
+
+  onProgress?.(offset, size);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    let failures = 0;
+    while (!result?.data?.complete) {
+      const content = readChunk(fd, offset, Math.min(chunkSize, size - offset)).toString('base64');
+      let chunk = await call('upload.chunk', { uploadId, offset, content });
+      if (!chunk.ok) {
+        if (chunk.error?.code === 'NOT_FOUND') {
+          forget();
+          return chunk;
+        }
+        if (!chunk.error?.retryable || ++failures >= CHUNK_ATTEMPTS) return withResumeHint(chunk);
+        // Drive may have kept part of the chunk; carry on from what it has
+        const status = await call('upload.status', { uploadId });
+        if (!status.ok) continue;
+        chunk = status;
+      } else {
+        failures = 0;
+      }
+      result = chunk;
+      offset = chunk.data.received;
+      onProgress?.(offset, size);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  forget();
+
+  const file = result!.data.file;
+  // Converted files have no checksum to compare
+  if (file?.md5Checksum) {
+    const local = await md5File(filePath);
+    if (local !== file.md5Checksum) {
+      return failure('CHECKSUM_MISMATCH', `Uploaded ${file.fileId} but its MD5 ${file.md5Checksum} does not match the local ${local}`);
+    }
+  }
+  return { ok: true, data: file };
+}
+
+// --- Download ---
+
+export interface DownloadInfo {
+  fileId: string;
+  name: string;
+  size: number;
+  md5Checksum?: string;
+}
+
+export interface ChunkedDownloadOptions {
+  info: DownloadInfo;
+  /** Output path; a `<out>.part` left by an earlier run is resumed. */
+  out?: string;
+  /** Where to write when there is no `out` (e.g. stdout). */
+  stream?: NodeJS.WritableStream;
+  chunkSize: number;
+  call: DriveCall;
+  onProgress?: ProgressListener;
+}
+
+/**
+ * Download a file in byte ranges, then verify its MD5. A file output is only
+ * renamed into place once the checksum matches.
+ */
+export async function downloadChunked(options: ChunkedDownloadOptions): Promise<CommandResult> {
+  const { info, out, chunkSize, call, onProgress } = options;
+  const partPath = out ? `${out}.part` : undefined;
+  let offset = 0;
+  if (partPath && fs.existsSync(partPath)) {
+    offset = fs.statSync(partPath).size;
+    if (offset > info.size) {
+      fs.truncateSync(partPath, 0);
+      offset = 0;
+    }
+  }
+
+  const hash = partPath ? undefined : crypto.createHash('md5');
+  const fd = partPath ? fs.openSync(partPath, 'a') : undefined;
+  onProgress?.(offset, info.size);
+  try {
+    while (offset < info.size) {
+      const length = Math.min(chunkSize, info.size - offset);
+      const chunk = await callChunk(call, 'download.chunk', { fileId: info.fileId, offset, length });
+      if (!chunk.ok) return partPath ? withResumeHint(chunk) : chunk;
+      const bytes = Buffer.from(chunk.data.content, 'base64');
+      if (bytes.length === 0) {
+        return failure('SERVICE_ERROR', `${info.fileId} ended at ${offset} of ${info.size} bytes`, true);
+      }
+      if (fd !== undefined) {
+        fs.writeSync(fd, bytes);
+      } else {
+        hash!.update(bytes);
+        options.stream?.write(bytes);
+      }
+      offset += bytes.length;
+      onProgress?.(offset, info.size);
+    }
+  } finally {
+    if (fd !== undefined) fs.closeSync(fd);
+  }
+
+  const md5 = partPath ? await md5File(partPath) : hash!.digest('hex');
+  if (info.md5Checksum && md5 !== info.md5Checksum) {
+    if (partPath) fs.rmSync(partPath, { force: true });
+    return failure('CHECKSUM_MISMATCH', `Downloaded ${info.fileId} has MD5 ${md5}, expected ${info.md5Checksum}`);
+  }
+  if (partPath) fs.renameSync(partPath, out!);
+  return { ok: true, data: { fileId: info.fileId, name: info.name, size: offset, md5Checksum: md5, path: out ?? null } };
+}
@@ -0,0 +1,113 @@
+import { atTime, formatDate, parseTimeRange } from './dates.js';
+import type { GmailCall } from './mailstore.js';
+import type { CommandResult } from './types.js';
+
+/**
+ * Bulk triage for `gmail archive|trash|untrash|mark-read|mark-unread|star|unstar`:
+ * page through a search for thread IDs, then send one thread.modify per
+ * thread in batched round trips. thread.modify runs the security filter, so
+ * restricted threads come back FORBIDDEN and are counted as skipped.
+ */
+
+/** thread.modify params for each triage command. */
+export const TRIAGE_ACTIONS = {
+  archive: { moveToArchive: true },
+  trash: { moveToTrash: true },
+  untrash: { untrash: true },
+  'mark-read': { markRead: true },
+  'mark-unread': { markUnread: true },
+  star: { star: true },
+  unstar: { unstar: true },
+} as const;
+
+export type TriageAction = keyof typeof TRIAGE_ACTIONS;
+
+/** Matching more threads than this asks for confirmation (or --yes). */
+export const CONFIRM_THRESHOLD = 50;
+
+const SEARCH_PAGE_SIZE = 100;
+const WAKE_HOUR = 8;
+const MODIFY_CHUNK_SIZE = 50;
+
+/** Round trip of thread.modify requests; resolves with `{ results: [...] }` like `_batch`. */
+export type ModifyBatch = (requests: { action: string; params: Record<string, any> }[]) => Promise<CommandResult>;
+
+/** Search for untrash inside the trash unless the query picks a place itself. */
+export function triageQuery(action: TriageAction, query: string): string {
+  return action === 'untrash' && !/(^|\s)-?in:/i.test(query) ? `in:trash ${query}` : query;
+}
+
+/**
+ * Collect up to `limit` matching threads (security-filtered threads are left
+ * out by the search action). `truncated` is set when more may match.
+ */
+export async function findThreads(call: GmailCall, query: string, limit: number): Promise<CommandResult> {
+  const threads: any[] = [];
+  const seen = new Set<string>();
+  let start = 0;
+  let hasMore = true;
+  while (hasMore && threads.length < limit) {
+    const max = Math.min(SEARCH_PAGE_SIZE, limit - threads.length);
+    const page = await call('search', { query, start, max });
+    if (!page.ok) return page;
+    for (const thread of page.data.threads ?? []) {
+      if (seen.has(thread.threadId)) continue;
+      seen.add(thread.threadId);
+      threads.push(thread);
+    }
+    hasMore = page.data.hasMore === true;
+    start += max;
+  }
+  return { ok: true, data: { threads, truncated: hasMore } };
+}
+
+/**
+ * Apply a triage action to each thread. Per-thread failures are listed in
+ * `failed`; only a failed round trip (auth, network) stops the run.
+ */
+export async function applyTriage(
+  action: TriageAction,
+  threadIds: string[],
+  batch: ModifyBatch,
+  onProgress?: (done: number) => void
+): Promise<CommandResult> {
+  const modified: string[] = [];
+  const skipped: string[] = [];
+  const failed: { threadId: string; error: string }[] = [];
+  for (let start = 0; start < threadIds.length; start += MODIFY_CHUNK_SIZE) {
+    const chunk = threadIds.slice(start, start + MODIFY_CHUNK_SIZE);
+    const result = await batch(chunk.map(threadId => ({ action: 'thread.modify', params: { threadId, ...TRIAGE_ACTIONS[action] } })));
+    if (!result.ok) {
+      const done = start > 0 ? ` (stopped after ${start} of ${threadIds.length} threads)` : '';
+      return { ...result, error: { ...result.error!, message: `${result.error!.message}${done}` } };
+    }
+    chunk.forEach((threadId, i) => {
+      const item = result.data?.results?.[i];
+      if (item?.ok) modified.push(threadId);
+      else if (item?.error?.code === 'FORBIDDEN') skipped.push(threadId);
+      else failed.push({ threadId, error: item?.error?.message ?? 'Missing result from proxy' });
+    });
+    onProgress?.(start + chunk.length);
+  }
+  return { ok: true, data: { action, modified, skipped, failed } };
+}
+
+/**
+ * Parse a snooze time: a duration from now such as 30m, 2h, 3d or 1w, or
+ * anything parseDateTime() reads ("tomorrow 9am", monday, 2026-03-05).
+ * A day without a time means 08:00 that day, in `timeZone` (default: the
+ * system zone).
+ */
+export function parseUntil(value: string, now = new Date(), timeZone?: string): Date {
+  const text = /^\d+\s*[mhdw]$/i.test(value.trim()) ? `+${value.trim()}` : value;
+  let date: Date;
+  try {
+    const range = parseTimeRange(text, { now, timeZone });
+    if (range.end) throw new Error('A range has no single wake-up time');
+    date = range.dateOnly ? atTime(formatDate(range.start, timeZone), WAKE_HOUR, 0, timeZone) : range.start;
+  } catch {
+    throw new Error(`Invalid --until "${value}"; use a duration like 2h or 3d, or a time like "tomorrow 9am"`);
+  }
+  if (date.getTime() <= now.getTime()) throw new Error(`--until ${value} is in the past`);
+  return date;
+}
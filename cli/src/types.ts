@@ -16,6 +16,12 @@ export interface ProxyRequest {
   clientIp?: string;
 }
 
+export interface BatchItem {
+  service: string;
+  action: string;
+  params?: Record<string, any>;
+}
+
 export interface ProxyResponse {
   ok: boolean;
   data?: any;
@@ -24,6 +30,7 @@ export interface ProxyResponse {
     message: string;
     retryable: boolean;
   };
+  requestId?: string;
 }
 
 export interface GProxyConfig {
@@ -31,13 +38,37 @@ export interface GProxyConfig {
   secret: string;
 }
 
-export type OutputMode = 'json' | 'human' | 'plain';
+export interface ProfileEntry {
+  proxy_url?: string;
+  secret?: string;
+}
+
+export interface ConfigFile {
+  proxy_url?: string;
+  secret?: string;
+  current_profile?: string;
+  profiles?: Record<string, ProfileEntry>;
+}
+
+export type OutputMode = 'json' | 'human' | 'plain' | 'table' | 'csv' | 'tsv' | 'ndjson' | 'yaml';
+
+export interface OutputOptions {
+  columns?: string[];
+  header?: boolean;
+  select?: string;
+}
 
 export interface GlobalOptions {
   json?: boolean;
   plain?: boolean;
+  output?: OutputMode;
+  columns?: string[];
+  header?: boolean;
+  select?: string;
   proxyUrl?: string;
   secret?: string;
+  profile?: string;
+  allowHttp?: boolean;
   verbose?: boolean;
   timeout?: number;
   retry?: number;
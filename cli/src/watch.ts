@@ -0,0 +1,227 @@
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { CalendarCall } from './agenda.js';
+import { parseDuration } from './dates.js';
+import type { CommandResult } from './types.js';
+
+/**
+ * `calendar watch`: poll events.list and raise a notice shortly before each
+ * event starts. Notified events are kept in WATCH_STATE_FILE with the start
+ * they were notified for, so a restart does not repeat them, and a notified
+ * event that moves or disappears before it starts is reported as
+ * rescheduled or cancelled. Each request goes through executeCommand (and
+ * its retries); when the proxy still reports QUOTA_EXCEEDED the poll
+ * interval doubles until a poll succeeds.
+ */
+
+export const WATCH_STATE_FILE = path.join(os.homedir(), '.gproxy', 'calendar-watch.json');
+export const DEFAULT_WATCH_BEFORE = '5m';
+export const DEFAULT_WATCH_INTERVAL = '1m';
+const MAX_BACKOFF = 30 * 60_000;
+const EVENTS_PAGE_SIZE = 250;
+
+export type WatchNoticeType = 'reminder' | 'rescheduled' | 'cancelled';
+
+export interface WatchNotice {
+  type: WatchNoticeType;
+  calendarId: string;
+  /** Whole minutes until the (new) start; negative once it has passed. */
+  minutesToStart: number;
+  /** The start the event was notified for (rescheduled and cancelled). */
+  previousStart?: string;
+  event: any;
+}
+
+interface NotifiedEvent {
+  calendarId: string;
+  eventId: string;
+  summary: string;
+  start: string;
+  notifiedAt: string;
+}
+
+export interface WatchState {
+  notified: Record<string, NotifiedEvent>;
+}
+
+export interface WatchPollOptions {
+  calendarIds: string[];
+  /** How long before the start to notify, in milliseconds. */
+  before: number;
+  /** How far past the notify point to list, so a poll sees what the next one will notify. */
+  lookahead: number;
+  now?: Date;
+}
+
+export interface WatchOptions {
+  calendarIds: string[];
+  /** Lead time, e.g. 5m. */
+  before: string;
+  /** Time between polls, e.g. 1m. */
+  interval: string;
+  stateFile?: string;
+  /** Stop after this many polls (--once is 1); runs until killed otherwise. */
+  polls?: number;
+  onNotice: (notice: WatchNotice) => void | Promise<void>;
+  /** Transient failures the watcher rides out. */
+  onWarning?: (message: string) => void;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => Date;
+}
+
+export function readWatchState(file: string): WatchState {
+  try {
+    const state = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return { notified: state.notified ?? {} };
+  } catch {
+    return { notified: {} };
+  }
+}
+
+export function writeWatchState(file: string, state: WatchState): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(state, null, 2) + '\n', { mode: 0o600 });
+}
+
+/**
+ * One poll over every calendar. Updates `state` in place and returns the
+ * notices in the order they happened, or the first failed request.
+ */
+export async function pollWatch(call: CalendarCall, state: WatchState, options: WatchPollOptions): Promise<CommandResult> {
+  const now = (options.now ?? new Date()).getTime();
+  const timeMin = new Date(now).toISOString();
+  const timeMax = new Date(now + options.before + options.lookahead).toISOString();
+  const notices: WatchNotice[] = [];
+  const notice = (type: WatchNoticeType, calendarId: string, event: any, previousStart?: string): void => {
+    notices.push({ type, calendarId, minutesToStart: Math.round((Date.parse(event.start) - now) / 60_000), previousStart, event });
+  };
+
+  for (const calendarId of options.calendarIds) {
+    const seen = new Set<string>();
+    let pageToken: string | undefined;
+    do {
+      const page = await call('events.list', { calendarId, timeMin, timeMax, max: EVENTS_PAGE_SIZE, pageToken });
+      if (!page.ok) return page;
+      for (const event of page.data.events ?? []) {
+        if (event.allDay || event.status === 'cancelled' || event.responseStatus === 'declined') continue;
+        const key = watchKey(calendarId, event.eventId);
+        seen.add(key);
+        const known = state.notified[key];
+        if (known && known.start !== event.start) {
+          notice('rescheduled', calendarId, event, known.start);
+          delete state.notified[key];
+        }
+        const start = Date.parse(event.start);
+        if (!state.notified[key] && start > now && start - options.before <= now) {
+          notice('reminder', calendarId, event);
+          state.notified[key] = {
+            calendarId, eventId: event.eventId, summary: event.summary ?? '', start: event.start, notifiedAt: new Date(now).toISOString(),
+          };
+        }
+      }
+      pageToken = page.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    // Notified events that left the listing: over (started and ended), or
+    // moved out of the window, or cancelled.
+    for (const [key, known] of Object.entries(state.notified)) {
+      if (known.calendarId !== calendarId || seen.has(key)) continue;
+      if (Date.parse(known.start) <= now) {
+        delete state.notified[key];
+        continue;
+      }
+      const current = await call('events.get', { calendarId, eventId: known.eventId });
+      if (!current.ok && current.error?.code === 'QUOTA_EXCEEDED') return current;
+      // Any other failure leaves the event for the next poll rather than
+      // holding up the rest; it is dropped once its start has passed.
+      if (!current.ok && current.error?.code !== 'NOT_FOUND') continue;
+      if (!current.ok || current.data.status === 'cancelled' || current.data.responseStatus === 'declined') {
+        notice('cancelled', calendarId, current.ok ? current.data : { eventId: known.eventId, summary: known.summary, start: known.start }, known.start);
+        delete state.notified[key];
+      } else if (current.data.start !== known.start) {
+        notice('rescheduled', calendarId, current.data, known.start);
+        delete state.notified[key];
+      }
+    }
+  }
+  return { ok: true, data: { notices } };
+}
+
+/**
+ * Poll until killed (or `polls` times). Requests that fail after the
+ * client's retries are survived when retryable, with QUOTA_EXCEEDED
+ * doubling the wait each time; any other error ends the watch.
+ */
+export async function watchCalendars(call: CalendarCall, options: WatchOptions): Promise<CommandResult> {
+  const before = parseDuration(options.before);
+  const interval = parseDuration(options.interval);
+  const stateFile = options.stateFile ?? WATCH_STATE_FILE;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  let state = readWatchState(stateFile);
+  let backoff = 0;
+  let notified = 0;
+
+  for (let poll = 1; options.polls === undefined || poll <= options.polls; poll++) {
+    // A poll that fails part-way is dropped whole, so its notices come again.
+    const next = structuredClone(state);
+    const result = await pollWatch(call, next, {
+      calendarIds: options.calendarIds, before, lookahead: interval, now: options.now?.(),
+    });
+    let wait = interval;
+    if (result.ok) {
+      backoff = 0;
+      state = next;
+      // Saved before notifying, so a hook that hangs or crashes the watcher
+      // is not run twice for the same event.
+      writeWatchState(stateFile, state);
+      for (const notice of result.data.notices) {
+        notified++;
+        await options.onNotice(notice);
+      }
+    } else if (result.error?.code === 'QUOTA_EXCEEDED') {
+      backoff = Math.min(backoff ? backoff * 2 : interval * 2, MAX_BACKOFF);
+      wait = backoff;
+      options.onWarning?.(`${result.error.message}; next poll in ${Math.round(wait / 1000)}s`);
+    } else if (result.error?.retryable) {
+      options.onWarning?.(`${result.error.message}; trying again in ${Math.round(wait / 1000)}s`);
+    } else {
+      return result;
+    }
+    if (options.polls !== undefined && poll >= options.polls) {
+      return result.ok ? { ok: true, data: { polls: poll, notified } } : result;
+    }
+    await sleep(wait);
+  }
+  return { ok: true, data: { polls: options.polls ?? 0, notified } };
+}
+
+/**
+ * Run the --exec hook through the shell with the event JSON on stdin and
+ * the notice type in GPROXY_WATCH_TYPE. Resolves with the exit code.
+ */
+export function runWatchHook(command: string, notice: WatchNotice): Promise<number> {
+  return new Promise(resolve => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ['pipe', 'inherit', 'inherit'],
+      env: {
+        ...process.env,
+        GPROXY_WATCH_TYPE: notice.type,
+        GPROXY_WATCH_CALENDAR: notice.calendarId,
+        GPROXY_WATCH_MINUTES: String(notice.minutesToStart),
+        ...(notice.previousStart ? { GPROXY_WATCH_PREVIOUS_START: notice.previousStart } : {}),
+      },
+    });
+    // A hook that ignores stdin may exit before reading it.
+    child.stdin.on('error', () => {});
+    child.stdin.end(JSON.stringify(notice.event) + '\n');
+    child.on('error', () => resolve(127));
+    child.on('close', code => resolve(code ?? 1));
+  });
+}
+
+function watchKey(calendarId: string, eventId: string): string {
+  return `${calendarId}/${eventId}`;
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+import type { ProxyHarness } from './helpers/apps-script-harness.js';
+import { agendaDays, buildAgenda } from '../src/agenda.js';
+import { formatOutput } from '../src/output.js';
+
+// Wednesday 4 March 2026, 10:30 in Berlin.
+const now = new Date('2026-03-04T09:30:00Z');
+const timeZone = 'Europe/Berlin';
+
+function event(id: string, summary: string, start: string, end: string, extra: Record<string, any> = {}) {
+  const allDay = start.length === 10;
+  return { id, summary, start: allDay ? { date: start } : { dateTime: start }, end: allDay ? { date: end } : { dateTime: end }, ...extra };
+}
+
+let proxy: ProxyHarness;
+
+beforeEach(() => {
+  proxy = createProxyHarness();
+  const calendars: Record<string, any[]> = {
+    'me@example.com': [
+      event('offsite', 'Offsite', '2026-03-04', '2026-03-06'),
+      event('standup', 'Standup', '2026-03-04T09:00:00+01:00', '2026-03-04T09:30:00+01:00', {
+        attendees: [{ email: 'me@example.com', self: true, responseStatus: 'tentative' }],
+      }),
+      event('release', 'Release', '2026-03-05T22:00:00+01:00', '2026-03-06T01:00:00+01:00'),
+    ],
+    'team@example.com': [
+      event('review', 'Design review', '2026-03-04T09:15:00+01:00', '2026-03-04T10:00:00+01:00'),
+      event('lunch', 'Lunch', '2026-03-04T12:00:00+01:00', '2026-03-04T13:00:00+01:00', { transparency: 'transparent' }),
+    ],
+  };
+  proxy.respond('Calendar.Events.list', (calendarId: string) => ({ items: calendars[calendarId] ?? [] }));
+  proxy.respond('Calendar.CalendarList.list', {
+    items: [
+      { id: 'me@example.com', summary: 'Me', primary: true, backgroundColor: '#9fe1e7' },
+      { id: 'team@example.com', summary: 'Team', backgroundColor: '#f83a22' },
+    ],
+  });
+});
+
+describe('calendar views', () => {
+  it('covers today, a day, or the Monday-to-Sunday week', () => {
+    expect(agendaDays({ view: 'agenda', days: 3, timeZone, now })).toEqual(['2026-03-04', '2026-03-05', '2026-03-06']);
+    expect(agendaDays({ view: 'day', date: 'tomorrow', timeZone, now })).toEqual(['2026-03-05']);
+    const week = agendaDays({ view: 'week', date: '2026-03-08', timeZone, now });
+    expect([week[0], week[6]]).toEqual(['2026-03-02', '2026-03-08']);
+    expect(() => agendaDays({ view: 'agenda', days: 0, timeZone, now })).toThrow('--days must be');
+  });
+
+  it('merges calendars by day and marks overlaps from events.conflicts', async () => {
+    const call = async (action: string, params: Record<string, any>) => proxy.request('calendar', action, params);
+    const result = await buildAgenda(call, { view: 'agenda', days: 2, allCalendars: true, timeZone, now });
+    expect(result.ok).toBe(true);
+    const conflicts = proxy.calls.find(c => c.method === 'Calendar.Events.list' && c.args[1].maxResults === 250);
+    expect(conflicts?.args[1]).toMatchObject({ timeMin: '2026-03-04T00:00:00+01:00', timeMax: '2026-03-06T00:00:00+01:00' });
+
+    const { days, overlaps, calendars } = result.data;
+    expect(calendars.map((c: any) => c.summary)).toEqual(['Me', 'Team']);
+    expect(overlaps).toEqual([{ eventIds: ['standup', 'review'], start: '2026-03-04T09:15:00+01:00', end: '2026-03-04T09:30:00+01:00' }]);
+    expect(days.map((d: any) => [d.date, d.events.map((e: any) => e.eventId)])).toEqual([
+      ['2026-03-04', ['offsite', 'standup', 'review', 'lunch']],
+      ['2026-03-05', ['offsite', 'release']],
+    ]);
+
+    const text = formatOutput(result, 'plain', 'calendar', 'agenda');
+    expect(text.split('\n')).toEqual([
+      '● Me  ● Team',
+      '',
+      'Wed 4 Mar 2026 (today)',
+      '  all day       ● Offsite',
+      '  09:00–09:30 ? ● Standup ⚠ overlaps Design review',
+      '  09:15–10:00   ● Design review ⚠ overlaps Standup',
+      '  12:00–13:00   ● Lunch',
+      'Thu 5 Mar 2026',
+      '  all day       ● Offsite',
+      '  22:00–…       ● Release',
+    ]);
+  });
+});
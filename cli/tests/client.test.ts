@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { executeCommand } from '../src/client.js';
+import { executeBatch, executeCommand, executePaginated } from '../src/client.js';
 import type { GProxyConfig, CommandResult } from '../src/types.js';
 
 const config: GProxyConfig = {
@@ -222,3 +222,143 @@ describe('executeCommand', () => {
     expect(result).toBeDefined();
   });
 });
+
+describe('executePaginated', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('follows nextPageToken and merges pages', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(mockFetchResponse({ ok: true, data: { files: [{ id: 1 }, { id: 2 }], count: 2, nextPageToken: 'p2' } }))
+      .mockResolvedValueOnce(mockFetchResponse({ ok: true, data: { files: [{ id: 3 }], count: 1, nextPageToken: null } }));
+
+    const result = await executePaginated('drive', 'list', { max: 2 }, config, { maxRetries: 0 });
+    expect(result.ok).toBe(true);
+    expect(result.data.files.map((f: any) => f.id)).toEqual([1, 2, 3]);
+    expect(result.data.count).toBe(3);
+    expect(result.data.nextPageToken).toBeNull();
+
+    const secondBody = JSON.parse(fetchSpy.mock.calls[1][1]?.body as string);
+    expect(secondBody.params.pageToken).toBe('p2');
+  });
+
+  it('merges the action\'s list field even when another array comes first', async () => {
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(mockFetchResponse({ ok: true, data: { attendees: ['a'], events: [{ id: 1 }], nextPageToken: 'p2' } }))
+      .mockResolvedValueOnce(mockFetchResponse({ ok: true, data: { attendees: ['b'], events: [{ id: 2 }] } }));
+
+    const result = await executePaginated('calendar', 'events.list', {}, config, { maxRetries: 0 });
+    expect(result.data.events).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(result.data.count).toBe(2);
+  });
+
+  it('stops at limit and returns the token to resume from', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(mockFetchResponse({ ok: true, data: { tasks: [{ id: 1 }, { id: 2 }], nextPageToken: 'p2' } }))
+      .mockResolvedValueOnce(mockFetchResponse({ ok: true, data: { tasks: [{ id: 3 }], nextPageToken: 'p3' } }));
+
+    const result = await executePaginated('tasks', 'list', { max: 2 }, config, { maxRetries: 0 }, { limit: 3 });
+    expect(result.data.tasks).toHaveLength(3);
+    expect(result.data.nextPageToken).toBe('p3');
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+
+    const secondBody = JSON.parse(fetchSpy.mock.calls[1][1]?.body as string);
+    expect(secondBody.params.max).toBe(1);
+  });
+
+  it('streams pages through onPage without accumulating', async () => {
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(mockFetchResponse({ ok: true, data: { spaces: [{ id: 'a' }], nextPageToken: 'p2' } }))
+      .mockResolvedValueOnce(mockFetchResponse({ ok: true, data: { spaces: [{ id: 'b' }] } }));
+
+    const pages: any[][] = [];
+    const result = await executePaginated('chat', 'spaces.list', {}, config, { maxRetries: 0 }, {
+      onPage: items => pages.push(items),
+    });
+    expect(pages).toEqual([[{ id: 'a' }], [{ id: 'b' }]]);
+    expect(result.data.spaces).toEqual([]);
+    expect(result.data.count).toBe(2);
+  });
+
+  it('returns the first page error', async () => {
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(mockFetchResponse({ ok: true, data: { files: [{ id: 1 }], nextPageToken: 'p2' } }))
+      .mockResolvedValueOnce(mockFetchResponse({
+        ok: false,
+        error: { code: 'NOT_FOUND', message: 'gone', retryable: false },
+      }));
+
+    const result = await executePaginated('drive', 'list', {}, config, { maxRetries: 0 });
+    expect(result.ok).toBe(false);
+    expect(result.error?.code).toBe('NOT_FOUND');
+  });
+
+  it('stops when the proxy repeats a page token', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValue(mockFetchResponse({ ok: true, data: { files: [{ id: 1 }], nextPageToken: 'same' } }));
+
+    const result = await executePaginated('drive', 'list', {}, config, { maxRetries: 0 });
+    expect(result.ok).toBe(true);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('executeBatch', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sends all items in one _batch request', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(mockFetchResponse({
+      ok: true,
+      data: { results: [{ ok: true, data: {} }, { ok: true, data: {} }], count: 2, failed: 0 },
+    }));
+
+    const result = await executeBatch([
+      { service: 'tasks', action: 'done', params: { taskId: 'a' } },
+      { service: 'gmail', action: 'thread.modify' },
+    ], config, { maxRetries: 0 });
+
+    expect(result.ok).toBe(true);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    const body = JSON.parse(fetchSpy.mock.calls[0][1]?.body as string);
+    expect(body.service).toBe('_batch');
+    expect(body.params.requests).toEqual([
+      { service: 'tasks', action: 'done', params: { taskId: 'a' } },
+      { service: 'gmail', action: 'thread.modify', params: {} },
+    ]);
+  });
+
+  it('retries a failed round trip only when every item is safe to repeat', async () => {
+    const timeout: CommandResult = { ok: false, error: { code: 'SERVICE_ERROR', message: 'Timed out', retryable: true } };
+    const done: CommandResult = { ok: true, data: { results: [], count: 0, failed: 0 } };
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(mockFetchResponse(timeout));
+
+    const writes = await executeBatch([
+      { service: 'tasks', action: 'list' },
+      { service: 'gmail', action: 'send', params: { to: 'a@example.com' } },
+    ], config, { maxRetries: 3 });
+    expect(writes.error?.code).toBe('SERVICE_ERROR');
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    fetchSpy.mockReset();
+    fetchSpy.mockResolvedValueOnce(mockFetchResponse(timeout)).mockResolvedValueOnce(mockFetchResponse(done));
+    const reads = await executeBatch([
+      { service: 'calendar', action: 'events.list' },
+      { service: 'gmail', action: 'thread.modify', params: { threadId: 't1', archive: true } },
+    ], config, { maxRetries: 3 });
+    expect(reads.ok).toBe(true);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects oversized batches without calling the proxy', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const items = Array.from({ length: 101 }, () => ({ service: 'tasks', action: 'list' }));
+
+    const result = await executeBatch(items, config, { maxRetries: 0 });
+    expect(result.ok).toBe(false);
+    expect(result.error?.code).toBe('INVALID_REQUEST');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { execFileSync } from 'node:child_process';
+import { Command } from 'commander';
+import { createProgram } from '../src/program.js';
+import { collectCommandSpecs, dynamicValues, COMPLETION_CACHE_TTL_MS } from '../src/completion.js';
+import { generateBash, generateFish, generateZsh } from '../src/completion-scripts.js';
+import { choiceOption } from '../src/commands/helpers.js';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+
+describe('collectCommandSpecs', () => {
+  const specs = collectCommandSpecs(createProgram());
+  const find = (p: string) => specs.find(spec => spec.path.join(' ') === p)!;
+
+  it('lists visible commands with their flags', () => {
+    expect(find('gproxy').subcommands.map(c => c.name)).toContain('completion');
+    expect(find('gproxy completion').subcommands.map(c => c.name)).toEqual(['bash', 'zsh', 'fish']);
+    expect(find('gproxy').flags.find(f => f.long === '--output')?.choices).toContain('ndjson');
+  });
+
+  it('carries enum choices and dynamic kinds for value options', () => {
+    expect(find('gproxy calendar events create').flags.find(f => f.long === '--send-updates')?.choices)
+      .toEqual(['all', 'externalOnly', 'none']);
+    expect(find('gproxy drive permissions create').flags.find(f => f.long === '--role')?.choices)
+      .toEqual(['reader', 'commenter', 'writer', 'owner']);
+    expect(find('gproxy tasks list').flags.find(f => f.long === '--tasklist')?.dynamic).toBe('tasklists');
+    expect(find('gproxy gmail modify').flags.find(f => f.long === '--add-labels')?.dynamic).toBe('labels');
+  });
+});
+
+describe('choiceOption', () => {
+  it('normalises case and rejects unknown values', async () => {
+    const cmd = new Command().exitOverride().configureOutput({ writeErr: () => {} })
+      .addOption(choiceOption('--format <fmt>', 'Export format', ['pdf', 'docx']))
+      .action(() => {});
+    await cmd.parseAsync(['--format', 'PDF'], { from: 'user' });
+    expect(cmd.opts().format).toBe('pdf');
+    await expect(cmd.parseAsync(['--format', 'odt'], { from: 'user' })).rejects.toThrow('Allowed choices are pdf, docx');
+  });
+});
+
+describe('completion scripts', () => {
+  const specs = collectCommandSpecs(createProgram());
+
+  it('generates a bash script that completes subcommands and choices', () => {
+    const script = generateBash(specs);
+    expect(script).not.toContain('completion values');
+    const complete = (...words: string[]) => execFileSync('bash', ['-c', [
+      script,
+      'COMP_WORDS=("$@"); COMP_CWORD=$(( $# - 1 )); _gproxy; printf "%s\\n" "${COMPREPLY[@]}"',
+    ].join('\n'), 'bash', ...words], { encoding: 'utf-8' }).trim().split('\n');
+
+    expect(complete('gproxy', 'drive', 'perm')).toEqual(['permissions']);
+    expect(complete('gproxy', '--profile', 'work', 'sheets', 'read', 'id', '--render', 'F'))
+      .toEqual(['FORMATTED_VALUE', 'FORMULA']);
+    expect(complete('gproxy', 'drive', 'list', '--output', '=', 'ts')).toEqual(['tsv']);
+  });
+
+  it('only calls back into gproxy for dynamic values when asked', () => {
+    expect(generateBash(specs, { dynamic: true })).toContain("'gproxy tasks list --tasklist') values=\"$(gproxy completion values tasklists");
+    expect(generateZsh(specs, { dynamic: true })).toContain("'gproxy calendar events list --calendar' 'calendars'");
+    expect(generateFish(specs, { dynamic: true }))
+      .toContain("-l label -r -f -a '(gproxy completion values labels </dev/null 2>/dev/null)'");
+  });
+
+  it('emits zsh and fish tables from the same specs', () => {
+    const zsh = generateZsh(specs);
+    expect(zsh.startsWith('#compdef gproxy\n')).toBe(true);
+    expect(zsh).toContain("'gproxy docs export --format' 'pdf\ndocx\ntxt\nhtml'");
+    const fish = generateFish(specs);
+    expect(fish).toContain(`complete -c gproxy -n '__gproxy_at "gproxy slides export"' -l format -r -f -a 'pdf pptx'`);
+    expect(fish).toContain("complete -c gproxy -l output -r -f -a");
+  });
+});
+
+describe('dynamicValues', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('fetches through the proxy and serves from the cache until it expires', async () => {
+    const proxy = createProxyHarness();
+    proxy.respond('Tasks.Tasklists.list', { items: [{ id: 'list-1', title: 'Inbox' }, { id: 'list-2', title: 'Work' }] });
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(proxy.fetch);
+    vi.stubEnv('GPROXY_URL', 'https://script.google.com/macros/s/test/exec');
+    vi.stubEnv('GPROXY_SECRET', proxy.secret);
+    const cacheFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'gproxy-completion-')), 'cache.json');
+
+    expect(await dynamicValues('tasklists', {}, { cacheFile, now: 1000 })).toEqual(['list-1', 'list-2']);
+    expect(await dynamicValues('tasklists', {}, { cacheFile, now: 2000 })).toEqual(['list-1', 'list-2']);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    // Stale entries are refreshed, and kept if the refresh fails
+    fetchSpy.mockRejectedValue(new Error('offline'));
+    expect(await dynamicValues('tasklists', {}, { cacheFile, now: 1000 + COMPLETION_CACHE_TTL_MS })).toEqual(['list-1', 'list-2']);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(await dynamicValues('labels', {}, { cacheFile })).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { composeMail, detectMimeType, GMAIL_MAX_MESSAGE_BYTES } from '../src/compose.js';
+import { markdownToHtml } from '../src/markdown.js';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+
+describe('markdownToHtml', () => {
+  it('renders blocks and inline markup, escaping raw HTML', () => {
+    expect(markdownToHtml('# Hi *there*\n\nSome **bold**, `a*b` and [docs](https://x.test/a_b?c=1&d=2).\n\n<b>no</b>'))
+      .toBe('<h1>Hi <em>there</em></h1>\n' +
+        '<p>Some <strong>bold</strong>, <code>a*b</code> and <a href="https://x.test/a_b?c=1&amp;d=2">docs</a>.</p>\n' +
+        '<p>&lt;b&gt;no&lt;/b&gt;</p>');
+  });
+
+  it('renders tight nested lists, numbered starts, quotes and fenced code', () => {
+    expect(markdownToHtml('- one\n  - two\n- three\n\n3. c\n4. d')).toBe(
+      '<ul>\n<li>one\n<ul>\n<li>two</li>\n</ul></li>\n<li>three</li>\n</ul>\n<ol start="3">\n<li>c</li>\n<li>d</li>\n</ol>');
+    expect(markdownToHtml('> quoted\n\n```js\nif (a < b) {}\n```\n---')).toBe(
+      '<blockquote>\n<p>quoted</p>\n</blockquote>\n<pre><code class="language-js">if (a &lt; b) {}</code></pre>\n<hr>');
+  });
+});
+
+describe('composeMail', () => {
+  let dir: string;
+  const file = (name: string, content: string | Buffer) => {
+    const p = path.join(dir, name);
+    fs.writeFileSync(p, content);
+    return p;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gproxy-compose-'));
+  });
+
+  it('reads bodies from files, renders Markdown and encodes attachments', () => {
+    const report = file('report.PDF', Buffer.from('%PDF-1.4'));
+    const logo = file('logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    const mail = composeMail({
+      bodyFile: file('body.md', 'Hello ![logo](cid:logo)'),
+      markdown: true,
+      attach: [report],
+      inline: [`logo=${logo}`],
+    });
+
+    expect(mail.body).toBe('Hello ![logo](cid:logo)');
+    expect(mail.bodyHtml).toBe('<p>Hello <img src="cid:logo" alt="logo"></p>');
+    expect(mail.attachments).toEqual([{ name: 'report.PDF', mimeType: 'application/pdf', content: 'JVBERi0xLjQ=' }]);
+    expect(mail.inlineImages).toEqual([{ cid: 'logo', name: 'logo.png', mimeType: 'image/png', content: 'iVBORw==' }]);
+    expect(detectMimeType('notes.unknown')).toBe('application/octet-stream');
+  });
+
+  it('rejects conflicting flags, missing files and inline images without HTML', () => {
+    expect(() => composeMail({ body: 'a', bodyFile: 'b' })).toThrow('either --body or --body-file');
+    expect(() => composeMail({ body: 'a', markdown: true, html: '<p>' })).toThrow('--markdown renders');
+    expect(() => composeMail({ attach: [path.join(dir, 'missing.txt')] })).toThrow('File not found');
+    expect(() => composeMail({ body: 'a', inline: [`x=${file('x.png', 'x')}`] })).toThrow('--inline needs an HTML body');
+    expect(() => composeMail({ html: '<p>', inline: ['no-equals'] })).toThrow('--inline expects cid=path');
+  });
+
+  it('checks the encoded size against the Gmail limit before reading attachments', () => {
+    const big = path.join(dir, 'big.bin');
+    fs.writeFileSync(big, '');
+    fs.truncateSync(big, Math.floor(GMAIL_MAX_MESSAGE_BYTES * 0.8));
+    expect(() => composeMail({ body: 'hi', attach: [big] })).toThrow(/Message is 26\.7 MB once encoded; Gmail's limit is 25\.0 MB/);
+  });
+
+  it('reaches GmailApp as attachment and inline image blobs', () => {
+    const proxy = createProxyHarness();
+    const mail = composeMail({
+      html: '<img src="cid:chart">',
+      attach: [file('data.csv', 'a,b\n')],
+      inline: [`chart=${file('chart.gif', 'GIF89a')}`],
+    });
+    const { size: _size, ...params } = mail;
+
+    expect(proxy.request('gmail', 'send', { to: 'a@example.com', subject: 'Report', ...params }).ok).toBe(true);
+    const options = proxy.gmail.sent[0].options;
+    expect(options.htmlBody).toBe('<img src="cid:chart">');
+    expect(options.attachments.map((b: any) => [b.getName(), b.getContentType(), b.getDataAsString()]))
+      .toEqual([['data.csv', 'text/csv', 'a,b\n']]);
+    expect(options.inlineImages.chart.getContentType()).toBe('image/gif');
+
+    expect(proxy.request('gmail', 'drafts.create', { to: 'a@example.com', subject: 'Draft', ...params }).ok).toBe(true);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { loadConfig } from '../src/config.js';
+import { loadConfig, resolveProfile } from '../src/config.js';
 
 describe('loadConfig', () => {
   const originalEnv = process.env;
@@ -8,6 +8,8 @@ describe('loadConfig', () => {
     process.env = { ...originalEnv };
     delete process.env.GPROXY_URL;
     delete process.env.GPROXY_SECRET;
+    delete process.env.GPROXY_PROFILE;
+    delete process.env.GPROXY_ALLOW_HTTP;
   });
 
   afterEach(() => {
@@ -58,6 +60,18 @@ describe('loadConfig', () => {
     ).toThrow('Proxy URL must start with https://');
   });
 
+  it('accepts http:// on loopback only when --allow-http is set', () => {
+    const local = { proxyUrl: 'http://127.0.0.1:8787/exec', secret: 'test-secret' };
+    expect(() => loadConfig(local)).toThrow('Proxy URL must start with https://');
+    expect(loadConfig({ ...local, allowHttp: true }).proxy_url).toBe('http://127.0.0.1:8787/exec');
+
+    process.env.GPROXY_ALLOW_HTTP = '1';
+    expect(loadConfig({ ...local, proxyUrl: 'http://localhost:8787' }).proxy_url).toBe('http://localhost:8787');
+    expect(() =>
+      loadConfig({ proxyUrl: 'http://example.com/exec', secret: 'test-secret' })
+    ).toThrow('Proxy URL must start with https://');
+  });
+
   it('accepts valid https:// URL', () => {
     const config = loadConfig({
       proxyUrl: 'https://script.google.com/macros/s/abc123/exec',
@@ -113,4 +127,43 @@ describe('loadConfig', () => {
       expect(e.message).toContain('ftp://example.com/exec');
     }
   });
+
+  it('missing-URL hint names a non-default profile', () => {
+    process.env.GPROXY_SECRET = 'some-secret';
+
+    expect(() => loadConfig({ profile: 'work' })).toThrow('gproxy --profile work setup');
+  });
+
+  it('rejects invalid profile names', () => {
+    expect(() =>
+      loadConfig({
+        profile: '../escape',
+        proxyUrl: 'https://example.com/exec',
+        secret: 'test',
+      })
+    ).toThrow('Invalid profile name');
+  });
+});
+
+describe('resolveProfile', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.GPROXY_PROFILE;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('prefers the --profile flag over GPROXY_PROFILE', () => {
+    process.env.GPROXY_PROFILE = 'env-profile';
+    expect(resolveProfile({ profile: 'flag-profile' })).toBe('flag-profile');
+  });
+
+  it('falls back to GPROXY_PROFILE', () => {
+    process.env.GPROXY_PROFILE = 'env-profile';
+    expect(resolveProfile({})).toBe('env-profile');
+  });
 });
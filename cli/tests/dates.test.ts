@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { eventTimes, formatDateTime, parseDate, parseDateTime, parseDuration, parseTimeRange, resolveTimeZone, timeWindow } from '../src/dates.js';
+import type { DateOptions } from '../src/dates.js';
+
+// A Wednesday morning in Berlin (UTC+1 until 29 March).
+const now = new Date('2026-03-04T09:30:00Z');
+const berlin = { timeZone: 'Europe/Berlin', now };
+
+function at(value: string, options: DateOptions & { end?: boolean } = berlin): string {
+  return formatDateTime(parseDateTime(value, options), options.timeZone);
+}
+
+describe('parseDateTime', () => {
+  it('reads days, times and offsets from now in the given zone', () => {
+    expect(at('tomorrow 3pm')).toBe('2026-03-05T15:00:00+01:00');
+    expect(at('3pm tomorrow')).toBe('2026-03-05T15:00:00+01:00');
+    expect(at('friday at noon')).toBe('2026-03-06T12:00:00+01:00');
+    expect(at('wed')).toBe('2026-03-04T00:00:00+01:00');
+    expect(at('next wednesday 9:15')).toBe('2026-03-11T09:15:00+01:00');
+    expect(at('last friday')).toBe('2026-02-27T00:00:00+01:00');
+    expect(at('+2h')).toBe('2026-03-04T12:30:00+01:00');
+    expect(at('in 90 minutes')).toBe('2026-03-04T12:00:00+01:00');
+    expect(at('3 days ago')).toBe('2026-03-01T10:30:00+01:00');
+    expect(at('2026-03-02T10:00')).toBe('2026-03-02T10:00:00+01:00');
+    expect(at('2026-03-02T10:00:00Z')).toBe('2026-03-02T11:00:00+01:00');
+    expect(at('friday', { ...berlin, end: true })).toBe('2026-03-07T00:00:00+01:00');
+    expect(at('tomorrow 3pm', { timeZone: 'America/New_York', now })).toBe('2026-03-05T15:00:00-05:00');
+  });
+
+  it('follows daylight saving time and rejects what it cannot read', () => {
+    expect(at('2026-03-29 12:00')).toBe('2026-03-29T12:00:00+02:00');
+    expect(at('2026-03-29 02:30')).toBe('2026-03-29T03:30:00+02:00');
+    const newYork = { timeZone: 'America/New_York', now };
+    expect(at('2026-03-08 02:30', newYork)).toBe('2026-03-08T03:30:00-04:00');
+    expect(at('2026-11-01 01:30', newYork)).toBe('2026-11-01T01:30:00-04:00');
+    expect(parseDate('+1d', { timeZone: 'Pacific/Auckland', now })).toBe('2026-03-05');
+    expect(() => parseDateTime('soon', berlin)).toThrow('Cannot parse date "soon"');
+    expect(() => parseDateTime('2026-02-30', berlin)).toThrow('Cannot parse date');
+    expect(() => parseDateTime('today..friday', berlin)).toThrow('not the range');
+    expect(() => resolveTimeZone('Mars/Olympus')).toThrow('Unknown time zone "Mars/Olympus"');
+  });
+});
+
+describe('ranges and durations', () => {
+  it('reads day ranges and time spans', () => {
+    const span = (value: string) => {
+      const range = parseTimeRange(value, berlin);
+      return [formatDateTime(range.start, 'Europe/Berlin'), range.end && formatDateTime(range.end, 'Europe/Berlin'), range.dateOnly];
+    };
+    expect(span('today..friday')).toEqual(['2026-03-04T00:00:00+01:00', '2026-03-07T00:00:00+01:00', true]);
+    expect(span('next monday 10:00-11:30')).toEqual(['2026-03-09T10:00:00+01:00', '2026-03-09T11:30:00+01:00', false]);
+    expect(span('tomorrow 11-1pm')).toEqual(['2026-03-05T11:00:00+01:00', '2026-03-05T13:00:00+01:00', false]);
+    expect(span('next week')).toEqual(['2026-03-09T00:00:00+01:00', '2026-03-16T00:00:00+01:00', true]);
+    expect(span('friday 22:00-01:00')).toEqual(['2026-03-06T22:00:00+01:00', '2026-03-07T01:00:00+01:00', false]);
+    expect(() => parseTimeRange('tomorrow..yesterday', berlin)).toThrow('ends before it starts');
+
+    expect(parseDuration('45m')).toBe(45 * 60_000);
+    expect(parseDuration('1h30m')).toBe(90 * 60_000);
+    expect(parseDuration('2 days')).toBe(2 * 86_400_000);
+    expect(() => parseDuration('soon')).toThrow('Invalid duration "soon"');
+  });
+
+  it('builds event times and list windows', () => {
+    expect(eventTimes({ start: 'tomorrow 3pm', duration: '45m' }, berlin))
+      .toEqual({ start: '2026-03-05T15:00:00+01:00', end: '2026-03-05T15:45:00+01:00' });
+    expect(eventTimes({ start: 'next monday 10:00-11:30' }, berlin))
+      .toEqual({ start: '2026-03-09T10:00:00+01:00', end: '2026-03-09T11:30:00+01:00' });
+    expect(eventTimes({ start: 'today..friday', allDay: true }, berlin)).toEqual({ start: '2026-03-04', end: '2026-03-07' });
+    expect(eventTimes({ start: 'friday', allDay: true }, berlin)).toEqual({ start: '2026-03-06', end: '2026-03-07' });
+    expect(() => eventTimes({ start: 'tomorrow 3pm', requireEnd: true }, berlin)).toThrow('Give --end, --duration');
+    expect(() => eventTimes({ start: 'tomorrow 9-10am', duration: '1h' }, berlin)).toThrow('already a range');
+
+    expect(timeWindow('today..friday', undefined, berlin))
+      .toEqual({ timeMin: '2026-03-04T00:00:00+01:00', timeMax: '2026-03-07T00:00:00+01:00' });
+    expect(timeWindow('monday', 'tuesday', berlin))
+      .toEqual({ timeMin: '2026-03-09T00:00:00+01:00', timeMax: '2026-03-11T00:00:00+01:00' });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+import type { ProxyHarness } from './helpers/apps-script-harness.js';
+import { fetchFilters, importFilters, parseFilters, serializeFilters } from '../src/filters.js';
+import type { FilterRule } from '../src/filters.js';
+
+const rules: FilterRule[] = [
+  {
+    criteria: { from: 'billing@vendor.example', hasAttachment: true, size: 5 * 1024 * 1024, sizeComparison: 'smaller' },
+    action: { label: 'Billing & "Receipts"', archive: true, markRead: true, neverSpam: true },
+  },
+  {
+    criteria: { to: 'team@example.com', subject: 'standup', query: 'list:dev', negatedQuery: 'urgent' },
+    action: { category: 'forums', star: true, forward: 'me@backup.example' },
+  },
+  { criteria: { from: 'spam@example.com' }, action: { trash: true } },
+];
+
+describe('filter formats', () => {
+  it.each(['json', 'xml', 'sieve'] as const)('round-trips every criterion and action through %s', format => {
+    expect(parseFilters(serializeFilters(rules, format), format)).toEqual(rules);
+  });
+
+  it('reads and writes the Gmail mailFilters.xml properties', () => {
+    const xml = serializeFilters(rules, 'xml');
+    expect(xml).toContain("<apps:property name='label' value='Billing &amp; &quot;Receipts&quot;'/>");
+    expect(xml).toContain("<apps:property name='size' value='5'/>\n\t\t<apps:property name='sizeOperator' value='s_ss'/>" +
+      "\n\t\t<apps:property name='sizeUnit' value='s_smb'/>");
+    expect(xml).toContain("<apps:property name='smartLabelToApply' value='^smartlabel_group'/>");
+  });
+
+  it('writes plain Sieve, keeping Gmail-only parts in a comment', () => {
+    const sieve = serializeFilters(rules, 'sieve');
+    expect(sieve).toContain(
+      '# gmail: {"hasAttachment":true,"neverSpam":true}\n' +
+      'if allof (address :contains "from" "billing@vendor.example",\n          size :under 5M) {\n' +
+      '  addflag "\\\\Seen";\n  fileinto "Billing & \\"Receipts\\"";\n}\n');
+    expect(sieve).toContain('if address :contains "from" "spam@example.com" {\n  fileinto "Trash";\n}');
+
+    expect(parseFilters('require "fileinto";\nif header :contains "subject" "[ci]" { fileinto "CI"; keep; }', 'sieve'))
+      .toEqual([{ criteria: { subject: '[ci]' }, action: { label: 'CI' } }]);
+    expect(() => parseFilters('if exists "x-spam" { stop; }', 'sieve')).toThrow('Sieve line 1: unsupported test "exists"');
+  });
+
+  it('warns about labels Sieve cannot carry', () => {
+    const warnings: string[] = [];
+    serializeFilters([
+      { criteria: { from: 'old@example.com' }, action: { label: 'Old', trash: true } },
+      { criteria: { from: 'done@example.com' }, action: { label: 'Archive' } },
+      { criteria: { from: 'ok@example.com' }, action: { label: 'Work', archive: true } },
+    ], 'sieve', message => { warnings.push(message); });
+    expect(warnings).toEqual([
+      'Sieve cannot label trashed mail; label "Old" is left out of: from:old@example.com → label "Old", trash',
+      'Label "Archive" is also the Sieve Archive folder and reads back as archive: from:done@example.com → label "Archive"',
+    ]);
+
+    serializeFilters(rules, 'json', message => { warnings.push(message); });
+    expect(warnings).toHaveLength(2);
+  });
+});
+
+describe('gmail settings filters import', () => {
+  let proxy: ProxyHarness;
+  let created: any[];
+
+  beforeEach(() => {
+    proxy = createProxyHarness();
+    const labels = [{ id: 'INBOX', name: 'INBOX', type: 'system' }, { id: 'Label_7', name: 'Billing & "Receipts"', type: 'user' }];
+    created = [];
+    proxy.respond('Gmail.Users.Labels.list', () => ({ labels }));
+    proxy.respond('Gmail.Users.Labels.create', (label: any) => {
+      labels.push({ ...label, id: `Label_${labels.length + 7}`, type: 'user' });
+      return labels[labels.length - 1];
+    });
+    proxy.respond('Gmail.Users.Settings.Filters.list', () => ({
+      filter: [
+        {
+          id: 'f1',
+          criteria: { from: 'billing@vendor.example', hasAttachment: true, size: 5242880, sizeComparison: 'smaller' },
+          action: { addLabelIds: ['Label_7'], removeLabelIds: ['INBOX', 'UNREAD', 'SPAM'] },
+        },
+        { id: 'f2', criteria: { query: 'is:chat' }, action: { addLabelIds: ['TRASH'] } },
+      ],
+    }));
+    proxy.respond('Gmail.Users.Settings.Filters.create', (filter: any) => {
+      created.push(filter);
+      return { id: `new${created.length}`, ...filter };
+    });
+  });
+
+  const call = (action: string, params: Record<string, any>) => Promise.resolve(proxy.request('gmail', action, params));
+
+  it('names labels when reading the account', async () => {
+    const result = await fetchFilters(call);
+    expect(result.data.filters[0]).toEqual({ id: 'f1', ...rules[0] });
+  });
+
+  it('warns when a filter adds more labels than a rule holds', async () => {
+    proxy.respond('Gmail.Users.Settings.Filters.list', () => ({
+      filter: [{ id: 'f3', criteria: { from: 'a@example.com' }, action: { addLabelIds: ['Label_7', 'STARRED', 'Label_8', 'Label_9'] } }],
+    }));
+    const warnings: string[] = [];
+    const result = await fetchFilters(call, message => { warnings.push(message); });
+    expect(result.data.filters[0].action).toEqual({ label: 'Billing & "Receipts"', star: true });
+    expect(warnings).toEqual(['Filter f3 adds 3 labels; only "Billing & \\"Receipts\\"" is kept, not "Label_8", "Label_9"']);
+  });
+
+  it('creates only the missing filters, resolving label names', async () => {
+    const plan = await importFilters({ rules, call, dryRun: true });
+    expect(plan.data).toEqual({
+      dryRun: true,
+      added: [
+        { description: 'to:team@example.com subject:standup query:list:dev negatedQuery:urgent → star, category "forums", forward "me@backup.example"' },
+        { description: 'from:spam@example.com → trash' },
+      ],
+      skipped: ['from:billing@vendor.example hasAttachment smaller:5M → label "Billing & \\"Receipts\\"", archive, markRead, neverSpam'],
+      accountOnly: ['query:is:chat → trash'],
+    });
+    expect(created).toEqual([]);
+
+    const result = await importFilters({ rules: [...rules, { criteria: { from: 'x@example.com' }, action: { label: 'New' } }], call });
+    expect(result.data.added.map((f: any) => f.id)).toEqual(['new1', 'new2', 'new3']);
+    expect(created[0]).toEqual({
+      criteria: { to: 'team@example.com', subject: 'standup', query: 'list:dev', negatedQuery: 'urgent' },
+      action: { addLabelIds: ['STARRED', 'CATEGORY_FORUMS'], forward: 'me@backup.example' },
+    });
+    expect(created[2]).toEqual({ criteria: { from: 'x@example.com' }, action: { addLabelIds: ['Label_9'] } });
+
+    expect((await importFilters({ rules: [{ criteria: {}, action: { star: true } }], call })).error?.message)
+      .toBe('A filter needs at least one criterion');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+import { findTime, parseWorkingHours, rankSlots } from '../src/findtime.js';
+import type { SlotSearch } from '../src/findtime.js';
+
+const hour = 3_600_000;
+
+describe('rankSlots', () => {
+  const day = Date.parse('2026-03-09T00:00:00Z'); // a Monday
+  const search: SlotSearch = {
+    start: day,
+    end: day + 24 * hour,
+    duration: hour,
+    buffer: 0,
+    step: hour / 2,
+    workingHours: [9 * 60, 17 * 60],
+    includeWeekends: false,
+    prefer: 'soonest',
+    max: 3,
+  };
+
+  it('keeps slots free for everyone inside working hours in each zone', () => {
+    const calendars = [
+      { id: 'me', timeZone: 'UTC', busy: [{ start: day + 9 * hour, end: day + 10 * hour }] },
+      // 09:00-17:00 in New York is 13:00-21:00 UTC in March.
+      { id: 'ny', timeZone: 'America/New_York', busy: [{ start: day + 13 * hour, end: day + 13.5 * hour }] },
+    ];
+    const slots = rankSlots(calendars, search).map(s => new Date(s.start).toISOString().slice(11, 16));
+    expect(slots).toEqual(['13:30', '14:30', '15:30']);
+
+    const buffered = rankSlots(calendars, { ...search, buffer: hour / 2 }).map(s => new Date(s.start).toISOString().slice(11, 16));
+    expect(buffered[0]).toBe('14:00');
+
+    const central = rankSlots(calendars, { ...search, prefer: 'central', max: 1 });
+    expect(central).toEqual([{ start: day + 14.5 * hour, end: day + 15.5 * hour, score: 0.5 }]);
+
+    const weekend = { ...search, start: day - 2 * 24 * hour, end: day - 24 * hour };
+    expect(rankSlots(calendars, weekend)).toEqual([]);
+    expect(rankSlots(calendars, { ...weekend, includeWeekends: true })).toHaveLength(3);
+  });
+
+  it('parses working hours', () => {
+    expect(parseWorkingHours('09:00-17:30')).toEqual([540, 1050]);
+    expect(parseWorkingHours('8-16')).toEqual([480, 960]);
+    expect(() => parseWorkingHours('17:00-09:00')).toThrow('Invalid --working-hours');
+  });
+});
+
+describe('findTime', () => {
+  it('asks freebusy for busy blocks and time zones of every attendee', async () => {
+    const proxy = createProxyHarness();
+    proxy.respond('Calendar.Freebusy.query', {
+      calendars: {
+        primary: { busy: [{ start: '2026-03-09T09:00:00Z', end: '2026-03-09T12:00:00Z' }] },
+        'bob@example.com': { busy: [] },
+        'eve@elsewhere.example': { errors: [{ reason: 'notFound' }] },
+      },
+    });
+    proxy.respond('Calendar.Calendars.get', (id: string) => {
+      if (id !== 'bob@example.com') throw new Error('Not Found');
+      return { timeZone: 'Europe/Berlin' };
+    });
+    const call = async (action: string, params: Record<string, any>) => proxy.request('calendar', action, params);
+
+    const result = await findTime(call, {
+      attendees: ['bob@example.com', 'eve@elsewhere.example'],
+      duration: '45m',
+      within: 'next week',
+      workingHours: '09:00-17:00',
+      prefer: 'soonest',
+      max: 2,
+      timeZone: 'Europe/London',
+      now: new Date('2026-03-04T12:00:00Z'),
+    });
+
+    expect(proxy.calls[0].args[0]).toEqual({
+      timeMin: '2026-03-09T00:00:00.000Z',
+      timeMax: '2026-03-16T00:00:00.000Z',
+      items: [{ id: 'primary' }, { id: 'bob@example.com' }, { id: 'eve@elsewhere.example' }],
+    });
+    expect(result.data.attendees).toEqual([
+      { id: 'primary', timeZone: 'Europe/London', zoneKnown: true, busyBlocks: 1, error: undefined },
+      { id: 'bob@example.com', timeZone: 'Europe/Berlin', zoneKnown: true, busyBlocks: 0, error: undefined },
+      { id: 'eve@elsewhere.example', timeZone: 'Europe/London', zoneKnown: false, busyBlocks: 0, error: 'notFound' },
+    ]);
+    // London is busy until 12:00 and Berlin's day ends at 16:00 London time.
+    expect(result.data.slots.map((s: any) => [s.start, s.local['bob@example.com']])).toEqual([
+      ['2026-03-09T12:00:00Z', '2026-03-09T13:00:00+01:00'],
+      ['2026-03-09T12:45:00Z', '2026-03-09T13:45:00+01:00'],
+    ]);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { generateManifest } from '../src/deploy/generators.js';
+import { getServiceByKey } from '../src/deploy/service-registry.js';
+
+describe('generateManifest', () => {
+  it('grants the trigger scope gmail snooze needs', () => {
+    const manifest = JSON.parse(generateManifest([getServiceByKey('gmail')!], 'Europe/Berlin'));
+    expect(manifest.oauthScopes).toContain('https://www.googleapis.com/auth/script.scriptapp');
+    expect(manifest.oauthScopes).toContain('https://www.googleapis.com/auth/script.external_request');
+
+    const calendarOnly = JSON.parse(generateManifest([getServiceByKey('calendar')!], 'Europe/Berlin'));
+    expect(calendarOnly.oauthScopes).not.toContain('https://www.googleapis.com/auth/script.scriptapp');
+  });
+
+  it('lets a calendar-only deployment read the Drive files it attaches', () => {
+    const manifest = JSON.parse(generateManifest([getServiceByKey('calendar')!], 'Europe/Berlin'));
+    expect(manifest.oauthScopes).toContain('https://www.googleapis.com/auth/drive.readonly');
+  });
+});
@@ -0,0 +1,1018 @@
+import crypto from 'node:crypto';
+import vm from 'node:vm';
+import { buildRequestBody } from '../../src/client.js';
+import { getAllProxyFiles } from '../../src/deploy/proxy-files.js';
+import type { ProxyResponse } from '../../src/types.js';
+
+/**
+ * Runs the real proxy/*.gs sources in a Node VM against in-memory fakes of
+ * the Apps Script services they call, so doPost() and the handle*() functions
+ * can be tested without deploying.
+ *
+ * Built-in services (PropertiesService, CacheService, LockService, Utilities,
+ * ContentService, Session, ScriptApp, UrlFetchApp, GmailApp, DriveApp,
+ * DocumentApp, SpreadsheetApp) keep real state. Advanced services (Gmail,
+ * Calendar, Drive, ...) are recording stubs: every call is logged in
+ * `harness.calls` and answered from `harness.respond(path, value)`.
+ */
+
+const ADVANCED_SERVICES = [
+  'AdminDirectory', 'Calendar', 'Chat', 'Classroom', 'Docs', 'Drive',
+  'Gmail', 'People', 'Sheets', 'Slides', 'Tasks',
+];
+
+// ---------------------------------------------------------------------------
+// Bytes and blobs
+
+/** Apps Script byte arrays hold signed bytes (-128..127). */
+function toSignedBytes(buf: Buffer): number[] {
+  return Array.from(buf, b => (b > 127 ? b - 256 : b));
+}
+
+function toBuffer(data: unknown): Buffer {
+  if (data === undefined || data === null) return Buffer.alloc(0);
+  if (typeof data === 'string') return Buffer.from(data, 'utf-8');
+  if (Buffer.isBuffer(data)) return data;
+  if (data instanceof FakeBlob) return data.buffer;
+  if (Array.isArray(data)) return Buffer.from(data.map(b => b & 0xff));
+  throw new Error(`Cannot convert ${typeof data} to bytes`);
+}
+
+/** Utilities.formatDate() for the yyyy/MM/dd/HH/mm/ss pattern letters. */
+function formatDateInZone(date: Date, timeZone: string, pattern: string): string {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(date).map(p => [p.type, p.value]));
+  const fields: Record<string, string> = {
+    yyyy: parts.year, MM: parts.month, dd: parts.day, HH: parts.hour, mm: parts.minute, ss: parts.second,
+  };
+  return pattern.replace(/yyyy|MM|dd|HH|mm|ss/g, token => fields[token]);
+}
+
+export class FakeBlob {
+  constructor(
+    public buffer: Buffer,
+    private contentType: string | null = null,
+    private name: string | null = null
+  ) {}
+
+  getBytes(): number[] { return toSignedBytes(this.buffer); }
+  getDataAsString(_charset?: string): string { return this.buffer.toString('utf-8'); }
+  getContentType(): string | null { return this.contentType; }
+  setContentType(contentType: string): FakeBlob { this.contentType = contentType; return this; }
+  getName(): string | null { return this.name; }
+  setName(name: string): FakeBlob { this.name = name; return this; }
+  getSize(): number { return this.buffer.length; }
+  /** No real conversion: the bytes are kept and only the type changes. */
+  getAs(contentType: string): FakeBlob { return new FakeBlob(this.buffer, contentType, this.name); }
+  copyBlob(): FakeBlob { return new FakeBlob(Buffer.from(this.buffer), this.contentType, this.name); }
+  isGoogleType(): boolean { return false; }
+}
+
+// ---------------------------------------------------------------------------
+// Properties, cache, lock, content
+
+class FakeProperties {
+  constructor(private store: Map<string, string>) {}
+
+  getProperty(key: string): string | null { return this.store.has(key) ? this.store.get(key)! : null; }
+  setProperty(key: string, value: string): FakeProperties { this.store.set(key, String(value)); return this; }
+  deleteProperty(key: string): FakeProperties { this.store.delete(key); return this; }
+  getProperties(): Record<string, string> { return Object.fromEntries(this.store); }
+  getKeys(): string[] { return [...this.store.keys()]; }
+  setProperties(props: Record<string, string>, deleteAllOthers?: boolean): FakeProperties {
+    if (deleteAllOthers) this.store.clear();
+    for (const [key, value] of Object.entries(props)) this.store.set(key, String(value));
+    return this;
+  }
+  deleteAllProperties(): FakeProperties { this.store.clear(); return this; }
+}
+
+class FakeCache {
+  private entries = new Map<string, { value: string; expires: number }>();
+
+  get(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expires <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  put(key: string, value: string, expirationInSeconds = 600): void {
+    this.entries.set(key, { value: String(value), expires: Date.now() + expirationInSeconds * 1000 });
+  }
+
+  getAll(keys: string[]): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const key of keys) {
+      const value = this.get(key);
+      if (value !== null) result[key] = value;
+    }
+    return result;
+  }
+
+  putAll(values: Record<string, string>, expirationInSeconds?: number): void {
+    for (const [key, value] of Object.entries(values)) this.put(key, value, expirationInSeconds);
+  }
+
+  remove(key: string): void { this.entries.delete(key); }
+  removeAll(keys: string[]): void { keys.forEach(key => this.entries.delete(key)); }
+}
+
+class FakeLock {
+  private held = false;
+
+  /** `busy()` reports whether another execution holds the lock. */
+  constructor(private busy: () => boolean) {}
+
+  tryLock(_timeoutInMillis?: number): boolean {
+    if (this.busy()) return false;
+    this.held = true;
+    return true;
+  }
+
+  waitLock(timeoutInMillis?: number): void {
+    if (!this.tryLock(timeoutInMillis)) {
+      throw new Error('Lock timeout: another process was holding the lock for too long.');
+    }
+  }
+
+  hasLock(): boolean { return this.held; }
+  releaseLock(): void { this.held = false; }
+}
+
+export class FakeTextOutput {
+  private mimeType = 'TEXT';
+
+  constructor(private content: string) {}
+
+  getContent(): string { return this.content; }
+  setContent(content: string): FakeTextOutput { this.content = content; return this; }
+  append(content: string): FakeTextOutput { this.content += content; return this; }
+  getMimeType(): string { return this.mimeType; }
+  setMimeType(mimeType: string): FakeTextOutput { this.mimeType = mimeType; return this; }
+}
+
+// ---------------------------------------------------------------------------
+// GmailApp
+
+export interface MessageSeed {
+  id?: string;
+  from?: string;
+  to?: string;
+  cc?: string;
+  bcc?: string;
+  replyTo?: string;
+  subject?: string;
+  body?: string;
+  html?: string;
+  date?: Date | string;
+  unread?: boolean;
+  starred?: boolean;
+  headers?: Record<string, string>;
+  attachments?: { name: string; contentType?: string; content: string | Buffer }[];
+}
+
+export interface ThreadSeed {
+  id?: string;
+  labels?: string[];
+  inbox?: boolean;
+  trash?: boolean;
+  spam?: boolean;
+  important?: boolean;
+  messages: MessageSeed[];
+}
+
+export class FakeGmailLabel {
+  constructor(private gmail: FakeGmailApp, private name: string) {}
+
+  getName(): string { return this.name; }
+  getThreads(start = 0, max = Infinity): FakeGmailThread[] {
+    return this.gmail.threads.filter(t => t.labels.has(this.name)).slice(start, start + max);
+  }
+  getUnreadCount(): number { return this.getThreads().filter(t => t.isUnread()).length; }
+  addToThread(thread: FakeGmailThread): FakeGmailLabel { thread.labels.add(this.name); return this; }
+  addToThreads(threads: FakeGmailThread[]): FakeGmailLabel { threads.forEach(t => t.labels.add(this.name)); return this; }
+  removeFromThread(thread: FakeGmailThread): FakeGmailLabel { thread.labels.delete(this.name); return this; }
+  removeFromThreads(threads: FakeGmailThread[]): FakeGmailLabel { threads.forEach(t => t.labels.delete(this.name)); return this; }
+  deleteLabel(): void { this.gmail.deleteLabel(this.name); }
+}
+
+export class FakeGmailMessage {
+  id: string;
+  from: string;
+  to: string;
+  cc: string;
+  bcc: string;
+  replyTo: string;
+  subject: string;
+  body: string;
+  html: string;
+  date: Date;
+  unread: boolean;
+  starred: boolean;
+  trash = false;
+  headers: Record<string, string>;
+  attachments: FakeBlob[];
+
+  constructor(public thread: FakeGmailThread, seed: MessageSeed, id: string) {
+    this.id = id;
+    this.from = seed.from ?? 'sender@example.com';
+    this.to = seed.to ?? 'me@example.com';
+    this.cc = seed.cc ?? '';
+    this.bcc = seed.bcc ?? '';
+    this.replyTo = seed.replyTo ?? '';
+    this.subject = seed.subject ?? '';
+    this.body = seed.body ?? '';
+    this.html = seed.html ?? this.body;
+    this.date = seed.date ? new Date(seed.date) : new Date();
+    this.unread = seed.unread ?? false;
+    this.starred = seed.starred ?? false;
+    this.headers = { 'Message-ID': `<${id}@mail.example.com>`, ...seed.headers };
+    this.attachments = (seed.attachments ?? []).map(
+      a => new FakeBlob(toBuffer(a.content), a.contentType ?? 'application/octet-stream', a.name)
+    );
+  }
+
+  getId(): string { return this.id; }
+  getThread(): FakeGmailThread { return this.thread; }
+  getFrom(): string { return this.from; }
+  getTo(): string { return this.to; }
+  getCc(): string { return this.cc; }
+  getBcc(): string { return this.bcc; }
+  getReplyTo(): string { return this.replyTo; }
+  getSubject(): string { return this.subject; }
+  getPlainBody(): string { return this.body; }
+  getBody(): string { return this.html; }
+  getDate(): Date { return this.date; }
+  getHeader(name: string): string {
+    const key = Object.keys(this.headers).find(k => k.toLowerCase() === name.toLowerCase());
+    return key ? this.headers[key] : '';
+  }
+  getAttachments(): FakeBlob[] { return this.attachments; }
+  getRawContent(): string {
+    const lines = [
+      `From: ${this.from}`,
+      `To: ${this.to}`,
+      ...(this.cc ? [`Cc: ${this.cc}`] : []),
+      `Subject: ${this.subject}`,
+      `Date: ${this.date.toUTCString()}`,
+      ...Object.entries(this.headers).map(([k, v]) => `${k}: ${v}`),
+      '',
+      this.body,
+    ];
+    return lines.join('\r\n');
+  }
+  isUnread(): boolean { return this.unread; }
+  isStarred(): boolean { return this.starred; }
+  isInTrash(): boolean { return this.trash || this.thread.trash; }
+  isInInbox(): boolean { return !this.isInTrash() && this.thread.isInInbox(); }
+  isDraft(): boolean { return this.thread.labels.has('DRAFT'); }
+  markRead(): FakeGmailMessage { this.unread = false; return this; }
+  markUnread(): FakeGmailMessage { this.unread = true; return this; }
+  star(): FakeGmailMessage { this.starred = true; return this; }
+  unstar(): FakeGmailMessage { this.starred = false; return this; }
+  moveToTrash(): FakeGmailMessage { this.trash = true; return this; }
+  reply(body: string, options?: Record<string, any>): FakeGmailMessage {
+    this.thread.addReply(this, false, body, options);
+    return this;
+  }
+  replyAll(body: string, options?: Record<string, any>): FakeGmailMessage {
+    this.thread.addReply(this, true, body, options);
+    return this;
+  }
+  createDraftReply(body: string, options?: Record<string, any>): FakeGmailDraft {
+    return this.thread.createDraftReply(body, options);
+  }
+}
+
+export class FakeGmailThread {
+  messages: FakeGmailMessage[] = [];
+  labels: Set<string>;
+  inbox: boolean;
+  trash: boolean;
+  spam: boolean;
+  important: boolean;
+
+  constructor(private gmail: FakeGmailApp, public id: string, seed: ThreadSeed) {
+    this.labels = new Set(seed.labels ?? []);
+    this.inbox = seed.inbox ?? true;
+    this.trash = seed.trash ?? false;
+    this.spam = seed.spam ?? false;
+    this.important = seed.important ?? false;
+    for (const message of seed.messages) this.addMessage(message);
+  }
+
+  addMessage(seed: MessageSeed): FakeGmailMessage {
+    const message = new FakeGmailMessage(this, seed, seed.id ?? this.gmail.nextId('msg'));
+    this.messages.push(message);
+    return message;
+  }
+
+  getId(): string { return this.id; }
+  getMessages(): FakeGmailMessage[] { return this.messages; }
+  getMessageCount(): number { return this.messages.length; }
+  getFirstMessageSubject(): string { return this.messages[0]?.subject ?? ''; }
+  getLastMessageDate(): Date { return this.messages[this.messages.length - 1].date; }
+  getLabels(): FakeGmailLabel[] {
+    return [...this.labels].map(name => this.gmail.getUserLabelByName(name)).filter((l): l is FakeGmailLabel => !!l);
+  }
+  isUnread(): boolean { return this.messages.some(m => m.unread); }
+  hasStarredMessages(): boolean { return this.messages.some(m => m.starred); }
+  isInInbox(): boolean { return this.inbox && !this.trash; }
+  isInTrash(): boolean { return this.trash; }
+  isInSpam(): boolean { return this.spam; }
+  isImportant(): boolean { return this.important; }
+  addLabel(label: FakeGmailLabel): FakeGmailThread { this.labels.add(label.getName()); return this; }
+  removeLabel(label: FakeGmailLabel): FakeGmailThread { this.labels.delete(label.getName()); return this; }
+  markRead(): FakeGmailThread { this.messages.forEach(m => m.markRead()); return this; }
+  markUnread(): FakeGmailThread { this.messages.forEach(m => m.markUnread()); return this; }
+  markImportant(): FakeGmailThread { this.important = true; return this; }
+  markUnimportant(): FakeGmailThread { this.important = false; return this; }
+  moveToTrash(): FakeGmailThread { this.trash = true; return this; }
+  moveToArchive(): FakeGmailThread { this.inbox = false; this.trash = false; return this; }
+  moveToInbox(): FakeGmailThread { this.inbox = true; this.trash = false; return this; }
+  reply(body: string, options: Record<string, any> = {}): FakeGmailThread {
+    this.addReply(this.messages[this.messages.length - 1], false, body, options);
+    return this;
+  }
+  /** Append the user's reply to `message`, threaded by In-Reply-To/References. */
+  addReply(message: FakeGmailMessage, all: boolean, body: string, options: Record<string, any> = {}): FakeGmailMessage {
+    const me = this.gmail.userEmail.toLowerCase();
+    const others = (list: string) => list.split(',').map(a => a.trim()).filter(a => a && !a.toLowerCase().includes(me));
+    const to = [message.replyTo || message.from, ...(all ? others(message.to) : [])].join(', ');
+    const messageId = message.getHeader('Message-ID');
+    const reply = this.addMessage({
+      from: this.gmail.userEmail,
+      to,
+      cc: options.cc,
+      bcc: options.bcc,
+      subject: /^re:/i.test(message.subject) ? message.subject : `Re: ${message.subject}`,
+      body,
+      html: options.htmlBody,
+      headers: {
+        'In-Reply-To': messageId,
+        References: [message.getHeader('References'), messageId].filter(Boolean).join(' '),
+      },
+    });
+    this.gmail.sent.push({ to, subject: reply.subject, body, options });
+    return reply;
+  }
+  createDraftReply(body: string, options: Record<string, any> = {}): FakeGmailDraft {
+    const last = this.messages[this.messages.length - 1];
+    return this.gmail.createDraft(last.from, `Re: ${last.subject}`, body, options);
+  }
+}
+
+export class FakeGmailDraft {
+  constructor(private gmail: FakeGmailApp, public id: string, public message: FakeGmailMessage) {}
+
+  getId(): string { return this.id; }
+  getMessage(): FakeGmailMessage { return this.message; }
+  getMessageId(): string { return this.message.id; }
+  update(to: string, subject: string, body: string, options: Record<string, any> = {}): FakeGmailDraft {
+    Object.assign(this.message, {
+      to: to ?? this.message.to,
+      subject: subject ?? this.message.subject,
+      body,
+      html: options.htmlBody || body,
+      cc: options.cc ?? this.message.cc,
+      bcc: options.bcc ?? this.message.bcc,
+    });
+    return this;
+  }
+  send(): FakeGmailMessage {
+    this.gmail.removeDraft(this.id);
+    const { to, subject, body } = this.message;
+    this.gmail.sent.push({ to, subject, body, options: {} });
+    this.message.thread.labels.delete('DRAFT');
+    return this.message;
+  }
+  deleteDraft(): void { this.gmail.removeDraft(this.id); }
+}
+
+/** A mail recorded by sendEmail(), reply() or a sent draft. */
+export interface SentMail {
+  to: string;
+  subject: string;
+  body: string;
+  options: Record<string, any>;
+}
+
+/**
+ * In-memory GmailApp. search() understands a small subset of Gmail syntax:
+ * is:unread/read/starred/important, in:inbox/trash/anywhere, label:, from:,
+ * to:, subject:, has:attachment and bare words (matched against subject,
+ * sender and body). Other operators are ignored.
+ */
+export class FakeGmailApp {
+  threads: FakeGmailThread[] = [];
+  labelNames: string[] = [];
+  drafts: FakeGmailDraft[] = [];
+  sent: SentMail[] = [];
+  private counter = 0;
+
+  constructor(public userEmail: string) {}
+
+  nextId(prefix: string): string {
+    this.counter++;
+    return `${prefix}${this.counter.toString(16).padStart(6, '0')}`;
+  }
+
+  /** Seed a thread (and any labels it carries). */
+  addThread(seed: ThreadSeed): FakeGmailThread {
+    for (const name of seed.labels ?? []) {
+      if (!this.labelNames.includes(name)) this.labelNames.push(name);
+    }
+    const thread = new FakeGmailThread(this, seed.id ?? this.nextId('thread'), seed);
+    this.threads.push(thread);
+    return thread;
+  }
+
+  search(query: string, start = 0, max = Infinity): FakeGmailThread[] {
+    const matches = this.threads.filter(thread => matchesQuery(thread, query));
+    return matches.slice(start, start + max);
+  }
+
+  getThreadById(id: string): FakeGmailThread | null {
+    return this.threads.find(t => t.id === id) ?? null;
+  }
+
+  getMessageById(id: string): FakeGmailMessage | null {
+    for (const thread of this.threads) {
+      const message = thread.messages.find(m => m.id === id);
+      if (message) return message;
+    }
+    return null;
+  }
+
+  getInboxThreads(start = 0, max = Infinity): FakeGmailThread[] {
+    return this.threads.filter(t => t.isInInbox()).slice(start, start + max);
+  }
+
+  getInboxUnreadCount(): number {
+    return this.getInboxThreads().filter(t => t.isUnread()).length;
+  }
+
+  getUserLabels(): FakeGmailLabel[] {
+    return this.labelNames.map(name => new FakeGmailLabel(this, name));
+  }
+
+  getUserLabelByName(name: string): FakeGmailLabel | null {
+    return this.labelNames.includes(name) ? new FakeGmailLabel(this, name) : null;
+  }
+
+  createLabel(name: string): FakeGmailLabel {
+    if (!this.labelNames.includes(name)) this.labelNames.push(name);
+    return new FakeGmailLabel(this, name);
+  }
+
+  deleteLabel(name: string): void {
+    this.labelNames = this.labelNames.filter(n => n !== name);
+    this.threads.forEach(t => t.labels.delete(name));
+  }
+
+  sendEmail(to: string, subject: string, body: string, options: Record<string, any> = {}): FakeGmailApp {
+    this.sent.push({ to, subject, body, options });
+    this.addThread({
+      inbox: false,
+      labels: [],
+      messages: [{ from: this.userEmail, to, cc: options.cc, bcc: options.bcc, subject, body, html: options.htmlBody }],
+    });
+    return this;
+  }
+
+  createDraft(to: string, subject: string, body: string, options: Record<string, any> = {}): FakeGmailDraft {
+    const thread = this.addThread({
+      inbox: false,
+      messages: [{ from: this.userEmail, to, cc: options.cc, bcc: options.bcc, subject, body, html: options.htmlBody }],
+    });
+    thread.labels.add('DRAFT');
+    const draft = new FakeGmailDraft(this, this.nextId('r'), thread.messages[0]);
+    this.drafts.push(draft);
+    return draft;
+  }
+
+  getDrafts(): FakeGmailDraft[] { return [...this.drafts]; }
+  getDraft(id: string): FakeGmailDraft | null { return this.drafts.find(d => d.id === id) ?? null; }
+  removeDraft(id: string): void { this.drafts = this.drafts.filter(d => d.id !== id); }
+}
+
+function tokenizeQuery(query: string): string[] {
+  return query.match(/(?:[^\s"]+:)?"[^"]*"|\S+/g) ?? [];
+}
+
+function matchesQuery(thread: FakeGmailThread, query: string): boolean {
+  let scope: 'inbox' | 'trash' | 'anywhere' | 'default' = 'default';
+  const tests: ((t: FakeGmailThread) => boolean)[] = [];
+  const text = (m: FakeGmailMessage) => `${m.subject}\n${m.from}\n${m.body}`.toLowerCase();
+
+  for (const token of tokenizeQuery(query.trim())) {
+    const colon = token.indexOf(':');
+    const key = colon > 0 ? token.slice(0, colon).toLowerCase() : '';
+    const value = (colon > 0 ? token.slice(colon + 1) : token).replace(/^"|"$/g, '').toLowerCase();
+
+    switch (key) {
+      case 'is':
+        if (value === 'unread') tests.push(t => t.isUnread());
+        else if (value === 'read') tests.push(t => !t.isUnread());
+        else if (value === 'starred') tests.push(t => t.hasStarredMessages());
+        else if (value === 'important') tests.push(t => t.important);
+        else if (value === 'inbox') scope = 'inbox';
+        break;
+      case 'in':
+        if (value === 'inbox' || value === 'trash' || value === 'anywhere') scope = value;
+        break;
+      case 'label':
+        tests.push(t => [...t.labels].some(l => l.toLowerCase() === value));
+        break;
+      case 'from':
+        tests.push(t => t.messages.some(m => m.from.toLowerCase().includes(value)));
+        break;
+      case 'to':
+        tests.push(t => t.messages.some(m => m.to.toLowerCase().includes(value)));
+        break;
+      case 'subject':
+        tests.push(t => t.messages.some(m => m.subject.toLowerCase().includes(value)));
+        break;
+      case 'has':
+        if (value === 'attachment') tests.push(t => t.messages.some(m => m.attachments.length > 0));
+        break;
+      case '':
+        tests.push(t => t.messages.some(m => text(m).includes(value)));
+        break;
+      default:
+        break;
+    }
+  }
+
+  if (scope === 'inbox' && !thread.isInInbox()) return false;
+  if (scope === 'trash' && !thread.trash) return false;
+  if (scope === 'default' && thread.trash) return false;
+  return tests.every(test => test(thread));
+}
+
+// ---------------------------------------------------------------------------
+// DriveApp and DocumentApp
+
+export interface FileSeed {
+  id?: string;
+  name: string;
+  mimeType?: string;
+  content?: string | Buffer;
+  parentId?: string;
+}
+
+export class FakeDriveFile {
+  trashed = false;
+
+  constructor(
+    private drive: FakeDriveApp,
+    public id: string,
+    public name: string,
+    public mimeType: string,
+    public content: Buffer,
+    public parentIds: string[]
+  ) {}
+
+  getId(): string { return this.id; }
+  getName(): string { return this.name; }
+  setName(name: string): FakeDriveFile { this.name = name; return this; }
+  getMimeType(): string { return this.mimeType; }
+  getSize(): number { return this.content.length; }
+  getUrl(): string { return `https://drive.google.com/file/d/${this.id}/view`; }
+  getBlob(): FakeBlob { return new FakeBlob(this.content, this.mimeType, this.name); }
+  getAs(contentType: string): FakeBlob { return this.getBlob().getAs(contentType); }
+  isTrashed(): boolean { return this.trashed; }
+  setTrashed(trashed: boolean): FakeDriveFile { this.trashed = trashed; return this; }
+  setContent(content: string): FakeDriveFile { this.content = toBuffer(content); return this; }
+  makeCopy(name?: string): FakeDriveFile {
+    return this.drive.addFile({ name: name ?? `Copy of ${this.name}`, mimeType: this.mimeType, content: this.content });
+  }
+}
+
+export class FakeDriveFolder {
+  constructor(private drive: FakeDriveApp, public id: string, public name: string) {}
+
+  getId(): string { return this.id; }
+  getName(): string { return this.name; }
+  getFiles(): FakeDriveFile[] { return this.drive.files.filter(f => f.parentIds.includes(this.id)); }
+  addFile(file: FakeDriveFile): FakeDriveFolder {
+    if (!file.parentIds.includes(this.id)) file.parentIds.push(this.id);
+    return this;
+  }
+  removeFile(file: FakeDriveFile): FakeDriveFolder {
+    file.parentIds = file.parentIds.filter(id => id !== this.id);
+    return this;
+  }
+  createFile(name: string, content: string, mimeType = 'text/plain'): FakeDriveFile {
+    return this.drive.addFile({ name, content, mimeType, parentId: this.id });
+  }
+  createFolder(name: string): FakeDriveFolder { return this.drive.addFolder(name); }
+}
+
+/** In-memory DriveApp. getFileById()/getFolderById() throw for unknown IDs, as Apps Script does. */
+export class FakeDriveApp {
+  files: FakeDriveFile[] = [];
+  folders: FakeDriveFolder[];
+  private counter = 0;
+
+  constructor() {
+    this.folders = [new FakeDriveFolder(this, 'root', 'My Drive')];
+  }
+
+  nextId(prefix: string): string {
+    this.counter++;
+    return `${prefix}${this.counter.toString(16).padStart(6, '0')}`;
+  }
+
+  addFile(seed: FileSeed): FakeDriveFile {
+    const file = new FakeDriveFile(
+      this,
+      seed.id ?? this.nextId('file'),
+      seed.name,
+      seed.mimeType ?? 'text/plain',
+      toBuffer(seed.content ?? ''),
+      [seed.parentId ?? 'root']
+    );
+    this.files.push(file);
+    return file;
+  }
+
+  addFolder(name: string, id?: string): FakeDriveFolder {
+    const folder = new FakeDriveFolder(this, id ?? this.nextId('folder'), name);
+    this.folders.push(folder);
+    return folder;
+  }
+
+  getFileById(id: string): FakeDriveFile {
+    const file = this.files.find(f => f.id === id);
+    if (!file) throw new Error('No item with the given ID could be found, or you do not have permission to access it.');
+    return file;
+  }
+
+  getFolderById(id: string): FakeDriveFolder {
+    const folder = this.folders.find(f => f.id === id);
+    if (!folder) throw new Error('No item with the given ID could be found, or you do not have permission to access it.');
+    return folder;
+  }
+
+  getRootFolder(): FakeDriveFolder { return this.folders[0]; }
+
+  createFile(name: string, content: string, mimeType = 'text/plain'): FakeDriveFile {
+    return this.addFile({ name, content, mimeType });
+  }
+
+  createFolder(name: string): FakeDriveFolder { return this.addFolder(name); }
+}
+
+class FakeDocument {
+  constructor(private file: FakeDriveFile) {}
+
+  getId(): string { return this.file.id; }
+  getName(): string { return this.file.name; }
+  getUrl(): string { return `https://docs.google.com/document/d/${this.file.id}/edit`; }
+  getBody() {
+    const file = this.file;
+    return {
+      getText: (): string => file.content.toString('utf-8'),
+      setText: (text: string) => { file.setContent(text); },
+      appendParagraph: (text: string) => {
+        const current = file.content.toString('utf-8');
+        file.setContent(current ? `${current}\n${text}` : text);
+      },
+    };
+  }
+  saveAndClose(): void {}
+}
+
+const DOCUMENT_MIME = 'application/vnd.google-apps.document';
+
+// ---------------------------------------------------------------------------
+// SpreadsheetApp
+
+export class FakeSheet {
+  rows: any[][] = [];
+  frozenRows = 0;
+
+  constructor(public name: string) {}
+
+  getName(): string { return this.name; }
+  appendRow(row: any[]): FakeSheet { this.rows.push([...row]); return this; }
+  getLastRow(): number { return this.rows.length; }
+  getLastColumn(): number { return Math.max(0, ...this.rows.map(r => r.length)); }
+  deleteRows(rowPosition: number, howMany: number): void { this.rows.splice(rowPosition - 1, howMany); }
+  setFrozenRows(rows: number): void { this.frozenRows = rows; }
+  getRange(row: number, column: number, numRows = 1, numColumns = 1) {
+    const rows = this.rows;
+    const values = (): any[][] => Array.from({ length: numRows }, (_, r) =>
+      Array.from({ length: numColumns }, (_, c) => rows[row - 1 + r]?.[column - 1 + c] ?? ''));
+    return {
+      getValue: () => values()[0][0],
+      getValues: values,
+      setValues: (data: any[][]) => {
+        data.forEach((line, r) => {
+          const target = (rows[row - 1 + r] ??= []);
+          line.forEach((value, c) => { target[column - 1 + c] = value; });
+        });
+      },
+    };
+  }
+  getDataRange() { return this.getRange(1, 1, this.getLastRow(), this.getLastColumn()); }
+}
+
+export class FakeSpreadsheet {
+  sheets: FakeSheet[] = [];
+
+  constructor(public id: string) {}
+
+  getId(): string { return this.id; }
+  getSheetByName(name: string): FakeSheet | null { return this.sheets.find(s => s.name === name) ?? null; }
+  getSheets(): FakeSheet[] { return this.sheets; }
+  insertSheet(name: string): FakeSheet {
+    const sheet = new FakeSheet(name);
+    this.sheets.push(sheet);
+    return sheet;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// UrlFetchApp
+
+/**
+ * An HTTPResponse with a status and headers. A 'UrlFetchApp.fetch' responder
+ * may return one; any other value becomes a 200 with that body.
+ */
+export class FakeHttpResponse {
+  readonly body: Buffer;
+
+  constructor(
+    readonly status: number,
+    body: unknown = '',
+    readonly headers: Record<string, string> = {},
+  ) {
+    this.body = toBuffer(body);
+  }
+
+  getResponseCode(): number { return this.status; }
+  getHeaders(): Record<string, string> { return this.headers; }
+  getAllHeaders(): Record<string, string> { return this.headers; }
+  getContentText(): string { return this.body.toString('utf-8'); }
+  getContent(): number[] { return toSignedBytes(this.body); }
+  getBlob(): FakeBlob { return new FakeBlob(this.body, this.headers['Content-Type'] ?? null, null); }
+}
+
+// ---------------------------------------------------------------------------
+// ScriptApp triggers
+
+export interface FakeTrigger {
+  id: string;
+  handler: string;
+  /** 'at', 'after' or 'everyMinutes'/'everyHours'/'everyDays' with its argument. */
+  schedule: Record<string, any>;
+}
+
+function createScriptApp(triggers: FakeTrigger[], nextId: () => string) {
+  const wrap = (trigger: FakeTrigger) => ({
+    getUniqueId: () => trigger.id,
+    getHandlerFunction: () => trigger.handler,
+    getEventType: () => 'CLOCK',
+  });
+  return {
+    newTrigger(handler: string) {
+      const schedule: Record<string, any> = {};
+      const builder = {
+        timeBased: () => builder,
+        at: (date: Date) => { schedule.at = new Date(date).toISOString(); return builder; },
+        after: (ms: number) => { schedule.after = ms; return builder; },
+        everyMinutes: (n: number) => { schedule.everyMinutes = n; return builder; },
+        everyHours: (n: number) => { schedule.everyHours = n; return builder; },
+        everyDays: (n: number) => { schedule.everyDays = n; return builder; },
+        create: () => {
+          const trigger = { id: nextId(), handler, schedule };
+          triggers.push(trigger);
+          return wrap(trigger);
+        },
+      };
+      return builder;
+    },
+    getProjectTriggers: () => triggers.map(wrap),
+    deleteTrigger: (trigger: { getUniqueId(): string }) => {
+      const index = triggers.findIndex(t => t.id === trigger.getUniqueId());
+      if (index !== -1) triggers.splice(index, 1);
+    },
+    getScriptId: () => 'fake-script-id',
+    getOAuthToken: () => 'fake-oauth-token',
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Advanced services
+
+export interface AdvancedCall {
+  /** Dotted method path, e.g. 'Calendar.Events.list'. */
+  method: string;
+  args: any[];
+}
+
+type AdvancedResponder = any | ((...args: any[]) => any);
+
+/**
+ * A stub advanced service: any property chain can be called. Calls are
+ * recorded; the result is the registered response (called with the args if
+ * it is a function), or {} so `result.items || []` style code sees no items.
+ */
+function createAdvancedService(
+  path: string,
+  calls: AdvancedCall[],
+  responses: Map<string, AdvancedResponder>
+): any {
+  return new Proxy(function stub() {}, {
+    get(_target, prop) {
+      if (typeof prop === 'symbol') return undefined;
+      return createAdvancedService(`${path}.${prop}`, calls, responses);
+    },
+    apply(_target, _thisArg, args) {
+      calls.push({ method: path, args: JSON.parse(JSON.stringify(args ?? [])) });
+      if (!responses.has(path)) return {};
+      const response = responses.get(path);
+      return typeof response === 'function' ? response(...args) : JSON.parse(JSON.stringify(response));
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Harness
+
+export interface ProxyHarnessOptions {
+  /** JWT_SECRET script property. */
+  secret?: string;
+  /** Extra script properties (IP_ALLOWLIST, LOG_SHEET_ID, ...). */
+  properties?: Record<string, string>;
+  /** Session.getActiveUser() email. */
+  userEmail?: string;
+  /** Replace the proxy sources (defaults to the bundled PROXY_FILES). */
+  files?: Record<string, string>;
+}
+
+export interface ProxyHarness {
+  /** The VM global scope: every top-level proxy function (doPost, verifyJwt, handleGmail, ...). */
+  globals: Record<string, any>;
+  secret: string;
+  properties: Map<string, string>;
+  cache: FakeCache;
+  gmail: FakeGmailApp;
+  drive: FakeDriveApp;
+  spreadsheets: Map<string, FakeSpreadsheet>;
+  triggers: FakeTrigger[];
+  /** Advanced-service and UrlFetchApp calls, in order. */
+  calls: AdvancedCall[];
+  /** Set to make LockService.tryLock() fail, as if another execution held it. */
+  lockBusy: boolean;
+  /** Register the response for an advanced-service method or 'UrlFetchApp.fetch'. */
+  respond(method: string, response: AdvancedResponder): void;
+  /** Run doPost() with a raw request body and parse its JSON output. */
+  post(body: string): ProxyResponse;
+  /** Build a request with the CLI's buildRequestBody() and run it through doPost(). */
+  request(service: string, action: string, params?: Record<string, any>): ProxyResponse;
+  /** A fetch() stand-in that answers from doPost(), for driving executeCommand(). */
+  fetch: typeof fetch;
+}
+
+/**
+ * Load the proxy sources into a fresh VM context with Apps Script fakes.
+ */
+export function createProxyHarness(options: ProxyHarnessOptions = {}): ProxyHarness {
+  const secret = options.secret ?? 'harness-secret-that-is-at-least-32-bytes';
+  const userEmail = options.userEmail ?? 'me@example.com';
+  const properties = new Map<string, string>(Object.entries({ JWT_SECRET: secret, ...options.properties }));
+  const cache = new FakeCache();
+  const gmail = new FakeGmailApp(userEmail);
+  const drive = new FakeDriveApp();
+  const spreadsheets = new Map<string, FakeSpreadsheet>();
+  const triggers: FakeTrigger[] = [];
+  const calls: AdvancedCall[] = [];
+  const responses = new Map<string, AdvancedResponder>();
+  let triggerCount = 0;
+
+  const harness = {
+    secret,
+    properties,
+    cache,
+    gmail,
+    drive,
+    spreadsheets,
+    triggers,
+    calls,
+    lockBusy: false,
+  } as ProxyHarness;
+
+  const props = new FakeProperties(properties);
+  const lock = () => new FakeLock(() => harness.lockBusy);
+
+  const sandbox: Record<string, any> = {
+    console,
+    PropertiesService: {
+      getScriptProperties: () => props,
+      getUserProperties: () => props,
+      getDocumentProperties: () => null,
+    },
+    CacheService: {
+      getScriptCache: () => cache,
+      getUserCache: () => cache,
+      getDocumentCache: () => null,
+    },
+    LockService: {
+      getScriptLock: lock,
+      getUserLock: lock,
+      getDocumentLock: lock,
+    },
+    Utilities: {
+      Charset: { UTF_8: 'UTF-8', US_ASCII: 'US-ASCII' },
+      DigestAlgorithm: { MD5: 'md5', SHA_1: 'sha1', SHA_256: 'sha256', SHA_512: 'sha512' },
+      base64Encode: (data: unknown) => toBuffer(data).toString('base64'),
+      base64EncodeWebSafe: (data: unknown) => toBuffer(data).toString('base64').replace(/\+/g, '-').replace(/\//g, '_'),
+      base64Decode: (encoded: string) => toSignedBytes(Buffer.from(encoded, 'base64')),
+      base64DecodeWebSafe: (encoded: string) => toSignedBytes(Buffer.from(encoded, 'base64url')),
+      computeHmacSha256Signature: (value: unknown, key: unknown) =>
+        toSignedBytes(crypto.createHmac('sha256', toBuffer(key)).update(toBuffer(value)).digest()),
+      computeDigest: (algorithm: string, value: unknown) =>
+        toSignedBytes(crypto.createHash(algorithm).update(toBuffer(value)).digest()),
+      newBlob: (data: unknown, contentType?: string, name?: string) =>
+        new FakeBlob(toBuffer(data), contentType ?? null, name ?? null),
+      getUuid: () => crypto.randomUUID(),
+      formatDate: formatDateInZone,
+      sleep: () => {},
+    },
+    ContentService: {
+      MimeType: { JSON: 'JSON', TEXT: 'TEXT', CSV: 'CSV', ICAL: 'ICAL', JAVASCRIPT: 'JAVASCRIPT', XML: 'XML' },
+      createTextOutput: (content = '') => new FakeTextOutput(content),
+    },
+    Session: {
+      getActiveUser: () => ({ getEmail: () => userEmail }),
+      getEffectiveUser: () => ({ getEmail: () => userEmail }),
+      getScriptTimeZone: () => 'UTC',
+    },
+    ScriptApp: createScriptApp(triggers, () => `trigger-${++triggerCount}`),
+    UrlFetchApp: {
+      fetch: (url: string, params: Record<string, any> = {}) => {
+        calls.push({ method: 'UrlFetchApp.fetch', args: [url, params] });
+        if (!responses.has('UrlFetchApp.fetch')) {
+          throw new Error('Address unavailable: ' + url);
+        }
+        const response = responses.get('UrlFetchApp.fetch');
+        const body = typeof response === 'function' ? response(url, params) : response;
+        if (body instanceof FakeHttpResponse) return body;
+        return new FakeHttpResponse(200, typeof body === 'string' ? body : JSON.stringify(body));
+      },
+    },
+    GmailApp: gmail,
+    DriveApp: drive,
+    DocumentApp: {
+      create: (title: string) => new FakeDocument(drive.addFile({ name: title, mimeType: DOCUMENT_MIME })),
+      openById: (id: string) => new FakeDocument(drive.getFileById(id)),
+    },
+    SpreadsheetApp: {
+      // Any ID opens (and remembers) a spreadsheet, so LOG_SHEET_ID needs no setup
+      openById: (id: string) => {
+        if (!spreadsheets.has(id)) spreadsheets.set(id, new FakeSpreadsheet(id));
+        return spreadsheets.get(id)!;
+      },
+    },
+    Logger: { log: () => {} },
+  };
+  for (const name of ADVANCED_SERVICES) {
+    sandbox[name] = createAdvancedService(name, calls, responses);
+  }
+  // Follow the host clock, so vi.useFakeTimers() / vi.setSystemTime() reach the proxy code
+  Object.defineProperty(sandbox, 'Date', { get: () => globalThis.Date, enumerable: true });
+
+  const context = vm.createContext(sandbox);
+  const files = options.files ?? getAllProxyFiles();
+  // Router.gs reads the handle* functions into SERVICE_REGISTRY_ when it loads,
+  // so it must come after the service files
+  const names = Object.keys(files).sort((a, b) => Number(a === 'Router.gs') - Number(b === 'Router.gs'));
+  for (const name of names) {
+    vm.runInContext(files[name], context, { filename: name });
+  }
+
+  const post = (body: string): ProxyResponse => {
+    const output = context.doPost({ postData: { contents: body, type: 'application/json' } }) as FakeTextOutput;
+    return JSON.parse(output.getContent());
+  };
+
+  harness.globals = context;
+  harness.respond = (method, response) => { responses.set(method, response); };
+  harness.post = post;
+  harness.request = (service, action, params = {}) =>
+    post(buildRequestBody(service, action, params, secret));
+  harness.fetch = (async (_url: unknown, init?: { body?: unknown }) => {
+    const result = post(String(init?.body ?? ''));
+    return new Response(JSON.stringify(result), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+
+  return harness;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+import { collapseQuotedText, htmlToText, messageBodyText } from '../src/html-text.js';
+
+describe('htmlToText', () => {
+  it('renders paragraphs, Gmail line divs and links as footnotes', () => {
+    const html = '<html><head><style>p { color: red }</style></head><body>' +
+      '<div style="display:none">Preheader</div>' +
+      '<div dir="ltr">Hi Bob,<div><br></div><div>See the <a href="https://example.com/q3?a=1&amp;b=2">Q3 report</a>, ' +
+      '<a href="https://example.com/q3?a=1&amp;b=2">again</a> and <a href="mailto:ops@example.com">ops@example.com</a>.</div>' +
+      '<h2>Next&nbsp;steps</h2><p>Cheers,<br>Alice</p></div></body></html>';
+    expect(htmlToText(html)).toBe(
+      'Hi Bob,\n\nSee the Q3 report [1], again [1] and ops@example.com.\n\nNext steps\n----------\n\nCheers,\nAlice\n\n' +
+      '[1] https://example.com/q3?a=1&b=2');
+  });
+
+  it('lays out nested lists and data tables, and flattens layout tables', () => {
+    const html = '<ul><li>Budget<ul><li>Opex<li>Capex</ul></li><li>Hiring</li></ul>' +
+      '<ol start="3"><li>Third</li><li>Fourth</li></ol>' +
+      '<table><tr><th>Item</th><th>Qty</th></tr><tr><td>Apples</td><td>3</td></tr><tr><td>Kiwis</td><td>12</td></tr></table>' +
+      '<table width="600"><tr><td><p>Layout one</p></td></tr><tr><td><table><tr><td>a</td><td>b</td></tr></table></td></tr></table>';
+    expect(htmlToText(html)).toBe([
+      '• Budget\n  ◦ Opex\n  ◦ Capex\n• Hiring',
+      '3. Third\n4. Fourth',
+      'Item    Qty\n──────  ───\nApples  3\nKiwis   12',
+      'Layout one',
+      'a  b',
+    ].join('\n\n'));
+  });
+
+  it('quotes or collapses replies', () => {
+    const html = '<div>Sounds good</div><div class="gmail_quote"><div class="gmail_attr">On Mon, Bob wrote:<br></div>' +
+      '<blockquote class="gmail_quote">Earlier <b>text</b><br>line two<blockquote>older</blockquote></blockquote></div>';
+    expect(htmlToText(html)).toBe('Sounds good\nOn Mon, Bob wrote:\n\n> Earlier text\n> line two\n>\n>> older');
+    expect(htmlToText(html, { collapseQuotes: true })).toBe('Sounds good\nOn Mon, Bob wrote:\n\n[quoted text hidden: 4 lines]');
+
+    expect(collapseQuotedText('Thanks!\n\nOn Mon, Bob wrote:\n> a\n>\n> b\n')).toBe('Thanks!\n\n[quoted text hidden: 3 lines]');
+    expect(messageBodyText({ body: 'plain <b>', bodyHtml: 'plain &lt;b&gt;' })).toBe('plain <b>');
+    expect(messageBodyText({ body: '> a', bodyHtml: '' }, { collapseQuotes: true })).toBe('[quoted text hidden: 1 line]');
+  });
+});
+
+describe('gmail raw', () => {
+  it('returns the RFC 822 source, but not for a restricted thread', () => {
+    const proxy = createProxyHarness();
+    const thread = proxy.gmail.addThread({ messages: [{ id: 'm1', from: 'alice@example.com', subject: 'Plan', body: 'Hi' }] });
+    const result = proxy.request('gmail', 'raw', { messageId: 'm1' });
+    expect(result.data).toMatchObject({ messageId: 'm1', threadId: thread.id, subject: 'Plan', encoding: 'base64' });
+    const raw = Buffer.from(result.data.content, 'base64').toString('utf-8');
+    expect(raw).toMatch(/^From: alice@example.com\r?\n/);
+    expect(result.data.size).toBe(Buffer.byteLength(raw));
+
+    proxy.gmail.addThread({ messages: [{ id: 'm2', subject: 'Your verification code' }] });
+    expect(proxy.request('gmail', 'raw', { messageId: 'm2' }).error?.code).toBe('FORBIDDEN');
+    expect(proxy.request('gmail', 'raw', { messageId: 'nope' }).error?.code).toBe('NOT_FOUND');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+import { fetchIcsEvents, importIcs, parseIcs, serializeIcs } from '../src/ics.js';
+import type { IcsEvent } from '../src/ics.js';
+
+const standup: IcsEvent = {
+  uid: 'standup-1@example.com',
+  summary: 'Standup; daily, short',
+  description: 'Line one\nLine two',
+  start: '2026-03-02T10:00:00+01:00',
+  end: '2026-03-02T10:15:00+01:00',
+  allDay: false,
+  timeZone: 'Europe/Berlin',
+  recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261231T225959Z', 'EXDATE;TZID=Europe/Berlin:20260311T100000'],
+  attendees: [{ email: 'bob@example.com', name: 'Bob: Ops', responseStatus: 'accepted' }],
+  organizer: 'me@example.com',
+};
+const offsite: IcsEvent = {
+  uid: 'offsite@example.com', summary: 'Offsite', start: '2026-04-01', end: '2026-04-03', allDay: true, recurrence: [], attendees: [],
+};
+
+describe('serializeIcs / parseIcs', () => {
+  it('writes a VCALENDAR that reads back to the same events', () => {
+    const text = serializeIcs({ events: [standup, offsite] }, { now: new Date('2026-03-01T12:00:00Z') });
+    const lines = text.split('\r\n');
+    expect(lines.slice(0, 2)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0']);
+    expect(lines).toContain('DTSTART;TZID=Europe/Berlin:20260302T100000');
+    expect(lines).toContain('SUMMARY:Standup\\; daily\\, short');
+    expect(lines).toContain('ATTENDEE;CN="Bob: Ops";PARTSTAT=ACCEPTED:mailto:bob@example.com');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260401');
+    // Berlin's switch to summer time on 29 March 2026, at 02:00 local time.
+    expect(text).toContain('BEGIN:DAYLIGHT\r\nDTSTART:20260329T020000\r\nTZOFFSETFROM:+0100\r\nTZOFFSETTO:+0200');
+    expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+
+    const parsed = parseIcs(text, { timeZone: 'UTC' }).events;
+    expect(parsed[0]).toMatchObject({ ...standup, organizer: 'me@example.com' });
+    expect(parsed[1]).toMatchObject(offsite);
+  });
+
+  it('reads durations, floating times and zones named by their VTIMEZONE', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VTIMEZONE', 'TZID:W. Europe Standard Time', 'X-LIC-LOCATION:Europe/Berlin', 'END:VTIMEZONE',
+      'BEGIN:VEVENT', 'UID:a', 'SUMMARY:Long summary that is folded',
+      '  across lines', 'DTSTART;TZID=W. Europe Standard Time:20260305T090000', 'DURATION:PT1H30M', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:b', 'DTSTART:20260305T090000', 'DTEND:20260305T100000', 'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\n');
+    const [a, b] = parseIcs(text, { timeZone: 'America/New_York' }).events;
+    expect(a).toMatchObject({ summary: 'Long summary that is folded across lines', start: '2026-03-05T09:00:00+01:00', end: '2026-03-05T10:30:00+01:00', timeZone: 'Europe/Berlin' });
+    expect(b).toMatchObject({ start: '2026-03-05T09:00:00-05:00', timeZone: 'America/New_York' });
+    expect(() => parseIcs('BEGIN:VEVENT\nEND:VEVENT')).toThrow('no BEGIN:VCALENDAR');
+  });
+});
+
+describe('calendar import and export', () => {
+  function harness(existing: any[]) {
+    const proxy = createProxyHarness();
+    proxy.respond('Calendar.Events.list', (_calendarId: string, options: any) => ({
+      items: options.iCalUID ? existing.filter(e => e.iCalUID === options.iCalUID) : existing,
+    }));
+    proxy.respond('Calendar.Events.get', (_calendarId: string, id: string) => existing.find(e => e.id === id));
+    proxy.respond('Calendar.Events.insert', (event: any) => ({ ...event, id: 'new1' }));
+    proxy.respond('Calendar.Events.update', (event: any) => event);
+    const call = async (action: string, params: Record<string, any>) => proxy.request('calendar', action, params);
+    return { proxy, call };
+  }
+  const googleEvent = {
+    id: 'evt1',
+    iCalUID: 'standup-1@example.com',
+    summary: 'Standup; daily, short',
+    description: 'Line one\nLine two',
+    start: { dateTime: '2026-03-02T10:00:00+01:00', timeZone: 'Europe/Berlin' },
+    end: { dateTime: '2026-03-02T10:15:00+01:00', timeZone: 'Europe/Berlin' },
+    recurrence: standup.recurrence,
+    attendees: [{ email: 'bob@example.com', responseStatus: 'accepted' }],
+  };
+
+  it('creates new UIDs, updates changed ones and reports the plan on a dry run', async () => {
+    const { proxy, call } = harness([{ ...googleEvent, location: 'Room 4B' }]);
+    const dry = await importIcs({ events: [standup, offsite], calendarId: 'primary', call, dryRun: true });
+    expect(dry.data).toMatchObject({
+      dryRun: true,
+      created: [{ uid: 'offsite@example.com' }],
+      updated: [{ uid: 'standup-1@example.com', eventId: 'evt1', changes: ['location'] }],
+      unchanged: [],
+    });
+    expect(proxy.calls.some(c => c.method === 'Calendar.Events.insert' || c.method === 'Calendar.Events.update')).toBe(false);
+
+    await importIcs({ events: [standup, offsite], calendarId: 'primary', call });
+    const inserted = proxy.calls.find(c => c.method === 'Calendar.Events.insert')!.args[0];
+    expect(inserted).toMatchObject({ iCalUID: 'offsite@example.com', start: { date: '2026-04-01' }, end: { date: '2026-04-03' } });
+    const updated = proxy.calls.find(c => c.method === 'Calendar.Events.update')!;
+    expect(updated.args[2]).toBe('evt1');
+    expect(updated.args[0].location).toBe('');
+  });
+
+  it('leaves matching events alone and exports series with cancelled occurrences as EXDATEs', async () => {
+    const cancelled = { id: 'evt1_20260304T090000Z', iCalUID: googleEvent.iCalUID, recurringEventId: 'evt1', status: 'cancelled', originalStartTime: { dateTime: '2026-03-04T10:00:00+01:00' } };
+    const { call } = harness([googleEvent, cancelled]);
+    const again = await importIcs({ events: [standup], calendarId: 'primary', call });
+    expect(again.data.unchanged).toEqual([{ uid: standup.uid, summary: standup.summary, start: standup.start, eventId: 'evt1' }]);
+
+    const exported = await fetchIcsEvents(call, { calendarId: 'primary' });
+    expect(exported.data.events).toHaveLength(1);
+    expect(exported.data.events[0].recurrence).toEqual([...standup.recurrence, 'EXDATE;TZID=Europe/Berlin:20260304T100000']);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+import type { FakeGmailThread, ProxyHarness } from './helpers/apps-script-harness.js';
+import { labelFolders, messageText, readSyncState, searchLocal, syncMailbox } from '../src/mailstore.js';
+import type { GmailCall } from '../src/mailstore.js';
+
+let proxy: ProxyHarness;
+let call: GmailCall;
+let out: string;
+let history: { threadId: string }[];
+let report: FakeGmailThread;
+
+const files = (dir: string): string[] => fs.readdirSync(dir, { recursive: true, encoding: 'utf-8' })
+  .filter(f => fs.statSync(path.join(dir, f)).isFile() && f !== '.gproxy-sync.json')
+  .map(f => f.split(path.sep).join('/'))
+  .sort();
+
+beforeEach(() => {
+  proxy = createProxyHarness({ userEmail: 'me@example.com' });
+  call = async (action, params) => proxy.request('gmail', action, params);
+  out = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'gproxy-sync-')), 'mail');
+
+  history = [];
+  let historyId = 100;
+  proxy.respond('Gmail.Users.getProfile', () => ({ historyId: String(historyId) }));
+  proxy.respond('Gmail.Users.History.list', (_user: string, params: any) => {
+    if (Number(params.startHistoryId) < 100) throw new Error('Requested entity was not found.');
+    const records = history.map(h => ({ messagesAdded: [{ message: { id: 'x', threadId: h.threadId } }] }));
+    history = [];
+    return { history: records, historyId: String(++historyId) };
+  });
+
+  report = proxy.gmail.addThread({
+    id: 't-report',
+    labels: ['Clients/Acme'],
+    messages: [{
+      id: 'm-report',
+      from: 'Alice <alice@example.com>',
+      subject: 'Quarterly report',
+      body: 'From the desk of Alice',
+      date: '2026-03-02T09:15:00Z',
+      unread: true,
+    }],
+  });
+  proxy.gmail.addThread({
+    id: 't-reset',
+    messages: [{ id: 'm-reset', from: 'no-reply@accounts.google.com', subject: 'Password reset requested' }],
+  });
+});
+
+describe('gmail sync', () => {
+  it('writes a Maildir per label and keeps security mail off disk', async () => {
+    const result = await syncMailbox({ out, call });
+    expect(result.data).toMatchObject({ mode: 'full', added: 1, total: 1, historyId: '100' });
+
+    expect(files(out)).toEqual([
+      'Clients/Acme/cur/1772442900.m-report.gproxy:2,',
+      'INBOX/cur/1772442900.m-report.gproxy:2,',
+    ]);
+    const stored = fs.readFileSync(path.join(out, 'INBOX/cur/1772442900.m-report.gproxy:2,'), 'utf-8');
+    expect(stored).toMatch(/^X-GM-THRID: t-report\nX-GM-MSGID: m-report\nX-Gmail-Labels: INBOX,Clients\/Acme\nFrom: Alice/);
+    expect(JSON.stringify(readSyncState(out))).not.toContain('m-reset');
+  });
+
+  it('applies History API changes and falls back to a full sync when history expired', async () => {
+    await syncMailbox({ out, call, folders: { 'Clients/Acme': 'Acme' } });
+
+    report.messages[0].unread = false;
+    report.moveToArchive();
+    report.addMessage({ id: 'm-reply', from: 'me@example.com', subject: 'Re: Quarterly report', date: '2026-03-03T10:00:00Z' });
+    history.push({ threadId: 't-report' }, { threadId: 't-reset' });
+
+    const second = await syncMailbox({ out, call });
+    expect(second.data).toMatchObject({ mode: 'history', added: 1, updated: 1, deleted: 0, historyId: '101' });
+    expect(proxy.calls.find(c => c.method === 'Gmail.Users.History.list')!.args[1].startHistoryId).toBe('100');
+    expect(files(out)).toEqual([
+      'Acme/cur/1772442900.m-report.gproxy:2,S',
+      'Acme/cur/1772532000.m-reply.gproxy:2,S',
+      'Sent/cur/1772532000.m-reply.gproxy:2,S',
+    ]);
+
+    const state = readSyncState(out)!;
+    fs.writeFileSync(path.join(out, '.gproxy-sync.json'), JSON.stringify({ ...state, historyId: '5' }));
+    proxy.gmail.threads = proxy.gmail.threads.filter(t => t.id !== 't-report');
+    const third = await syncMailbox({ out, call });
+    expect(third.data).toMatchObject({ mode: 'full', deleted: 2, total: 0 });
+    expect(files(out)).toEqual([]);
+  });
+
+  it('keeps an mbox per folder and searches it offline', async () => {
+    proxy.gmail.addThread({
+      id: 't-invoice',
+      inbox: false,
+      labels: ['Billing'],
+      messages: [{ id: 'm-invoice', subject: 'Invoice 42', body: 'Total due: 120 EUR', date: '2026-02-01T08:00:00Z', starred: true }],
+    });
+    await syncMailbox({ out, call, format: 'mbox' });
+
+    expect(files(out)).toEqual(['Billing.mbox', 'Clients/Acme.mbox', 'INBOX.mbox']);
+    const mbox = fs.readFileSync(path.join(out, 'INBOX.mbox'), 'utf-8');
+    expect(mbox).toMatch(/^From alice@example.com Mon Mar  2 09:15:00 2026\nX-GM-THRID: t-report\n/);
+    expect(mbox).toContain('\nStatus: O\n');
+    expect(mbox).toContain('\n>From the desk of Alice\n');
+
+    const search = (query: string) => searchLocal(out, query).data.messages.map((m: any) => m.messageId);
+    expect(search('"from the desk"')).toEqual(['m-report']);
+    expect(search('120 eur')).toEqual(['m-invoice']);
+    expect(search('is:starred label:billing')).toEqual(['m-invoice']);
+    expect(search('after:2026/03/01')).toEqual(['m-report']);
+    expect(search('password')).toEqual([]);
+
+    expect((await syncMailbox({ out, call, format: 'maildir' })).error?.message).toContain('holds a mbox store');
+  });
+});
+
+describe('mail store helpers', () => {
+  it('maps labels to folders, with overrides and an archive folder', () => {
+    expect(labelFolders(['INBOX', 'SENT', 'a/b'])).toEqual(['INBOX', 'Sent', 'a/b']);
+    expect(labelFolders([])).toEqual(['Archive']);
+    expect(labelFolders(['Newsletters'], { Newsletters: '' })).toEqual([]);
+  });
+
+  it('decodes multipart, base64 and quoted-printable parts for search', () => {
+    const raw = [
+      'Content-Type: multipart/alternative; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Caf=C3=A9 at no=',
+      'on',
+      '--b1',
+      'Content-Type: text/html; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('<p>Tea &amp; cake</p>').toString('base64'),
+      '--b1--',
+    ].join('\r\n');
+    expect(messageText(raw)).toBe('Café at noon\n\n Tea & cake ');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { createMockProxy, verifyToken } from '../src/dev/mock-proxy.js';
+import type { MockProxyOptions } from '../src/dev/mock-proxy.js';
+import { executeBatch, executeCommand } from '../src/client.js';
+import { createToken } from '../src/jwt.js';
+import type { GProxyConfig } from '../src/types.js';
+
+const secret = 'mock-secret-that-is-at-least-32-bytes!!';
+let server: Server | undefined;
+
+async function start(options: Partial<MockProxyOptions> = {}): Promise<GProxyConfig> {
+  server = createMockProxy({ secret, ...options }) as Server;
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  return { proxy_url: `http://127.0.0.1:${port}/exec`, secret };
+}
+
+afterEach(async () => {
+  if (server) {
+    server.closeAllConnections();
+    await new Promise(resolve => server!.close(resolve));
+    server = undefined;
+  }
+});
+
+describe('verifyToken', () => {
+  it('accepts a CLI token once and rejects the replay', () => {
+    const seen = new Map<string, number>();
+    const token = createToken(secret);
+    expect(verifyToken(token, secret, seen).ok).toBe(true);
+    const replay = verifyToken(token, secret, seen);
+    expect(replay.error?.message).toContain('replay detected');
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const result = verifyToken(createToken('other-secret'), secret, new Map());
+    expect(result.error).toEqual({ code: 'AUTH_FAILED', message: 'Invalid signature', retryable: false });
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(verifyToken('abc', secret, new Map()).error?.message).toBe('Malformed token');
+    expect(verifyToken(undefined, secret, new Map()).error?.message).toBe('Missing or invalid token');
+  });
+});
+
+describe('mock proxy server', () => {
+  it('answers commands from the bundled fixtures', async () => {
+    const config = await start();
+    const result = await executeCommand('drive', 'list', {}, config, { maxRetries: 0 });
+    expect(result.ok).toBe(true);
+    expect(result.data.files.length).toBeGreaterThan(0);
+    expect(result.data.files[0]).toHaveProperty('fileId');
+  });
+
+  it('returns NOT_FOUND for unknown actions like the real router', async () => {
+    const config = await start();
+    const result = await executeCommand('gmail', 'nope', {}, config, { maxRetries: 0 });
+    expect(result.error).toEqual({ code: 'NOT_FOUND', message: 'Unknown Gmail action: nope', retryable: false });
+  });
+
+  it('rejects requests signed with the wrong secret', async () => {
+    const config = await start();
+    const result = await executeCommand('drive', 'list', {}, { ...config, secret: 'wrong' }, { maxRetries: 2 });
+    expect(result.error?.code).toBe('AUTH_FAILED');
+  });
+
+  it('serves batches', async () => {
+    const config = await start();
+    const result = await executeBatch([
+      { service: 'tasks', action: 'list' },
+      { service: 'tasks', action: 'missing' },
+    ], config, { maxRetries: 0 });
+    expect(result.data.count).toBe(2);
+    expect(result.data.failed).toBe(1);
+  });
+
+  it('injects QUOTA_EXCEEDED and lets the client retry', async () => {
+    const config = await start({ faults: ['quota'], faultCount: 1 });
+    const first = await executeCommand('admin', 'health', {}, config, { maxRetries: 0 });
+    expect(first.error?.code).toBe('QUOTA_EXCEEDED');
+    const second = await executeCommand('admin', 'health', {}, config, { maxRetries: 0 });
+    expect(second.ok).toBe(true);
+  });
+
+  it('recovers from injected faults through executeCommand retries', async () => {
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    try {
+      for (const fault of ['quota', '5xx'] as const) {
+        const config = await start({ faults: [fault], faultCount: 1 });
+        const result = await executeCommand('admin', 'health', {}, config, { maxRetries: 2, verbose: true });
+        expect(result.ok).toBe(true);
+        const retries = stderr.mock.calls.map(([text]) => String(text)).filter(text => text.startsWith('Retry '));
+        expect(retries).toHaveLength(1);
+        expect(retries[0]).toMatch(/^Retry 1\/2 in (1\d{3})ms/);
+        stderr.mockClear();
+        server!.closeAllConnections();
+        await new Promise(resolve => server!.close(resolve));
+      }
+    } finally {
+      server = undefined;
+      stderr.mockRestore();
+    }
+  });
+
+  it('injects 5xx responses', async () => {
+    const config = await start({ faults: ['5xx'] });
+    const result = await executeCommand('admin', 'health', {}, config, { maxRetries: 0 });
+    expect(result.error?.code).toBe('NETWORK_ERROR');
+  });
+
+  it('injects timeouts', async () => {
+    const config = await start({ faults: ['timeout'] });
+    const result = await executeCommand('admin', 'health', {}, config, { maxRetries: 0, timeout: 200 });
+    expect(result.error?.code).toBe('TIMEOUT');
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { formatOutput, formatError, getExitCode } from '../src/output.js';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { listKey } from '../src/client.js';
+import { formatOutput, formatError, getExitCode, hasFormatter } from '../src/output.js';
 import type { CommandResult } from '../src/types.js';
 
 describe('formatOutput', () => {
@@ -60,7 +64,7 @@ describe('formatOutput', () => {
           ],
         },
       };
-      const output = formatOutput(result, 'human', 'calendar', 'list');
+      const output = formatOutput(result, 'human', 'calendar', 'events.list');
       expect(output).toContain('Meeting');
       expect(output).toContain('Room A');
     });
@@ -108,6 +112,42 @@ describe('formatOutput', () => {
       expect(output).toContain('john@example.com');
     });
 
+    it('formats sheets values as a grid with A1 headers', () => {
+      const result: CommandResult = {
+        ok: true,
+        data: { range: 'Sheet1!B2:C3', values: [['Name', 'Qty'], ['Apples', 3]] },
+      };
+      const output = formatOutput(result, 'plain', 'sheets', 'read');
+      const lines = output.split('\n');
+      expect(lines[0]).toBe('Sheet1!B2:C3');
+      expect(lines[1]).toMatch(/^\s+B\s+C$/);
+      expect(lines[2]).toMatch(/^2\s+Name\s+Qty$/);
+      expect(lines[3]).toMatch(/^3\s+Apples\s+3$/);
+    });
+
+    it('formats classroom rosters with teachers before students', () => {
+      const result: CommandResult = {
+        ok: true,
+        data: {
+          students: [{ userId: 's1', fullName: 'Sam Student', emailAddress: 'sam@example.com' }],
+          teachers: [{ userId: 't1', fullName: 'Tess Teacher', emailAddress: 'tess@example.com' }],
+        },
+      };
+      const output = formatOutput(result, 'plain', 'classroom', 'roster.list');
+      expect(output.indexOf('Tess Teacher')).toBeLessThan(output.indexOf('Sam Student'));
+      expect(output).toContain('sam@example.com');
+    });
+
+    it('formats admin config as a key/value table', () => {
+      const result: CommandResult = {
+        ok: true,
+        data: { config: { LOG_ENABLED: 'true', IP_ALLOWLIST: '1.2.3.4' } },
+      };
+      const output = formatOutput(result, 'plain', 'admin', 'config.get');
+      expect(output).toMatch(/IP_ALLOWLIST\s+1\.2\.3\.4/);
+      expect(output).toMatch(/LOG_ENABLED\s+true/);
+    });
+
     it('falls back to JSON for unknown services', () => {
       const result: CommandResult = {
         ok: true,
@@ -144,6 +184,141 @@ describe('formatOutput', () => {
   });
 });
 
+describe('record output modes', () => {
+  const files: CommandResult = {
+    ok: true,
+    data: {
+      files: [
+        { fileId: 'f1', name: 'report.pdf', size: 10, owners: ['a@example.com', 'b@example.com'] },
+        { fileId: 'f2', name: 'notes, draft', size: 20, owners: [] },
+      ],
+      count: 2,
+      nextPageToken: null,
+    },
+  };
+
+  it('writes CSV rows from the listing with quoting', () => {
+    const output = formatOutput(files, 'csv', 'drive', 'list', { columns: ['id', 'name'] });
+    expect(output).toBe('id,name\nf1,report.pdf\nf2,"notes, draft"');
+  });
+
+  it('omits the header when asked', () => {
+    const output = formatOutput(files, 'tsv', 'drive', 'list', { columns: ['fileId', 'size'], header: false });
+    expect(output).toBe('f1\t10\nf2\t20');
+  });
+
+  it('defaults to every field and joins scalar arrays', () => {
+    const output = formatOutput(files, 'csv', 'drive', 'list');
+    const lines = output.split('\n');
+    expect(lines[0]).toBe('fileId,name,size,owners');
+    expect(lines[1]).toBe('f1,report.pdf,10,a@example.com;b@example.com');
+  });
+
+  it('aligns table columns without colour codes', () => {
+    const output = formatOutput(files, 'table', 'drive', 'list', { columns: ['fileId', 'name'] });
+    expect(output).toBe('FILEID  NAME\nf1      report.pdf\nf2      notes, draft');
+  });
+
+  it('writes one JSON object per row for ndjson', () => {
+    const output = formatOutput(files, 'ndjson', 'drive', 'list', { columns: ['name'] });
+    expect(output.split('\n').map(line => JSON.parse(line))).toEqual([
+      { name: 'report.pdf' },
+      { name: 'notes, draft' },
+    ]);
+  });
+
+  it('writes YAML', () => {
+    const output = formatOutput(files, 'yaml', 'drive', 'list', { columns: ['fileId', 'name'] });
+    expect(output).toBe('- fileId: f1\n  name: report.pdf\n- fileId: f2\n  name: "notes, draft"');
+  });
+
+  it('renders a table in human mode when columns are given', () => {
+    const output = formatOutput(files, 'plain', 'drive', 'list', { columns: ['name'] });
+    expect(output).toBe('NAME\nreport.pdf\nnotes, draft');
+  });
+
+  it('applies --select before formatting', () => {
+    const output = formatOutput(files, 'json', 'drive', 'list', { select: '$.files[*].name' });
+    expect(JSON.parse(output)).toEqual(['report.pdf', 'notes, draft']);
+  });
+
+  it('prints selected scalars as-is in human mode', () => {
+    const output = formatOutput(files, 'human', 'drive', 'list', { select: 'files[0].name' });
+    expect(output).toBe('report.pdf');
+  });
+
+  it('takes rows from the action\'s list field, not the first array', () => {
+    const filters: CommandResult = {
+      ok: true,
+      data: { labels: [{ id: 'Label_1', name: 'Receipts' }], filters: [{ id: 'f1' }, { id: 'f2' }] },
+    };
+    expect(formatOutput(filters, 'csv', 'gmail', 'settings.filters.list', { columns: ['id'] })).toBe('id\nf1\nf2');
+
+    const event: CommandResult = {
+      ok: true,
+      data: { attendees: [{ email: 'a@example.com' }, { email: 'b@example.com' }], eventId: 'e1', summary: 'Sync' },
+    };
+    expect(formatOutput(event, 'csv', 'calendar', 'events.get', { columns: ['id', 'summary'] })).toBe('id,summary\ne1,Sync');
+  });
+});
+
+describe('formatter registry', () => {
+  const commandsDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '../src/commands');
+
+  /**
+   * Collect every service.action a command can print, from run()/runPaged()
+   * calls and direct printResult() calls.
+   */
+  function commandActions(): string[] {
+    const actions = new Set<string>();
+    for (const file of fs.readdirSync(commandsDir).filter(f => f.endsWith('.ts'))) {
+      const source = fs.readFileSync(path.join(commandsDir, file), 'utf-8');
+      // Per-file run(cmd, action, ...) wrappers call executeCommand('<service>', action, ...)
+      const localService = /executeCommand\('([^']+)', action\b/.exec(source)?.[1];
+
+      for (const m of source.matchAll(/\brun(?:Paged)?\(cmd, '([^']+)'(?:, '([^']+)')?/g)) {
+        if (m[2]) {
+          actions.add(`${m[1]}.${m[2]}`);
+        } else {
+          expect(localService, `${file} calls run() without a local service`).toBeDefined();
+          actions.add(`${localService}.${m[1]}`);
+        }
+      }
+      for (const m of source.matchAll(/printResult\(result, [^,]+, '([^']+)', '([^']+)'/g)) {
+        actions.add(`${m[1]}.${m[2]}`);
+      }
+    }
+    return [...actions].sort();
+  }
+
+  it('finds the command actions', () => {
+    const actions = commandActions();
+    expect(actions).toContain('gmail.search');
+    expect(actions).toContain('calendar.events.list');
+    expect(actions).toContain('drive.download');
+    expect(actions.length).toBeGreaterThan(50);
+  });
+
+  it('has a human formatter for every action a command sends', () => {
+    const missing = commandActions().filter(key => {
+      const dot = key.indexOf('.');
+      return !hasFormatter(key.slice(0, dot), key.slice(dot + 1));
+    });
+    expect(missing).toEqual([]);
+  });
+
+  it('knows the list field of every paged action', () => {
+    const missing: string[] = [];
+    for (const file of fs.readdirSync(commandsDir).filter(f => f.endsWith('.ts'))) {
+      const source = fs.readFileSync(path.join(commandsDir, file), 'utf-8');
+      for (const m of source.matchAll(/\brunPaged\(cmd, '([^']+)', '([^']+)'/g)) {
+        if (!listKey(m[1], m[2])) missing.push(`${m[1]}.${m[2]}`);
+      }
+    }
+    expect(missing).toEqual([]);
+  });
+});
+
 describe('formatError', () => {
   it('formats error with code and message', () => {
     const output = formatError({ code: 'AUTH_FAILED', message: 'Invalid token' });
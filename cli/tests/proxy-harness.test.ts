@@ -0,0 +1,373 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+import type { ProxyHarness } from './helpers/apps-script-harness.js';
+import { buildRequestBody, executeBatch, executeCommand } from '../src/client.js';
+import { createToken } from '../src/jwt.js';
+import type { GProxyConfig } from '../src/types.js';
+
+let proxy: ProxyHarness;
+
+beforeEach(() => {
+  proxy = createProxyHarness();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('doPost', () => {
+  it('answers a CLI request with a requestId', () => {
+    const result = proxy.request('admin', 'ip.list');
+    expect(result.ok).toBe(true);
+    expect(result.data).toEqual({ ips: [], count: 0 });
+    expect(result.requestId).toMatch(/^[a-z0-9]{8}-[a-z0-9]{4}-/);
+  });
+
+  it('rejects empty and malformed bodies', () => {
+    expect(proxy.globals.doPost({}).getContent()).toContain('Empty request body');
+    expect(proxy.post('{not json').error?.message).toBe('Invalid JSON in request body');
+  });
+
+  it('reports unknown services and actions like routeRequest', () => {
+    expect(proxy.request('nope', 'list').error?.message).toBe('Unknown service: nope');
+    expect(proxy.request('gmail', 'nope').error?.code).toBe('NOT_FOUND');
+  });
+
+  it('turns handler exceptions into retryable SERVICE_ERRORs', () => {
+    const result = proxy.request('drive', 'delete', { fileId: 'missing' });
+    expect(result.error?.code).toBe('SERVICE_ERROR');
+    expect(result.error?.message).toContain('drive.delete failed: No item with the given ID');
+    expect(result.error?.retryable).toBe(true);
+  });
+
+  it('serves executeCommand and executeBatch through the real client', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(proxy.fetch);
+    const config: GProxyConfig = { proxy_url: 'https://script.google.com/macros/s/test/exec', secret: proxy.secret };
+    try {
+      const single = await executeCommand('admin', 'ip.add', { ip: '10.0.0.1' }, config, { maxRetries: 0 });
+      expect(single.data.ips).toEqual(['10.0.0.1']);
+
+      const batch = await executeBatch([
+        { service: 'admin', action: 'ip.list', params: {} },
+        { service: 'gmail', action: 'get', params: {} },
+      ], config, { maxRetries: 0 });
+      expect(batch.data.count).toBe(2);
+      expect(batch.data.failed).toBe(1);
+      expect(batch.data.results[1].error.message).toBe('Missing required parameter: threadId');
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+});
+
+describe('verifyJwt', () => {
+  it('accepts a CLI token and returns its claims', () => {
+    const result = proxy.globals.verifyJwt(createToken(proxy.secret));
+    expect(result.ok).toBe(true);
+    expect(result.data.claims.jti).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('detects a replayed request body', () => {
+    const body = buildRequestBody('admin', 'health', {}, proxy.secret);
+    expect(proxy.post(body).ok).toBe(true);
+    expect(proxy.post(body).error?.message).toBe('Token already used (replay detected)');
+  });
+
+  it('rejects a token signed with another secret', () => {
+    expect(proxy.globals.verifyJwt(createToken('other-secret')).error.message).toBe('Invalid signature');
+  });
+
+  it('rejects an expired token', () => {
+    vi.useFakeTimers();
+    const token = createToken(proxy.secret);
+    vi.advanceTimersByTime(331_000); // 300s lifetime + 30s clock skew
+    expect(proxy.globals.verifyJwt(token).error.message).toBe('Token expired');
+  });
+
+  it('fails closed without JWT_SECRET', () => {
+    proxy.properties.delete('JWT_SECRET');
+    expect(proxy.request('admin', 'health').error?.message).toContain('missing JWT_SECRET');
+  });
+});
+
+describe('checkIp and cidrMatch', () => {
+  it('matches IPv4 CIDR ranges', () => {
+    const { cidrMatch } = proxy.globals;
+    expect(cidrMatch('192.168.1.100', '192.168.1.0/24')).toBe(true);
+    expect(cidrMatch('192.168.2.1', '192.168.1.0/24')).toBe(false);
+    expect(cidrMatch('10.1.2.3', '0.0.0.0/0')).toBe(true);
+    expect(cidrMatch('203.0.113.7', '203.0.113.7/32')).toBe(true);
+    expect(cidrMatch('203.0.113.8', '203.0.113.7/32')).toBe(false);
+    expect(cidrMatch('10.0.0.1', '10.0.0.0/33')).toBe(false);
+    expect(cidrMatch('not-an-ip', '10.0.0.0/8')).toBe(false);
+  });
+
+  it('applies IP_ALLOWLIST entries, exact and CIDR', () => {
+    proxy.properties.set('IP_ALLOWLIST', '203.0.113.7, 10.0.0.0/8');
+    expect(proxy.globals.checkIp('203.0.113.7').ok).toBe(true);
+    expect(proxy.globals.checkIp('10.20.30.40').ok).toBe(true);
+    expect(proxy.globals.checkIp('198.51.100.1').error.code).toBe('IP_BLOCKED');
+    expect(proxy.globals.checkIp('unknown').data.checked).toBe(false);
+  });
+
+  it('blocks a disallowed clientIp in doPost', () => {
+    proxy.properties.set('IP_ALLOWLIST', '10.0.0.0/8');
+    const body = JSON.parse(buildRequestBody('admin', 'health', {}, proxy.secret));
+    const result = proxy.post(JSON.stringify({ ...body, clientIp: '198.51.100.1' }));
+    expect(result.error?.code).toBe('IP_BLOCKED');
+  });
+
+  it('fails open when the AbuseIPDB lookup errors', () => {
+    proxy.properties.set('IP_CHECK_ENABLED', 'true');
+    proxy.properties.set('IP_CHECK_API_KEY', 'key');
+    expect(proxy.globals.checkIp('198.51.100.1').ok).toBe(true);
+    expect(proxy.calls[0].method).toBe('UrlFetchApp.fetch');
+
+    proxy.respond('UrlFetchApp.fetch', { data: { abuseConfidenceScore: 90 } });
+    expect(proxy.globals.checkIp('198.51.100.1').error.message).toContain('score: 90');
+  });
+});
+
+describe('security filter', () => {
+  it('flags blocked senders and sensitive subjects or bodies', () => {
+    const thread = proxy.gmail.addThread({
+      messages: [
+        { from: 'Google <no-reply@accounts.google.com>', subject: 'Hello' },
+        { from: 'bank@example.com', subject: 'Your verification code' },
+        { from: 'shop@example.com', subject: 'Receipt', body: 'Use this one-time password: 123456' },
+        { from: 'friend@example.com', subject: 'Lunch?', body: 'Tacos at noon' },
+      ],
+    });
+    expect(thread.messages.map(m => proxy.globals.isSecurityEmail(m))).toEqual([true, true, true, false]);
+  });
+
+  it('follows SECURITY_* script properties', () => {
+    proxy.properties.set('SECURITY_BLOCKED_SENDERS', 'alerts@bank.example');
+    proxy.properties.set('SECURITY_CONTENT_REGEX', 'wire transfer');
+    const thread = proxy.gmail.addThread({
+      messages: [
+        { from: 'alerts@bank.example', subject: 'Statement' },
+        { from: 'cfo@example.com', subject: 'Urgent WIRE TRANSFER' },
+        { from: 'no-reply@accounts.google.com', subject: 'Security alert' },
+      ],
+    });
+    expect(thread.messages.map(m => proxy.globals.isSecurityEmail(m))).toEqual([true, true, false]);
+  });
+
+  it('hides security threads from search, get and modify', () => {
+    const safe = proxy.gmail.addThread({ messages: [{ subject: 'Weekly report', unread: true }] });
+    const reset = proxy.gmail.addThread({ messages: [{ subject: 'Password reset requested', unread: true }] });
+
+    const search = proxy.request('gmail', 'search', { query: 'is:unread', max: 20 });
+    expect(search.data.threads.map((t: any) => t.threadId)).toEqual([safe.id]);
+
+    expect(proxy.request('gmail', 'get', { threadId: reset.id }).error?.code).toBe('FORBIDDEN');
+    const modify = proxy.request('gmail', 'thread.modify', { threadId: reset.id, moveToTrash: true });
+    expect(modify.error?.code).toBe('FORBIDDEN');
+    expect(reset.trash).toBe(false);
+  });
+});
+
+describe('service handlers', () => {
+  it('returns NOT_FOUND for an unknown action in every registered handler', () => {
+    for (const service of Object.keys(proxy.globals.SERVICE_REGISTRY_)) {
+      const result = proxy.globals.SERVICE_REGISTRY_[service]('no.such.action', {});
+      expect(result.error.code, service).toBe('NOT_FOUND');
+    }
+  });
+
+  it('handleGmail: thread.modify applies the CLI label params', () => {
+    proxy.gmail.createLabel('Work');
+    const thread = proxy.gmail.addThread({ labels: ['Inbox-zero'], messages: [{ subject: 'Plan', unread: true }] });
+    const result = proxy.request('gmail', 'thread.modify', {
+      threadId: thread.id,
+      addLabels: ['Work'],
+      removeLabels: ['Inbox-zero'],
+      markRead: true,
+    });
+    expect(result.ok).toBe(true);
+    expect([...thread.labels]).toEqual(['Work']);
+    expect(thread.isUnread()).toBe(false);
+  });
+
+  it('handleGmail: labels create parents, and rename carries nested labels along', () => {
+    const ids = (): { id: string; name: string; type: string }[] =>
+      proxy.gmail.labelNames.map((name, i) => ({ id: `Label_${i}`, name, type: 'user' }));
+    proxy.respond('Gmail.Users.Labels.list', () => ({ labels: ids() }));
+    proxy.respond('Gmail.Users.Labels.patch', (resource: any, _user: string, id: string) => {
+      const index = Number(id.slice('Label_'.length));
+      if (resource.name) proxy.gmail.labelNames[index] = resource.name;
+      return { id, ...resource };
+    });
+
+    const created = proxy.request('gmail', 'labels.create', {
+      name: 'Projects / 2026/Q4', backgroundColor: '#16a766', textColor: '#ffffff', labelListVisibility: 'labelShowIfUnread',
+    });
+    expect(created.data).toEqual({ name: 'Projects/2026/Q4', createdParents: ['Projects', 'Projects/2026'] });
+    expect(proxy.calls.find(c => c.method === 'Gmail.Users.Labels.patch')!.args).toEqual([
+      { color: { backgroundColor: '#16a766', textColor: '#ffffff' }, labelListVisibility: 'labelShowIfUnread' }, 'me', 'Label_2',
+    ]);
+
+    const renamed = proxy.request('gmail', 'labels.update', { name: 'projects/2026', newName: 'Archive/2026' });
+    expect(renamed.data.renamed).toEqual([
+      { from: 'Projects/2026', to: 'Archive/2026' },
+      { from: 'Projects/2026/Q4', to: 'Archive/2026/Q4' },
+    ]);
+    expect(proxy.gmail.labelNames).toEqual(['Projects', 'Archive/2026', 'Archive/2026/Q4', 'Archive']);
+
+    expect(proxy.request('gmail', 'labels.update', { name: 'Archive', newName: 'Archive/Old' }).error?.message)
+      .toBe('Cannot move a label under itself');
+    expect(proxy.request('gmail', 'labels.create', { name: 'a//b' }).error?.code).toBe('INVALID_REQUEST');
+  });
+
+  it('handleGmail: labels.apply labels matching threads but skips restricted ones', () => {
+    proxy.gmail.createLabel('Acme');
+    const invoice = proxy.gmail.addThread({ messages: [{ from: 'billing@acme.example', subject: 'Invoice' }] });
+    const reset = proxy.gmail.addThread({ messages: [{ from: 'no-reply@acme.example', subject: 'Password reset requested' }] });
+    proxy.gmail.addThread({ messages: [{ from: 'bob@example.com', subject: 'Lunch' }] });
+
+    const preview = proxy.request('gmail', 'labels.apply', { name: 'Acme', query: 'from:acme.example', dryRun: true });
+    expect(preview.data).toMatchObject({ matched: 2, modified: 1, skipped: 1, threadIds: [invoice.id] });
+    expect(invoice.labels.has('Acme')).toBe(false);
+
+    const applied = proxy.request('gmail', 'labels.apply', { name: 'Acme', query: 'from:acme.example' });
+    expect(applied.data).toMatchObject({ action: 'added', modified: 1, skipped: 1, hasMore: false });
+    expect(invoice.labels.has('Acme')).toBe(true);
+    expect(reset.labels.has('Acme')).toBe(false);
+
+    proxy.request('gmail', 'labels.apply', { name: 'Acme', query: 'label:Acme', remove: true });
+    expect(invoice.labels.has('Acme')).toBe(false);
+    expect(proxy.request('gmail', 'labels.apply', { name: 'Nope', query: 'x' }).error?.code).toBe('NOT_FOUND');
+  });
+
+  it('handleGmail: send records the mail', () => {
+    const result = proxy.globals.handleGmail('send', { to: 'a@example.com', subject: 'Hi', body: 'Hello', cc: 'b@example.com' });
+    expect(result.ok).toBe(true);
+    expect(proxy.gmail.sent).toEqual([{ to: 'a@example.com', subject: 'Hi', body: 'Hello', options: { cc: 'b@example.com' } }]);
+  });
+
+  it('handleGmail: settings.vacation changes only the given fields', () => {
+    const saved = { enableAutoReply: false, responseSubject: 'Away', responseBodyPlainText: 'Back on Monday', restrictToContacts: true };
+    proxy.respond('Gmail.Users.Settings.getVacation', () => ({ ...saved }));
+    proxy.respond('Gmail.Users.Settings.updateVacation', (vacation: any) => vacation);
+    const result = proxy.request('gmail', 'settings.vacation', { set: true, startTime: '2026-03-06T17:00:00Z' });
+    expect(result.data).toEqual({ ...saved, startTime: Date.parse('2026-03-06T17:00:00Z') });
+
+    expect(proxy.request('gmail', 'settings.vacation', { set: true, enabled: true }).data.enableAutoReply).toBe(true);
+  });
+
+  it('handleDrive: list builds the query and maps Drive v2 files', () => {
+    proxy.respond('Drive.Files.list', { items: [{ id: 'f1', title: 'Budget', mimeType: 'text/csv', fileSize: '42' }], nextPageToken: 'p2' });
+    const result = proxy.request('drive', 'list', { folderId: 'folder1', max: 10 });
+    expect(proxy.calls).toEqual([{
+      method: 'Drive.Files.list',
+      args: [{ maxResults: 10, q: "'folder1' in parents and trashed = false" }],
+    }]);
+    expect(result.data.files[0]).toMatchObject({ fileId: 'f1', name: 'Budget', size: 42 });
+    expect(result.data.nextPageToken).toBe('p2');
+  });
+
+  it('handleDrive: download returns text and base64 content', () => {
+    const text = proxy.drive.addFile({ name: 'notes.txt', content: 'hello' });
+    const binary = proxy.drive.addFile({ name: 'img.png', mimeType: 'image/png', content: Buffer.from([0xff, 0x00, 0x80]) });
+    proxy.respond('Drive.Files.get', (id: string) => ({ id, title: id === text.id ? 'notes.txt' : 'img.png', mimeType: 'x' }));
+
+    expect(proxy.request('drive', 'download', { fileId: text.id }).data).toMatchObject({ content: 'hello', encoding: 'utf-8' });
+    expect(proxy.request('drive', 'download', { fileId: binary.id }).data).toMatchObject({ content: '/wCA', encoding: 'base64' });
+  });
+
+  it('handleDocs: create writes content and moves the file', () => {
+    const folder = proxy.drive.addFolder('Projects');
+    const result = proxy.request('docs', 'create', { title: 'Spec', content: 'Draft text', folderId: folder.id });
+    const file = proxy.drive.getFileById(result.data.documentId);
+    expect(file.content.toString()).toBe('Draft text');
+    expect(file.parentIds).toEqual([folder.id]);
+  });
+
+  it('handleCalendar: events.list passes options to the advanced service', () => {
+    proxy.respond('Calendar.Events.list', {
+      items: [{ id: 'e1', summary: 'Standup', start: { dateTime: '2026-02-10T09:00:00Z' }, end: { dateTime: '2026-02-10T09:15:00Z' } }],
+    });
+    const result = proxy.request('calendar', 'events.list', { timeMin: '2026-02-10T00:00:00Z', max: 5 });
+    expect(proxy.calls[0].args).toEqual(['primary', { maxResults: 5, singleEvents: true, orderBy: 'startTime', timeMin: '2026-02-10T00:00:00Z' }]);
+    expect(result.data.events[0]).toMatchObject({ eventId: 'e1', summary: 'Standup' });
+  });
+
+  it('handleCalendar: events.create adds Meet, reminders, attachments and guest permissions', () => {
+    const file = proxy.drive.addFile({ name: 'Agenda.pdf', content: 'pdf', mimeType: 'application/pdf' });
+    proxy.respond('Calendar.Events.insert', (event: any) => ({
+      ...event,
+      id: 'e1',
+      conferenceData: { entryPoints: [{ entryPointType: 'phone', uri: 'tel:+1-555' }, { entryPointType: 'video', uri: 'https://meet.google.com/abc-defg-hij' }] },
+    }));
+    const result = proxy.request('calendar', 'events.create', {
+      summary: 'Review', start: '2026-03-06T10:00:00Z', end: '2026-03-06T11:00:00Z',
+      meet: true, reminders: [{ method: 'popup', minutes: 10 }], attachments: [file.id], guestsCanModify: true,
+    });
+    const [event, , options] = proxy.calls.find(c => c.method === 'Calendar.Events.insert')!.args;
+    expect(event.conferenceData.createRequest.conferenceSolutionKey).toEqual({ type: 'hangoutsMeet' });
+    expect(options).toEqual({ conferenceDataVersion: 1, supportsAttachments: true });
+    expect(result.data).toMatchObject({
+      conferenceUrl: 'https://meet.google.com/abc-defg-hij',
+      reminders: { useDefault: false, overrides: [{ method: 'popup', minutes: 10 }] },
+      attachments: [{ fileId: file.id, title: 'Agenda.pdf', mimeType: 'application/pdf' }],
+      guestsCanModify: true,
+      guestsCanInviteOthers: true,
+    });
+
+    const bad = { summary: 'x', start: '2026-03-06T10:00:00Z', end: '2026-03-06T11:00:00Z' };
+    expect(proxy.request('calendar', 'events.create', { ...bad, reminders: [{ method: 'sms', minutes: 5 }] }).error?.code).toBe('INVALID_REQUEST');
+    expect(proxy.request('calendar', 'events.create', { ...bad, attachments: ['missing'] }).error?.message).toBe('Drive file not found: missing');
+    proxy.drive.getFileById = () => {
+      throw new Error('You do not have permission to call DriveApp.getFileById. Required permissions: https://www.googleapis.com/auth/drive.readonly');
+    };
+    expect(proxy.request('calendar', 'events.create', { ...bad, attachments: [file.id] }).error?.code).toBe('SERVICE_ERROR');
+  });
+
+  it('handleCalendar: creates, colours and shares calendars', () => {
+    proxy.respond('Calendar.Calendars.insert', (calendar: any) => ({ ...calendar, id: 'c1' }));
+    proxy.respond('Calendar.CalendarList.get', (id: string) => ({ id, summary: 'On-call', accessRole: 'owner', backgroundColor: '#f83a22' }));
+    proxy.respond('Calendar.Acl.insert', (rule: any) => ({ ...rule, id: `${rule.scope.type}:${rule.scope.value}` }));
+
+    const created = proxy.request('calendar', 'calendars.create', { summary: 'On-call', timeZone: 'Europe/Berlin', color: '#f83a22' });
+    expect(created.data).toMatchObject({ id: 'c1', summary: 'On-call', accessRole: 'owner' });
+    const patch = proxy.calls.find(c => c.method === 'Calendar.CalendarList.patch')!;
+    expect(patch.args).toEqual([{ backgroundColor: '#f83a22', foregroundColor: '#000000' }, 'c1', { colorRgbFormat: true }]);
+    expect(proxy.request('calendar', 'calendars.update', { calendarId: 'c1', color: 'red' }).error?.code).toBe('INVALID_REQUEST');
+
+    const shared = proxy.request('calendar', 'acl.add', { calendarId: 'c1', role: 'writer', scopeValue: 'bob@example.com', sendNotifications: false });
+    expect(shared.data).toEqual({ ruleId: 'user:bob@example.com', role: 'writer', scopeType: 'user', scopeValue: 'bob@example.com' });
+    expect(proxy.calls.find(c => c.method === 'Calendar.Acl.insert')!.args[2]).toEqual({ sendNotifications: false });
+    expect(proxy.request('calendar', 'acl.add', { calendarId: 'c1', role: 'editor', scopeValue: 'x' }).error?.message).toContain('role must be');
+    proxy.request('calendar', 'acl.remove', { calendarId: 'c1', ruleId: 'bob@example.com' });
+    expect(proxy.calls.find(c => c.method === 'Calendar.Acl.remove')!.args).toEqual(['c1', 'user:bob@example.com']);
+  });
+
+  it('handleAdmin: config.set persists script properties and config.get redacts secrets', () => {
+    proxy.request('admin', 'config.set', { key: 'LOG_MAX_ROWS', value: '100' });
+    expect(proxy.properties.get('LOG_MAX_ROWS')).toBe('100');
+    const config = proxy.request('admin', 'config.get').data.config;
+    expect(config.JWT_SECRET).toBe('****' + proxy.secret.slice(-4));
+  });
+});
+
+describe('logRequest', () => {
+  it('writes one row per request without params and honours LOG_MAX_ROWS', () => {
+    proxy.properties.set('LOG_SHEET_ID', 'log-sheet');
+    proxy.properties.set('LOG_MAX_ROWS', '2');
+    for (let i = 0; i < 3; i++) proxy.request('admin', 'ip.add', { ip: `10.0.0.${i}` });
+
+    const sheet = proxy.spreadsheets.get('log-sheet')!.getSheetByName('Logs')!;
+    expect(sheet.rows[0]).toEqual(['Timestamp', 'Request ID', 'Source IP', 'Service', 'Action', 'Status', 'Duration(ms)', 'Error']);
+    expect(sheet.rows).toHaveLength(3);
+    expect(sheet.rows.slice(1).map(r => r.slice(3, 6))).toEqual([['admin', 'ip.add', 'OK'], ['admin', 'ip.add', 'OK']]);
+    expect(JSON.stringify(sheet.rows)).not.toContain('10.0.0.');
+  });
+
+  it('skips logging when the lock is busy', () => {
+    proxy.properties.set('LOG_SHEET_ID', 'log-sheet');
+    proxy.lockBusy = true;
+    expect(proxy.request('admin', 'health').ok).toBe(true);
+    expect(proxy.spreadsheets.size).toBe(0);
+  });
+});
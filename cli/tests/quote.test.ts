@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+import { quoteForward, quoteReply, quoteText } from '../src/quote.js';
+
+const original = {
+  from: 'Alice <alice@example.com>',
+  to: 'me@example.com',
+  cc: 'Bob <bob@example.com>',
+  date: '2026-03-02T09:15:00.000Z',
+  body: 'Agenda attached.\n\n> earlier note\n',
+  bodyHtml: '<p>Agenda <b>attached</b>.</p>',
+};
+
+describe('quoting', () => {
+  it('quotes a reply in the plain and HTML bodies', () => {
+    expect(quoteText('a\n\n> b\n')).toBe('> a\n>\n>> b');
+
+    const reply = quoteReply(original, { body: 'Thanks <3', attachments: [] }, { timeZone: 'UTC' });
+    expect(reply.attachments).toEqual([]);
+    expect(reply.body).toBe(
+      'Thanks <3\n\nOn Mon, Mar 2, 2026 at 9:15 AM, Alice <alice@example.com> wrote:\n> Agenda attached.\n>\n>> earlier note\n');
+    expect(reply.bodyHtml).toBe(
+      '<div dir="ltr">Thanks &lt;3</div><br><div class="gmail_quote">' +
+      '<div dir="ltr" class="gmail_attr">On Mon, Mar 2, 2026 at 9:15 AM, Alice &lt;alice@example.com&gt; wrote:<br></div>' +
+      '<blockquote class="gmail_quote" style="margin:0px 0px 0px 0.8ex;border-left:1px solid rgb(204,204,204);padding-left:1ex">' +
+      '<p>Agenda <b>attached</b>.</p></blockquote></div>');
+  });
+
+  it('puts a forwarded message under a header, keeping an HTML note', () => {
+    const forward = quoteForward({ ...original, bodyHtml: '' }, 'Q3 planning', { bodyHtml: '<p>FYI</p>' }, { timeZone: 'UTC' });
+    expect(forward.body).toBe(
+      '---------- Forwarded message ---------\nFrom: Alice <alice@example.com>\nDate: Mon, Mar 2, 2026 at 9:15 AM\n' +
+      'Subject: Q3 planning\nTo: me@example.com\nCc: Bob <bob@example.com>\n\nAgenda attached.\n\n> earlier note\n');
+    expect(forward.bodyHtml).toContain('<p>FYI</p><br><div class="gmail_quote">');
+    expect(forward.bodyHtml).toContain('From: <strong>Alice &lt;alice@example.com&gt;</strong><br>');
+    expect(forward.bodyHtml).toContain('<div dir="ltr">Agenda attached.<br>\n<br>\n&gt; earlier note<br>\n</div></div>');
+  });
+});
+
+describe('gmail reply and forward', () => {
+  it('replies to one message with threading headers and reply-all recipients', () => {
+    const proxy = createProxyHarness({ userEmail: 'me@example.com' });
+    const thread = proxy.gmail.addThread({
+      messages: [
+        { id: 'm1', from: 'alice@example.com', to: 'me@example.com, carol@example.com', cc: 'Me <ME@example.com>, dan@example.com', subject: 'Plan' },
+        { id: 'm2', from: 'me@example.com', to: 'alice@example.com', subject: 'Re: Plan' },
+      ],
+    });
+
+    const reply = proxy.request('gmail', 'reply', { threadId: thread.id, messageId: 'm1', all: true, body: 'ok', cc: 'erin@example.com' });
+    expect(reply.data).toEqual({
+      threadId: thread.id, messageId: 'm1', to: 'alice@example.com, carol@example.com',
+      cc: 'dan@example.com, erin@example.com', action: 'repliedAll',
+    });
+    const sent = thread.messages[2];
+    expect(sent.getHeader('In-Reply-To')).toBe('<m1@mail.example.com>');
+    expect(sent.to).toBe('alice@example.com, carol@example.com');
+    expect(sent.cc).toBe('dan@example.com, erin@example.com');
+
+    expect(proxy.request('gmail', 'reply', { threadId: thread.id, messageId: 'nope' }).error?.code).toBe('NOT_FOUND');
+  });
+
+  it('copies each address once and never the user', () => {
+    const proxy = createProxyHarness({ userEmail: 'me@example.com' });
+    const thread = proxy.gmail.addThread({
+      messages: [{ id: 'm1', from: 'alice@example.com', to: 'me@example.com, carol@example.com', cc: 'dan@example.com, team@example.com', subject: 'Plan' }],
+    });
+
+    const all = proxy.request('gmail', 'reply', {
+      threadId: thread.id, all: true, body: 'ok', from: 'team@example.com',
+      cc: 'Dan <DAN@example.com>, Carol@Example.com, "Me" <me@EXAMPLE.com>, erin@example.com, ERIN@example.com',
+    });
+    expect(all.data).toMatchObject({ to: 'alice@example.com, carol@example.com', cc: 'dan@example.com, erin@example.com' });
+
+    const one = proxy.request('gmail', 'reply', { threadId: thread.id, messageId: 'm1', body: 'ok', cc: 'Alice@example.com, me@example.com, frank@example.com' });
+    expect(one.data).toMatchObject({ to: 'alice@example.com', cc: 'frank@example.com' });
+    expect(proxy.gmail.sent.map(s => s.options.cc)).toEqual(['dan@example.com, erin@example.com', 'frank@example.com']);
+  });
+
+  it('forwards with the original attachments, but never a security thread', () => {
+    const proxy = createProxyHarness();
+    const thread = proxy.gmail.addThread({
+      messages: [{ subject: 'Report', attachments: [{ name: 'q3.pdf', contentType: 'application/pdf', content: '%PDF' }] }],
+    });
+    const forward = proxy.request('gmail', 'forward', {
+      threadId: thread.id, to: 'dave@example.com', body: 'FYI',
+      attachments: [{ name: 'notes.txt', mimeType: 'text/plain', content: Buffer.from('hi').toString('base64') }],
+    });
+    expect(forward.data).toMatchObject({ to: 'dave@example.com', subject: 'Fwd: Report', attachmentCount: 2 });
+    expect(proxy.gmail.sent[0].options.attachments.map((b: any) => b.getName())).toEqual(['q3.pdf', 'notes.txt']);
+
+    const reset = proxy.gmail.addThread({ messages: [{ subject: 'Password reset requested' }] });
+    expect(proxy.request('gmail', 'forward', { threadId: reset.id, to: 'dave@example.com' }).error?.code).toBe('FORBIDDEN');
+    expect(proxy.request('gmail', 'reply', { threadId: reset.id }).error?.code).toBe('FORBIDDEN');
+    expect(proxy.gmail.sent).toHaveLength(1);
+  });
+});
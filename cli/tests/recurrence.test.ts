@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+import { describeRecurrence, parseRepeat, parseRrule, recurrenceLines } from '../src/recurrence.js';
+
+const berlin = { timeZone: 'Europe/Berlin', now: new Date('2026-03-04T09:30:00Z') };
+
+describe('parseRepeat', () => {
+  it('turns the friendly syntax into RRULE lines', () => {
+    expect(parseRepeat('weekly on mon,wed until 2026-12-31', berlin)).toEqual(['RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261231T225959Z']);
+    expect(parseRepeat('weekly on mon,wed until 2026-12-31', { ...berlin, allDay: true })).toEqual(['RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261231']);
+    expect(parseRepeat('every 2 weeks on tuesday and thursday', berlin)).toEqual(['RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH']);
+    expect(parseRepeat('monthly on the last friday 6 times', berlin)).toEqual(['RRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=6']);
+    expect(parseRepeat('monthly on the 15th', berlin)).toEqual(['RRULE:FREQ=MONTHLY;BYMONTHDAY=15']);
+    expect(parseRepeat('weekdays', berlin)).toEqual(['RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR']);
+    expect(parseRepeat('none', berlin)).toEqual([]);
+    expect(() => parseRepeat('sometimes', berlin)).toThrow('Cannot parse --repeat "sometimes"');
+    expect(() => parseRepeat('daily until friday 3 times', berlin)).toThrow('not both');
+  });
+
+  it('accepts raw rules and describes them', () => {
+    expect(parseRrule('rrule:freq=daily;count=3')).toEqual(['RRULE:FREQ=DAILY;COUNT=3']);
+    expect(() => parseRrule('BYDAY=MO')).toThrow('Invalid --rrule');
+    expect(() => recurrenceLines({ repeat: 'daily', rrule: 'FREQ=DAILY' })).toThrow('either --repeat or --rrule');
+
+    expect(describeRecurrence(['RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20261231T225959Z'], 'Europe/Berlin'))
+      .toBe('every 2 weeks on Mon, Wed until 2026-12-31');
+    expect(describeRecurrence(['RRULE:FREQ=MONTHLY;BYDAY=1MO;COUNT=6', 'EXDATE;TZID=Europe/Berlin:20260406T100000']))
+      .toBe('monthly on the first Mon, 6 times, except 2026-04-06');
+  });
+});
+
+describe('scoped changes to a series', () => {
+  const master = {
+    id: 'standup',
+    summary: 'Standup',
+    start: { dateTime: '2026-03-02T10:00:00+01:00', timeZone: 'Europe/Berlin' },
+    end: { dateTime: '2026-03-02T10:15:00+01:00', timeZone: 'Europe/Berlin' },
+    recurrence: ['RRULE:FREQ=DAILY;COUNT=10'],
+  };
+  const occurrence = {
+    id: 'standup_20260305T090000Z',
+    recurringEventId: 'standup',
+    summary: 'Standup',
+    originalStartTime: { dateTime: '2026-03-05T10:00:00+01:00', timeZone: 'Europe/Berlin' },
+    start: { dateTime: '2026-03-05T10:00:00+01:00' },
+    end: { dateTime: '2026-03-05T10:15:00+01:00' },
+  };
+
+  function harness() {
+    const proxy = createProxyHarness();
+    proxy.respond('Calendar.Events.get', (_calendarId: string, id: string) => structuredClone(id === 'standup' ? master : occurrence));
+    proxy.respond('Calendar.Events.instances', { items: [{}, {}, {}] });
+    proxy.respond('Calendar.Events.insert', (event: any) => ({ ...event, id: 'standup2' }));
+    proxy.respond('Calendar.Events.update', (event: any) => event);
+    return proxy;
+  }
+
+  it('splits the series when changing this and following occurrences', () => {
+    const proxy = harness();
+    const result = proxy.request('calendar', 'events.update', { eventId: occurrence.id, scope: 'following', summary: 'Sync' });
+    expect(result.ok).toBe(true);
+    expect(result.data).toMatchObject({ eventId: 'standup2', summary: 'Sync', splitFrom: 'standup', recurrence: ['RRULE:FREQ=DAILY;COUNT=7'] });
+
+    const inserted = proxy.calls.find(c => c.method === 'Calendar.Events.insert')!.args[0];
+    expect(inserted.start).toEqual({ dateTime: '2026-03-05T10:00:00+01:00', timeZone: 'Europe/Berlin' });
+    expect(inserted.end).toEqual({ dateTime: '2026-03-05T09:15:00.000Z', timeZone: 'Europe/Berlin' });
+    const head = proxy.calls.find(c => c.method === 'Calendar.Events.update')!;
+    expect(head.args.slice(1, 3)).toEqual(['primary', 'standup']);
+    expect(head.args[0].recurrence).toEqual(['RRULE:FREQ=DAILY;UNTIL=20260305T085959Z']);
+  });
+
+  it('resolves scopes and adds skipped days to the series', () => {
+    const proxy = harness();
+    proxy.request('calendar', 'events.delete', { eventId: occurrence.id, scope: 'all' });
+    expect(proxy.calls.find(c => c.method === 'Calendar.Events.remove')!.args[1]).toBe('standup');
+
+    const skipped = proxy.request('calendar', 'events.update', { eventId: 'standup', exdates: ['2026-03-06'] });
+    expect(skipped.data.recurrence).toEqual(['RRULE:FREQ=DAILY;COUNT=10', 'EXDATE;TZID=Europe/Berlin:20260306T100000']);
+
+    const refused = proxy.request('calendar', 'events.update', { eventId: 'standup', scope: 'this', summary: 'x' });
+    expect(refused.error?.code).toBe('INVALID_REQUEST');
+    expect(proxy.request('calendar', 'events.update', { eventId: occurrence.id, exdates: ['2026-03-06'] }).error?.message)
+      .toContain('Recurrence belongs to the series');
+  });
+
+  it('skips days at the wall time of the series zone, not the calendar zone', () => {
+    const proxy = harness();
+    // A Berlin series on a New York calendar: dateTime comes back in New York time.
+    proxy.respond('Calendar.Events.get', () => ({ ...structuredClone(master), start: { dateTime: '2026-03-02T04:00:00-05:00', timeZone: 'Europe/Berlin' } }));
+    const skipped = proxy.request('calendar', 'events.update', { eventId: 'standup', exdates: ['2026-03-06'] });
+    expect(skipped.data.recurrence).toContain('EXDATE;TZID=Europe/Berlin:20260306T100000');
+  });
+
+  it('answers the following occurrences up to a horizon', () => {
+    const proxy = harness();
+    proxy.respond('Calendar.Events.instances', { items: [{ id: 'a', originalStartTime: occurrence.originalStartTime }, { id: 'b', status: 'cancelled' }] });
+    proxy.respond('Calendar.Events.patch', (event: any) => event);
+    const result = proxy.request('calendar', 'events.respond', { eventId: occurrence.id, response: 'accepted', scope: 'following' });
+    expect(result.data).toEqual({ eventId: occurrence.id, response: 'accepted', scope: 'following', updated: 1, until: '2026-06-03T09:00:00.000Z' });
+    const [, , options] = proxy.calls.find(c => c.method === 'Calendar.Events.instances')!.args;
+    expect(options).toEqual({ timeMin: '2026-03-05T09:00:00.000Z', timeMax: '2026-06-03T09:00:00.000Z', maxResults: 250 });
+    expect(proxy.calls.filter(c => c.method === 'Calendar.Events.patch')).toHaveLength(1);
+  });
+});
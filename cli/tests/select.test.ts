@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { parseSelectPath, selectPath } from '../src/select.js';
+
+const data = {
+  files: [
+    { fileId: 'f1', name: 'a.txt', owners: ['x@example.com'] },
+    { fileId: 'f2', name: 'b.txt', owners: [] },
+  ],
+  count: 2,
+};
+
+describe('parseSelectPath', () => {
+  it('parses fields, indexes, wildcards and picks', () => {
+    expect(parseSelectPath("$.files[*]['fileId','name']")).toEqual([
+      { type: 'field', name: 'files' },
+      { type: 'wildcard' },
+      { type: 'pick', names: ['fileId', 'name'] },
+    ]);
+    expect(parseSelectPath('files[-1].name')).toEqual([
+      { type: 'field', name: 'files' },
+      { type: 'index', index: -1 },
+      { type: 'field', name: 'name' },
+    ]);
+  });
+
+  it('treats $ alone as the whole response', () => {
+    expect(parseSelectPath('$')).toEqual([]);
+  });
+
+  it('rejects malformed paths', () => {
+    expect(() => parseSelectPath('$.files[0')).toThrow(/missing "\]"/);
+    expect(() => parseSelectPath('$.')).toThrow(/field name/);
+    expect(() => parseSelectPath('$.files[]')).toThrow(/empty brackets/);
+  });
+});
+
+describe('selectPath', () => {
+  it('returns a single value for paths without wildcards', () => {
+    expect(selectPath(data, '$.count')).toBe(2);
+    expect(selectPath(data, 'files[1].name')).toBe('b.txt');
+    expect(selectPath(data, 'files[-1].fileId')).toBe('f2');
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(selectPath(data, '$.missing')).toBeNull();
+    expect(selectPath(data, 'files[5]')).toBeNull();
+  });
+
+  it('collects matches into an array when a wildcard is used', () => {
+    expect(selectPath(data, '$.files[*].name')).toEqual(['a.txt', 'b.txt']);
+    expect(selectPath(data, '$.files.*.owners[0]')).toEqual(['x@example.com']);
+  });
+
+  it('projects several fields into new objects', () => {
+    expect(selectPath(data, '$.files[*][fileId,name]')).toEqual([
+      { fileId: 'f1', name: 'a.txt' },
+      { fileId: 'f2', name: 'b.txt' },
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import readline from 'node:readline';
+import { PassThrough } from 'node:stream';
+import { createProgram } from '../src/program.js';
+import { completeWords } from '../src/completion.js';
+import { cliGlobalArgs, resolveLastResult, splitCommandLine, startShell } from '../src/shell.js';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+
+describe('splitCommandLine', () => {
+  it('splits on whitespace and honours quotes and escapes', () => {
+    expect(splitCommandLine(`drive search  "name contains 'budget'" --max 5`))
+      .toEqual(['drive', 'search', "name contains 'budget'", '--max', '5']);
+    expect(splitCommandLine(String.raw`gmail send a@b.c --subject "It's \"ok\"" --body a\ b ""`))
+      .toEqual(['gmail', 'send', 'a@b.c', '--subject', 'It\'s "ok"', '--body', 'a b', '']);
+  });
+
+  it('rejects an unterminated quote', () => {
+    expect(() => splitCommandLine('drive search "oops')).toThrow('Unterminated " quote');
+  });
+
+  it('expands $_ references outside single quotes', () => {
+    const last = { files: [{ fileId: 'f1', name: 'My File' }, { fileId: 'f2', name: 'b' }] };
+    const expand = (ref: string) => resolveLastResult(last, ref);
+    expect(splitCommandLine('drive download $_.files[0].fileId', expand)).toEqual(['drive', 'download', 'f1']);
+    expect(splitCommandLine('x --name=$_.files[0].name', expand)).toEqual(['x', '--name=My File']);
+    expect(splitCommandLine('x $_.files[*].fileId', expand)).toEqual(['x', 'f1,f2']);
+    expect(splitCommandLine("x '$_.files' \\$_", expand)).toEqual(['x', '$_.files', '$_']);
+  });
+});
+
+describe('resolveLastResult', () => {
+  it('renders objects as JSON and fails on missing values', () => {
+    expect(resolveLastResult({ a: { b: 1 } }, '$_.a')).toBe('{"b":1}');
+    expect(resolveLastResult({ n: 3 }, '$_.n')).toBe('3');
+    expect(() => resolveLastResult(undefined, '$_')).toThrow('$_ is empty');
+    expect(() => resolveLastResult({}, '$_.missing')).toThrow('$_.missing matched nothing');
+  });
+});
+
+describe('completeWords', () => {
+  const program = createProgram();
+
+  it('completes services, actions and flags from the commander tree', () => {
+    expect(completeWords(program, ['dr'])).toEqual(['drive']);
+    expect(completeWords(program, ['calendar', 'events', 'l'])).toEqual(['list']);
+    expect(completeWords(program, ['gmail', 'search', 'is:unread', '--m'])).toEqual(['--max']);
+    expect(completeWords(program, ['drive', 'list', '--pro'])).toEqual(['--profile', '--proxy-url']);
+  });
+
+  it('completes option choices after the flag or after =', () => {
+    expect(completeWords(program, ['drive', 'list', '--output', 'ts'])).toEqual(['tsv']);
+    expect(completeWords(program, ['--output=n'])).toEqual(['--output=ndjson']);
+  });
+
+  it('skips option values when walking to the command', () => {
+    expect(completeWords(program, ['--profile', 'drive', 'dr'])).toEqual(['drive']);
+    expect(completeWords(program, ['--profile', 'work', 'drive', 'perm'])).toEqual(['permissions']);
+  });
+});
+
+describe('cliGlobalArgs', () => {
+  it('reproduces global flags given on the command line', async () => {
+    const program = createProgram();
+    program.exitOverride();
+    program.commands.forEach(cmd => cmd.exitOverride());
+    program.action(() => {});
+    await program.parseAsync(['--profile', 'work', '--no-header', '--json', '--columns', 'id,name'], { from: 'user' });
+    expect(cliGlobalArgs(program)).toEqual(['--json', '--columns', 'id,name', '--no-header', '--profile', 'work']);
+  });
+});
+
+describe('startShell', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('runs lines against the proxy and feeds $_ into the next command', async () => {
+    const proxy = createProxyHarness();
+    proxy.respond('Drive.Files.list', { items: [{ id: 'file-1', title: 'Budget', mimeType: 'text/csv' }] });
+    proxy.respond('Drive.Files.get', (id: string) => ({ id, title: 'Budget', mimeType: 'text/csv' }));
+    vi.spyOn(globalThis, 'fetch').mockImplementation(proxy.fetch);
+    vi.stubEnv('GPROXY_URL', 'https://script.google.com/macros/s/test/exec');
+    vi.stubEnv('GPROXY_SECRET', proxy.secret);
+    const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    const input = new PassThrough();
+    const output = new PassThrough();
+    input.end('drive search "title contains \'Bud\'"\ndrive get $_.files[0].fileId\n$_.name\nexit\n');
+    const code = await startShell({ createProgram, baseArgs: ['--json'], prompt: '> ', input, output });
+
+    expect(code).toBe(0);
+    expect(proxy.calls.map(c => c.method)).toEqual(['Drive.Files.list', 'Drive.Files.get']);
+    expect(proxy.calls[1].args).toEqual(['file-1']);
+    expect(JSON.parse(String(stdout.mock.calls[1][0])).fileId).toBe('file-1');
+    expect(output.read()?.toString()).toBe('Budget\n');
+  });
+
+  it('leaves the input to a command that prompts, then reads the next line', async () => {
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const input = new PassThrough();
+    const answers: string[] = [];
+    let asked!: () => void;
+    const asking = new Promise<void>(resolve => { asked = resolve; });
+    const withPrompt = () => {
+      const program = createProgram();
+      // Reads its answer from the shell's own input, like an @inquirer/prompts confirm()
+      program.command('ask').action(() => new Promise<void>(resolve => {
+        const prompt = readline.createInterface({ input });
+        prompt.once('line', answer => {
+          answers.push(answer);
+          prompt.close();
+          resolve();
+        });
+        asked();
+      }));
+      return program;
+    };
+
+    const shell = startShell({ createProgram: withPrompt, baseArgs: [], prompt: '> ', input, output: new PassThrough() });
+    input.write('ask\n');
+    await asking;
+    input.write('y\n');
+    await new Promise(resolve => setImmediate(resolve));
+    input.write('exit\n');
+
+    expect(await shell).toBe(0);
+    expect(answers).toEqual(['y']);
+    expect(stderr.mock.calls.join('')).not.toContain("unknown command 'y'");
+  });
+});
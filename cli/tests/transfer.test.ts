@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { createProxyHarness, FakeHttpResponse } from './helpers/apps-script-harness.js';
+import type { ProxyHarness } from './helpers/apps-script-harness.js';
+import { downloadChunked, uploadChunked } from '../src/transfer.js';
+import type { DriveCall } from '../src/transfer.js';
+
+const CHUNK = 256 * 1024;
+const md5 = (data: Buffer) => crypto.createHash('md5').update(data).digest('hex');
+
+/**
+ * Just enough of the Drive v2 resumable-upload and alt=media endpoints for the
+ * proxy's UrlFetchApp calls. `fail(n)` makes the n-th chunk PUT answer `status`.
+ */
+function fakeDriveHttp(proxy: ProxyHarness, files: Map<string, Buffer>) {
+  const sessions = new Map<string, { title: string; size: number; data: Buffer }>();
+  const failures = new Map<number, number>();
+  let chunkPuts = 0;
+
+  proxy.respond('UrlFetchApp.fetch', (url: string, params: any) => {
+    if (url.startsWith('https://www.googleapis.com/upload/drive/v2/files?uploadType=resumable')) {
+      const location = `https://upload.example/session-${sessions.size + 1}`;
+      sessions.set(location, {
+        title: JSON.parse(params.payload).title,
+        size: Number(params.headers['X-Upload-Content-Length']),
+        data: Buffer.alloc(0),
+      });
+      return new FakeHttpResponse(200, '', { Location: location });
+    }
+
+    const session = sessions.get(url);
+    if (session) {
+      const range = params.headers['Content-Range'] as string;
+      const chunk = /^bytes (\d+)-(\d+)\/(\d+)$/.exec(range);
+      if (chunk) {
+        const status = failures.get(++chunkPuts);
+        if (status) return new FakeHttpResponse(status, JSON.stringify({ error: { message: 'Backend Error' } }));
+        expect(Number(chunk[1])).toBe(session.data.length);
+        session.data = Buffer.concat([session.data, Buffer.from(params.payload.map((b: number) => b & 0xff))]);
+      }
+      if (session.data.length < session.size) {
+        const headers: Record<string, string> = session.data.length > 0 ? { Range: `bytes=0-${session.data.length - 1}` } : {};
+        return new FakeHttpResponse(308, '', headers);
+      }
+      const id = `uploaded-${files.size + 1}`;
+      files.set(id, session.data);
+      sessions.delete(url);
+      return new FakeHttpResponse(200, JSON.stringify({
+        id, title: session.title, fileSize: String(session.size), md5Checksum: md5(session.data),
+      }));
+    }
+
+    const media = /^https:\/\/www\.googleapis\.com\/drive\/v2\/files\/([^?]+)\?alt=media$/.exec(url);
+    if (media) {
+      const data = files.get(decodeURIComponent(media[1]));
+      if (!data) return new FakeHttpResponse(404, JSON.stringify({ error: { message: 'File not found' } }));
+      const [, start, end] = /^bytes=(\d+)-(\d+)$/.exec(params.headers.Range)!;
+      if (Number(start) >= data.length) return new FakeHttpResponse(416);
+      return new FakeHttpResponse(206, data.subarray(Number(start), Number(end) + 1));
+    }
+    throw new Error('Unexpected fetch: ' + url);
+  });
+
+  return {
+    fail: (put: number, status: number) => { failures.set(put, status); },
+    get chunkPuts() { return chunkPuts; },
+  };
+}
+
+let proxy: ProxyHarness;
+let files: Map<string, Buffer>;
+let drive: ReturnType<typeof fakeDriveHttp>;
+let call: DriveCall;
+let dir: string;
+let content: Buffer;
+
+beforeEach(() => {
+  proxy = createProxyHarness();
+  files = new Map();
+  drive = fakeDriveHttp(proxy, files);
+  call = async (action, params) => proxy.request('drive', action, params);
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gproxy-transfer-'));
+  content = crypto.randomBytes(CHUNK * 2 + 1000);
+});
+
+describe('uploadChunked', () => {
+  it('sends 256 KiB-aligned chunks and verifies the MD5', async () => {
+    const filePath = path.join(dir, 'big.bin');
+    fs.writeFileSync(filePath, content);
+    const progress: number[] = [];
+
+    const result = await uploadChunked({
+      filePath,
+      metadata: { name: 'big.bin' },
+      chunkSize: CHUNK,
+      call,
+      stateFile: path.join(dir, 'uploads.json'),
+      onProgress: done => progress.push(done),
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.data).toMatchObject({ fileId: 'uploaded-1', name: 'big.bin', md5Checksum: md5(content) });
+    expect(files.get('uploaded-1')!.equals(content)).toBe(true);
+    expect(progress).toEqual([0, CHUNK, CHUNK * 2, content.length]);
+    expect(proxy.calls.filter(c => c.args[0].startsWith('https://upload.example/')).map(c => c.args[1].headers['Content-Range']))
+      .toEqual([`bytes 0-${CHUNK - 1}/${content.length}`, `bytes ${CHUNK}-${CHUNK * 2 - 1}/${content.length}`,
+        `bytes ${CHUNK * 2}-${content.length - 1}/${content.length}`]);
+    expect(JSON.parse(fs.readFileSync(path.join(dir, 'uploads.json'), 'utf-8'))).toEqual({});
+  });
+
+  it('retries a failed chunk and resumes an interrupted upload from Drive\'s offset', async () => {
+    const filePath = path.join(dir, 'big.bin');
+    fs.writeFileSync(filePath, content);
+    const options = { filePath, metadata: { name: 'big.bin' }, chunkSize: CHUNK, call, stateFile: path.join(dir, 'uploads.json') };
+
+    drive.fail(2, 503);
+    drive.fail(4, 400);
+    const first = await uploadChunked(options);
+    expect(first.ok).toBe(false);
+    expect(first.error?.message).toContain('run the same command again to resume');
+    expect(drive.chunkPuts).toBe(4);
+
+    const second = await uploadChunked(options);
+    expect(second.ok).toBe(true);
+    expect(proxy.calls.filter(c => c.args[0].startsWith('https://www.googleapis.com/upload/'))).toHaveLength(1);
+    expect(drive.chunkPuts).toBe(5);
+    expect(files.get('uploaded-1')!.equals(content)).toBe(true);
+  });
+});
+
+describe('downloadChunked', () => {
+  beforeEach(() => {
+    files.set('f1', content);
+  });
+
+  it('reads byte ranges into the output, resuming from a .part file', async () => {
+    const out = path.join(dir, 'out.bin');
+    fs.writeFileSync(`${out}.part`, content.subarray(0, CHUNK));
+
+    const result = await downloadChunked({
+      info: { fileId: 'f1', name: 'out.bin', size: content.length, md5Checksum: md5(content) },
+      out,
+      chunkSize: CHUNK,
+      call,
+    });
+
+    expect(result.ok).toBe(true);
+    expect(fs.readFileSync(out).equals(content)).toBe(true);
+    expect(fs.existsSync(`${out}.part`)).toBe(false);
+    expect(proxy.calls.map(c => c.args[1].headers.Range))
+      .toEqual([`bytes=${CHUNK}-${CHUNK * 2 - 1}`, `bytes=${CHUNK * 2}-${content.length - 1}`]);
+  });
+
+  it('streams without a file and rejects a checksum mismatch', async () => {
+    const stream = new PassThrough();
+    const chunks: Buffer[] = [];
+    stream.on('data', chunk => chunks.push(chunk));
+    const ok = await downloadChunked({
+      info: { fileId: 'f1', name: 'x', size: content.length, md5Checksum: md5(content) },
+      stream,
+      chunkSize: CHUNK,
+      call,
+    });
+    expect(ok.ok).toBe(true);
+    expect(Buffer.concat(chunks).equals(content)).toBe(true);
+
+    const out = path.join(dir, 'bad.bin');
+    const bad = await downloadChunked({
+      info: { fileId: 'f1', name: 'bad.bin', size: content.length, md5Checksum: '0'.repeat(32) },
+      out,
+      chunkSize: CHUNK,
+      call,
+    });
+    expect(bad.error?.code).toBe('CHECKSUM_MISMATCH');
+    expect(fs.existsSync(out)).toBe(false);
+    expect(fs.existsSync(`${out}.part`)).toBe(false);
+  });
+
+  it('reports download.info for planning and sends Workspace files to download', () => {
+    proxy.respond('Drive.Files.get', (id: string) => ({
+      id, title: 'Doc', mimeType: 'application/vnd.google-apps.document',
+    }));
+    expect(proxy.request('drive', 'download.info', { fileId: 'd1' }).data)
+      .toMatchObject({ fileId: 'd1', size: 0, md5Checksum: '', exportRequired: true });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+import type { ProxyHarness } from './helpers/apps-script-harness.js';
+import { applyTriage, findThreads, parseUntil, triageQuery } from '../src/triage.js';
+import type { ModifyBatch } from '../src/triage.js';
+
+let proxy: ProxyHarness;
+
+beforeEach(() => {
+  proxy = createProxyHarness();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('bulk triage', () => {
+  it('pages through a search and archives through thread.modify, skipping restricted threads', async () => {
+    const news = Array.from({ length: 3 }, (_, i) =>
+      proxy.gmail.addThread({ messages: [{ from: 'news@shop.example', subject: `Deal ${i}` }] }));
+    const reset = proxy.gmail.addThread({ messages: [{ from: 'news@shop.example', subject: 'Password reset requested' }] });
+    proxy.gmail.addThread({ messages: [{ from: 'alice@example.com', subject: 'Lunch' }] });
+
+    const call = async (action: string, params: Record<string, any>) => proxy.request('gmail', action, params);
+    const found = await findThreads(call, 'from:shop.example', 2);
+    expect(found.data.threads.map((t: any) => t.threadId)).toEqual([news[0].id, news[1].id]);
+    expect(found.data.truncated).toBe(true);
+
+    const batch: ModifyBatch = async requests =>
+      proxy.request('_batch', 'run', { requests: requests.map(r => ({ service: 'gmail', ...r })) });
+    const result = await applyTriage('archive', [...news.map(t => t.id), reset.id, 'missing'], batch);
+    expect(result.data).toEqual({
+      action: 'archive',
+      modified: news.map(t => t.id),
+      skipped: [reset.id],
+      failed: [{ threadId: 'missing', error: 'Thread not found' }],
+    });
+    expect(news.every(t => !t.isInInbox())).toBe(true);
+    expect(reset.isInInbox()).toBe(true);
+  });
+
+  it('looks in the trash for untrash', () => {
+    expect(triageQuery('untrash', 'from:bob')).toBe('in:trash from:bob');
+    expect(triageQuery('untrash', 'in:anywhere from:bob')).toBe('in:anywhere from:bob');
+    expect(triageQuery('archive', 'from:bob')).toBe('from:bob');
+  });
+});
+
+describe('gmail snooze', () => {
+  it('archives under a label and a clock trigger brings the thread back', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+    const thread = proxy.gmail.addThread({ messages: [{ subject: 'Renew passport' }] });
+    const later = proxy.gmail.addThread({ messages: [{ subject: 'Book flights' }] });
+
+    const snoozed = proxy.request('gmail', 'snooze', { threadId: thread.id, until: '2026-03-03T08:00:00Z' });
+    expect(snoozed.data).toEqual({ threadId: thread.id, until: '2026-03-03T08:00:00.000Z', label: 'Snoozed' });
+    proxy.request('gmail', 'snooze', { threadId: later.id, until: '2026-03-05T08:00:00Z' });
+    expect(thread.isInInbox()).toBe(false);
+    expect([...thread.labels]).toEqual(['Snoozed']);
+    expect(proxy.triggers).toEqual([
+      { id: expect.any(String), handler: 'gmailWakeSnoozed', schedule: { at: '2026-03-03T08:00:00.000Z' } },
+    ]);
+
+    vi.setSystemTime(new Date('2026-03-03T08:01:00Z'));
+    expect(proxy.globals.gmailWakeSnoozed()).toEqual([thread.id]);
+    expect(thread.isInInbox()).toBe(true);
+    expect([...thread.labels]).toEqual([]);
+    expect(proxy.request('gmail', 'snooze.list').data.snoozed).toEqual([{ threadId: later.id, until: '2026-03-05T08:00:00.000Z' }]);
+    expect(proxy.triggers.map(t => t.schedule.at)).toEqual(['2026-03-05T08:00:00.000Z']);
+
+    proxy.request('gmail', 'snooze.cancel', { threadId: later.id });
+    expect(later.isInInbox()).toBe(true);
+    expect(proxy.triggers).toEqual([]);
+    expect(proxy.request('gmail', 'snooze', { threadId: thread.id, until: '2026-03-01' }).error?.message)
+      .toBe('until must be in the future');
+  });
+
+  it('parses --until durations and dates', () => {
+    const now = new Date('2026-03-02T09:00:00Z');
+    expect(parseUntil('3h', now).toISOString()).toBe('2026-03-02T12:00:00.000Z');
+    expect(parseUntil('2d', now).toISOString()).toBe('2026-03-04T09:00:00.000Z');
+    expect(parseUntil('2026-03-05T10:30:00Z', now).toISOString()).toBe('2026-03-05T10:30:00.000Z');
+    expect(() => parseUntil('2026-03-01T00:00:00Z', now)).toThrow('is in the past');
+    expect(() => parseUntil('soon', now)).toThrow('Invalid --until "soon"');
+    // 08:00 local on the day clocks go forward, not 09:00.
+    expect(parseUntil('2026-03-08', now, 'America/New_York').toISOString()).toBe('2026-03-08T12:00:00.000Z');
+    expect(parseUntil('2026-03-29', now, 'Europe/Berlin').toISOString()).toBe('2026-03-29T06:00:00.000Z');
+  });
+});
@@ -0,0 +1,124 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { createProxyHarness } from './helpers/apps-script-harness.js';
+import { readWatchState, runWatchHook, watchCalendars } from '../src/watch.js';
+import type { WatchNotice } from '../src/watch.js';
+import type { CommandResult } from '../src/types.js';
+
+const T0 = Date.parse('2026-03-02T09:00:00Z');
+const at = (minutes: number) => new Date(T0 + minutes * 60_000).toISOString();
+
+function tempFile(name: string): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'gproxy-watch-')), name);
+}
+
+describe('calendar watch', () => {
+  it('announces events once, and reports reschedules and cancellations', async () => {
+    const standup = { id: 'standup', summary: 'Standup', status: 'confirmed', start: { dateTime: at(10) }, end: { dateTime: at(25) } };
+    let listed = [standup];
+    const proxy = createProxyHarness();
+    proxy.respond('Calendar.Events.list', () => ({ items: listed }));
+    proxy.respond('Calendar.Events.get', () => ({ ...standup, status: 'cancelled' }));
+    const call = async (action: string, params: Record<string, any>) => proxy.request('calendar', action, params);
+
+    // Polls at +0, +6, +7, +26 and +27 minutes; between the third and the
+    // fourth the event moves to +30, before the last it is deleted.
+    const times = [0, 6, 7, 26, 27];
+    const changes: Record<number, () => void> = {
+      2: () => { standup.start = { dateTime: at(30) }; },
+      4: () => { listed = []; },
+    };
+    let poll = 0;
+    const notices: WatchNotice[] = [];
+    const stateFile = tempFile('state.json');
+    const result = await watchCalendars(call, {
+      calendarIds: ['primary'],
+      before: '5m',
+      interval: '1m',
+      stateFile,
+      polls: times.length,
+      now: () => { changes[poll]?.(); return new Date(T0 + times[poll++] * 60_000); },
+      sleep: async () => {},
+      onNotice: notice => { notices.push(notice); },
+    });
+
+    expect(result).toEqual({ ok: true, data: { polls: 5, notified: 4 } });
+    expect(notices.map(n => [n.type, n.minutesToStart, n.previousStart])).toEqual([
+      ['reminder', 4, undefined],
+      ['rescheduled', 23, at(10)],
+      ['reminder', 4, undefined],
+      ['cancelled', 3, at(30)],
+    ]);
+    expect(proxy.calls.filter(c => c.method === 'Calendar.Events.list')[0].args[1]).toMatchObject({ timeMin: at(0), timeMax: at(6) });
+    expect(readWatchState(stateFile).notified).toEqual({});
+
+    // A restarted watcher remembers what it already announced.
+    listed = [standup];
+    await watchCalendars(call, { calendarIds: ['primary'], before: '5m', interval: '1m', stateFile, polls: 1, now: () => new Date(T0 + 26 * 60_000), onNotice: () => {} });
+    const again: WatchNotice[] = [];
+    await watchCalendars(call, { calendarIds: ['primary'], before: '5m', interval: '1m', stateFile, polls: 1, now: () => new Date(T0 + 27 * 60_000), onNotice: n => { again.push(n); } });
+    expect(again).toEqual([]);
+  });
+
+  it('treats an event that can no longer be read as cancelled, without holding up others', async () => {
+    const standup = { id: 'standup', summary: 'Standup', status: 'confirmed', start: { dateTime: at(5) }, end: { dateTime: at(20) } };
+    const review = { id: 'review', summary: 'Review', status: 'confirmed', start: { dateTime: at(6) }, end: { dateTime: at(30) } };
+    let listed: any[] = [standup];
+    let getError = 'API call to calendar.events.get failed with error: Not Found';
+    const proxy = createProxyHarness();
+    proxy.respond('Calendar.Events.list', () => ({ items: listed }));
+    proxy.respond('Calendar.Events.get', () => { throw new Error(getError); });
+    const call = async (action: string, params: Record<string, any>) => proxy.request('calendar', action, params);
+    const stateFile = tempFile('state.json');
+    const poll = async (minutes: number) => {
+      const notices: WatchNotice[] = [];
+      const result = await watchCalendars(call, {
+        calendarIds: ['primary'], before: '5m', interval: '1m', stateFile, polls: 1,
+        now: () => new Date(T0 + minutes * 60_000), onNotice: n => { notices.push(n); },
+      });
+      expect(result.ok).toBe(true);
+      return notices.map(n => `${n.type} ${n.event.summary}`);
+    };
+
+    expect(await poll(1)).toEqual(['reminder Standup']);
+    // Removed as a guest: the listing drops it and events.get 404s.
+    listed = [review];
+    expect(await poll(2)).toEqual(['reminder Review', 'cancelled Standup']);
+
+    // A failing lookup that is not a 404 is retried later, not reported.
+    listed = [standup, review];
+    expect(await poll(3)).toEqual(['reminder Standup']);
+    listed = [review];
+    getError = 'Backend Error';
+    expect(await poll(4)).toEqual([]);
+    expect(Object.keys(readWatchState(stateFile).notified)).toContain('primary/standup');
+  });
+
+  it('backs off on QUOTA_EXCEEDED and stops on other errors', async () => {
+    const quota: CommandResult = { ok: false, error: { code: 'QUOTA_EXCEEDED', message: 'Too many calls', retryable: true } };
+    let failures = 3;
+    const call = async () => (failures-- > 0 ? quota : { ok: true, data: { events: [] } });
+    const waits: number[] = [];
+    const warnings: string[] = [];
+    const options = {
+      calendarIds: ['primary'], before: '5m', interval: '1m', stateFile: tempFile('state.json'), polls: 5,
+      sleep: async (ms: number) => { waits.push(ms); }, onNotice: () => {}, onWarning: (m: string) => { warnings.push(m); },
+    };
+    expect((await watchCalendars(call, options)).ok).toBe(true);
+    expect(waits).toEqual([120_000, 240_000, 480_000, 60_000]);
+    expect(warnings[0]).toBe('Too many calls; next poll in 120s');
+
+    const denied: CommandResult = { ok: false, error: { code: 'AUTH_FAILED', message: 'Bad secret', retryable: false } };
+    expect(await watchCalendars(async () => denied, options)).toBe(denied);
+  });
+
+  it('runs the hook with the event on stdin', async () => {
+    const out = tempFile('hook.txt');
+    const notice: WatchNotice = { type: 'reminder', calendarId: 'primary', minutesToStart: 5, event: { eventId: 'standup', summary: 'Standup' } };
+    expect(await runWatchHook(`cat > '${out}'; echo "$GPROXY_WATCH_TYPE $GPROXY_WATCH_MINUTES" >> '${out}'`, notice)).toBe(0);
+    expect(fs.readFileSync(out, 'utf-8')).toBe('{"eventId":"standup","summary":"Standup"}\nreminder 5\n');
+    expect(await runWatchHook('exit 3', notice)).toBe(3);
+  });
+});
@@ -4,6 +4,9 @@
  * doPost(e): Handles all proxy requests (JWT auth → IP check → route → log → respond)
  * doGet(e):  Health check endpoint
  *
+ * Batch requests use service "_batch" with params.requests = [{service, action, params}, ...].
+ * Auth and IP checks run once; the response data holds one result per item.
+ *
  * Request body format:
  * {
  *   "jwt": "...",
@@ -73,16 +76,24 @@ function doPost(e) {
       return jsonResponse(ipResult);
     }
 
-    // 3. Route to service handler
-    var result = routeRequest(service, action, params);
+    // 3. Route to service handler (or fan out a batch)
+    var isBatch = service === '_batch';
+    var result = isBatch
+      ? routeBatch(params.requests, startTime)
+      : routeRequest(service, action, params);
 
     // 4. Log
     var duration = new Date().getTime() - startTime;
-    logRequest(requestId, clientIp, service, action, result.ok ? 'OK' : 'ERROR', duration, result.error ? result.error.message : '');
+    var logDetail = result.error ? result.error.message : '';
+    if (isBatch && result.ok) {
+      logDetail = result.data.count + ' items, ' + result.data.failed + ' failed';
+    }
+    logRequest(requestId, clientIp, service, action, result.ok ? 'OK' : 'ERROR', duration, logDetail);
 
-    // 5. Check timeout (warn if approaching Apps Script 6-min limit)
+    // 5. Check timeout (warn if approaching Apps Script 6-min limit).
+    // Batches report per-item TIMEOUTs instead, so completed items are not discarded.
     var elapsed = new Date().getTime() - startTime;
-    if (elapsed > 330000) {
+    if (elapsed > 330000 && !isBatch) {
       logRequest(requestId, clientIp, service, action, 'TIMEOUT', elapsed, 'Approaching execution time limit');
       return jsonResponse({
         ok: false,
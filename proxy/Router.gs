@@ -22,6 +22,9 @@ var SERVICE_REGISTRY_ = {
   'admin': handleAdmin
 };
 
+var MAX_BATCH_SIZE_ = 100;
+var BATCH_TIME_BUDGET_MS_ = 300000; // Stop starting new items well before the 6-min limit
+
 /**
  * Route a request to the appropriate service handler.
  * @param {string} service - Service name
@@ -53,6 +56,41 @@ function routeRequest(service, action, params) {
   }
 }
 
+/**
+ * Run several requests in one round trip. doPost has already verified the JWT
+ * and client IP once for the whole batch, so each item goes straight to
+ * routeRequest. Items run in order; one failing does not stop the rest.
+ * @param {Object[]} requests - Array of {service, action, params}
+ * @param {number} startTime - doPost start time in ms (execution budget)
+ * @return {Object} {ok: true, data: {results: [...], count, failed}} or error response
+ */
+function routeBatch(requests, startTime) {
+  if (!requests || !Array.isArray(requests) || requests.length === 0) {
+    return errorResponse('INVALID_REQUEST', 'Batch requires a non-empty requests array', false);
+  }
+  if (requests.length > MAX_BATCH_SIZE_) {
+    return errorResponse('INVALID_REQUEST', 'Batch too large: ' + requests.length + ' items (max ' + MAX_BATCH_SIZE_ + ')', false);
+  }
+
+  var results = [];
+  var failed = 0;
+  for (var i = 0; i < requests.length; i++) {
+    var item = requests[i] || {};
+    var result;
+    if (new Date().getTime() - startTime > BATCH_TIME_BUDGET_MS_) {
+      result = errorResponse('TIMEOUT', 'Batch time budget exhausted before this item ran', true);
+    } else if (item.service === '_batch') {
+      result = errorResponse('INVALID_REQUEST', 'Nested batches are not allowed', false);
+    } else {
+      result = routeRequest(item.service, item.action, item.params);
+    }
+    if (!result.ok) failed++;
+    results.push(result);
+  }
+
+  return successResponse({ results: results, count: results.length, failed: failed });
+}
+
 /**
  * Validate that required parameters are present.
  * @param {Object} params - Request parameters
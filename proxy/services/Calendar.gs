@@ -19,23 +19,39 @@ function handleCalendar(action, params) {
     case 'events.respond': return calendarEventsRespond(params);
     case 'events.propose': return calendarEventsPropose(params);
     case 'events.conflicts': return calendarEventsConflicts(params);
+    case 'events.instances': return calendarEventsInstances(params);
     case 'freebusy': return calendarFreebusy(params);
     case 'calendars.list': return calendarCalendarsList();
+    case 'calendars.create': return calendarCalendarsCreate(params);
+    case 'calendars.update': return calendarCalendarsUpdate(params);
+    case 'calendars.delete': return calendarCalendarsDelete(params);
+    case 'calendars.subscribe': return calendarCalendarsSubscribe(params);
+    case 'calendars.unsubscribe': return calendarCalendarsUnsubscribe(params);
+    case 'acl.list': return calendarAclList(params);
+    case 'acl.add': return calendarAclAdd(params);
+    case 'acl.remove': return calendarAclRemove(params);
     default:
       return errorResponse('NOT_FOUND', 'Unknown Calendar action: ' + action, false);
   }
 }
 
+/**
+ * List events. Recurring events are expanded into occurrences unless
+ * singleEvents is false, which returns each series once (ordering by start
+ * time needs expanded occurrences, so it is left to the API then).
+ */
 function calendarEventsList(params) {
   var calendarId = params.calendarId || 'primary';
+  var singleEvents = params.singleEvents !== false;
   var options = {
     maxResults: validatePositiveInt(params.max, 25, 250),
-    singleEvents: true,
-    orderBy: params.orderBy || 'startTime'
+    singleEvents: singleEvents
   };
+  if (singleEvents || params.orderBy === 'updated') options.orderBy = params.orderBy || 'startTime';
   if (params.timeMin) options.timeMin = params.timeMin;
   if (params.timeMax) options.timeMax = params.timeMax;
   if (params.query) options.q = params.query;
+  if (params.iCalUID) options.iCalUID = params.iCalUID;
   if (params.pageToken) options.pageToken = params.pageToken;
 
   var result = Calendar.Events.list(calendarId, options);
@@ -47,11 +63,23 @@ function calendarEventsList(params) {
   });
 }
 
+/**
+ * Get one event. An event that is gone, or no longer visible to the user
+ * (e.g. after being removed as a guest), is NOT_FOUND.
+ */
 function calendarEventsGet(params) {
   var err = validateParams(params, ['eventId']);
   if (err) return err;
   var calendarId = params.calendarId || 'primary';
-  var event = Calendar.Events.get(calendarId, params.eventId);
+  var event;
+  try {
+    event = Calendar.Events.get(calendarId, params.eventId);
+  } catch (e) {
+    if (/not ?found|404|410/i.test(String(e.message))) {
+      return errorResponse('NOT_FOUND', 'Event not found: ' + params.eventId, false);
+    }
+    throw e;
+  }
   return successResponse(formatCalendarEvent_(event));
 }
 
@@ -65,6 +93,7 @@ function calendarEventsCreate(params) {
     description: params.description || '',
     location: params.location || ''
   };
+  if (params.iCalUID) event.iCalUID = params.iCalUID;
 
   // Handle all-day vs timed events
   if (params.allDay) {
@@ -80,60 +109,87 @@ function calendarEventsCreate(params) {
       return typeof email === 'string' ? { email: email } : email;
     });
   }
-  if (params.recurrence) event.recurrence = params.recurrence;
-  if (params.reminders) {
-    event.reminders = { useDefault: false, overrides: params.reminders };
+  if (params.recurrence || params.exdates) {
+    var datesErr = validateExdates_(params.exdates);
+    if (datesErr) return datesErr;
+    var recurrence = (params.recurrence || []).concat(exdateLines_(params.exdates || [], event.start));
+    event.recurrence = normalizeRecurrence_(recurrence, !!params.allDay);
   }
   if (params.colorId) event.colorId = params.colorId;
   if (params.visibility) event.visibility = params.visibility;
+  var extrasErr = applyEventExtras_(event, params);
+  if (extrasErr) return extrasErr;
 
-  var options = {};
-  if (params.sendUpdates) options.sendUpdates = params.sendUpdates;
-
-  var created = Calendar.Events.insert(event, calendarId, options);
+  var created = Calendar.Events.insert(event, calendarId, eventWriteOptions_(params));
   return successResponse(formatCalendarEvent_(created));
 }
 
+/**
+ * Update an event. For a recurring event, scope picks what changes: "this"
+ * occurrence, "following" occurrences (the series is split at eventId) or
+ * "all" of the series. Without a scope, an occurrence ID changes that
+ * occurrence and a series ID the whole series.
+ */
 function calendarEventsUpdate(params) {
   var err = validateParams(params, ['eventId']);
   if (err) return err;
+  err = validateExdates_(params.exdates);
+  if (err) return err;
   var calendarId = params.calendarId || 'primary';
-
-  var event = Calendar.Events.get(calendarId, params.eventId);
-  if (params.summary !== undefined) event.summary = params.summary;
-  if (params.description !== undefined) event.description = params.description;
-  if (params.location !== undefined) event.location = params.location;
-  if (params.start !== undefined) {
-    event.start = params.allDay ? { date: params.start } : { dateTime: params.start, timeZone: params.timeZone || event.start.timeZone || 'UTC' };
-  }
-  if (params.end !== undefined) {
-    event.end = params.allDay ? { date: params.end } : { dateTime: params.end, timeZone: params.timeZone || event.end.timeZone || 'UTC' };
-  }
-  if (params.attendees !== undefined) {
-    event.attendees = params.attendees.map(function(email) {
-      return typeof email === 'string' ? { email: email } : email;
-    });
+  var target = recurringTarget_(calendarId, params.eventId, params.scope);
+  if (target.error) return target.error;
+  if (target.scope === 'this' && target.event.recurringEventId && (params.recurrence !== undefined || params.exdates)) {
+    return errorResponse('INVALID_REQUEST', 'Recurrence belongs to the series; use scope "all" or "following"', false);
   }
-  if (params.colorId !== undefined) event.colorId = params.colorId;
-  if (params.visibility !== undefined) event.visibility = params.visibility;
 
-  var options = {};
-  if (params.sendUpdates) options.sendUpdates = params.sendUpdates;
+  var options = eventWriteOptions_(params);
 
-  var updated = Calendar.Events.update(event, calendarId, params.eventId, options);
+  if (target.scope === 'following') {
+    var split = splitSeries_(calendarId, target.master, target.event);
+    var tail = applyEventChanges_(split.tail, params);
+    if (tail.error) return tail.error;
+    var created = Calendar.Events.insert(tail, calendarId, options);
+    Calendar.Events.update(split.head, calendarId, target.master.id, options);
+    var result = formatCalendarEvent_(created);
+    result.splitFrom = target.master.id;
+    return successResponse(result);
+  }
+
+  var event = applyEventChanges_(target.event, params);
+  if (event.error) return event.error;
+  var updated = Calendar.Events.update(event, calendarId, target.event.id, options);
   return successResponse(formatCalendarEvent_(updated));
 }
 
+/**
+ * Delete an event, one occurrence, the following occurrences (the series
+ * is ended just before eventId) or the whole series; see calendarEventsUpdate.
+ */
 function calendarEventsDelete(params) {
   var err = validateParams(params, ['eventId']);
   if (err) return err;
   var calendarId = params.calendarId || 'primary';
+  var target = recurringTarget_(calendarId, params.eventId, params.scope);
+  if (target.error) return target.error;
   var options = {};
   if (params.sendUpdates) options.sendUpdates = params.sendUpdates;
-  Calendar.Events.remove(calendarId, params.eventId, options);
-  return successResponse({ deleted: params.eventId });
+
+  if (target.scope === 'following') {
+    var split = splitSeries_(calendarId, target.master, target.event);
+    Calendar.Events.update(split.head, calendarId, target.master.id, options);
+    return successResponse({ deleted: params.eventId, scope: 'following', seriesId: target.master.id });
+  }
+  Calendar.Events.remove(calendarId, target.event.id, options);
+  return successResponse({ deleted: target.event.id, scope: target.scope });
 }
 
+/**
+ * RSVP to an event. With scope "following" the occurrences of the next
+ * RESPOND_HORIZON_DAYS_ (at most RESPOND_MAX_INSTANCES_) get the response,
+ * each patched on its own, so an open-ended series stays within the
+ * execution limit; `until` reports how far it went. See
+ * calendarEventsUpdate for the other scopes.
+ */
 function calendarEventsRespond(params) {
   var err = validateParams(params, ['eventId', 'response']);
   if (err) return err;
@@ -143,23 +199,44 @@ function calendarEventsRespond(params) {
     return errorResponse('INVALID_REQUEST', 'Response must be: accepted, declined, or tentative', false);
   }
 
-  var event = Calendar.Events.get(calendarId, params.eventId);
+  var target = recurringTarget_(calendarId, params.eventId, params.scope);
+  if (target.error) return target.error;
+  var events = [target.event];
+  var until = null;
+  if (target.scope === 'following') {
+    var from = startMs_(target.event.originalStartTime);
+    var page = Calendar.Events.instances(calendarId, target.master.id, {
+      timeMin: new Date(from).toISOString(),
+      timeMax: new Date(from + RESPOND_HORIZON_DAYS_ * 86400000).toISOString(),
+      maxResults: RESPOND_MAX_INSTANCES_
+    });
+    events = (page.items || []).filter(function(event) { return event.status !== 'cancelled'; });
+    // A full page means the horizon was not reached: stop at the last one.
+    until = page.nextPageToken && events.length
+      ? startTimeString_(events[events.length - 1].originalStartTime || events[events.length - 1].start)
+      : new Date(from + RESPOND_HORIZON_DAYS_ * 86400000).toISOString();
+  }
+
   var myEmail = Session.getActiveUser().getEmail();
-  var attendees = event.attendees || [];
-  var found = false;
-  for (var i = 0; i < attendees.length; i++) {
-    if (attendees[i].email === myEmail || attendees[i].self) {
-      attendees[i].responseStatus = params.response;
-      found = true;
-      break;
+  events.forEach(function(event) {
+    var attendees = event.attendees || [];
+    var found = false;
+    for (var i = 0; i < attendees.length; i++) {
+      if (attendees[i].email === myEmail || attendees[i].self) {
+        attendees[i].responseStatus = params.response;
+        found = true;
+        break;
+      }
     }
-  }
-  if (!found) {
-    attendees.push({ email: myEmail, responseStatus: params.response });
-  }
-  event.attendees = attendees;
-  Calendar.Events.patch(event, calendarId, params.eventId, { sendUpdates: params.sendUpdates || 'none' });
-  return successResponse({ eventId: params.eventId, response: params.response });
+    if (!found) {
+      attendees.push({ email: myEmail, responseStatus: params.response });
+    }
+    event.attendees = attendees;
+    Calendar.Events.patch(event, calendarId, event.id, { sendUpdates: params.sendUpdates || 'none' });
+  });
+  var result = { eventId: params.eventId, response: params.response, scope: target.scope, updated: events.length };
+  if (until) result.until = until;
+  return successResponse(result);
 }
 
 function calendarEventsPropose(params) {
@@ -180,22 +257,63 @@ function calendarEventsPropose(params) {
   });
 }
 
+/**
+ * List the occurrences of a recurring event.
+ */
+function calendarEventsInstances(params) {
+  var err = validateParams(params, ['eventId']);
+  if (err) return err;
+  var calendarId = params.calendarId || 'primary';
+  var options = { maxResults: validatePositiveInt(params.max, 25, 250) };
+  if (params.timeMin) options.timeMin = params.timeMin;
+  if (params.timeMax) options.timeMax = params.timeMax;
+  if (params.pageToken) options.pageToken = params.pageToken;
+
+  var result = Calendar.Events.instances(calendarId, params.eventId, options);
+  var events = (result.items || []).map(formatCalendarEvent_);
+  return successResponse({
+    events: events,
+    count: events.length,
+    nextPageToken: result.nextPageToken || null
+  });
+}
+
+var CONFLICTS_MAX_EVENTS_ = 250;
+
+/**
+ * List the events in a time range and the pairs among them that overlap.
+ * calendarIds checks several calendars together. All-day, free
+ * (transparent), cancelled and declined events do not block time.
+ */
 function calendarEventsConflicts(params) {
   var err = validateParams(params, ['start', 'end']);
   if (err) return err;
-  var calendarId = params.calendarId || 'primary';
+  var calendarIds = params.calendarIds || [params.calendarId || 'primary'];
 
-  var events = Calendar.Events.list(calendarId, {
-    timeMin: params.start,
-    timeMax: params.end,
-    singleEvents: true,
-    orderBy: 'startTime'
+  var conflicts = [];
+  calendarIds.forEach(function(calendarId) {
+    var events = Calendar.Events.list(calendarId, {
+      timeMin: params.start,
+      timeMax: params.end,
+      singleEvents: true,
+      orderBy: 'startTime',
+      maxResults: CONFLICTS_MAX_EVENTS_
+    });
+    (events.items || []).forEach(function(item) {
+      var event = formatCalendarEvent_(item);
+      event.calendarId = calendarId;
+      conflicts.push(event);
+    });
   });
 
-  var conflicts = (events.items || []).map(formatCalendarEvent_);
-  return successResponse({ conflicts: conflicts, count: conflicts.length });
+  return successResponse({ conflicts: conflicts, count: conflicts.length, overlaps: findOverlaps_(conflicts) });
 }
 
+/**
+ * Busy blocks per calendar. With timeZones set, each calendar also reports
+ * its time zone where the caller may read it (null otherwise), so callers
+ * can apply working hours in each attendee's own zone.
+ */
 function calendarFreebusy(params) {
   var err = validateParams(params, ['timeMin', 'timeMax']);
   if (err) return err;
@@ -216,28 +334,455 @@ function calendarFreebusy(params) {
       busy: result.calendars[calId].busy || [],
       errors: result.calendars[calId].errors || []
     };
+    if (params.timeZones) calendarsResult[calId].timeZone = calendarTimeZone_(calId);
   }
   return successResponse({ calendars: calendarsResult });
 }
 
 function calendarCalendarsList() {
   var calendars = Calendar.CalendarList.list();
-  var results = (calendars.items || []).map(function(cal) {
-    return {
-      id: cal.id,
-      summary: cal.summary,
-      description: cal.description || '',
-      primary: cal.primary || false,
-      accessRole: cal.accessRole,
-      backgroundColor: cal.backgroundColor,
-      timeZone: cal.timeZone
-    };
-  });
+  var results = (calendars.items || []).map(formatCalendarListEntry_);
   return successResponse({ calendars: results });
 }
 
+/**
+ * Create a secondary calendar owned by the user, optionally with a colour
+ * (a colour ID or #rrggbb) in the user's calendar list.
+ */
+function calendarCalendarsCreate(params) {
+  var err = validateParams(params, ['summary']);
+  if (err) return err;
+  var calendar = { summary: params.summary };
+  if (params.description) calendar.description = params.description;
+  if (params.location) calendar.location = params.location;
+  if (params.timeZone) calendar.timeZone = params.timeZone;
+
+  var created = Calendar.Calendars.insert(calendar);
+  if (params.color) {
+    var colorErr = patchCalendarListColor_(created.id, params.color);
+    if (colorErr) return colorErr;
+  }
+  return successResponse(formatCalendarListEntry_(Calendar.CalendarList.get(created.id)));
+}
+
+/**
+ * Update a calendar. Name, description, location and time zone change the
+ * calendar itself (needs owner access); color and hidden only change how it
+ * shows in the user's list.
+ */
+function calendarCalendarsUpdate(params) {
+  var err = validateParams(params, ['calendarId']);
+  if (err) return err;
+  var calendarId = params.calendarId;
+
+  var changes = {};
+  ['summary', 'description', 'location', 'timeZone'].forEach(function(field) {
+    if (params[field] !== undefined) changes[field] = params[field];
+  });
+  if (Object.keys(changes).length > 0) Calendar.Calendars.patch(changes, calendarId);
+
+  if (params.color) {
+    var colorErr = patchCalendarListColor_(calendarId, params.color);
+    if (colorErr) return colorErr;
+  }
+  if (params.hidden !== undefined) Calendar.CalendarList.patch({ hidden: !!params.hidden }, calendarId);
+  return successResponse(formatCalendarListEntry_(Calendar.CalendarList.get(calendarId)));
+}
+
+function calendarCalendarsDelete(params) {
+  var err = validateParams(params, ['calendarId']);
+  if (err) return err;
+  if (params.calendarId === 'primary') {
+    return errorResponse('INVALID_REQUEST', 'The primary calendar cannot be deleted', false);
+  }
+  Calendar.Calendars.remove(params.calendarId);
+  return successResponse({ deleted: params.calendarId });
+}
+
+/**
+ * Add someone else's calendar (or a public one) to the user's list.
+ */
+function calendarCalendarsSubscribe(params) {
+  var err = validateParams(params, ['calendarId']);
+  if (err) return err;
+  var entry = Calendar.CalendarList.insert({ id: params.calendarId });
+  if (params.color) {
+    var colorErr = patchCalendarListColor_(entry.id, params.color);
+    if (colorErr) return colorErr;
+    entry = Calendar.CalendarList.get(entry.id);
+  }
+  return successResponse(formatCalendarListEntry_(entry));
+}
+
+function calendarCalendarsUnsubscribe(params) {
+  var err = validateParams(params, ['calendarId']);
+  if (err) return err;
+  if (params.calendarId === 'primary') {
+    return errorResponse('INVALID_REQUEST', 'You cannot unsubscribe from your primary calendar', false);
+  }
+  Calendar.CalendarList.remove(params.calendarId);
+  return successResponse({ unsubscribed: params.calendarId });
+}
+
+// --- Sharing ---
+
+var ACL_ROLES_ = ['freeBusyReader', 'reader', 'writer', 'owner'];
+var ACL_SCOPE_TYPES_ = ['user', 'group', 'domain', 'default'];
+
+function calendarAclList(params) {
+  var err = validateParams(params, ['calendarId']);
+  if (err) return err;
+  var result = Calendar.Acl.list(params.calendarId);
+  return successResponse({ calendarId: params.calendarId, rules: (result.items || []).map(formatAclRule_) });
+}
+
+/**
+ * Share a calendar. scopeType "default" shares it with everyone (public);
+ * the other types need scopeValue, an email address or a domain.
+ */
+function calendarAclAdd(params) {
+  var err = validateParams(params, ['calendarId', 'role']);
+  if (err) return err;
+  var scopeType = params.scopeType || 'user';
+  if (ACL_ROLES_.indexOf(params.role) === -1) {
+    return errorResponse('INVALID_REQUEST', 'role must be: ' + ACL_ROLES_.join(', '), false);
+  }
+  if (ACL_SCOPE_TYPES_.indexOf(scopeType) === -1) {
+    return errorResponse('INVALID_REQUEST', 'scopeType must be: ' + ACL_SCOPE_TYPES_.join(', '), false);
+  }
+  if (scopeType !== 'default' && !params.scopeValue) {
+    return errorResponse('INVALID_REQUEST', 'scopeValue is required for scope type ' + scopeType, false);
+  }
+
+  var rule = { role: params.role, scope: { type: scopeType } };
+  if (scopeType !== 'default') rule.scope.value = params.scopeValue;
+  var options = { sendNotifications: params.sendNotifications !== false };
+  var created = Calendar.Acl.insert(rule, params.calendarId, options);
+  return successResponse(formatAclRule_(created));
+}
+
+/**
+ * Stop sharing a calendar. ruleId is a rule ID from acl.list, or an email
+ * address for a user rule.
+ */
+function calendarAclRemove(params) {
+  var err = validateParams(params, ['calendarId', 'ruleId']);
+  if (err) return err;
+  var ruleId = params.ruleId.indexOf(':') === -1 ? 'user:' + params.ruleId : params.ruleId;
+  Calendar.Acl.remove(params.calendarId, ruleId);
+  return successResponse({ calendarId: params.calendarId, removed: ruleId });
+}
+
 // --- Helper ---
 
+var RECURRENCE_SCOPES_ = ['this', 'following', 'all'];
+var SERIES_MAX_INSTANCES_ = 2500;
+var RESPOND_HORIZON_DAYS_ = 90;
+var RESPOND_MAX_INSTANCES_ = 250;
+
+/**
+ * Apply the update params to an event resource. exdates are added to the
+ * existing recurrence; recurrence replaces it. Returns { error } when an
+ * attachment cannot be found.
+ */
+function applyEventChanges_(event, params) {
+  if (params.summary !== undefined) event.summary = params.summary;
+  if (params.description !== undefined) event.description = params.description;
+  if (params.location !== undefined) event.location = params.location;
+  if (params.start !== undefined) {
+    event.start = params.allDay ? { date: params.start } : { dateTime: params.start, timeZone: params.timeZone || event.start.timeZone || 'UTC' };
+  }
+  if (params.end !== undefined) {
+    event.end = params.allDay ? { date: params.end } : { dateTime: params.end, timeZone: params.timeZone || event.end.timeZone || 'UTC' };
+  }
+  if (params.attendees !== undefined) {
+    event.attendees = params.attendees.map(function(email) {
+      return typeof email === 'string' ? { email: email } : email;
+    });
+  }
+  if (params.colorId !== undefined) event.colorId = params.colorId;
+  if (params.visibility !== undefined) event.visibility = params.visibility;
+  if (params.recurrence !== undefined) event.recurrence = params.recurrence;
+  if (params.exdates) event.recurrence = (event.recurrence || []).concat(exdateLines_(params.exdates, event.start));
+  if (event.recurrence) event.recurrence = normalizeRecurrence_(event.recurrence, !!event.start.date);
+  var extrasErr = applyEventExtras_(event, params);
+  return extrasErr ? { error: extrasErr } : event;
+}
+
+var REMINDER_METHODS_ = ['popup', 'email'];
+var REMINDER_MAX_MINUTES_ = 40320;
+var EVENT_MAX_ATTACHMENTS_ = 25;
+
+/**
+ * Meet link, reminders, Drive attachments and guest permissions, shared by
+ * create and update. meet: true asks for a new Meet conference, false
+ * removes it. Attachments are added to the existing ones.
+ */
+function applyEventExtras_(event, params) {
+  if (params.meet === true) {
+    event.conferenceData = {
+      createRequest: { requestId: Utilities.getUuid(), conferenceSolutionKey: { type: 'hangoutsMeet' } }
+    };
+  } else if (params.meet === false) {
+    event.conferenceData = null;
+  }
+
+  if (params.useDefaultReminders) {
+    event.reminders = { useDefault: true };
+  } else if (params.reminders !== undefined) {
+    for (var i = 0; i < params.reminders.length; i++) {
+      var reminder = params.reminders[i];
+      var minutes = Number(reminder.minutes);
+      if (REMINDER_METHODS_.indexOf(reminder.method) === -1 || !(minutes >= 0 && minutes <= REMINDER_MAX_MINUTES_)) {
+        return errorResponse('INVALID_REQUEST', 'Reminders need a method (popup or email) and 0-' + REMINDER_MAX_MINUTES_ + ' minutes', false);
+      }
+    }
+    event.reminders = { useDefault: false, overrides: params.reminders };
+  }
+
+  if (params.attachments && params.attachments.length) {
+    var attachments = event.attachments || [];
+    for (var j = 0; j < params.attachments.length; j++) {
+      var fileId = params.attachments[j];
+      var file;
+      try {
+        file = DriveApp.getFileById(fileId);
+      } catch (e) {
+        // Anything else (e.g. a missing Drive scope) is a real failure.
+        if (/no item with the given id|not ?found/i.test(String(e.message))) {
+          return errorResponse('NOT_FOUND', 'Drive file not found: ' + fileId, false);
+        }
+        throw e;
+      }
+      var known = attachments.some(function(a) { return a.fileId === fileId; });
+      if (!known) attachments.push({ fileId: fileId, fileUrl: file.getUrl(), title: file.getName(), mimeType: file.getMimeType() });
+    }
+    if (attachments.length > EVENT_MAX_ATTACHMENTS_) {
+      return errorResponse('INVALID_REQUEST', 'An event can have at most ' + EVENT_MAX_ATTACHMENTS_ + ' attachments', false);
+    }
+    event.attachments = attachments;
+  }
+
+  if (params.guestsCanModify !== undefined) event.guestsCanModify = !!params.guestsCanModify;
+  if (params.guestsCanInviteOthers !== undefined) event.guestsCanInviteOthers = !!params.guestsCanInviteOthers;
+  return null;
+}
+
+/** Insert/update options: keep conference data and attachments round-tripping. */
+function eventWriteOptions_(params) {
+  var options = { conferenceDataVersion: 1, supportsAttachments: true };
+  if (params.sendUpdates) options.sendUpdates = params.sendUpdates;
+  return options;
+}
+
+/**
+ * Resolve what a scoped change applies to: { scope, event } with event the
+ * occurrence or the series, plus master for "following". "following" from
+ * the first occurrence is the same as "all".
+ */
+function recurringTarget_(calendarId, eventId, scope) {
+  if (scope && RECURRENCE_SCOPES_.indexOf(scope) === -1) {
+    return { error: errorResponse('INVALID_REQUEST', 'scope must be: this, following, or all', false) };
+  }
+  var event = Calendar.Events.get(calendarId, eventId);
+  if (!event.recurringEventId) {
+    if ((scope === 'this' || scope === 'following') && event.recurrence) {
+      return { error: errorResponse('INVALID_REQUEST', 'scope "' + scope + '" needs an occurrence ID; list them with events.instances', false) };
+    }
+    return { scope: 'all', event: event };
+  }
+  if (!scope || scope === 'this') return { scope: 'this', event: event };
+  var master = Calendar.Events.get(calendarId, event.recurringEventId);
+  if (scope === 'all' || startMs_(event.originalStartTime) <= startMs_(master.start)) {
+    return { scope: 'all', event: master };
+  }
+  return { scope: 'following', event: event, master: master };
+}
+
+/**
+ * Split a series at an occurrence. head is the series ended just before it
+ * (UNTIL replaces COUNT); tail is a new series with the same fields and
+ * rules starting at the occurrence, with whatever COUNT is left.
+ */
+function splitSeries_(calendarId, master, occurrence) {
+  var at = occurrence.originalStartTime;
+  var rules = master.recurrence || [];
+  var before = 0;
+  if (rules.some(function(line) { return /^RRULE:.*COUNT=/i.test(line); })) {
+    var pageToken;
+    do {
+      var page = Calendar.Events.instances(calendarId, master.id, {
+        timeMax: startTimeString_(at),
+        maxResults: SERIES_MAX_INSTANCES_,
+        pageToken: pageToken
+      });
+      before += (page.items || []).length;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  var length = startMs_(master.end) - startMs_(master.start);
+  var tail = {
+    summary: master.summary,
+    description: master.description,
+    location: master.location,
+    attendees: master.attendees,
+    reminders: master.reminders,
+    attachments: master.attachments,
+    conferenceData: master.conferenceData,
+    guestsCanModify: master.guestsCanModify,
+    guestsCanInviteOthers: master.guestsCanInviteOthers,
+    colorId: master.colorId,
+    visibility: master.visibility,
+    transparency: master.transparency,
+    start: at.date ? { date: at.date } : { dateTime: at.dateTime, timeZone: master.start.timeZone },
+    end: at.date
+      ? { date: new Date(startMs_(at) + length).toISOString().slice(0, 10) }
+      : { dateTime: new Date(startMs_(at) + length).toISOString(), timeZone: master.end.timeZone },
+    recurrence: rules.map(function(line) {
+      return line.replace(/COUNT=(\d+)/i, function(_, count) { return 'COUNT=' + Math.max(1, Number(count) - before); });
+    })
+  };
+
+  var until = at.date
+    ? new Date(startMs_(at) - 86400000).toISOString().slice(0, 10).replace(/-/g, '')
+    : utcStamp_(startMs_(at) - 1000);
+  master.recurrence = rules.map(function(line) {
+    if (!/^RRULE:/i.test(line)) return line;
+    var parts = line.slice(6).split(';').filter(function(part) { return !/^(UNTIL|COUNT)=/i.test(part); });
+    return 'RRULE:' + parts.concat('UNTIL=' + until).join(';');
+  });
+  return { head: master, tail: tail };
+}
+
+/**
+ * EXDATE lines for dates (YYYY-MM-DD) of a series: all-day series skip the
+ * date; timed ones the occurrence at the series' wall-clock start time in
+ * its own zone (dateTime comes back in the calendar's zone, which may differ).
+ */
+function exdateLines_(dates, start) {
+  return dates.map(function(date) {
+    var day = date.slice(0, 10).replace(/-/g, '');
+    if (start.date) return 'EXDATE;VALUE=DATE:' + day;
+    if (start.timeZone) {
+      var time = Utilities.formatDate(new Date(start.dateTime), start.timeZone, 'HHmmss');
+      return 'EXDATE;TZID=' + start.timeZone + ':' + day + 'T' + time;
+    }
+    return 'EXDATE:' + utcStamp_(Date.parse(date.slice(0, 10) + start.dateTime.slice(10)));
+  });
+}
+
+function validateExdates_(dates) {
+  if (dates === undefined) return null;
+  var valid = Array.isArray(dates) && dates.every(function(date) { return /^\d{4}-\d{2}-\d{2}$/.test(date); });
+  return valid ? null : errorResponse('INVALID_REQUEST', 'exdates must be a list of YYYY-MM-DD dates', false);
+}
+
+/** All-day series take a date-only UNTIL. */
+function normalizeRecurrence_(lines, allDay) {
+  if (!allDay) return lines;
+  return lines.map(function(line) { return line.replace(/UNTIL=(\d{8})T\d{6}Z?/i, 'UNTIL=$1'); });
+}
+
+function startMs_(time) {
+  return time.dateTime ? Date.parse(time.dateTime) : Date.parse(time.date + 'T00:00:00Z');
+}
+
+function startTimeString_(time) {
+  return time.dateTime || time.date + 'T00:00:00Z';
+}
+
+/** An instant as an iCalendar UTC date-time, e.g. 20260308T235959Z. */
+function utcStamp_(ms) {
+  return new Date(ms).toISOString().replace(/\.\d{3}/, '').replace(/[-:]/g, '');
+}
+
+/**
+ * Pairs of time-blocking events that overlap, as
+ * { eventIds: [a, b], start, end } with the shared interval.
+ */
+function findOverlaps_(events) {
+  var busy = events.filter(function(e) {
+    return !e.allDay && e.status !== 'cancelled' && e.transparency !== 'transparent' && e.responseStatus !== 'declined';
+  }).map(function(e) {
+    return { event: e, start: new Date(e.start).getTime(), end: new Date(e.end).getTime() };
+  }).sort(function(a, b) { return a.start - b.start; });
+
+  var overlaps = [];
+  for (var i = 0; i < busy.length; i++) {
+    for (var j = i + 1; j < busy.length && busy[j].start < busy[i].end; j++) {
+      if (busy[j].event.eventId === busy[i].event.eventId) continue;
+      overlaps.push({
+        eventIds: [busy[i].event.eventId, busy[j].event.eventId],
+        start: busy[j].event.start,
+        end: busy[j].end < busy[i].end ? busy[j].event.end : busy[i].event.end
+      });
+    }
+  }
+  return overlaps;
+}
+
+/** A calendar's time zone, or null when it is not shared with the caller. */
+function calendarTimeZone_(calendarId) {
+  try {
+    return Calendar.Calendars.get(calendarId).timeZone || null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/** The current user's RSVP on an event, or null when they are not a guest. */
+function selfResponseStatus_(event) {
+  var attendees = event.attendees || [];
+  for (var i = 0; i < attendees.length; i++) {
+    if (attendees[i].self) return attendees[i].responseStatus || null;
+  }
+  return null;
+}
+
+/** Apply a colour ID or #rrggbb to the calendar's entry in the user's list. */
+function patchCalendarListColor_(calendarId, color) {
+  if (/^\d+$/.test(color)) {
+    Calendar.CalendarList.patch({ colorId: color }, calendarId);
+  } else if (/^#[0-9a-fA-F]{6}$/.test(color)) {
+    Calendar.CalendarList.patch({ backgroundColor: color, foregroundColor: '#000000' }, calendarId, { colorRgbFormat: true });
+  } else {
+    return errorResponse('INVALID_REQUEST', 'color must be a colour ID or #rrggbb', false);
+  }
+  return null;
+}
+
+function formatCalendarListEntry_(cal) {
+  return {
+    id: cal.id,
+    summary: cal.summary,
+    description: cal.description || '',
+    primary: cal.primary || false,
+    accessRole: cal.accessRole,
+    backgroundColor: cal.backgroundColor,
+    timeZone: cal.timeZone,
+    hidden: cal.hidden || false
+  };
+}
+
+function formatAclRule_(rule) {
+  return {
+    ruleId: rule.id,
+    role: rule.role,
+    scopeType: rule.scope ? rule.scope.type : '',
+    scopeValue: rule.scope && rule.scope.value ? rule.scope.value : ''
+  };
+}
+
+/** The join link of the event's video conference (Meet or another solution), or ''. */
+function conferenceUrl_(event) {
+  var entryPoints = (event.conferenceData && event.conferenceData.entryPoints) || [];
+  for (var i = 0; i < entryPoints.length; i++) {
+    if (entryPoints[i].entryPointType === 'video') return entryPoints[i].uri;
+  }
+  return event.hangoutLink || '';
+}
+
 function formatCalendarEvent_(event) {
   return {
     eventId: event.id,
@@ -247,15 +792,28 @@ function formatCalendarEvent_(event) {
     start: event.start ? (event.start.dateTime || event.start.date) : null,
     end: event.end ? (event.end.dateTime || event.end.date) : null,
     allDay: !!(event.start && event.start.date),
+    timeZone: event.start ? event.start.timeZone || null : null,
     status: event.status,
     creator: event.creator ? event.creator.email : '',
     organizer: event.organizer ? event.organizer.email : '',
     attendees: (event.attendees || []).map(function(a) {
-      return { email: a.email, responseStatus: a.responseStatus, displayName: a.displayName || '' };
+      return { email: a.email, responseStatus: a.responseStatus, displayName: a.displayName || '', self: a.self || false };
     }),
+    responseStatus: selfResponseStatus_(event),
+    transparency: event.transparency || 'opaque',
+    iCalUID: event.iCalUID || null,
     htmlLink: event.htmlLink || '',
     hangoutLink: event.hangoutLink || '',
+    conferenceUrl: conferenceUrl_(event),
+    reminders: event.reminders ? { useDefault: !!event.reminders.useDefault, overrides: event.reminders.overrides || [] } : { useDefault: true, overrides: [] },
+    attachments: (event.attachments || []).map(function(a) {
+      return { fileId: a.fileId || '', title: a.title || '', fileUrl: a.fileUrl, mimeType: a.mimeType || '' };
+    }),
+    guestsCanModify: event.guestsCanModify || false,
+    guestsCanInviteOthers: event.guestsCanInviteOthers !== false,
+    recurrence: event.recurrence || [],
     recurringEventId: event.recurringEventId || null,
+    originalStartTime: event.originalStartTime ? startTimeString_(event.originalStartTime) : null,
     colorId: event.colorId || null,
     visibility: event.visibility || 'default',
     created: event.created,
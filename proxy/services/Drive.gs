@@ -3,6 +3,13 @@
  * Uses DriveApp + Drive Advanced Service
  */
 
+var DRIVE_UPLOAD_URL_ = 'https://www.googleapis.com/upload/drive/v2/files';
+var DRIVE_FILES_URL_ = 'https://www.googleapis.com/drive/v2/files/';
+var UPLOAD_CACHE_PREFIX_ = 'upload_';
+var UPLOAD_SESSION_TTL_ = 21600; // CacheService maximum (6 hours)
+var TRANSFER_CHUNK_GRANULARITY_ = 256 * 1024; // Drive requires upload chunks in multiples of 256 KiB
+var MAX_TRANSFER_CHUNK_BYTES_ = 32 * 1024 * 1024;
+
 /**
  * Handle Drive service requests.
  * @param {string} action - Action name
@@ -16,6 +23,11 @@ function handleDrive(action, params) {
     case 'get': return driveGet(params);
     case 'download': return driveDownload(params);
     case 'upload': return driveUpload(params);
+    case 'upload.start': return driveUploadStart(params);
+    case 'upload.chunk': return driveUploadChunk(params);
+    case 'upload.status': return driveUploadStatus(params);
+    case 'download.info': return driveDownloadInfo(params);
+    case 'download.chunk': return driveDownloadChunk(params);
     case 'copy': return driveCopy(params);
     case 'delete': return driveDelete(params);
     case 'export': return driveExport(params);
@@ -156,6 +168,242 @@ function driveUpload(params) {
   return successResponse(formatDriveFile_(file));
 }
 
+// --- Chunked transfers ---
+// Large uploads go through a Drive resumable-upload session; the session URL
+// stays in CacheService under a random uploadId. Large downloads are read in
+// byte ranges. Chunks travel base64-encoded, like single-request transfers.
+
+/**
+ * Open a resumable-upload session.
+ * @param {Object} params - name, size (bytes), mimeType, folderId, description, convert
+ * @return {Object} Response with uploadId and chunk size limits
+ */
+function driveUploadStart(params) {
+  var err = validateParams(params, ['name', 'size']);
+  if (err) return err;
+  var size = Number(params.size);
+  if (!(size >= 0) || Math.floor(size) !== size) {
+    return errorResponse('INVALID_REQUEST', 'size must be a non-negative integer', false);
+  }
+
+  var mimeType = params.mimeType || 'application/octet-stream';
+  var metadata = { title: params.name, mimeType: mimeType };
+  if (params.folderId) metadata.parents = [{ id: params.folderId }];
+  if (params.description) metadata.description = params.description;
+
+  var response = UrlFetchApp.fetch(DRIVE_UPLOAD_URL_ + '?uploadType=resumable' + (params.convert ? '&convert=true' : ''), {
+    method: 'post',
+    contentType: 'application/json; charset=UTF-8',
+    headers: {
+      'Authorization': 'Bearer ' + ScriptApp.getOAuthToken(),
+      'X-Upload-Content-Type': mimeType,
+      'X-Upload-Content-Length': String(size)
+    },
+    payload: JSON.stringify(metadata),
+    muteHttpExceptions: true
+  });
+  var location = getResponseHeader_(response, 'Location');
+  if (response.getResponseCode() !== 200 || !location) {
+    return driveHttpError_(response, 'Could not start upload session');
+  }
+
+  var uploadId = Utilities.getUuid();
+  CacheService.getScriptCache().put(UPLOAD_CACHE_PREFIX_ + uploadId,
+    JSON.stringify({ url: location, size: size }), UPLOAD_SESSION_TTL_);
+  return successResponse({
+    uploadId: uploadId,
+    size: size,
+    chunkGranularity: TRANSFER_CHUNK_GRANULARITY_,
+    maxChunkSize: MAX_TRANSFER_CHUNK_BYTES_
+  });
+}
+
+/**
+ * Send one chunk. Every chunk but the last must be a multiple of 256 KiB.
+ * @param {Object} params - uploadId, offset, content (base64)
+ * @return {Object} Response with received bytes; the file once complete
+ */
+function driveUploadChunk(params) {
+  var err = validateParams(params, ['uploadId', 'offset', 'content']);
+  if (err) return err;
+  var session = getUploadSession_(params.uploadId);
+  if (!session) return uploadSessionGone_(params.uploadId);
+
+  var bytes = Utilities.base64Decode(params.content);
+  var offset = Number(params.offset);
+  var end = offset + bytes.length;
+  if (!(offset >= 0) || end > session.size) {
+    return errorResponse('INVALID_REQUEST', 'Chunk ' + offset + '-' + end + ' is outside the ' + session.size + '-byte upload', false);
+  }
+  if (bytes.length > MAX_TRANSFER_CHUNK_BYTES_) {
+    return errorResponse('INVALID_REQUEST', 'Chunk exceeds ' + MAX_TRANSFER_CHUNK_BYTES_ + ' bytes', false);
+  }
+  if (end < session.size && bytes.length % TRANSFER_CHUNK_GRANULARITY_ !== 0) {
+    return errorResponse('INVALID_REQUEST', 'Only the last chunk may be a size other than a multiple of 256 KiB', false);
+  }
+
+  var response = UrlFetchApp.fetch(session.url, {
+    method: 'put',
+    contentType: 'application/octet-stream',
+    headers: { 'Content-Range': 'bytes ' + offset + '-' + (end - 1) + '/' + session.size },
+    payload: bytes,
+    muteHttpExceptions: true
+  });
+  return uploadProgress_(params.uploadId, session, response);
+}
+
+/**
+ * Ask Drive how much of an interrupted upload it has, so the client can resume.
+ * @param {Object} params - uploadId
+ * @return {Object} Response with received bytes
+ */
+function driveUploadStatus(params) {
+  var err = validateParams(params, ['uploadId']);
+  if (err) return err;
+  var session = getUploadSession_(params.uploadId);
+  if (!session) return uploadSessionGone_(params.uploadId);
+
+  var response = UrlFetchApp.fetch(session.url, {
+    method: 'put',
+    headers: { 'Content-Range': 'bytes */' + session.size },
+    payload: '',
+    muteHttpExceptions: true
+  });
+  return uploadProgress_(params.uploadId, session, response);
+}
+
+/**
+ * Size and checksum of a file, for planning a ranged download.
+ * @param {Object} params - fileId
+ * @return {Object} Response with size, md5Checksum and exportRequired
+ */
+function driveDownloadInfo(params) {
+  var err = validateParams(params, ['fileId']);
+  if (err) return err;
+  var file = Drive.Files.get(params.fileId);
+  return successResponse({
+    fileId: file.id,
+    name: file.title,
+    mimeType: file.mimeType,
+    size: file.fileSize ? parseInt(file.fileSize, 10) : 0,
+    md5Checksum: file.md5Checksum || '',
+    // Google Docs/Sheets/Slides have no bytes to range over; use download instead
+    exportRequired: String(file.mimeType).indexOf('application/vnd.google-apps.') === 0,
+    maxChunkSize: MAX_TRANSFER_CHUNK_BYTES_
+  });
+}
+
+/**
+ * Read one byte range of a file.
+ * @param {Object} params - fileId, offset, length
+ * @return {Object} Response with base64 content (empty past the end of file)
+ */
+function driveDownloadChunk(params) {
+  var err = validateParams(params, ['fileId', 'offset', 'length']);
+  if (err) return err;
+  var offset = Number(params.offset);
+  if (!(offset >= 0) || Math.floor(offset) !== offset) {
+    return errorResponse('INVALID_REQUEST', 'offset must be a non-negative integer', false);
+  }
+  var length = validatePositiveInt(params.length, MAX_TRANSFER_CHUNK_BYTES_, MAX_TRANSFER_CHUNK_BYTES_);
+
+  var response = UrlFetchApp.fetch(DRIVE_FILES_URL_ + encodeURIComponent(params.fileId) + '?alt=media', {
+    method: 'get',
+    headers: {
+      'Authorization': 'Bearer ' + ScriptApp.getOAuthToken(),
+      'Range': 'bytes=' + offset + '-' + (offset + length - 1)
+    },
+    muteHttpExceptions: true
+  });
+  var code = response.getResponseCode();
+  var bytes;
+  if (code === 206) {
+    bytes = response.getContent();
+  } else if (code === 200) {
+    // Range ignored: the whole file came back
+    bytes = response.getContent().slice(offset, offset + length);
+  } else if (code === 416) {
+    bytes = [];
+  } else {
+    return driveHttpError_(response, 'Could not read ' + params.fileId);
+  }
+  return successResponse({
+    offset: offset,
+    length: bytes.length,
+    content: Utilities.base64Encode(bytes),
+    encoding: 'base64'
+  });
+}
+
+function getUploadSession_(uploadId) {
+  var cached = CacheService.getScriptCache().get(UPLOAD_CACHE_PREFIX_ + uploadId);
+  return cached ? JSON.parse(cached) : null;
+}
+
+function uploadSessionGone_(uploadId) {
+  return errorResponse('NOT_FOUND', 'Upload session ' + uploadId + ' expired or unknown; start the upload again', false);
+}
+
+/**
+ * Turn a resumable-upload reply into { received, complete } (plus the file
+ * once Drive has all the bytes). 308 means "resume incomplete".
+ */
+function uploadProgress_(uploadId, session, response) {
+  var code = response.getResponseCode();
+  if (code === 308) {
+    var range = getResponseHeader_(response, 'Range'); // e.g. "bytes=0-8388607"
+    return successResponse({
+      uploadId: uploadId,
+      received: range ? parseInt(range.split('-')[1], 10) + 1 : 0,
+      size: session.size,
+      complete: false
+    });
+  }
+  if (code === 200 || code === 201) {
+    CacheService.getScriptCache().remove(UPLOAD_CACHE_PREFIX_ + uploadId);
+    var file = JSON.parse(response.getContentText());
+    var result = formatDriveFile_(file);
+    result.md5Checksum = file.md5Checksum || '';
+    return successResponse({
+      uploadId: uploadId,
+      received: session.size,
+      size: session.size,
+      complete: true,
+      file: result
+    });
+  }
+  if (code === 404 || code === 410) {
+    CacheService.getScriptCache().remove(UPLOAD_CACHE_PREFIX_ + uploadId);
+    return uploadSessionGone_(uploadId);
+  }
+  return driveHttpError_(response, 'Upload failed');
+}
+
+function getResponseHeader_(response, name) {
+  var headers = response.getHeaders() || {};
+  for (var key in headers) {
+    if (key.toLowerCase() === name.toLowerCase()) return headers[key];
+  }
+  return null;
+}
+
+function driveHttpError_(response, message) {
+  var code = response.getResponseCode();
+  var detail = '';
+  try {
+    var body = JSON.parse(response.getContentText());
+    detail = (body.error && body.error.message) || '';
+  } catch (e) {
+    // Not JSON; the status code is enough
+  }
+  var full = message + ' (HTTP ' + code + (detail ? ': ' + detail : '') + ')';
+  if (code === 429 || (code === 403 && /rate limit|quota/i.test(detail))) {
+    return errorResponse('QUOTA_EXCEEDED', full, true);
+  }
+  if (code === 404) return errorResponse('NOT_FOUND', full, false);
+  return errorResponse('SERVICE_ERROR', full, code >= 500);
+}
+
 function driveCopy(params) {
   var err = validateParams(params, ['fileId']);
   if (err) return err;
@@ -282,7 +530,11 @@ function driveDrivesList(params) {
   var drives = (result.items || []).map(function(d) {
     return { driveId: d.id, name: d.name };
   });
-  return successResponse({ drives: drives, count: drives.length });
+  return successResponse({
+    drives: drives,
+    count: drives.length,
+    nextPageToken: result.nextPageToken || null
+  });
 }
 
 // --- Comments ---
@@ -15,16 +15,26 @@ function handleGmail(action, params) {
     case 'messageSearch': return gmailMessageSearch(params);
     case 'get': return gmailGet(params);
     case 'read': return gmailGet(params);
+    case 'raw': return gmailRaw(params);
     case 'send': return gmailSend(params);
+    case 'reply': return gmailReply(params);
+    case 'forward': return gmailForward(params);
     case 'labels.list': return gmailLabelsList();
     case 'labels.create': return gmailLabelsCreate(params);
     case 'labels.delete': return gmailLabelsDelete(params);
+    case 'labels.get': return gmailLabelsGet(params);
+    case 'labels.update': return gmailLabelsUpdate(params);
+    case 'labels.apply': return gmailLabelsApply(params);
     case 'thread.modify': return gmailThreadModify(params);
+    case 'snooze': return gmailSnooze(params);
+    case 'snooze.list': return gmailSnoozeList();
+    case 'snooze.cancel': return gmailSnoozeCancel(params);
     case 'drafts.list': return gmailDraftsList(params);
     case 'drafts.create': return gmailDraftsCreate(params);
     case 'drafts.update': return gmailDraftsUpdate(params);
     case 'drafts.send': return gmailDraftsSend(params);
     case 'attachments.download': return gmailAttachmentsDownload(params);
+    case 'sync.changes': return gmailSyncChanges(params);
     case 'settings.vacation': return gmailSettingsVacation(params);
     case 'settings.filters.list': return gmailSettingsFiltersList();
     case 'settings.filters.create': return gmailSettingsFiltersCreate(params);
@@ -42,9 +52,10 @@ function handleGmail(action, params) {
 function gmailSearch(params) {
   var query = params.query || 'is:inbox';
   var max = validatePositiveInt(params.max, 20, 100);
+  var start = params.start ? validatePositiveInt(params.start, 0) : 0;
   var includeBody = params.includeBody === true;
 
-  var threads = GmailApp.search(query, 0, max);
+  var threads = GmailApp.search(query, start, max);
   var results = [];
   for (var i = 0; i < threads.length; i++) {
     var t = threads[i];
@@ -72,7 +83,7 @@ function gmailSearch(params) {
     }
     results.push(item);
   }
-  return successResponse({ threads: results, count: results.length });
+  return successResponse({ threads: results, count: results.length, hasMore: threads.length === max });
 }
 
 function gmailMessageSearch(params) {
@@ -167,6 +178,33 @@ function gmailGet(params) {
   return successResponse(result);
 }
 
+/**
+ * The RFC 822 source of one message, base64-encoded, for `gmail export`
+ * and `gmail read --format raw`.
+ */
+function gmailRaw(params) {
+  var err = validateParams(params, ['messageId']);
+  if (err) return err;
+  var message = GmailApp.getMessageById(params.messageId);
+  if (!message) return errorResponse('NOT_FOUND', 'Message not found: ' + params.messageId, false);
+
+  var thread = message.getThread();
+  if (isSecurityThread(thread)) {
+    logSecurityIntercept('raw', 'Blocked access to message ' + params.messageId);
+    return errorResponse('FORBIDDEN', 'Access to this message is restricted by security policy', false);
+  }
+
+  var raw = Utilities.newBlob(message.getRawContent()).getBytes();
+  return successResponse({
+    messageId: params.messageId,
+    threadId: thread.getId(),
+    subject: message.getSubject(),
+    size: raw.length,
+    content: Utilities.base64Encode(raw),
+    encoding: 'base64'
+  });
+}
+
 function gmailSend(params) {
   var err = validateParams(params, ['to', 'subject']);
   if (err) return err;
@@ -178,16 +216,7 @@ function gmailSend(params) {
   if (params.replyTo) options.replyTo = params.replyTo;
   if (params.from) options.from = params.from;
 
-  // Handle attachments (base64-encoded)
-  if (params.attachments && params.attachments.length > 0) {
-    var blobs = [];
-    for (var i = 0; i < params.attachments.length; i++) {
-      var att = params.attachments[i];
-      var bytes = Utilities.base64Decode(att.content);
-      blobs.push(Utilities.newBlob(bytes, att.mimeType || 'application/octet-stream', att.name));
-    }
-    options.attachments = blobs;
-  }
+  addAttachmentOptions_(options, params);
 
   // Reply to thread or send new
   if (params.replyToThreadId) {
@@ -203,6 +232,165 @@ function gmailSend(params) {
   return successResponse({ action: 'sent' });
 }
 
+/**
+ * Reply to one message of a thread (the latest unless messageId is given).
+ * GmailApp keeps In-Reply-To/References and fills the recipients: the
+ * sender's Reply-To or From, plus the other To/Cc recipients when all is true.
+ * The caller sends the quoted text as part of body/bodyHtml.
+ */
+function gmailReply(params) {
+  var err = validateParams(params, ['threadId']);
+  if (err) return err;
+
+  var thread = GmailApp.getThreadById(params.threadId);
+  if (!thread) {
+    return errorResponse('NOT_FOUND', 'Thread not found for reply: ' + params.threadId, false);
+  }
+  if (isSecurityThread(thread)) {
+    logSecurityIntercept('reply', 'Blocked reply on thread ' + params.threadId);
+    return errorResponse('FORBIDDEN', 'Replying to this thread is restricted by security policy', false);
+  }
+  var message = findThreadMessage_(thread, params.messageId);
+  if (!message) {
+    return errorResponse('NOT_FOUND', 'Message not found in thread: ' + params.messageId, false);
+  }
+
+  var all = params.all === true;
+  var recipients = replyRecipients_(message, all, params.cc, params.from);
+  var options = {};
+  if (recipients.cc) options.cc = recipients.cc;
+  if (params.bcc) options.bcc = params.bcc;
+  if (params.bodyHtml) options.htmlBody = params.bodyHtml;
+  if (params.from) options.from = params.from;
+  addAttachmentOptions_(options, params);
+
+  if (all) {
+    message.replyAll(params.body || '', options);
+  } else {
+    message.reply(params.body || '', options);
+  }
+  return successResponse({
+    threadId: thread.getId(),
+    messageId: message.getId(),
+    to: recipients.to,
+    cc: recipients.cc,
+    action: all ? 'repliedAll' : 'replied'
+  });
+}
+
+/**
+ * Forward one message of a thread (the latest unless messageId is given) as a
+ * new mail, with the original attachments followed by any new ones. Threads
+ * hidden by the security filter cannot be forwarded.
+ */
+function gmailForward(params) {
+  var err = validateParams(params, ['threadId', 'to']);
+  if (err) return err;
+
+  var thread = GmailApp.getThreadById(params.threadId);
+  if (!thread) {
+    return errorResponse('NOT_FOUND', 'Thread not found for forward: ' + params.threadId, false);
+  }
+  if (isSecurityThread(thread)) {
+    logSecurityIntercept('forward', 'Blocked forward of thread ' + params.threadId);
+    return errorResponse('FORBIDDEN', 'Forwarding this thread is restricted by security policy', false);
+  }
+  var message = findThreadMessage_(thread, params.messageId);
+  if (!message) {
+    return errorResponse('NOT_FOUND', 'Message not found in thread: ' + params.messageId, false);
+  }
+
+  var options = {};
+  if (params.cc) options.cc = params.cc;
+  if (params.bcc) options.bcc = params.bcc;
+  if (params.bodyHtml) options.htmlBody = params.bodyHtml;
+  if (params.from) options.from = params.from;
+  addAttachmentOptions_(options, params);
+  var attachments = message.getAttachments().concat(options.attachments || []);
+  if (attachments.length > 0) options.attachments = attachments;
+
+  var subject = message.getSubject() || '';
+  if (!/^fwd?:/i.test(subject)) subject = 'Fwd: ' + subject;
+  GmailApp.sendEmail(params.to, subject, params.body || '', options);
+  return successResponse({
+    threadId: thread.getId(),
+    messageId: message.getId(),
+    to: params.to,
+    subject: subject,
+    attachmentCount: attachments.length,
+    action: 'forwarded'
+  });
+}
+
+function findThreadMessage_(thread, messageId) {
+  var messages = thread.getMessages();
+  if (!messageId) return messages[messages.length - 1];
+  for (var i = 0; i < messages.length; i++) {
+    if (messages[i].getId() === messageId) return messages[i];
+  }
+  return null;
+}
+
+/**
+ * Who GmailApp's reply()/replyAll() will write to, for the response. The
+ * extra cc list is merged in; every address appears once (compared without
+ * case) and reply-all leaves out the user's own address and the from alias.
+ */
+function replyRecipients_(message, all, cc, from) {
+  var to = [message.getReplyTo() || message.getFrom()];
+  var seen = {};
+  seen[Session.getEffectiveUser().getEmail().toLowerCase()] = true;
+  if (from) seen[addressEmail_(from)] = true;
+  var keep = function(address) {
+    var email = addressEmail_(address);
+    if (!email || seen[email]) return false;
+    seen[email] = true;
+    return true;
+  };
+  if (all) {
+    to = to.concat(splitAddresses_(message.getTo())).filter(keep);
+  } else {
+    seen[addressEmail_(to[0])] = true;
+  }
+  return {
+    to: to.join(', '),
+    cc: (all ? splitAddresses_(message.getCc()) : []).concat(splitAddresses_(cc)).filter(keep).join(', ')
+  };
+}
+
+/** Split an address list on commas outside quoted display names. */
+function splitAddresses_(list) {
+  var parts = (list || '').match(/(?:"[^"]*"|[^,])+/g) || [];
+  return parts.map(function(p) { return p.trim(); }).filter(Boolean);
+}
+
+function addressEmail_(address) {
+  var angle = /<([^>]+)>/.exec(address);
+  return (angle ? angle[1] : address).trim().toLowerCase();
+}
+
+/**
+ * Decode base64 attachments ({ name, mimeType, content }) and inline images
+ * ({ cid, name, mimeType, content }, referenced as <img src="cid:...">) into
+ * GmailApp send/draft options.
+ */
+function addAttachmentOptions_(options, params) {
+  if (params.attachments && params.attachments.length > 0) {
+    options.attachments = params.attachments.map(decodeMailBlob_);
+  }
+  if (params.inlineImages && params.inlineImages.length > 0) {
+    options.inlineImages = {};
+    for (var i = 0; i < params.inlineImages.length; i++) {
+      options.inlineImages[params.inlineImages[i].cid] = decodeMailBlob_(params.inlineImages[i]);
+    }
+  }
+}
+
+function decodeMailBlob_(part) {
+  var bytes = Utilities.base64Decode(part.content);
+  return Utilities.newBlob(bytes, part.mimeType || 'application/octet-stream', part.name);
+}
+
 // --- Labels ---
 
 function gmailLabelsList() {
@@ -217,11 +405,190 @@ function gmailLabelsList() {
   return successResponse({ labels: result });
 }
 
+var LABEL_LIST_VISIBILITY_ = ['labelShow', 'labelShowIfUnread', 'labelHide'];
+var MESSAGE_LIST_VISIBILITY_ = ['show', 'hide'];
+
+/**
+ * Create a label. Nested names ("Projects/2026/Q4") create any missing
+ * parent labels first. Colour and visibility are set through the Gmail
+ * advanced service.
+ */
 function gmailLabelsCreate(params) {
   var err = validateParams(params, ['name']);
   if (err) return err;
-  var label = GmailApp.createLabel(params.name);
-  return successResponse({ name: label.getName() });
+  var name = labelPath_(params.name);
+  if (!name) return errorResponse('INVALID_REQUEST', 'Invalid label name: ' + params.name, false);
+  var style = labelStyle_(params);
+  if (style.error) return style.error;
+
+  var parents = ensureLabelParents_(name);
+  var label = GmailApp.createLabel(name);
+  if (style.resource) Gmail.Users.Labels.patch(style.resource, 'me', findLabelId_(name));
+  return successResponse({ name: label.getName(), createdParents: parents });
+}
+
+/** Label details with message and thread counts and the nested labels under it. */
+function gmailLabelsGet(params) {
+  var err = validateParams(params, ['name']);
+  if (err) return err;
+  var id = findLabelId_(params.name);
+  if (!id) return errorResponse('NOT_FOUND', 'Label not found: ' + params.name, false);
+  var label = Gmail.Users.Labels.get('me', id);
+  var prefix = label.name + '/';
+  var children = userLabelIds_()
+    .filter(function(l) { return l.name.indexOf(prefix) === 0; })
+    .map(function(l) { return l.name; });
+  return successResponse({
+    id: label.id,
+    name: label.name,
+    color: label.color || null,
+    labelListVisibility: label.labelListVisibility || 'labelShow',
+    messageListVisibility: label.messageListVisibility || 'show',
+    messagesTotal: label.messagesTotal || 0,
+    messagesUnread: label.messagesUnread || 0,
+    threadsTotal: label.threadsTotal || 0,
+    threadsUnread: label.threadsUnread || 0,
+    children: children
+  });
+}
+
+/**
+ * Rename a label and/or change its colour and visibility. Renaming carries
+ * the nested labels along ("A/x" becomes "B/x") and creates missing parents
+ * of the new name.
+ */
+function gmailLabelsUpdate(params) {
+  var err = validateParams(params, ['name']);
+  if (err) return err;
+  var labels = userLabelIds_();
+  var target = findByName_(labels, params.name);
+  if (!target) return errorResponse('NOT_FOUND', 'Label not found: ' + params.name, false);
+  var style = labelStyle_(params);
+  if (style.error) return style.error;
+
+  var resource = style.resource || {};
+  var renamed = [];
+  var newName = params.newName ? labelPath_(params.newName) : null;
+  if (params.newName && !newName) return errorResponse('INVALID_REQUEST', 'Invalid label name: ' + params.newName, false);
+  if (newName && newName !== target.name) {
+    var clash = findByName_(labels, newName);
+    if (clash && clash.id !== target.id) {
+      return errorResponse('INVALID_REQUEST', 'A label named ' + clash.name + ' already exists', false);
+    }
+    if ((newName + '/').indexOf(target.name + '/') === 0) {
+      return errorResponse('INVALID_REQUEST', 'Cannot move a label under itself', false);
+    }
+    ensureLabelParents_(newName);
+    resource.name = newName;
+  }
+  if (Object.keys(resource).length === 0) {
+    return errorResponse('INVALID_REQUEST', 'Nothing to update: pass newName, colours or visibility', false);
+  }
+
+  Gmail.Users.Labels.patch(resource, 'me', target.id);
+  if (resource.name) {
+    renamed.push({ from: target.name, to: newName });
+    var prefix = target.name + '/';
+    for (var i = 0; i < labels.length; i++) {
+      if (labels[i].name.indexOf(prefix) !== 0) continue;
+      var childName = newName + '/' + labels[i].name.substring(prefix.length);
+      Gmail.Users.Labels.patch({ name: childName }, 'me', labels[i].id);
+      renamed.push({ from: labels[i].name, to: childName });
+    }
+  }
+  return successResponse({ name: newName || target.name, renamed: renamed, updated: Object.keys(resource) });
+}
+
+/**
+ * Add (or with remove: true, take off) a label on every thread matching a
+ * search, through gmailThreadModify so security-filtered threads are
+ * skipped the same way. At most max threads (default 100, up to 500).
+ */
+function gmailLabelsApply(params) {
+  var err = validateParams(params, ['name', 'query']);
+  if (err) return err;
+  var label = GmailApp.getUserLabelByName(params.name);
+  if (!label) return errorResponse('NOT_FOUND', 'Label not found: ' + params.name, false);
+  var max = validatePositiveInt(params.max, 100, 500);
+  var threads = GmailApp.search(params.query, 0, max);
+
+  var threadIds = [];
+  var skipped = 0;
+  for (var i = 0; i < threads.length; i++) {
+    var threadId = threads[i].getId();
+    if (params.dryRun === true) {
+      if (isSecurityThread(threads[i])) skipped++;
+      else threadIds.push(threadId);
+      continue;
+    }
+    var change = { threadId: threadId };
+    change[params.remove === true ? 'removeLabels' : 'addLabels'] = [label.getName()];
+    var result = gmailThreadModify(change);
+    if (result.ok) threadIds.push(threadId);
+    else if (result.error.code === 'FORBIDDEN') skipped++;
+    else return result;
+  }
+  return successResponse({
+    name: label.getName(),
+    query: params.query,
+    action: params.remove === true ? 'removed' : 'added',
+    dryRun: params.dryRun === true,
+    matched: threads.length,
+    modified: threadIds.length,
+    skipped: skipped,
+    threadIds: threadIds,
+    hasMore: threads.length === max
+  });
+}
+
+/** Trim each segment of a nested label name; null when a segment is empty. */
+function labelPath_(name) {
+  var parts = String(name).split('/').map(function(p) { return p.trim(); });
+  for (var i = 0; i < parts.length; i++) {
+    if (!parts[i]) return null;
+  }
+  return parts.join('/');
+}
+
+/** Create the missing parents of a nested label name; returns their names. */
+function ensureLabelParents_(name) {
+  var parts = name.split('/');
+  var created = [];
+  for (var i = 1; i < parts.length; i++) {
+    var parent = parts.slice(0, i).join('/');
+    if (!GmailApp.getUserLabelByName(parent)) {
+      GmailApp.createLabel(parent);
+      created.push(parent);
+    }
+  }
+  return created;
+}
+
+/**
+ * Colour and visibility params as a Gmail API label resource:
+ * { resource } (null when none were given) or { error }.
+ */
+function labelStyle_(params) {
+  var resource = {};
+  if (params.backgroundColor || params.textColor) {
+    if (!params.backgroundColor || !params.textColor) {
+      return { error: errorResponse('INVALID_REQUEST', 'backgroundColor and textColor must be set together', false) };
+    }
+    resource.color = { backgroundColor: params.backgroundColor, textColor: params.textColor };
+  }
+  if (params.labelListVisibility) {
+    if (LABEL_LIST_VISIBILITY_.indexOf(params.labelListVisibility) === -1) {
+      return { error: errorResponse('INVALID_REQUEST', 'labelListVisibility must be one of: ' + LABEL_LIST_VISIBILITY_.join(', '), false) };
+    }
+    resource.labelListVisibility = params.labelListVisibility;
+  }
+  if (params.messageListVisibility) {
+    if (MESSAGE_LIST_VISIBILITY_.indexOf(params.messageListVisibility) === -1) {
+      return { error: errorResponse('INVALID_REQUEST', 'messageListVisibility must be one of: ' + MESSAGE_LIST_VISIBILITY_.join(', '), false) };
+    }
+    resource.messageListVisibility = params.messageListVisibility;
+  }
+  return { resource: Object.keys(resource).length > 0 ? resource : null };
 }
 
 function gmailLabelsDelete(params) {
@@ -265,6 +632,7 @@ function gmailThreadModify(params) {
   if (params.star === true) thread.getMessages().forEach(function(m) { m.star(); });
   if (params.unstar === true) thread.getMessages().forEach(function(m) { m.unstar(); });
   if (params.moveToTrash === true) thread.moveToTrash();
+  if (params.untrash === true) Gmail.Users.Threads.untrash('me', params.threadId);
   if (params.moveToArchive === true) thread.moveToArchive();
   if (params.moveToInbox === true) thread.moveToInbox();
   if (params.markImportant === true) thread.markImportant();
@@ -273,6 +641,103 @@ function gmailThreadModify(params) {
   return successResponse({ threadId: params.threadId, modified: true });
 }
 
+// --- Snooze ---
+
+var SNOOZE_LABEL_ = 'Snoozed';
+var SNOOZE_PROPERTY_PREFIX_ = 'SNOOZE_';
+var SNOOZE_HANDLER_ = 'gmailWakeSnoozed';
+var SNOOZE_MIN_DELAY_MS_ = 60000; // Apps Script runs clock triggers with about a minute's slack
+
+/**
+ * Snooze a thread: label it Snoozed, archive it (both through
+ * gmailThreadModify, so the security filter applies) and remember when to
+ * wake it. One clock trigger is kept for the earliest wake time.
+ */
+function gmailSnooze(params) {
+  var err = validateParams(params, ['threadId', 'until']);
+  if (err) return err;
+  var until = new Date(params.until);
+  if (isNaN(until.getTime())) return errorResponse('INVALID_REQUEST', 'Invalid until date: ' + params.until, false);
+  if (until.getTime() <= Date.now()) return errorResponse('INVALID_REQUEST', 'until must be in the future', false);
+
+  if (!GmailApp.getUserLabelByName(SNOOZE_LABEL_)) GmailApp.createLabel(SNOOZE_LABEL_);
+  var result = gmailThreadModify({ threadId: params.threadId, addLabels: [SNOOZE_LABEL_], moveToArchive: true });
+  if (!result.ok) return result;
+
+  PropertiesService.getScriptProperties().setProperty(SNOOZE_PROPERTY_PREFIX_ + params.threadId, until.toISOString());
+  scheduleSnoozeWake_();
+  return successResponse({ threadId: params.threadId, until: until.toISOString(), label: SNOOZE_LABEL_ });
+}
+
+function gmailSnoozeList() {
+  var snoozed = snoozedThreads_();
+  snoozed.sort(function(a, b) { return a.until < b.until ? -1 : a.until > b.until ? 1 : 0; });
+  return successResponse({ snoozed: snoozed, count: snoozed.length });
+}
+
+/** Wake a snoozed thread now. */
+function gmailSnoozeCancel(params) {
+  var err = validateParams(params, ['threadId']);
+  if (err) return err;
+  var props = PropertiesService.getScriptProperties();
+  if (props.getProperty(SNOOZE_PROPERTY_PREFIX_ + params.threadId) === null) {
+    return errorResponse('NOT_FOUND', 'Thread is not snoozed: ' + params.threadId, false);
+  }
+  var result = wakeThread_(params.threadId);
+  scheduleSnoozeWake_();
+  if (!result.ok) return result;
+  return successResponse({ threadId: params.threadId, woken: true });
+}
+
+/**
+ * Clock trigger handler: move every snoozed thread that is due back to the
+ * inbox, then schedule the next wake-up.
+ */
+function gmailWakeSnoozed() {
+  var now = new Date().toISOString();
+  var woken = [];
+  var snoozed = snoozedThreads_();
+  for (var i = 0; i < snoozed.length; i++) {
+    if (snoozed[i].until > now) continue;
+    wakeThread_(snoozed[i].threadId);
+    woken.push(snoozed[i].threadId);
+  }
+  scheduleSnoozeWake_();
+  return woken;
+}
+
+/** Unlabel and unarchive a thread and forget its snooze, even when the thread is gone or restricted. */
+function wakeThread_(threadId) {
+  PropertiesService.getScriptProperties().deleteProperty(SNOOZE_PROPERTY_PREFIX_ + threadId);
+  return gmailThreadModify({ threadId: threadId, removeLabels: [SNOOZE_LABEL_], moveToInbox: true });
+}
+
+function snoozedThreads_() {
+  var props = PropertiesService.getScriptProperties().getProperties();
+  var result = [];
+  for (var key in props) {
+    if (key.indexOf(SNOOZE_PROPERTY_PREFIX_) !== 0) continue;
+    result.push({ threadId: key.substring(SNOOZE_PROPERTY_PREFIX_.length), until: props[key] });
+  }
+  return result;
+}
+
+/** Replace the wake-up trigger with one for the earliest pending snooze, if any. */
+function scheduleSnoozeWake_() {
+  var triggers = ScriptApp.getProjectTriggers();
+  for (var i = 0; i < triggers.length; i++) {
+    if (triggers[i].getHandlerFunction() === SNOOZE_HANDLER_) ScriptApp.deleteTrigger(triggers[i]);
+  }
+  var snoozed = snoozedThreads_();
+  if (snoozed.length === 0) return;
+  var earliest = snoozed[0].until;
+  for (var j = 1; j < snoozed.length; j++) {
+    if (snoozed[j].until < earliest) earliest = snoozed[j].until;
+  }
+  var at = Math.max(new Date(earliest).getTime(), Date.now() + SNOOZE_MIN_DELAY_MS_);
+  ScriptApp.newTrigger(SNOOZE_HANDLER_).timeBased().at(new Date(at)).create();
+}
+
 // --- Drafts ---
 
 function gmailDraftsList(params) {
@@ -301,6 +766,7 @@ function gmailDraftsCreate(params) {
   if (params.cc) options.cc = params.cc;
   if (params.bcc) options.bcc = params.bcc;
   if (params.bodyHtml) options.htmlBody = params.bodyHtml;
+  addAttachmentOptions_(options, params);
 
   var draft;
   if (params.replyToMessageId) {
@@ -319,11 +785,13 @@ function gmailDraftsUpdate(params) {
   if (err) return err;
   var draft = GmailApp.getDraft(params.draftId);
   if (!draft) return errorResponse('NOT_FOUND', 'Draft not found', false);
-  draft.update(params.to, params.subject, params.body || '', {
+  var options = {
     cc: params.cc || '',
     bcc: params.bcc || '',
     htmlBody: params.bodyHtml || ''
-  });
+  };
+  addAttachmentOptions_(options, params);
+  draft.update(params.to, params.subject, params.body || '', options);
   return successResponse({ draftId: params.draftId, updated: true });
 }
 
@@ -374,21 +842,128 @@ function gmailAttachmentsDownload(params) {
   return successResponse({ attachments: results });
 }
 
+// --- Sync ---
+
+/**
+ * Threads for a local mirror, with each message's raw RFC 822 source.
+ * Without historyId: a page of threads matching query (pageToken is the
+ * offset), plus the mailbox historyId on the first page to use as the next
+ * checkpoint. With historyId: the threads touched since then, per the History
+ * API, as complete snapshots; threads that are gone, only in trash/spam or
+ * hidden by the security filter come back in deletedThreads instead, so their
+ * messages never reach the mirror.
+ */
+function gmailSyncChanges(params) {
+  var max = validatePositiveInt(params.max, 20, 100);
+  var result = { threads: [], deletedThreads: [], historyId: null, nextPageToken: null };
+  var me = Session.getEffectiveUser().getEmail().toLowerCase();
+
+  if (params.historyId) {
+    var history;
+    try {
+      history = Gmail.Users.History.list('me', {
+        startHistoryId: params.historyId,
+        pageToken: params.pageToken || undefined,
+        maxResults: max
+      });
+    } catch (e) {
+      if (/not ?found|404/i.test(String(e.message))) {
+        return errorResponse('HISTORY_EXPIRED', 'History ' + params.historyId + ' is too old; run a full sync', false);
+      }
+      throw e;
+    }
+    var threadIds = [];
+    var seen = {};
+    var records = history.history || [];
+    for (var i = 0; i < records.length; i++) {
+      var touched = [].concat(records[i].messagesAdded || [], records[i].messagesDeleted || [],
+        records[i].labelsAdded || [], records[i].labelsRemoved || []);
+      for (var j = 0; j < touched.length; j++) {
+        var threadId = touched[j].message.threadId;
+        if (!seen[threadId]) {
+          seen[threadId] = true;
+          threadIds.push(threadId);
+        }
+      }
+    }
+    for (var k = 0; k < threadIds.length; k++) {
+      var snapshot = syncThread_(GmailApp.getThreadById(threadIds[k]), me);
+      if (snapshot) {
+        result.threads.push(snapshot);
+      } else {
+        result.deletedThreads.push(threadIds[k]);
+      }
+    }
+    result.historyId = history.historyId;
+    result.nextPageToken = history.nextPageToken || null;
+    return successResponse(result);
+  }
+
+  var start = parseInt(params.pageToken, 10) || 0;
+  if (start === 0) result.historyId = Gmail.Users.getProfile('me').historyId;
+  var threads = GmailApp.search(params.query || 'in:anywhere', start, max);
+  for (var t = 0; t < threads.length; t++) {
+    var thread = syncThread_(threads[t], me);
+    if (thread) result.threads.push(thread);
+  }
+  if (threads.length === max) result.nextPageToken = String(start + max);
+  return successResponse(result);
+}
+
+/**
+ * Snapshot a thread for sync, or null when it is missing, in spam, hidden
+ * by the security filter or has nothing outside the trash.
+ */
+function syncThread_(thread, me) {
+  if (!thread || thread.isInSpam()) return null;
+  if (isSecurityThread(thread)) {
+    logSecurityIntercept('sync.changes', 'Filtered thread ' + thread.getId());
+    return null;
+  }
+  var userLabels = thread.getLabels().map(function(l) { return l.getName(); });
+  var messages = [];
+  var all = thread.getMessages();
+  for (var i = 0; i < all.length; i++) {
+    var m = all[i];
+    if (m.isInTrash()) continue;
+    var labels = [];
+    if (m.isInInbox()) labels.push('INBOX');
+    if (m.isDraft()) labels.push('DRAFT');
+    else if ((m.getFrom() || '').toLowerCase().indexOf(me) !== -1) labels.push('SENT');
+    messages.push({
+      messageId: m.getId(),
+      date: m.getDate().toISOString(),
+      from: m.getFrom(),
+      to: m.getTo(),
+      subject: m.getSubject(),
+      labels: labels.concat(userLabels),
+      isUnread: m.isUnread(),
+      isStarred: m.isStarred(),
+      raw: m.getRawContent()
+    });
+  }
+  if (messages.length === 0) return null;
+  return { threadId: thread.getId(), messages: messages };
+}
+
 // --- Settings (Gmail Advanced Service) ---
 
+/**
+ * Get the vacation responder, or with set: true change the fields that were
+ * given and keep the rest of the saved settings.
+ */
 function gmailSettingsVacation(params) {
   var userId = 'me';
   if (params.set === true) {
-    var vacation = {
-      enableAutoReply: params.enabled !== false,
-      responseSubject: params.subject || '',
-      responseBodyPlainText: params.body || '',
-      responseBodyHtml: params.bodyHtml || ''
-    };
+    var vacation = Gmail.Users.Settings.getVacation(userId);
+    if (typeof params.enabled === 'boolean') vacation.enableAutoReply = params.enabled;
+    if (params.subject !== undefined) vacation.responseSubject = params.subject;
+    if (params.body !== undefined) vacation.responseBodyPlainText = params.body;
+    if (params.bodyHtml !== undefined) vacation.responseBodyHtml = params.bodyHtml;
     if (params.startTime) vacation.startTime = new Date(params.startTime).getTime();
     if (params.endTime) vacation.endTime = new Date(params.endTime).getTime();
-    if (params.restrictToContacts) vacation.restrictToContacts = true;
-    if (params.restrictToDomain) vacation.restrictToDomain = true;
+    if (typeof params.restrictToContacts === 'boolean') vacation.restrictToContacts = params.restrictToContacts;
+    if (typeof params.restrictToDomain === 'boolean') vacation.restrictToDomain = params.restrictToDomain;
     var result = Gmail.Users.Settings.updateVacation(vacation, userId);
     return successResponse(result);
   }
@@ -396,19 +971,58 @@ function gmailSettingsVacation(params) {
   return successResponse(current);
 }
 
+/**
+ * List filters together with the user labels they can refer to, so callers
+ * can show label names instead of IDs.
+ */
 function gmailSettingsFiltersList() {
   var result = Gmail.Users.Settings.Filters.list('me');
-  return successResponse({ filters: result.filter || [] });
+  return successResponse({ filters: result.filter || [], labels: userLabelIds_() });
 }
 
+/**
+ * Create a filter. An optional labelName is resolved to its label ID (the
+ * label is created when missing) and added to action.addLabelIds.
+ */
 function gmailSettingsFiltersCreate(params) {
   var err = validateParams(params, ['criteria', 'action']);
   if (err) return err;
-  var filter = { criteria: params.criteria, action: params.action };
+  var action = params.action;
+  if (params.labelName) {
+    var labelId = findLabelId_(params.labelName);
+    if (!labelId) labelId = Gmail.Users.Labels.create({ name: params.labelName }, 'me').id;
+    action = JSON.parse(JSON.stringify(action));
+    action.addLabelIds = (action.addLabelIds || []).concat([labelId]);
+  }
+  var filter = { criteria: params.criteria, action: action };
   var result = Gmail.Users.Settings.Filters.create(filter, 'me');
   return successResponse(result);
 }
 
+/** User labels as [{id, name}] from the Gmail API. */
+function userLabelIds_() {
+  var labels = Gmail.Users.Labels.list('me').labels || [];
+  var result = [];
+  for (var i = 0; i < labels.length; i++) {
+    if (labels[i].type === 'system') continue;
+    result.push({ id: labels[i].id, name: labels[i].name });
+  }
+  return result;
+}
+
+function findLabelId_(name) {
+  var label = findByName_(userLabelIds_(), name);
+  return label ? label.id : null;
+}
+
+function findByName_(labels, name) {
+  var wanted = String(name).toLowerCase();
+  for (var i = 0; i < labels.length; i++) {
+    if (labels[i].name.toLowerCase() === wanted) return labels[i];
+  }
+  return null;
+}
+
 function gmailSettingsFiltersDelete(params) {
   var err = validateParams(params, ['filterId']);
   if (err) return err;